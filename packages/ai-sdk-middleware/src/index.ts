@@ -4,7 +4,7 @@ import { wrapLanguageModel } from 'ai';
 import { createMiddleware } from './middleware';
 import type { ContextChefOptions } from './types';
 
-export type { ClearTarget } from '@context-chef/core';
+export { type ClearTarget, READ_CONTEXT_TOOL_NAME } from '@context-chef/core';
 export { type AISDKMessage, fromAISDK, toAISDK } from './adapter';
 export {
   type CompactionPlanModelMessages,
@@ -18,6 +18,7 @@ export {
   summarizeMessages,
   summarizeModelMessages,
 } from './middleware';
+export { createReadContextTool, withReadContextTool } from './readContext';
 export type {
   CompactConfig,
   CompressOptions,
@@ -46,9 +47,9 @@ export type {
  * const result = await generateText({ model, messages, tools });
  * ```
  */
-export function withContextChef(
+export function withContextChef<TSummary = unknown>(
   model: LanguageModelV4,
-  options: ContextChefOptions,
+  options: ContextChefOptions<TSummary>,
 ): LanguageModelV4 {
   const middleware = createMiddleware(options);
   return wrapLanguageModel({ model, middleware });
@@ -11,12 +11,14 @@ import {
   DEFAULT_SESSION_KEY,
   dedupeConstructionWarnings,
   flattenForCompression,
+  InMemorySummaryCache,
   Janitor,
   type Message,
   normalizeSessionKey,
   Prompts,
   SessionPool,
   type SummarizeHistoryOptions,
+  type SummaryCacheStore,
   summarizeHistory,
   XmlGenerator,
 } from '@context-chef/core';
@@ -30,7 +32,7 @@ import {
 
 import { fromAISDK, toAISDK } from './adapter';
 import { fromModelMessages } from './modelMessageAdapter';
-import { truncateToolResults } from './truncator';
+import { dropSessionStorage, truncateToolResults } from './truncator';
 import type { ContextChefOptions, DynamicStateConfig } from './types';
 
 /**
@@ -50,7 +52,9 @@ const COMPRESS_WITHOUT_PERSISTENCE_WARN_THRESHOLD = 3;
  * The middleware holds a stateful Janitor instance that tracks
  * token usage across calls for compression decisions.
  */
-export function createMiddleware(options: ContextChefOptions): LanguageModelMiddleware {
+export function createMiddleware<TSummary = unknown>(
+  options: ContextChefOptions<TSummary>,
+): LanguageModelMiddleware {
   const logger = options.logger ?? console;
   let usageWarned = false;
 
@@ -69,10 +73,17 @@ export function createMiddleware(options: ContextChefOptions): LanguageModelMidd
     );
   }
 
+  // Content-addressed, so one cache safely serves every session below.
+  const summaryCache =
+    options.compress?.summaryCache === false
+      ? undefined
+      : (options.compress?.summaryCache ?? new InMemorySummaryCache());
+
   // Surface the in-flight-without-persistence footgun: if compression keeps
-  // firing but no `onCompress` is configured, the summary is discarded each
-  // call and history re-expands, so the payload grows unbounded (and
-  // compression effectively skips every other call via E10 suppression).
+  // firing but neither `onCompress` nor the summary cache is in play, the
+  // summary is discarded each call and history re-expands, so the payload
+  // grows unbounded (and compression effectively skips every other call via
+  // E10 suppression).
   let compressionsFired = 0;
   let persistenceWarned = false;
   const onCompressionFired = () => {
@@ -80,6 +91,7 @@ export function createMiddleware(options: ContextChefOptions): LanguageModelMidd
     if (
       persistenceWarned ||
       options.onCompress ||
+      summaryCache ||
       compressionsFired < COMPRESS_WITHOUT_PERSISTENCE_WARN_THRESHOLD
     ) {
       return;
@@ -111,6 +123,7 @@ export function createMiddleware(options: ContextChefOptions): LanguageModelMidd
             options.contextWindow as number,
             constructionLogger,
             onCompressionFired,
+            summaryCache,
           ),
         ),
         { maxSize: options.maxSessions },
@@ -127,18 +140,44 @@ export function createMiddleware(options: ContextChefOptions): LanguageModelMidd
     );
   };
 
-  const janitorFor = (params: { providerOptions?: Record<string, unknown> }): Janitor | null => {
-    if (!janitors) return null;
+  const sessionKeyFor = (params: { providerOptions?: Record<string, unknown> }): string => {
     const ns = params.providerOptions?.contextChef;
     if (ns != null && typeof ns !== 'object') {
       // Malformed namespace (e.g. contextChef: 'abc') — never a session key.
       flagInvalidSessionKey(ns);
-      return janitors.get(DEFAULT_SESSION_KEY);
+      return DEFAULT_SESSION_KEY;
     }
     const raw = ns ? (ns as Record<string, unknown>).sessionId : undefined;
-    return janitors.get(normalizeSessionKey(raw, flagInvalidSessionKey));
+    return normalizeSessionKey(raw, flagInvalidSessionKey);
   };
 
+  const janitorFor = (params: {
+    providerOptions?: Record<string, unknown>;
+  }): Janitor<TSummary> | null => (janitors ? janitors.get(sessionKeyFor(params)) : null);
+
+  // With `truncate.sessionQuota`, each session's offloaded tool results live
+  // in their own namespace of the shared storage. This pool tracks live
+  // sessions under the same cap as the Janitors and deletes a session's
+  // namespace once it drops out, so abandoned sessions don't hold storage.
+  const truncate = options.truncate;
+  let storageSessions: SessionPool<string> | null = null;
+  if (truncate?.summarizer && !truncate.storage) {
+    logger.warn('[context-chef] `truncate.summarizer` requires `truncate.storage` — ignoring it.');
+  }
+  if (truncate?.sessionQuota) {
+    if (truncate.storage?.list && truncate.storage.delete) {
+      storageSessions = new SessionPool((key) => key, {
+        maxSize: options.maxSessions,
+        onEvict: (key) => void dropSessionStorage(truncate, key, logger),
+      });
+    } else {
+      logger.warn(
+        '[context-chef] `truncate.sessionQuota` requires a `truncate.storage` adapter with ' +
+          'list() and delete() — ignoring it.',
+      );
+    }
+  }
+
   const clearsToolResults = !!options.clear?.some(
     (t) => t === 'tool-result' || (typeof t === 'object' && t.target === 'tool-result'),
   );
@@ -164,7 +203,8 @@ export function createMiddleware(options: ContextChefOptions): LanguageModelMidd
 
       // 1. Truncate large tool results
       if (options.truncate) {
-        prompt = await truncateToolResults(prompt, options.truncate, logger);
+        const session = storageSessions?.get(sessionKeyFor(params));
+        prompt = await truncateToolResults(prompt, options.truncate, logger, session);
       }
 
       // 2. Compact (mechanical, zero LLM cost) via pruneMessages
@@ -181,7 +221,7 @@ export function createMiddleware(options: ContextChefOptions): LanguageModelMidd
 
       // 4. Compress conversation history if over token budget (budgeting only)
       if (janitor) {
-        conversation = await janitor.compress(conversation);
+        conversation = await janitor.compress(conversation, { signal: params.abortSignal });
       }
 
       // 4.5 Placeholder-style clearing (core semantics) — after compress so
@@ -277,27 +317,47 @@ export function createMiddleware(options: ContextChefOptions): LanguageModelMidd
  * members exactly — a single literal carrying `tokenizer: Fn | undefined`
  * would not narrow to either branch.
  */
-function createJanitor(
-  options: ContextChefOptions,
+function createJanitor<TSummary>(
+  options: ContextChefOptions<TSummary>,
   contextWindow: number,
   logger: ChefLogger,
   onCompressionFired: () => void,
-): Janitor {
+  summaryCache: SummaryCacheStore | undefined,
+): Janitor<TSummary> {
   const userOnCompress = options.onCompress;
   const sharedJanitorConfig = {
     contextWindow,
     toolResultStubThreshold: options.compress?.toolResultStubThreshold,
+    incrementalSummary: options.compress?.incrementalSummary,
+    hierarchicalSummary: options.compress?.hierarchicalSummary,
+    summarySchema: options.compress?.summarySchema,
+    compressionFallbacks: [
+      ...(options.compress?.fallbackModels?.map((m) => createCompressionAdapter(m)) ?? []),
+      ...(options.compress?.fallbackCompressors ?? []),
+    ],
+    summaryChecks: options.compress?.summaryChecks,
+    degradation: options.compress?.degradation,
+    speculativeCompression: options.compress?.speculativeCompression,
+    summaryCache,
     compressionModel: options.compress?.model
       ? createCompressionAdapter(options.compress.model)
       : undefined,
     // Always installed so every compression is counted for the
     // persistence warning; the user's hook is forwarded when configured.
-    onCompress: (summary: Message, count: number, details: CompressionDetails) => {
+    onCompress: (summary: Message, count: number, details: CompressionDetails<TSummary>) => {
       onCompressionFired();
       userOnCompress?.(summary.content, count, {
         compressedMessages: toAISDK(details.compressedMessages),
+        ...(details.tiers && { tiers: details.tiers }),
+        ...(details.compressionModelIndex !== undefined && {
+          compressionModelIndex: details.compressionModelIndex,
+        }),
+        ...(details.structuredSummary !== undefined && {
+          structuredSummary: details.structuredSummary,
+        }),
       });
     },
+    onDegrade: options.onDegrade,
     onBeforeCompress: options.onBeforeCompress,
     logger,
   };
@@ -0,0 +1,46 @@
+import {
+  getReadContextToolDefinition,
+  Offloader,
+  READ_CONTEXT_TOOL_NAME,
+  type ReadContextArgs,
+  type ReadContextLimits,
+  type VFSStorageAdapter,
+} from '@context-chef/core';
+import { type JSONSchema7, jsonSchema, type Tool, type ToolSet, tool } from 'ai';
+
+/**
+ * AI SDK tool that reads back content offloaded by `truncate.storage` — by
+ * line range, character window, or regex search. Register it under
+ * `READ_CONTEXT_TOOL_NAME` in the `tools` of `generateText` / `streamText`:
+ * a language-model middleware can advertise a tool but cannot execute it,
+ * so the middleware does not inject it itself. {@link withReadContextTool}
+ * does the registration.
+ */
+export function createReadContextTool(
+  storage: VFSStorageAdapter,
+  limits?: ReadContextLimits,
+): Tool<ReadContextArgs, string> {
+  const definition = getReadContextToolDefinition();
+  const offloader = new Offloader({ adapter: storage, storageDir: '' });
+  return tool({
+    description: definition.description,
+    inputSchema: jsonSchema<ReadContextArgs>(definition.parameters as JSONSchema7),
+    execute: (args) => offloader.readContextAsync(args, limits),
+  });
+}
+
+/**
+ * Returns `tools` with the `read_context` tool added, for the `tools` of
+ * `generateText` / `streamText`. A tool already registered under that name
+ * is left alone.
+ *
+ * @example
+ * await generateText({ model, tools: withReadContextTool(myTools, storage), prompt });
+ */
+export function withReadContextTool<TOOLS extends ToolSet>(
+  tools: TOOLS,
+  storage: VFSStorageAdapter,
+  limits?: ReadContextLimits,
+) {
+  return { [READ_CONTEXT_TOOL_NAME]: createReadContextTool(storage, limits), ...tools };
+}
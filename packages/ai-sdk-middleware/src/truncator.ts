@@ -3,29 +3,50 @@ import type {
   LanguageModelV4ToolResultOutput,
   LanguageModelV4ToolResultPart,
 } from '@ai-sdk/provider';
-import { type ChefLogger, Offloader } from '@context-chef/core';
+import {
+  type ChefLogger,
+  type ExtractionStrategy,
+  type ExtractionStrategyName,
+  Offloader,
+  truncateInline,
+  type VFSStorageAdapter,
+} from '@context-chef/core';
 import { stringifyToolOutput } from './adapter';
 import type { TruncateOptions } from './types';
 
+// One Offloader per options object when it holds state worth keeping across
+// calls — the summary memo, or the per-session index `sessionQuota` caps —
+// since the whole prompt is re-truncated on every request.
+const cachedOffloaders = new WeakMap<TruncateOptions, Offloader>();
+
 /**
  * Truncates tool-result content within an AI SDK prompt when it exceeds the configured threshold.
  * When a storage adapter is provided, original content is persisted and a URI is included in the output.
+ * With `sessionQuota`, pass the caller's session key as `session` to store results in its namespace.
  */
 export async function truncateToolResults(
   prompt: LanguageModelV4Prompt,
   options: TruncateOptions,
   logger: ChefLogger = console,
+  session?: string,
 ): Promise<LanguageModelV4Prompt> {
-  const { threshold, headChars = 0, tailChars = 1000, storage } = options;
+  const { threshold, headChars = 0, tailChars = 1000, storage, summarizer, strategy } = options;
 
-  const offloader = storage
-    ? new Offloader({ threshold, adapter: storage, storageDir: '', logger })
-    : null;
+  const offloader = storage ? offloaderFor(options, storage, logger) : null;
+  const namespace = options.sessionQuota ? session : undefined;
+  let stored = false;
   const policy = buildPolicyMap(options.perTool);
+  const toolInputs = new Map<string, unknown>();
 
   const result: LanguageModelV4Prompt = [];
 
   for (const msg of prompt) {
+    if (msg.role === 'assistant') {
+      for (const part of msg.content) {
+        if (part.type === 'tool-call') toolInputs.set(part.toolCallId, part.input);
+      }
+    }
+
     if (msg.role !== 'tool') {
       result.push(msg);
       continue;
@@ -49,9 +70,14 @@ export async function truncateToolResults(
       const effThreshold = toolPolicy?.threshold ?? threshold;
       const effHeadChars = toolPolicy?.headChars ?? headChars;
       const effTailChars = toolPolicy?.tailChars ?? tailChars;
+      const effStrategy = toolPolicy?.strategy ?? strategy;
 
       const text = extractText(part.output);
-      if (text.length <= effThreshold || effHeadChars + effTailChars >= text.length) {
+      const summarize = !!(offloader && summarizer);
+      if (
+        text.length <= effThreshold ||
+        (!summarize && effHeadChars + effTailChars >= text.length)
+      ) {
         newContent.push(part);
         continue;
       }
@@ -63,7 +89,13 @@ export async function truncateToolResults(
             threshold: effThreshold,
             headChars: effHeadChars,
             tailChars: effTailChars,
+            summarizer,
+            strategy: effStrategy,
+            namespace,
+            toolName: part.toolName,
+            toolArgs: toolInputs.get(part.toolCallId),
           });
+          stored ||= vfsResult.isOffloaded;
           newContent.push({
             ...part,
             output: {
@@ -82,18 +114,7 @@ export async function truncateToolResults(
       }
 
       // Without storage: simple truncation, original is discarded
-      const head = text.slice(0, effHeadChars);
-      const tail = text.slice(text.length - effTailChars);
-      const totalLines = text.split('\n').length;
-
-      const truncated = [
-        head,
-        `\n--- truncated (${totalLines} lines, ${text.length} chars total) ---\n`,
-        tail,
-      ]
-        .filter(Boolean)
-        .join('')
-        .trim();
+      const truncated = truncateInline(text, effHeadChars, effTailChars, effStrategy, logger);
 
       newContent.push({
         ...part,
@@ -104,9 +125,71 @@ export async function truncateToolResults(
     result.push({ ...msg, content: newContent });
   }
 
+  if (offloader && namespace && stored) {
+    await enforceSessionQuota(offloader, namespace, result, logger);
+  }
   return result;
 }
 
+/**
+ * Applies `sessionQuota` to the session's namespace. Results the outgoing
+ * prompt still references are kept, so the model is never handed a URI
+ * whose content was just deleted.
+ */
+async function enforceSessionQuota(
+  offloader: Offloader,
+  namespace: string,
+  outgoing: LanguageModelV4Prompt,
+  logger: ChefLogger,
+): Promise<void> {
+  try {
+    await offloader.cleanupAsync({ namespace, protectReferenced: true, roots: [outgoing] });
+  } catch (error) {
+    logger.warn(
+      `[context-chef] Session storage quota cleanup failed. ` +
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+function offloaderFor(
+  options: TruncateOptions,
+  storage: VFSStorageAdapter,
+  logger: ChefLogger,
+): Offloader {
+  const cached = cachedOffloaders.get(options);
+  if (cached) return cached;
+  const offloader = new Offloader({
+    threshold: options.threshold,
+    adapter: storage,
+    storageDir: '',
+    namespaceLimits: options.sessionQuota,
+    logger,
+  });
+  if (options.summarizer || options.sessionQuota) cachedOffloaders.set(options, offloader);
+  return offloader;
+}
+
+/**
+ * Deletes everything stored for `session` under `sessionQuota` — called when
+ * the session leaves the middleware's session pool. Failures are logged.
+ */
+export async function dropSessionStorage(
+  options: TruncateOptions,
+  session: string,
+  logger: ChefLogger = console,
+): Promise<void> {
+  if (!options.storage) return;
+  try {
+    await offloaderFor(options, options.storage, logger).dropNamespaceAsync(session);
+  } catch (error) {
+    logger.warn(
+      `[context-chef] Failed to drop stored tool results for session "${session}". ` +
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
 type ToolPolicy =
   | { preserve: true }
   | {
@@ -114,6 +197,7 @@ type ToolPolicy =
       threshold?: number;
       headChars?: number;
       tailChars?: number;
+      strategy?: ExtractionStrategyName | ExtractionStrategy;
     };
 
 /**
@@ -132,6 +216,7 @@ function buildPolicyMap(perTool: TruncateOptions['perTool']): Map<string, ToolPo
         threshold: entry.threshold,
         headChars: entry.headChars,
         tailChars: entry.tailChars,
+        strategy: entry.strategy,
       });
     }
   }
@@ -2,8 +2,21 @@ import type { LanguageModelV4, LanguageModelV4Prompt } from '@ai-sdk/provider';
 import type {
   ChefLogger,
   ClearTarget,
+  CompressionModel,
+  DegradationEvent,
+  DegradationPolicy,
+  ExtractionStrategy,
+  ExtractionStrategyName,
+  HierarchicalSummaryConfig,
+  JanitorConfig,
   Message,
   Skill,
+  SpeculativeCompressionConfig,
+  SummaryCacheStore,
+  SummaryQualityCheck,
+  SummaryTier,
+  ToolResultSummarizer,
+  VFSNamespaceLimits,
   VFSStorageAdapter,
 } from '@context-chef/core';
 
@@ -21,13 +34,44 @@ export interface TruncateOptions {
    * When omitted, original content is discarded after truncation.
    */
   storage?: VFSStorageAdapter;
+  /**
+   * Summarizes an oversized tool result instead of keeping only head/tail
+   * characters — for search results or API responses whose middle matters.
+   * Receives the tool name and the originating tool call's `input`. The
+   * summary and the `context://vfs/` URI replace the result; a throw falls
+   * back to head/tail. Requires `storage` (ignored with a warning otherwise),
+   * which keeps the original retrievable and lets summaries be reused across
+   * calls instead of re-summarizing every turn.
+   */
+  summarizer?: ToolResultSummarizer;
+  /**
+   * Chooses what the truncated preview keeps instead of plain head/tail:
+   * `'log'` (error/warning lines with context), `'diff'` (hunk headers and
+   * changed lines), `'json'` (structural skeleton), `'stack-trace'`
+   * (exception headers and top/application frames), or a custom function.
+   * The excerpt is bounded by `headChars + tailChars`; content the strategy
+   * doesn't recognise keeps the head/tail preview. Usually set per tool via
+   * `perTool`.
+   */
+  strategy?: ExtractionStrategyName | ExtractionStrategy;
+  /**
+   * Gives each session its own slice of `storage`. Results are stored under
+   * `providerOptions.contextChef.sessionId` (calls without one share the
+   * default session) and capped per session, so a runaway conversation
+   * evicts its own least-recently-used results rather than everyone else's.
+   * Results the current request still references are never evicted. A
+   * session's stored results are deleted once it drops out of the
+   * `maxSessions` pool. Requires a `storage` adapter with `list()` and
+   * `delete()` (ignored with a warning otherwise).
+   */
+  sessionQuota?: VFSNamespaceLimits;
   /**
    * Per-tool overrides applied on top of the defaults above.
    *
    * - String entry → preserve: never truncate this tool's result. Storage
    *   is bypassed entirely (nothing written to VFS).
-   * - Object entry → override `threshold` / `headChars` / `tailChars` for
-   *   that tool only. Storage behavior unchanged.
+   * - Object entry → override `threshold` / `headChars` / `tailChars` /
+   *   `strategy` for that tool only. Storage behavior unchanged.
    *
    * Tools not listed fall back to the top-level defaults. If the same
    * `name` appears more than once, the last entry wins (a bare string
@@ -47,6 +91,7 @@ export interface TruncateOptions {
         threshold?: number;
         headChars?: number;
         tailChars?: number;
+        strategy?: ExtractionStrategyName | ExtractionStrategy;
       }
   >;
 }
@@ -55,17 +100,18 @@ export interface TruncateOptions {
  * History compression via LLM summarization.
  *
  * **Persistence:** the middleware compresses *in-flight* — it rewrites each
- * outgoing request but does NOT mutate your message store. For a one-off
- * over-budget spike that is enough. But for a *sustained* over-budget
- * conversation (a long chat, or a long multi-step loop), the un-persisted
- * summary is discarded each call and the history re-expands, so the payload
- * grows unbounded and compression effectively fires only every other call
- * (E10 suppression). For sustained use, persist the summary via
- * {@link ContextChefOptions.onCompress} — replace the compressed slice in
- * your own store — or use `compactModelMessages` for durable compaction. The
- * middleware warns once if compression keeps firing without `onCompress`.
+ * outgoing request but does NOT mutate your message store, so the history
+ * re-expands on the next call. The default `summaryCache` absorbs that: the
+ * re-sent prefix maps back to its summary without another model call, on
+ * every call. With `summaryCache: false`, the un-persisted summary is
+ * discarded each call, the payload grows unbounded and compression
+ * effectively fires only every other call (E10 suppression). Durable options
+ * remain: persist the summary via {@link ContextChefOptions.onCompress} —
+ * replace the compressed slice in your own store — or use
+ * `compactModelMessages`. The middleware warns once if compression keeps
+ * firing with neither `onCompress` nor a cache.
  */
-export interface CompressOptions {
+export interface CompressOptions<TSummary = unknown> {
   /** A cheap model used for summarization (e.g. openai('gpt-4o-mini')). */
   model: LanguageModelV4;
   /** Ratio of context window to preserve for recent messages. Default: 0.8 */
@@ -95,6 +141,64 @@ export interface CompressOptions {
    *   at construction time with a warning (via the configured `logger`).
    */
   usagePreference?: 'max' | 'feedFirst' | 'tokenizerFirst';
+  /**
+   * Incremental summarization: merge newly evicted turns into the previous
+   * summary instead of re-summarizing the whole slice each time. Only takes
+   * effect when the previous summary message comes back in the history —
+   * i.e. when you persist it via `onCompress`. Default: false.
+   */
+  incrementalSummary?: boolean;
+  /**
+   * Summarize evicted turns into level-0 chunks that are rolled up into
+   * higher-level epoch summaries over time, with optional per-tier token caps.
+   * Pass `true` for defaults. Takes precedence over `incrementalSummary`.
+   */
+  hierarchicalSummary?: boolean | HierarchicalSummaryConfig;
+  /**
+   * zod schema for structured summaries: the compression model returns JSON
+   * matching it (one retry on validation failure), the validated object is
+   * rendered into the summary and passed to `onCompress` as
+   * `details.structuredSummary`.
+   */
+  summarySchema?: JanitorConfig<TSummary>['summarySchema'];
+  /**
+   * Tried in order when `model` fails or its summary is rejected by
+   * `summaryChecks`. For a deterministic last resort, use `fallbackCompressors`
+   * with core's `createExtractiveCompressionModel()`.
+   */
+  fallbackModels?: LanguageModelV4[];
+  /** Raw compression-model callbacks appended after `fallbackModels`. */
+  fallbackCompressors?: CompressionModel[];
+  /**
+   * Quality gates for every candidate summary; a rejection moves on to the
+   * next model. See core's `minSummaryLength` / `requireMentions` /
+   * `maxSummaryTokens`.
+   */
+  summaryChecks?: SummaryQualityCheck[];
+  /**
+   * Tiered degradation: clear thinking, stub, then offload large tool
+   * results as usage approaches the context window, before summarizing.
+   * Thresholds are fractions of the window. Supply `offload` to enable the
+   * offload rung — the middleware has no default VFS for it.
+   */
+  degradation?: DegradationPolicy;
+  /**
+   * Start summarizing in the background once usage crosses a soft threshold
+   * (default 0.8 of the window), so the call that exceeds the budget can
+   * swap the cached summary in without waiting on the model. Only pays off
+   * when the evicted prefix comes back unchanged on later calls.
+   */
+  speculativeCompression?: boolean | SpeculativeCompressionConfig;
+  /**
+   * Content-addressed summary cache, keyed by a hash of the compressed
+   * prefix. Requests that re-send the same prefix reuse the earlier summary
+   * without a model call — including the call right after a compression,
+   * which would otherwise go out uncompressed. Defaults to an
+   * `InMemorySummaryCache` shared by all sessions of this middleware; pass
+   * your own `SummaryCacheStore` to share across processes, or `false` to
+   * disable.
+   */
+  summaryCache?: SummaryCacheStore | false;
 }
 
 /**
@@ -154,7 +258,8 @@ export interface DynamicStateConfig {
   placement?: 'system' | 'last_user';
 }
 
-export interface ContextChefOptions {
+/** `TSummary` is the output type of `compress.summarySchema`, inferred from it. */
+export interface ContextChefOptions<TSummary = unknown> {
   /**
    * The model's context window size in tokens.
    *
@@ -166,7 +271,7 @@ export interface ContextChefOptions {
    */
   contextWindow?: number;
   /** Enable history compression. Omit for no compression. */
-  compress?: CompressOptions;
+  compress?: CompressOptions<TSummary>;
   /** Enable tool result truncation. Omit for no truncation. */
   truncate?: TruncateOptions;
   /**
@@ -183,7 +288,10 @@ export interface ContextChefOptions {
    * boundary advances each turn, which invalidates the provider prefix
    * cache at the first newly-cleared message — inherent to the semantics.
    *
-   * Scope: only `'tool-result'` targets take effect here. A `'thinking'`
+   * `'duplicate-tool-result'` instead replaces older copies of a repeated
+   * result with a back-reference to the newest copy (no explainer needed).
+   *
+   * Scope: only tool-result targets take effect here. A `'thinking'`
    * target is a no-op (reasoning parts pass through the adapter unchanged)
    * and logs a warning — use `compact: { reasoning: ... }` to drop reasoning.
    */
@@ -229,12 +337,29 @@ export interface ContextChefOptions {
    * messages (after truncate/compact): match tool messages back to your
    * records by `toolCallId`; user/assistant text is not modified by those
    * steps.
+   *
+   * `details.tiers` carries the summary tier layout when
+   * `compress.hierarchicalSummary` is enabled; `details.structuredSummary`
+   * the validated object when `compress.summarySchema` is set;
+   * `details.compressionModelIndex` which model in the compression chain
+   * produced the summary (0 = the primary).
    */
   onCompress?: (
     summary: string,
     truncatedCount: number,
-    details: { compressedMessages: LanguageModelV4Prompt },
+    details: {
+      compressedMessages: LanguageModelV4Prompt;
+      tiers?: SummaryTier[];
+      structuredSummary?: TSummary;
+      compressionModelIndex?: number;
+    },
   ) => void;
+  /**
+   * Called for each rung of the degradation ladder that changed the history
+   * (see `compress.degradation`), and with stage `'summarize'` whenever
+   * compression evicts messages.
+   */
+  onDegrade?: (event: DegradationEvent) => void;
   /**
    * Called when token budget is exceeded, before LLM compression.
    * Return modified messages to replace history, or null/undefined to
@@ -401,6 +401,91 @@ describe('createMiddleware', () => {
     expect(nags).toHaveLength(1);
   });
 
+  it('drops the stored tool results of a session when it leaves the session pool', async () => {
+    const stored = new Map<string, string>();
+    const middleware = createMiddleware({
+      maxSessions: 1,
+      truncate: {
+        threshold: 100,
+        tailChars: 20,
+        sessionQuota: { maxFiles: 10 },
+        storage: {
+          write: (filename, content) => {
+            stored.set(filename, content);
+          },
+          read: (filename) => stored.get(filename) ?? null,
+          list: () => [...stored.keys()],
+          delete: (filename) => {
+            stored.delete(filename);
+          },
+        },
+      },
+    });
+    const model = createMockModel();
+    const callAs = (sessionId: string) =>
+      assertDefined(
+        middleware.transformParams,
+        'transformParams',
+      )({
+        params: {
+          prompt: [
+            {
+              role: 'tool',
+              content: [
+                {
+                  type: 'tool-result',
+                  toolCallId: 'call_1',
+                  toolName: 'run_cmd',
+                  output: { type: 'text', value: `${sessionId} `.repeat(50) },
+                },
+              ],
+            },
+          ],
+          providerOptions: { contextChef: { sessionId } },
+        },
+        type: 'generate',
+        model,
+      });
+
+    await callAs('user-a');
+    expect([...stored.keys()]).toEqual([expect.stringMatching(/^user-a\//)]);
+    await callAs('user-b');
+    await vi.waitFor(() => {
+      expect([...stored.keys()]).toEqual([expect.stringMatching(/^user-b\//)]);
+    });
+  });
+
+  it('warns and ignores sessionQuota when storage cannot list or delete', () => {
+    const warn = vi.fn();
+    createMiddleware({
+      truncate: {
+        threshold: 100,
+        sessionQuota: { maxFiles: 1 },
+        storage: { write: () => {}, read: () => null },
+      },
+      logger: { warn },
+    });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('`truncate.sessionQuota` requires'));
+  });
+
+  it('warns once at construction when truncate.summarizer has no storage', async () => {
+    const warn = vi.fn();
+    const middleware = createMiddleware({
+      truncate: { threshold: 100, summarizer: async () => 'summary' },
+      logger: { warn },
+    });
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('requires `truncate.storage`'));
+
+    const params: LanguageModelV4CallOptions = {
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+    };
+    const transform = assertDefined(middleware.transformParams, 'transformParams');
+    await transform({ params, type: 'generate', model: createMockModel() });
+    await transform({ params, type: 'generate', model: createMockModel() });
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
   it('onCompress receives the compressed slice in AI SDK format', async () => {
     const onCompressSpy = vi.fn();
     const middleware = createMiddleware({
@@ -1445,6 +1530,38 @@ describe('clear', () => {
       .map((m) => (typeof m.content === 'string' ? m.content : JSON.stringify(m.content)));
     expect(systemTexts.some((t) => t.includes('automatically cleared'))).toBe(false);
   });
+
+  it('duplicate-tool-result replaces the older copy with a back-reference', async () => {
+    const middleware = createMiddleware({
+      clear: [{ target: 'duplicate-tool-result', minChars: 1 }],
+    });
+    const prompt = makeToolPrompt().map((m) =>
+      m.role === 'tool'
+        ? {
+            ...m,
+            content: m.content.map((p) =>
+              p.type === 'tool-result'
+                ? { ...p, output: { type: 'text' as const, value: 'file1.txt file2.txt' } }
+                : p,
+            ),
+          }
+        : m,
+    );
+
+    const result = await assertDefined(
+      middleware.transformParams,
+      'transformParams',
+    )({ params: { prompt }, type: 'generate', model: createMockModel() });
+
+    const outputs = result.prompt
+      .filter((m) => m.role === 'tool')
+      .flatMap((m) => (m.role === 'tool' ? m.content : []))
+      .map((p) => (p.type === 'tool-result' && p.output.type === 'text' ? p.output.value : null));
+    expect(outputs).toEqual([
+      '[Identical to the result of call call_2 at turn 3]',
+      'file1.txt file2.txt',
+    ]);
+  });
 });
 
 describe('compress persistence warning', () => {
@@ -1481,7 +1598,7 @@ describe('compress persistence warning', () => {
     const model = createMockModel({ inputTokens: 200 });
     const middleware = createMiddleware({
       contextWindow: 100,
-      compress: { model: createMockModel() },
+      compress: { model: createMockModel(), summaryCache: false },
       logger,
     });
 
@@ -1519,4 +1636,80 @@ describe('compress persistence warning', () => {
     );
     expect(persistenceWarns).toHaveLength(0);
   });
+
+  it('does not warn when the default summary cache is active', async () => {
+    const logger = { warn: vi.fn() };
+    const model = createMockModel({ inputTokens: 200 });
+    const middleware = createMiddleware({
+      contextWindow: 100,
+      compress: { model: createMockModel() },
+      logger,
+    });
+
+    const overBudget = makeConversation(10);
+    for (let i = 0; i < 12; i++) {
+      await runCycle(middleware, model, overBudget);
+    }
+
+    const persistenceWarns = logger.warn.mock.calls.filter(
+      ([msg]) => typeof msg === 'string' && msg.includes('compress has fired'),
+    );
+    expect(persistenceWarns).toHaveLength(0);
+  });
+});
+
+describe('compress summary cache', () => {
+  async function transform(
+    middleware: ReturnType<typeof createMiddleware>,
+    model: LanguageModelV4,
+    prompt: LanguageModelV4Prompt,
+  ): Promise<LanguageModelV4Prompt> {
+    const result = await assertDefined(
+      middleware.transformParams,
+      'transformParams',
+    )({
+      params: { prompt },
+      type: 'generate',
+      model,
+    });
+    return result.prompt;
+  }
+
+  it('reuses the summary for a re-sent prefix on every call without new model calls', async () => {
+    const summarizer = createMockModel({ outputText: '<summary>S</summary>' });
+    const summarize = vi.spyOn(summarizer, 'doGenerate');
+    const model = createMockModel();
+    const middleware = createMiddleware({
+      contextWindow: 2000,
+      tokenizer: (msgs) => msgs.length * 100,
+      compress: { model: summarizer, preserveRatio: 0.3 },
+    });
+
+    const prompt = makeConversation(15);
+    const outputs: LanguageModelV4Prompt[] = [];
+    for (let i = 0; i < 3; i++) outputs.push(await transform(middleware, model, prompt));
+
+    expect(summarize).toHaveBeenCalledOnce();
+    for (const out of outputs) expect(out.length).toBeLessThan(prompt.length);
+    expect(outputs[1]).toEqual(outputs[0]);
+  });
+
+  it('re-summarizes each time with summaryCache: false', async () => {
+    const summarizer = createMockModel({ outputText: '<summary>S</summary>' });
+    const summarize = vi.spyOn(summarizer, 'doGenerate');
+    const model = createMockModel();
+    const middleware = createMiddleware({
+      contextWindow: 2000,
+      tokenizer: (msgs) => msgs.length * 100,
+      compress: { model: summarizer, preserveRatio: 0.3, summaryCache: false },
+    });
+
+    const prompt = makeConversation(15);
+    const outputs: LanguageModelV4Prompt[] = [];
+    for (let i = 0; i < 3; i++) outputs.push(await transform(middleware, model, prompt));
+
+    expect(summarize).toHaveBeenCalledTimes(2);
+    // E10: the call after a compression goes out uncompressed.
+    expect(outputs[1]).toEqual(prompt);
+  });
 });
@@ -0,0 +1,59 @@
+import type { LanguageModelV4Prompt } from '@ai-sdk/provider';
+import type { VFSStorageAdapter } from '@context-chef/core';
+import { describe, expect, it } from 'vitest';
+import { createReadContextTool, withReadContextTool } from '../src/readContext';
+import { truncateToolResults } from '../src/truncator';
+
+describe('createReadContextTool', () => {
+  it('reads back a tool result offloaded by truncate.storage', async () => {
+    const stored = new Map<string, string>();
+    const storage: VFSStorageAdapter = {
+      write: (filename, content) => {
+        stored.set(filename, content);
+      },
+      read: (filename) => stored.get(filename) ?? null,
+    };
+    const output = Array.from({ length: 300 }, (_, i) => `row ${i + 1}`).join('\n');
+    const prompt: LanguageModelV4Prompt = [
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool-result',
+            toolCallId: 'call_1',
+            toolName: 'query',
+            output: { type: 'text', value: output },
+          },
+        ],
+      },
+    ];
+
+    const [truncated] = await truncateToolResults(prompt, { threshold: 100, storage });
+    const part = truncated.role === 'tool' ? truncated.content[0] : undefined;
+    const marker =
+      part?.type === 'tool-result' && part.output.type === 'text' ? part.output.value : '';
+    const uri = marker.match(/context:\/\/vfs\/\S+/)?.[0] ?? '';
+
+    const readContext = createReadContextTool(storage);
+    const result = await readContext.execute?.(
+      { uri, pattern: '^row 150$', contextLines: 0 },
+      { toolCallId: 'call_2', messages: [], context: undefined },
+    );
+
+    expect(uri).not.toBe('');
+    expect(result).toBe(`[${uri} — 1 line matches /^row 150$/]\n150:row 150`);
+  });
+});
+
+describe('withReadContextTool', () => {
+  it('merges into a tools object without replacing a caller tool of that name', () => {
+    const storage: VFSStorageAdapter = { write: () => {}, read: () => null };
+    const search = createReadContextTool(storage);
+    const custom = createReadContextTool(storage);
+
+    const merged = withReadContextTool({ search }, storage);
+    expect(Object.keys(merged).sort()).toEqual(['read_context', 'search']);
+    expect(merged.search).toBe(search);
+    expect(withReadContextTool({ read_context: custom }, storage).read_context).toBe(custom);
+  });
+});
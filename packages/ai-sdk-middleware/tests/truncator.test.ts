@@ -290,4 +290,200 @@ describe('truncateToolResults', () => {
       }
     }
   });
+
+  describe('summarizer', () => {
+    const makeStorage = () => {
+      const stored: Record<string, string> = {};
+      const storage: VFSStorageAdapter = {
+        write(filename: string, content: string) {
+          stored[filename] = content;
+        },
+        read(filename: string) {
+          return stored[filename] ?? null;
+        },
+      };
+      return { stored, storage };
+    };
+    const searchPrompt = (output: string): LanguageModelV4Prompt => [
+      {
+        role: 'assistant',
+        content: [
+          { type: 'tool-call', toolCallId: 'call_1', toolName: 'search', input: { q: 'needle' } },
+        ],
+      },
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool-result',
+            toolCallId: 'call_1',
+            toolName: 'search',
+            output: { type: 'text', value: output },
+          },
+        ],
+      },
+    ];
+    const outputOf = (prompt: LanguageModelV4Prompt) => {
+      const part = prompt[1].role === 'tool' ? prompt[1].content[0] : undefined;
+      return part?.type === 'tool-result' && part.output.type === 'text' ? part.output.value : '';
+    };
+
+    it('replaces the result with a summary plus URI, given the tool call input', async () => {
+      const { stored, storage } = makeStorage();
+      const longOutput = 'hit\n'.repeat(500);
+      const summarizer = vi.fn(async () => 'hit #250 mentions the needle');
+
+      const result = await truncateToolResults(searchPrompt(longOutput), {
+        threshold: 50,
+        storage,
+        summarizer,
+      });
+
+      expect(summarizer).toHaveBeenCalledWith(longOutput, {
+        toolName: 'search',
+        toolArgs: { q: 'needle' },
+      });
+      expect(Object.values(stored)).toEqual([longOutput]);
+      const value = outputOf(result);
+      expect(value).toContain('context://vfs/');
+      expect(value).toContain('hit #250 mentions the needle');
+      expect(value).toContain('output summarized');
+    });
+
+    it('reuses the summary across calls with the same options', async () => {
+      const { storage } = makeStorage();
+      const options = { threshold: 50, storage, summarizer: vi.fn(async () => 'summary') };
+      const prompt = searchPrompt('hit\n'.repeat(500));
+
+      const first = await truncateToolResults(prompt, options);
+      const second = await truncateToolResults(prompt, options);
+
+      expect(options.summarizer).toHaveBeenCalledTimes(1);
+      expect(outputOf(second)).toBe(outputOf(first));
+    });
+
+    it('is ignored when no storage is configured', async () => {
+      const summarizer = vi.fn(async () => 'summary');
+
+      const result = await truncateToolResults(searchPrompt('hit\n'.repeat(500)), {
+        threshold: 50,
+        tailChars: 20,
+        summarizer,
+      });
+
+      expect(summarizer).not.toHaveBeenCalled();
+      expect(outputOf(result)).toContain('truncated');
+    });
+  });
+
+  describe('strategy', () => {
+    const buildLog = [
+      ...Array.from({ length: 200 }, (_, i) => `compiling module ${i}`),
+      'src/app.ts:12:3 - error TS2322: Type string is not assignable to number',
+      ...Array.from({ length: 200 }, (_, i) => `compiling module ${200 + i}`),
+    ].join('\n');
+    const resultText = (prompt: LanguageModelV4Prompt) => {
+      const part = prompt[0].role === 'tool' ? prompt[0].content[0] : undefined;
+      return part?.type === 'tool-result' && part.output.type === 'text' ? part.output.value : '';
+    };
+
+    it('keeps the lines a per-tool strategy picks instead of head/tail', async () => {
+      const result = await truncateToolResults(makeToolPrompt(buildLog), {
+        threshold: 100,
+        tailChars: 300,
+        perTool: [{ name: 'run_cmd', strategy: 'log' }],
+      });
+
+      const value = resultText(result);
+      expect(value).toContain('log excerpt) ---');
+      expect(value).toContain('201\tsrc/app.ts:12:3 - error TS2322');
+      expect(value.length).toBeLessThan(400);
+    });
+
+    it('passes the strategy to the Offloader when storage is configured', async () => {
+      const stored: Record<string, string> = {};
+      const storage: VFSStorageAdapter = {
+        write(filename: string, content: string) {
+          stored[filename] = content;
+        },
+        read(filename: string) {
+          return stored[filename] ?? null;
+        },
+      };
+
+      const result = await truncateToolResults(makeToolPrompt(buildLog), {
+        threshold: 100,
+        tailChars: 300,
+        storage,
+        strategy: 'log',
+      });
+
+      const value = resultText(result);
+      expect(value).toContain('log excerpt shown below');
+      expect(value).toContain('context://vfs/');
+      expect(Object.values(stored)).toEqual([buildLog]);
+    });
+
+    it('falls back to head/tail when the content does not suit the strategy', async () => {
+      const result = await truncateToolResults(makeToolPrompt(buildLog), {
+        threshold: 100,
+        tailChars: 50,
+        strategy: 'json',
+      });
+
+      const value = resultText(result);
+      expect(value).toContain('--- truncated (401 lines');
+      expect(value).not.toContain('excerpt');
+      expect(value).toContain('compiling module 399');
+    });
+  });
+
+  describe('sessionQuota', () => {
+    const makeStorage = () => {
+      const stored = new Map<string, string>();
+      const storage: VFSStorageAdapter = {
+        write: (filename, content) => {
+          stored.set(filename, content);
+        },
+        read: (filename) => stored.get(filename) ?? null,
+        list: () => [...stored.keys()],
+        delete: (filename) => {
+          stored.delete(filename);
+        },
+      };
+      return { stored, storage };
+    };
+
+    it('stores results under the session and evicts only results the prompt no longer references', async () => {
+      const { stored, storage } = makeStorage();
+      const options = { threshold: 100, tailChars: 20, storage, sessionQuota: { maxFiles: 1 } };
+
+      await truncateToolResults(makeToolPrompt('first '.repeat(50)), options, console, 'user-a');
+      await truncateToolResults(makeToolPrompt('other '.repeat(50)), options, console, 'user-b');
+      const twoResults: LanguageModelV4Prompt = [
+        ...makeToolPrompt('first '.repeat(50)),
+        ...makeToolPrompt('second '.repeat(50)),
+      ];
+      await truncateToolResults(twoResults, options, console, 'user-a');
+      // Both user-a results are in the outgoing prompt — over quota but kept.
+      expect([...stored.keys()].filter((f) => f.startsWith('user-a/'))).toHaveLength(2);
+
+      await truncateToolResults(makeToolPrompt('third '.repeat(50)), options, console, 'user-a');
+      const keys = [...stored.keys()];
+      expect(keys.filter((f) => f.startsWith('user-a/'))).toHaveLength(1);
+      expect(stored.get(keys.find((f) => f.startsWith('user-a/')) ?? '')).toContain('third');
+      expect(keys.filter((f) => f.startsWith('user-b/'))).toHaveLength(1);
+    });
+
+    it('stores results unnamespaced when no session is passed', async () => {
+      const { stored, storage } = makeStorage();
+      await truncateToolResults(makeToolPrompt('x'.repeat(300)), {
+        threshold: 100,
+        storage,
+        tailChars: 20,
+        sessionQuota: { maxFiles: 5 },
+      });
+      expect([...stored.keys()]).toEqual([expect.stringMatching(/^vfs_[a-f0-9]{16}\.txt$/)]);
+    });
+  });
 });
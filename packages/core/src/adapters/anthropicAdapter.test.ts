@@ -1,6 +1,7 @@
 import type { MessageParam, TextBlockParam } from '@anthropic-ai/sdk/resources/messages/messages';
 import { describe, expect, it } from 'vitest';
-import type { AnthropicPayload, Message } from '../types';
+import type { AnthropicPayload, Message, ToolDefinition } from '../types';
+import { MalformedToolArgumentsError } from '../utils/toolArguments';
 import { AnthropicAdapter, fromAnthropic } from './anthropicAdapter';
 
 interface AnthropicBlock {
@@ -139,6 +140,42 @@ describe('AnthropicAdapter', () => {
     expect(content[2]).toMatchObject({ type: 'tool_use', id: 'c2', name: 'b' });
   });
 
+  it('repairs malformed tool_call arguments instead of throwing', () => {
+    const messages: Message[] = [
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          { id: 'c1', type: 'function', function: { name: 'a', arguments: '{"city":"Lon' } },
+          { id: 'c2', type: 'function', function: { name: 'b', arguments: 'not json' } },
+          { id: 'c3', type: 'function', function: { name: 'c', arguments: '' } },
+        ],
+      },
+    ];
+    const content = getContentBlocks(adapter.compile([...messages]));
+
+    expect(content[1].input).toEqual({ city: 'Lon' });
+    expect(content[2].input).toEqual({});
+    expect(content[3].input).toEqual({});
+  });
+
+  it('applies the malformedToolArguments option', () => {
+    const messages: Message[] = [
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          { id: 'c1', type: 'function', function: { name: 'a', arguments: '{"city":"Lon' } },
+        ],
+      },
+    ];
+
+    const replacing = new AnthropicAdapter({ malformedToolArguments: 'replace' });
+    expect(getContentBlocks(replacing.compile([...messages]))[1].input).toEqual({});
+    const strict = new AnthropicAdapter({ malformedToolArguments: 'throw' });
+    expect(() => strict.compile([...messages])).toThrow(MalformedToolArgumentsError);
+  });
+
   it('sets cache_control on system messages with _cache_breakpoint', () => {
     const messages: Message[] = [
       { role: 'system', content: 'Cached system prompt', _cache_breakpoint: true },
@@ -514,3 +551,38 @@ describe('AnthropicAdapter — attachments output', () => {
     expect(blocks[0]).toMatchObject({ type: 'text', text: 'Plain text' });
   });
 });
+
+describe('AnthropicAdapter.compileTools', () => {
+  it('maps parameters to input_schema and drops tags', () => {
+    const tools: ToolDefinition[] = [
+      {
+        name: 'read_file',
+        description: 'Read a file',
+        parameters: {
+          type: 'object',
+          properties: { path: { type: 'string' } },
+          required: ['path'],
+        },
+        tags: ['file'],
+      },
+      { name: 'get_time', description: 'Current time' },
+    ];
+
+    expect(adapter.compileTools(tools)).toEqual([
+      {
+        name: 'read_file',
+        description: 'Read a file',
+        input_schema: {
+          type: 'object',
+          properties: { path: { type: 'string' } },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'get_time',
+        description: 'Current time',
+        input_schema: { type: 'object', properties: {} },
+      },
+    ]);
+  });
+});
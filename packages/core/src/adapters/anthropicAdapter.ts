@@ -6,6 +6,7 @@ import type {
   RedactedThinkingBlockParam as SDKRedactedThinkingBlockParam,
   TextBlockParam as SDKTextBlockParam,
   ThinkingBlockParam as SDKThinkingBlockParam,
+  Tool as SDKTool,
   ToolResultBlockParam as SDKToolResultBlockParam,
   ToolUseBlockParam as SDKToolUseBlockParam,
 } from '@anthropic-ai/sdk/resources/messages/messages';
@@ -16,8 +17,11 @@ import type {
   Message,
   ParsedMessages,
   ToolCall,
+  ToolDefinition,
 } from '../types';
 import { ensureValidHistory } from '../utils/ensureValidHistory';
+import { toObjectSchema } from '../utils/jsonSchema';
+import { type MalformedArgumentsPolicy, parseToolArguments } from '../utils/toolArguments';
 import type { ITargetAdapter } from './targetAdapter';
 
 // ─── Input: Anthropic → IR ───
@@ -217,7 +221,19 @@ function attachmentsToBlocks(attachments: Attachment[]): SDKContentBlockParam[]
   return blocks;
 }
 
+export interface AnthropicAdapterOptions {
+  /**
+   * What to do with tool-call arguments that are not valid JSON, which
+   * Anthropic needs as objects. Default: `'repair'`. Under ContextChef the
+   * chef's `malformedToolArguments` has already been applied by the time
+   * the adapter runs.
+   */
+  malformedToolArguments?: MalformedArgumentsPolicy;
+}
+
 export class AnthropicAdapter implements ITargetAdapter {
+  constructor(private readonly options: AnthropicAdapterOptions = {}) {}
+
   compile(messages: Message[]): AnthropicPayload {
     const systemMessages: SDKTextBlockParam[] = [];
     const chatMessages: SDKMessageParam[] = [];
@@ -269,7 +285,11 @@ export class AnthropicAdapter implements ITargetAdapter {
               type: 'tool_use',
               id: tc.id,
               name: tc.function.name,
-              input: JSON.parse(tc.function.arguments),
+              input: parseToolArguments(
+                tc.function.arguments,
+                { name: tc.function.name, id: tc.id },
+                this.options.malformedToolArguments,
+              ).args,
             };
             content.push(block);
           }
@@ -310,4 +330,16 @@ export class AnthropicAdapter implements ITargetAdapter {
       messages: chatMessages,
     };
   }
+
+  /**
+   * Tools with their schema as `input_schema`; `tags` are dropped. A tool
+   * without `parameters` gets an empty object schema, which the API requires.
+   */
+  compileTools(tools: ToolDefinition[]): SDKTool[] {
+    return tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: { ...toObjectSchema(tool.parameters ?? {}), type: 'object' },
+    }));
+  }
 }
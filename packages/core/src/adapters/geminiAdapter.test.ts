@@ -1,6 +1,7 @@
 import type { Content, TextPart } from '@google/generative-ai';
-import { describe, expect, it } from 'vitest';
-import type { GeminiPayload, Message } from '../types';
+import { describe, expect, it, vi } from 'vitest';
+import type { GeminiPayload, Message, ToolDefinition } from '../types';
+import { MalformedToolArgumentsError } from '../utils/toolArguments';
 import { fromGemini, GeminiAdapter } from './geminiAdapter';
 
 /**
@@ -135,6 +136,42 @@ describe('GeminiAdapter', () => {
     expect(modelMsg.parts[1].functionCall?.name).toBe('get_weather');
   });
 
+  it('should repair malformed tool call arguments', () => {
+    const messages: Message[] = [
+      { role: 'user', content: 'Search' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function' as const,
+            function: { name: 'search', arguments: '{"query": "a\nb", "limit": 5,}' },
+          },
+        ],
+      },
+    ];
+
+    const result = toPlain(adapter.compile([...messages]));
+
+    expect(result.messages[1].parts[0].functionCall?.args).toEqual({ query: 'a\nb', limit: 5 });
+  });
+
+  it('should apply the malformedToolArguments option', () => {
+    const messages: Message[] = [
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          { id: 'call_1', type: 'function', function: { name: 'search', arguments: '{"q": 1,' } },
+        ],
+      },
+    ];
+
+    const strict = new GeminiAdapter({ malformedToolArguments: 'throw' });
+    expect(() => strict.compile([...messages])).toThrow(MalformedToolArgumentsError);
+  });
+
   it('should convert parallel tool calls into multiple functionCall parts', () => {
     const messages: Message[] = [
       { role: 'user', content: 'Weather in 3 cities' },
@@ -892,3 +929,133 @@ describe('GeminiAdapter — attachments output', () => {
     expect(result.messages[0].parts[0].text).toBe('Plain text');
   });
 });
+
+describe('GeminiAdapter.compileTools', () => {
+  const logger = { warn: vi.fn() };
+  const adapter = new GeminiAdapter({ logger });
+  // Round-trip through JSON: the SDK types schema `type` as an enum.
+  const compileTools = (tools: ToolDefinition[]): unknown =>
+    JSON.parse(JSON.stringify(adapter.compileTools(tools)));
+
+  it('groups tools into one functionDeclarations entry and drops tags', () => {
+    expect(
+      compileTools([
+        {
+          name: 'read_file',
+          description: 'Read a file',
+          parameters: { path: { type: 'string' } },
+          tags: ['file'],
+        },
+        { name: 'get_time', description: 'Current time' },
+      ]),
+    ).toEqual([
+      {
+        functionDeclarations: [
+          {
+            name: 'read_file',
+            description: 'Read a file',
+            parameters: { type: 'object', properties: { path: { type: 'string' } } },
+          },
+          { name: 'get_time', description: 'Current time' },
+        ],
+      },
+    ]);
+  });
+
+  it('reduces JSON Schema to the subset Gemini accepts', () => {
+    const [tool] = adapter.compileTools([
+      {
+        name: 'search',
+        description: 'Search',
+        parameters: {
+          $schema: 'http://json-schema.org/draft-07/schema#',
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            query: { type: 'string', minLength: 1, pattern: '^\\S' },
+            mode: { const: 'fast' },
+            sort: { type: 'string', enum: ['asc', 'desc'], default: 'asc' },
+            limit: { type: ['integer', 'null'], format: 'int32', minimum: 1 },
+            since: { anyOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }] },
+            level: { enum: [1, 2, 3] },
+            filters: {
+              type: 'object',
+              properties: {
+                tags: { type: 'array', items: { type: 'string' } },
+                extra: { type: 'object', description: 'Free-form' },
+              },
+              required: ['tags', 'missing'],
+              additionalProperties: { type: 'string' },
+            },
+            ids: { type: 'array' },
+            meta: { type: 'object', additionalProperties: true },
+            value: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+            rows: { type: 'array', items: { type: 'object' } },
+          },
+          required: ['query', 'meta'],
+        },
+      },
+    ]);
+
+    expect(JSON.parse(JSON.stringify(tool.functionDeclarations?.[0].parameters))).toEqual({
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        mode: { type: 'string', format: 'enum', enum: ['fast'] },
+        sort: { type: 'string', format: 'enum', enum: ['asc', 'desc'] },
+        limit: { type: 'integer', nullable: true, format: 'int32' },
+        since: { type: 'string', nullable: true, format: 'date-time' },
+        level: { type: 'number' },
+        filters: {
+          type: 'object',
+          properties: {
+            tags: { type: 'array', items: { type: 'string' } },
+          },
+          required: ['tags'],
+        },
+        ids: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['query'],
+    });
+  });
+
+  it('leaves out free-form objects and unions, and warns once per tool', () => {
+    logger.warn.mockClear();
+    const tools: ToolDefinition[] = [
+      {
+        name: 'store',
+        description: 'Store a record',
+        parameters: {
+          type: 'object',
+          properties: {
+            key: { type: 'string' },
+            value: { type: 'object', additionalProperties: true },
+            id: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+          },
+        },
+      },
+      {
+        name: 'configure',
+        description: 'Free-form settings',
+        parameters: { type: 'object', properties: { settings: { type: 'object' } } },
+      },
+    ];
+
+    expect(compileTools(tools)).toEqual([
+      {
+        functionDeclarations: [
+          {
+            name: 'store',
+            description: 'Store a record',
+            parameters: { type: 'object', properties: { key: { type: 'string' } } },
+          },
+          { name: 'configure', description: 'Free-form settings' },
+        ],
+      },
+    ]);
+    compileTools(tools);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+    expect(logger.warn.mock.calls[0][0]).toContain('Gemini tool "store": left out value, id');
+    expect(logger.warn.mock.calls[1][0]).toContain('Gemini tool "configure": left out settings');
+  });
+});
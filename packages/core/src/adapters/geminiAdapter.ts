@@ -1,13 +1,26 @@
 import type {
+  SchemaType,
   Content as SDKContent,
   FunctionCallPart as SDKFunctionCallPart,
+  FunctionDeclarationsTool as SDKFunctionDeclarationsTool,
   FunctionResponsePart as SDKFunctionResponsePart,
   Part as SDKPart,
+  Schema as SDKSchema,
   TextPart as SDKTextPart,
 } from '@google/generative-ai';
 import { Prompts } from '../prompts';
-import type { Attachment, GeminiPayload, HistoryMessage, Message, ParsedMessages } from '../types';
+import type {
+  Attachment,
+  ChefLogger,
+  GeminiPayload,
+  HistoryMessage,
+  Message,
+  ParsedMessages,
+  ToolDefinition,
+} from '../types';
 import { ensureValidHistory } from '../utils/ensureValidHistory';
+import { isRecord, toObjectSchema } from '../utils/jsonSchema';
+import { type MalformedArgumentsPolicy, parseToolArguments } from '../utils/toolArguments';
 import type { ITargetAdapter } from './targetAdapter';
 
 // Re-export Gemini-specific types for consumers who want strong typing without importing the SDK
@@ -125,8 +138,156 @@ export function fromGemini(
   return { system, history: ensureValidHistory(history) as HistoryMessage[] };
 }
 
+// ─── Tool schemas ───
+
+// The SDK types `type` as its `SchemaType` enum, whose values are these same
+// lowercase strings. The enum is not imported: the SDK is an optional peer.
+const SCHEMA_TYPE = {
+  string: 'string' as SchemaType.STRING,
+  number: 'number' as SchemaType.NUMBER,
+  integer: 'integer' as SchemaType.INTEGER,
+  boolean: 'boolean' as SchemaType.BOOLEAN,
+  array: 'array' as SchemaType.ARRAY,
+  object: 'object' as SchemaType.OBJECT,
+};
+
+/**
+ * Rewrites a JSON Schema into the OpenAPI subset Gemini function
+ * declarations accept: one `type` per schema (a `'null'` member or a
+ * nullable `anyOf` / `oneOf` becomes `nullable: true`), string-only `enum`
+ * with `format: 'enum'`, `const` as a one-value enum, and `required`
+ * limited to declared properties. Everything else (`additionalProperties`,
+ * `$schema`, `default`, `pattern`, bounds, `$ref`, …) is dropped, since
+ * Gemini rejects the whole request over one unknown keyword. A schema with
+ * no usable type becomes a string.
+ *
+ * Returns null for what Gemini cannot describe at all: an object without
+ * properties (Gemini rejects an empty `properties`), a union of several
+ * non-null types, and an array of either. Such a property is left out of
+ * its parent and its path pushed to `dropped` — declaring it as a string
+ * would have the model send JSON text where the tool expects a value.
+ */
+function toGeminiSchema(
+  schema: Record<string, unknown>,
+  path: string,
+  dropped: string[],
+): SDKSchema | null {
+  let source = schema;
+  let nullable = schema.nullable === true;
+
+  const variants = Array.isArray(schema.anyOf) ? schema.anyOf : schema.oneOf;
+  if (Array.isArray(variants)) {
+    const nonNull = variants.filter((v) => isRecord(v) && v.type !== 'null');
+    nullable ||= nonNull.length < variants.length;
+    // Gemini has no unions: keep a lone non-null branch.
+    if (nonNull.length > 1) return null;
+    const [only] = nonNull;
+    source = isRecord(only) ? only : {};
+  }
+
+  const types = (Array.isArray(source.type) ? source.type : [source.type]).filter(
+    (t): t is string => typeof t === 'string',
+  );
+  nullable ||= types.includes('null');
+  const values = 'const' in source ? [source.const] : source.enum;
+  const type =
+    types.find((t) => t !== 'null') ??
+    (isRecord(source.properties)
+      ? 'object'
+      : isRecord(source.items)
+        ? 'array'
+        : Array.isArray(values) && values.length > 0 && values.every((v) => typeof v === 'number')
+          ? 'number'
+          : 'string');
+
+  const description = schema.description ?? source.description;
+  const base: { description?: string; nullable?: boolean } = {
+    ...(typeof description === 'string' && { description }),
+    ...(nullable && { nullable }),
+  };
+  const { format } = source;
+
+  switch (type) {
+    case 'object': {
+      const entries: [string, SDKSchema][] = [];
+      if (isRecord(source.properties)) {
+        for (const [key, child] of Object.entries(source.properties)) {
+          const childPath = path ? `${path}.${key}` : key;
+          const converted = toGeminiSchema(isRecord(child) ? child : {}, childPath, dropped);
+          if (converted) entries.push([key, converted]);
+          else dropped.push(childPath);
+        }
+      }
+      if (entries.length === 0) return null;
+      const properties = Object.fromEntries(entries);
+      const required = Array.isArray(source.required)
+        ? source.required.filter(
+            (key): key is string => typeof key === 'string' && Object.hasOwn(properties, key),
+          )
+        : [];
+      return {
+        ...base,
+        type: SCHEMA_TYPE.object,
+        properties,
+        ...(required.length > 0 && { required }),
+      };
+    }
+    case 'array': {
+      const items = toGeminiSchema(isRecord(source.items) ? source.items : {}, path, dropped);
+      if (!items) return null;
+      return {
+        ...base,
+        type: SCHEMA_TYPE.array,
+        items,
+        ...(typeof source.minItems === 'number' && { minItems: source.minItems }),
+        ...(typeof source.maxItems === 'number' && { maxItems: source.maxItems }),
+      };
+    }
+    case 'number':
+      return {
+        ...base,
+        type: SCHEMA_TYPE.number,
+        ...((format === 'float' || format === 'double') && { format }),
+      };
+    case 'integer':
+      return {
+        ...base,
+        type: SCHEMA_TYPE.integer,
+        ...((format === 'int32' || format === 'int64') && { format }),
+      };
+    case 'boolean':
+      return { ...base, type: SCHEMA_TYPE.boolean };
+    default: {
+      const strings = Array.isArray(values) && values.length > 0 ? values : [];
+      if (type === 'string' && strings.length > 0 && strings.every((v) => typeof v === 'string')) {
+        return { ...base, type: SCHEMA_TYPE.string, format: 'enum', enum: strings };
+      }
+      return {
+        ...base,
+        type: SCHEMA_TYPE.string,
+        ...(format === 'date-time' && { format }),
+      };
+    }
+  }
+}
+
 // ─── Output: IR → Gemini ───
 
+export interface GeminiAdapterOptions {
+  /**
+   * What to do with tool-call arguments that are not valid JSON, which
+   * Gemini needs as objects. Default: `'repair'`. Under ContextChef the
+   * chef's `malformedToolArguments` has already been applied by the time
+   * the adapter runs.
+   */
+  malformedToolArguments?: MalformedArgumentsPolicy;
+  /**
+   * Sink for the warning `compileTools()` logs when it leaves out tool
+   * parameters Gemini cannot describe. Defaults to `console`.
+   */
+  logger?: ChefLogger;
+}
+
 /**
  * Adapts ContextChef IR to Google Gemini's generateContent format.
  *
@@ -139,6 +300,11 @@ export function fromGemini(
  * - Prefill degradation follows the same pattern as OpenAI (Gemini doesn't support trailing model messages).
  */
 export class GeminiAdapter implements ITargetAdapter {
+  /** Tools whose dropped parameters were already reported, so each compile doesn't warn again. */
+  private readonly _warnedDrops = new Set<string>();
+
+  constructor(private readonly options: GeminiAdapterOptions = {}) {}
+
   compile(messages: Message[]): GeminiPayload {
     const systemParts: SDKTextPart[] = [];
     const contents: SDKContent[] = [];
@@ -181,7 +347,11 @@ export class GeminiAdapter implements ITargetAdapter {
             parts.push(textPart);
           }
           for (const tc of msg.tool_calls) {
-            const args: object = JSON.parse(tc.function.arguments);
+            const { args } = parseToolArguments(
+              tc.function.arguments,
+              { name: tc.function.name, id: tc.id },
+              this.options.malformedToolArguments,
+            );
             const part: SDKFunctionCallPart = {
               functionCall: {
                 name: tc.function.name,
@@ -264,6 +434,37 @@ export class GeminiAdapter implements ITargetAdapter {
     return payload;
   }
 
+  /**
+   * All tools as one `{ functionDeclarations }` entry, with schemas reduced
+   * to the subset Gemini accepts (see `toGeminiSchema`); `tags` are dropped.
+   * A tool without properties gets no `parameters`, since Gemini rejects an
+   * object schema whose `properties` is empty.
+   */
+  compileTools(tools: ToolDefinition[]): SDKFunctionDeclarationsTool[] {
+    const functionDeclarations = tools.map((tool) => {
+      const dropped: string[] = [];
+      const schema = toGeminiSchema(toObjectSchema(tool.parameters ?? {}), '', dropped);
+      if (dropped.length > 0) this._warnDropped(tool.name, dropped);
+      return {
+        name: tool.name,
+        description: tool.description,
+        ...(schema?.type === SCHEMA_TYPE.object && { parameters: schema }),
+      };
+    });
+    return [{ functionDeclarations }];
+  }
+
+  private _warnDropped(toolName: string, paths: string[]): void {
+    const key = `${toolName}\u0000${paths.join('\u0000')}`;
+    if (this._warnedDrops.has(key)) return;
+    this._warnedDrops.add(key);
+    (this.options.logger ?? console).warn(
+      `[context-chef] Gemini tool "${toolName}": left out ${paths.join(', ')} — free-form ` +
+        'objects and unions of several types have no Gemini schema. Declare their properties ' +
+        'or a single type to send them.',
+    );
+  }
+
   /**
    * Collapses consecutive same-role `Content` entries into a single entry with
    * concatenated `parts`. Required because Gemini's `generateContent` API
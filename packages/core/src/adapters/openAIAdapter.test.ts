@@ -1,6 +1,6 @@
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions/completions';
 import { describe, expect, it } from 'vitest';
-import type { Message, OpenAIPayload } from '../types';
+import type { Message, OpenAIPayload, ToolDefinition } from '../types';
 import { fromOpenAI, OpenAIAdapter } from './openAIAdapter';
 
 interface OAIMsg {
@@ -11,6 +11,7 @@ interface OAIMsg {
   thinking?: unknown;
   redacted_thinking?: unknown;
   _cache_breakpoint?: unknown;
+  _pinned?: unknown;
 }
 
 /**
@@ -54,6 +55,13 @@ describe('OpenAIAdapter', () => {
     expect(msgs[0]._cache_breakpoint).toBeUndefined();
   });
 
+  it('strips _pinned from messages', () => {
+    const result = adapter.compile([{ role: 'user', content: 'Requirements', _pinned: true }]);
+    const msgs = toPlainMessages(result);
+
+    expect(msgs[0]._pinned).toBeUndefined();
+  });
+
   it('strips thinking and redacted_thinking from messages', () => {
     const messages: Message[] = [
       {
@@ -410,3 +418,29 @@ describe('OpenAIAdapter — attachments output', () => {
     expect(cloned.meta.at).toBe('2026-01-02T03:04:05.000Z');
   });
 });
+
+describe('OpenAIAdapter.compileTools', () => {
+  it('wraps tools as function tools and drops tags', () => {
+    const tools: ToolDefinition[] = [
+      {
+        name: 'read_file',
+        description: 'Read a file',
+        parameters: { path: { type: 'string' } },
+        tags: ['file'],
+      },
+      { name: 'get_time', description: 'Current time' },
+    ];
+
+    expect(adapter.compileTools(tools)).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'read_file',
+          description: 'Read a file',
+          parameters: { type: 'object', properties: { path: { type: 'string' } } },
+        },
+      },
+      { type: 'function', function: { name: 'get_time', description: 'Current time' } },
+    ]);
+  });
+});
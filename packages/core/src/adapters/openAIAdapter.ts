@@ -1,10 +1,19 @@
 import type {
+  ChatCompletionFunctionTool as SDKFunctionTool,
   ChatCompletionMessageFunctionToolCall as SDKFunctionToolCall,
   ChatCompletionMessageParam as SDKMessageParam,
 } from 'openai/resources/chat/completions/completions';
 import { Prompts } from '../prompts';
-import type { Attachment, HistoryMessage, Message, OpenAIPayload, ParsedMessages } from '../types';
+import type {
+  Attachment,
+  HistoryMessage,
+  Message,
+  OpenAIPayload,
+  ParsedMessages,
+  ToolDefinition,
+} from '../types';
 import { ensureValidHistory } from '../utils/ensureValidHistory';
+import { toObjectSchema } from '../utils/jsonSchema';
 import type { ITargetAdapter } from './targetAdapter';
 
 // ─── Input: OpenAI → IR ───
@@ -170,7 +179,8 @@ export class OpenAIAdapter implements ITargetAdapter {
   compile(messages: Message[]): OpenAIPayload {
     const formattedMessages: SDKMessageParam[] = messages.map((msg) => {
       // Strip internal fields and thinking (Chat Completions does not accept reasoning input)
-      const { _cache_breakpoint, thinking, redacted_thinking, attachments, ...cleanMsg } = msg;
+      const { _cache_breakpoint, _pinned, thinking, redacted_thinking, attachments, ...cleanMsg } =
+        msg;
 
       // Convert attachments to OpenAI content parts for user messages
       if (attachments?.length && (msg.role === 'user' || msg.role === 'system')) {
@@ -237,4 +247,16 @@ export class OpenAIAdapter implements ITargetAdapter {
 
     return { messages: formattedMessages };
   }
+
+  /** `{ type: 'function', function }` entries; `tags` are dropped. */
+  compileTools(tools: ToolDefinition[]): SDKFunctionTool[] {
+    return tools.map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        ...(tool.parameters && { parameters: toObjectSchema(tool.parameters) }),
+      },
+    }));
+  }
 }
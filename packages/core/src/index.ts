@@ -4,6 +4,7 @@ import { Assembler, type DynamicStatePlacement } from './modules/assembler';
 import { Guardrail, type GuardrailOptions } from './modules/guardrail';
 import {
   type CompressionDetails,
+  type DegradationEvent,
   Janitor,
   type JanitorConfig,
   type JanitorSnapshot,
@@ -16,6 +17,20 @@ import {
   type MemorySnapshot,
 } from './modules/memory';
 import { Offloader, type OffloadOptions, type VFSConfig } from './modules/offloader';
+import {
+  type AttachmentOffloadPolicy,
+  offloadAttachments,
+  rehydrateAttachments,
+  resolveAttachment,
+} from './modules/offloader/attachments';
+import type { ReadContextArgs, ReadContextLimits } from './modules/offloader/readContext';
+import {
+  ToolPolicy,
+  type ToolPolicyCheckOptions,
+  type ToolPolicyConfig,
+  type ToolPolicyDecision,
+  type ToolPolicySnapshot,
+} from './modules/policy';
 import {
   type CompiledTools,
   Pruner,
@@ -28,6 +43,7 @@ import type { Skill } from './modules/skill';
 import { Prompts } from './prompts';
 import type {
   AnthropicPayload,
+  Attachment,
   ChefLogger,
   CompileMeta,
   CompileOptions,
@@ -40,6 +56,11 @@ import type {
   ToolDefinition,
 } from './types';
 import { type EventHandler, TypedEventEmitter } from './utils/eventEmitter';
+import {
+  type MalformedArgumentsPolicy,
+  repairToolCalls,
+  type ToolArgumentsRepair,
+} from './utils/toolArguments';
 import { objectToXml } from './utils/xmlGenerator';
 
 export {
@@ -49,29 +70,61 @@ export {
   getAdapter,
   type ITargetAdapter,
 } from './adapters/adapterFactory';
-export { fromAnthropic } from './adapters/anthropicAdapter';
-export { fromGemini } from './adapters/geminiAdapter';
-export { fromOpenAI } from './adapters/openAIAdapter';
+export {
+  AnthropicAdapter,
+  type AnthropicAdapterOptions,
+  fromAnthropic,
+} from './adapters/anthropicAdapter';
+export { fromGemini, GeminiAdapter, type GeminiAdapterOptions } from './adapters/geminiAdapter';
+export { fromOpenAI, OpenAIAdapter } from './adapters/openAIAdapter';
 export { Assembler } from './modules/assembler';
 export { Guardrail } from './modules/guardrail';
 export {
   type CompressionDetails,
   compactMessages,
+  type DegradationEvent,
+  type DegradationPolicy,
+  type DegradationStage,
   flattenForCompression,
   groupIntoTurns,
+  type HierarchicalSummaryConfig,
   Janitor,
   type JanitorConfig,
   type JanitorSnapshot,
+  type SpeculativeCompressionConfig,
+  type SpeculativeSummary,
+  type StructuredSummary,
+  StructuredSummaryError,
+  type StructuredSummaryOptions,
   type SummarizeHistoryOptions,
+  type SummaryTier,
   summarizeHistory,
+  summarizeHistoryStructured,
   type Turn,
 } from './modules/janitor';
+export {
+  type CompressionModel,
+  chainCompressionModels,
+  createExtractiveCompressionModel,
+  type ExtractiveCompressionOptions,
+  maxSummaryTokens,
+  minSummaryLength,
+  requireMentions,
+  type SummaryCheckContext,
+  type SummaryQualityCheck,
+} from './modules/janitor/compressionChain';
 export {
   type CompactionPlan,
   compactHistory,
   type PlanCompactionOptions,
   planCompaction,
 } from './modules/janitor/durableCompaction';
+export {
+  type CachedSummary,
+  InMemorySummaryCache,
+  type InMemorySummaryCacheOptions,
+  type SummaryCacheStore,
+} from './modules/janitor/summaryCache';
 export {
   Memory,
   type MemoryChangeEvent,
@@ -84,20 +137,98 @@ export {
 } from './modules/memory';
 export { InMemoryStore } from './modules/memory/inMemoryStore';
 export type { MemoryStore, MemoryStoreEntry } from './modules/memory/memoryStore';
+export {
+  SqliteMemoryStore,
+  type SqliteMemoryStoreOptions,
+} from './modules/memory/sqliteMemoryStore';
 export { VFSMemoryStore } from './modules/memory/vfsMemoryStore';
 export {
   type CleanupOptions,
   FileSystemAdapter,
   Offloader,
   type OffloadOptions,
+  type ToolResultSummarizer,
+  type ToolResultSummaryContext,
   VFSCleanupNotSupportedError,
   type VFSCleanupResult,
   type VFSConfig,
   type VFSEntryMeta,
   type VFSEvictionReason,
+  type VFSManifest,
+  type VFSNamespaceLimits,
   type VFSStorageAdapter,
 } from './modules/offloader';
-export { Pruner, type PrunerConfig, type PrunerSnapshot } from './modules/pruner';
+export {
+  CompressedAdapter,
+  type CompressedAdapterOptions,
+  type CompressionAlgorithm,
+  EncryptedAdapter,
+  type EncryptedAdapterOptions,
+  type EncryptionKeyProvider,
+  type TieredCacheStats,
+  TieredStorageAdapter,
+  type TieredStorageAdapterOptions,
+} from './modules/offloader/adapters';
+export {
+  type AttachmentCaptioner,
+  type AttachmentOffloadPolicy,
+  offloadAttachments,
+  rehydrateAttachments,
+  resolveAttachment,
+} from './modules/offloader/attachments';
+export {
+  diffExtraction,
+  type ExtractionStrategy,
+  type ExtractionStrategyName,
+  extractExcerpt,
+  type JsonExtractionOptions,
+  jsonExtraction,
+  type LogExtractionOptions,
+  logExtraction,
+  resolveExtractionStrategy,
+  type StackTraceExtractionOptions,
+  stackTraceExtraction,
+  truncateInline,
+} from './modules/offloader/extractors';
+export {
+  getReadContextToolDefinition,
+  parseReadContextArgs,
+  READ_CONTEXT_TOOL_NAME,
+  type ReadContextArgs,
+  type ReadContextLimits,
+  readContextContent,
+} from './modules/offloader/readContext';
+export {
+  SqliteStorageAdapter,
+  type SqliteStorageAdapterOptions,
+} from './modules/offloader/sqliteAdapter';
+export {
+  type ToolArgCondition,
+  ToolPolicy,
+  type ToolPolicyCheckOptions,
+  type ToolPolicyConfig,
+  type ToolPolicyDecision,
+  type ToolPolicyEffect,
+  type ToolPolicyRule,
+  type ToolPolicySnapshot,
+  type ToolPolicyViolation,
+} from './modules/policy';
+export {
+  type EmbeddingFunction,
+  type LoadedToolkit,
+  Pruner,
+  type PrunerConfig,
+  type PrunerResult,
+  type PrunerSnapshot,
+  type SimilarityPruneOptions,
+  type ToolkitLoadResult,
+} from './modules/pruner';
+export {
+  type ToolArgIssue,
+  type ToolCallValidationResult,
+  validateToolArgs,
+  validateToolCall,
+} from './modules/pruner/validation';
 export {
   type FormatSkillListingOptions,
   formatSkillListing,
@@ -122,6 +253,14 @@ export {
   SessionPool,
 } from './utils/sessionPool';
 export { TokenUtils } from './utils/tokenUtils';
+export {
+  type MalformedArgumentsPolicy,
+  MalformedToolArgumentsError,
+  parseToolArguments,
+  repairJson,
+  repairToolCalls,
+  type ToolArgumentsRepair,
+} from './utils/toolArguments';
 export { XmlGenerator } from './utils/xmlGenerator';
 
 /**
@@ -143,7 +282,7 @@ export interface BeforeCompileContext {
  * `reason` is mandatory exactly when the call was rejected, so consumers cannot
  * accidentally read it on an allowed call (or omit it on a rejection).
  */
-export type ToolCallCheckResult = { allowed: true } | { allowed: false; reason: string };
+export type ToolCallCheckResult = ToolPolicyDecision;
 
 export interface ChefSnapshot {
   readonly systemPrompt: Message[];
@@ -155,6 +294,8 @@ export interface ChefSnapshot {
     readonly janitor: JanitorSnapshot;
     readonly memory: MemorySnapshot | null;
     readonly pruner: PrunerSnapshot;
+    /** Optional for backward compatibility — older snapshots keep the current policy. */
+    readonly toolPolicy?: ToolPolicySnapshot;
   };
   /**
    * Name of the active skill at snapshot time.
@@ -174,16 +315,34 @@ export interface ChefSnapshot {
   readonly createdAt: number;
 }
 
-export interface ChefConfig {
+/** `TSummary` is the output type of `janitor.summarySchema`, inferred from it. */
+export interface ChefConfig<TSummary = unknown> {
   vfs?: Partial<VFSConfig>;
-  janitor?: JanitorConfig;
+  janitor?: JanitorConfig<TSummary>;
   /**
    * Sink for degradation warnings across all modules. Defaults to `console`.
    * A module-level `logger` in `vfs` / `janitor` config wins over this one.
    */
   logger?: ChefLogger;
   pruner?: PrunerConfig;
+  /** Dispatch-time rules enforced by `checkToolCall()`, on top of the Pruner blocklist. */
+  toolPolicy?: ToolPolicyConfig;
   memory?: MemoryConfig;
+  /**
+   * Moves old or oversized attachments (base64 images, PDFs) out of the
+   * outgoing request into VFS on every compile(), leaving a marker with the
+   * URI and an optional caption. The stored history keeps its attachments;
+   * use `rehydrateAttachments()` to send one again when the model asks.
+   */
+  attachments?: AttachmentOffloadPolicy;
+  /**
+   * What compile() does with assistant tool calls whose arguments are not
+   * valid JSON: `'repair'` them (default), `'replace'` them with `{}` and a
+   * note, or `'throw'` a `MalformedToolArgumentsError`. Only the outgoing
+   * request changes; each repair is reported once via `tool_call:repaired`.
+   * Also the Pruner's default for `resolveNamespace()`.
+   */
+  malformedToolArguments?: MalformedArgumentsPolicy;
   /**
    * Lifecycle hook applied to the message array right before it's handed to the
    * Assembler. Use this to apply broad transformations like filtering, reordering,
@@ -236,8 +395,11 @@ export type { CompiledTools, DynamicStatePlacement, GuardrailOptions, ResolvedTo
  * - `compile:start`  — emitted at the very start of compile()
  * - `compile:done`   — emitted after compile() produces the final payload
  * - `compress`       — emitted after Janitor compresses history
+ * - `degrade`        — emitted for each rung of the Janitor degradation ladder
  * - `memory:changed` — emitted after any memory mutation (set, delete, expire)
  * - `memory:expired` — emitted when a memory entry expires during compile()
+ * - `tool_call:repaired` — emitted once per tool call whose malformed JSON
+ *   arguments compile() repaired or replaced
  *
  * Intercept hooks (can modify data / veto operations) remain as config callbacks:
  * - `onBudgetExceeded` in JanitorConfig
@@ -257,16 +419,19 @@ export interface ChefEvents {
     truncatedCount: number;
     details: CompressionDetails;
   };
+  degrade: DegradationEvent;
   'memory:changed': MemoryChangeEvent;
   'memory:expired': MemoryEntry;
+  'tool_call:repaired': ToolArgumentsRepair;
 }
 
-export class ContextChef {
+export class ContextChef<TSummary = unknown> {
   private assembler: Assembler;
   private offloader: Offloader;
-  private janitor: Janitor;
+  private janitor: Janitor<TSummary>;
   private guardrail: Guardrail;
   private pruner: Pruner;
+  private toolPolicy: ToolPolicy;
   private memory: Memory | null;
   private transformContext?: (messages: Message[]) => Message[] | Promise<Message[]>;
   private onBeforeCompile?: (
@@ -274,6 +439,17 @@ export class ContextChef {
   ) => string | null | Promise<string | null>;
   private defaultTarget?: TargetProvider | ITargetAdapter;
   private emitter = new TypedEventEmitter<ChefEvents>();
+  private attachmentPolicy?: AttachmentOffloadPolicy;
+  private attachmentLogger?: ChefLogger;
+  /** Attachment URIs to re-inline on the next compile() only. */
+  private _rehydrateUris = new Set<string>();
+  private malformedToolArguments: MalformedArgumentsPolicy;
+  /**
+   * Tool calls already reported via `tool_call:repaired`, keyed by id and
+   * original arguments. Rebuilt on every compile from the calls still in
+   * history, so it never outgrows it.
+   */
+  private _reportedRepairs = new Set<string>();
 
   /**
    * Cancellation signal for the in-flight compile() call. Set in compile()
@@ -295,21 +471,46 @@ export class ContextChef {
   private _activeSkill: Skill | undefined;
   private _skillInstructions: string = '';
 
-  constructor(config: ChefConfig = {}) {
+  constructor(config: ChefConfig<TSummary> = {}) {
     this.assembler = new Assembler();
     this.offloader = new Offloader({ logger: config.logger, ...config.vfs });
+    // The live context is always a GC root; it is only scanned when
+    // `vfs.protectReferenced` turns on mark-and-sweep cleanup.
+    this.offloader.addRoot(() => [this.systemPrompt, this.history, this.dynamicState]);
     this.guardrail = new Guardrail();
-    this.pruner = new Pruner(config.pruner);
+    this.malformedToolArguments = config.malformedToolArguments ?? 'repair';
+    this.pruner = new Pruner({
+      malformedArguments: config.malformedToolArguments,
+      ...config.pruner,
+    });
+    this.toolPolicy = new ToolPolicy(config.toolPolicy);
     this.transformContext = config.transformContext;
     this.onBeforeCompile = config.onBeforeCompile;
     this.defaultTarget = config.defaultTarget;
+    this.attachmentPolicy = config.attachments;
+    this.attachmentLogger = config.vfs?.logger ?? config.logger;
 
-    // Bridge Janitor's onCompress callback to the unified event system
+    // Bridge Janitor's onCompress / onDegrade callbacks to the unified event system
     const janitorConfig = config.janitor ?? { contextWindow: Infinity };
     const userOnCompress = janitorConfig.onCompress;
+    const userOnDegrade = janitorConfig.onDegrade;
+    const { degradation } = janitorConfig;
     this.janitor = new Janitor({
       logger: config.logger,
       ...janitorConfig,
+      // The offload rung defaults to this chef's VFS.
+      ...(degradation &&
+        !degradation.offload && {
+          degradation: {
+            ...degradation,
+            offload: async (content: string) =>
+              (await this.offloader.offloadAsync(content, { threshold: 0 })).content,
+          },
+        }),
+      onDegrade: async (event) => {
+        if (userOnDegrade) await userOnDegrade(event);
+        await this.emitter.emit('degrade', event, this._currentSignal);
+      },
       onCompress: async (summary, truncatedCount, details) => {
         if (userOnCompress) await userOnCompress(summary, truncatedCount, details);
         await this.emitter.emit(
@@ -491,15 +692,17 @@ export class ContextChef {
   }
 
   /**
-   * Dispatch-time gate against the Pruner's blocklist.
+   * Dispatch-time gate: the Pruner's blocklist, then the `toolPolicy` rules.
    *
-   * Call this for every tool call returned by the LLM before invoking the tool.
-   * Returns `{ allowed: true }` when the tool is not blocked, otherwise
-   * `{ allowed: false, reason }` where `reason` is a structured rejection string
-   * that can be surfaced back to the LLM as a tool error message.
+   * Call this once for every tool call returned by the LLM before invoking
+   * the tool, passing its `arguments` so argument rules can apply. Returns
+   * `{ allowed: true }`, or `{ allowed: false, outcome, reason, violations }`
+   * where `reason` can be surfaced back to the LLM as a tool error message.
+   * `outcome: 'confirm'` means only confirmation rules stopped the call:
+   * ask the user, then check again with `{ confirmed: true }`.
    *
-   * Does not modify any state and does not consult Skill annotations — the blocklist
-   * is the single source of truth (see Pruner.setBlockedTools).
+   * Allowed calls count towards the policy's rate limits; nothing else is
+   * modified. Skill annotations are not consulted.
    *
    * @example
    * for (const call of response.tool_calls) {
@@ -511,24 +714,32 @@ export class ContextChef {
    *   // ... dispatch
    * }
    */
-  public checkToolCall(toolCall: { name: string }): ToolCallCheckResult {
+  public checkToolCall(
+    toolCall: { name: string; arguments?: string | Record<string, unknown> },
+    options?: ToolPolicyCheckOptions,
+  ): ToolCallCheckResult {
+    const denied = (rule: string, reason: string): ToolCallCheckResult => ({
+      allowed: false,
+      outcome: 'deny',
+      reason,
+      violations: [{ rule, effect: 'deny', reason }],
+    });
     // Defensive guard: SDK adapters and malformed LLM output occasionally
     // produce tool-call shapes whose `name` violates the type signature.
     // Refuse rather than silently letting them past the gate.
     if (typeof toolCall?.name !== 'string' || toolCall.name === '') {
-      return {
-        allowed: false,
-        reason: 'Tool call rejected: missing or empty tool name.',
-      };
+      return denied('malformed', 'Tool call rejected: missing or empty tool name.');
     }
     const blocked = this.pruner.getBlockedTools();
     if (blocked.includes(toolCall.name)) {
-      return {
-        allowed: false,
-        reason: `Tool "${toolCall.name}" is currently blocked.`,
-      };
+      return denied('blocklist', `Tool "${toolCall.name}" is currently blocked.`);
     }
-    return { allowed: true };
+    return this.toolPolicy.check(toolCall, options);
+  }
+
+  /** Returns the ToolPolicy instance, e.g. to replace its rules at runtime. */
+  public getToolPolicy(): ToolPolicy {
+    return this.toolPolicy;
   }
 
   // ─── Skill API ─────────────────────────────────────────────────────────
@@ -616,7 +827,7 @@ export class ContextChef {
         'ContextChef.getMemory() called but no memory config was provided. ' +
           'Pass `memory: { store: ... }` to the ContextChef constructor — ' +
           'see the Memory section in the README for store options ' +
-          '(InMemoryStore, VFSMemoryStore, or your own MemoryStore implementation).',
+          '(InMemoryStore, VFSMemoryStore, SqliteMemoryStore, or your own MemoryStore implementation).',
       );
     }
     return this.memory;
@@ -650,6 +861,39 @@ export class ContextChef {
     return result.content;
   }
 
+  /**
+   * Executes a `read_context` tool call against this chef's VFS and returns
+   * the tool result text. Pair with `getReadContextToolDefinition()`.
+   *
+   * @example
+   * chef.registerTools([getReadContextToolDefinition()]);
+   * // In your agent loop:
+   * if (toolCall.function.name === READ_CONTEXT_TOOL_NAME) {
+   *   const result = await chef.readContext(toolCall.function.arguments);
+   * }
+   */
+  public async readContext(
+    args: ReadContextArgs | string,
+    limits?: ReadContextLimits,
+  ): Promise<string> {
+    return this.offloader.readContextAsync(args, limits);
+  }
+
+  /**
+   * Re-inlines attachments moved to VFS by `ChefConfig.attachments` for the
+   * next compile() only — e.g. when the model asks to look at an old
+   * screenshot again. Pass the URIs from the attachment markers.
+   */
+  public rehydrateAttachments(uris: string[]): this {
+    for (const uri of uris) this._rehydrateUris.add(uri);
+    return this;
+  }
+
+  /** Reads an attachment moved to VFS back from its marker URI. Null when unknown. */
+  public async resolveAttachment(uri: string): Promise<Attachment | null> {
+    return resolveAttachment(this.offloader, uri);
+  }
+
   /**
    * Builds the per-turn memory artifacts that {@link compile} injects into the sandwich.
    *
@@ -723,6 +967,7 @@ export class ContextChef {
   public clearHistory(): this {
     this.history = [];
     this.janitor.reset();
+    this._reportedRepairs.clear();
     return this;
   }
 
@@ -746,6 +991,7 @@ export class ContextChef {
         janitor: this.janitor.snapshotState(),
         memory: this.memory?.snapshot() ?? null,
         pruner: this.pruner.snapshotState(),
+        toolPolicy: this.toolPolicy.snapshotState(),
       },
       activeSkillName: this._activeSkill?.name,
       // Persist verbatim only when a skill is actually active. Guards against
@@ -757,6 +1003,22 @@ export class ContextChef {
     };
   }
 
+  /**
+   * Registers a snapshot as a VFS GC root: with `vfs.protectReferenced`,
+   * cleanup keeps every entry the snapshot references, so restoring it never
+   * leaves the model holding evicted `context://` URIs.
+   */
+  public retainSnapshot(snapshot: ChefSnapshot): this {
+    this.offloader.addRoot(snapshot);
+    return this;
+  }
+
+  /** Releases a snapshot registered via retainSnapshot(). */
+  public releaseSnapshot(snapshot: ChefSnapshot): this {
+    this.offloader.removeRoot(snapshot);
+    return this;
+  }
+
   /**
    * Restores ContextChef to a previously captured snapshot.
    * All state — including Janitor compression flags — is rolled back.
@@ -773,11 +1035,15 @@ export class ContextChef {
     this.dynamicState = structuredClone(snapshot.dynamicState);
     this.dynamicStatePlacement = snapshot.dynamicStatePlacement;
     this.dynamicStateXml = snapshot.dynamicStateXml;
+    this._reportedRepairs.clear();
     this.janitor.restoreState(snapshot.modules.janitor);
     if (snapshot.modules.memory && this.memory) {
       this.memory.restore(snapshot.modules.memory);
     }
     this.pruner.restoreState(snapshot.modules.pruner);
+    if (snapshot.modules.toolPolicy) {
+      this.toolPolicy.restoreState(snapshot.modules.toolPolicy);
+    }
 
     // Skill restoration. Two slots (`_activeSkill` and `_skillInstructions`)
     // must always agree on which instructions are live, so they are written
@@ -813,7 +1079,8 @@ export class ContextChef {
    * Compiles the final deterministic payload ready for the LLM SDK.
    * Triggers Janitor compression if history exceeds configured token/message limits.
    * Leverages TargetAdapters to conform strictly to provider requirements.
-   * Registered tools are automatically included in the returned payload.
+   * Registered tools are automatically included in the returned payload, in
+   * the target's native tool format (`ITargetAdapter.compileTools()`).
    *
    * Target resolution order:
    *   1. `options.target` — per-call override (string name or `ITargetAdapter` instance)
@@ -859,8 +1126,38 @@ export class ContextChef {
       );
       signal?.throwIfAborted();
 
+      // 0b. Attachments: move old / oversized media into VFS, then restore any
+      //     the model asked to see again. Neither touches this.history.
+      let history = this.history;
+      if (this.attachmentPolicy) {
+        history = await offloadAttachments(
+          history,
+          this.offloader,
+          this.attachmentPolicy,
+          this.attachmentLogger,
+        );
+      }
+      if (this._rehydrateUris.size > 0) {
+        history = await rehydrateAttachments(history, this.offloader, this._rehydrateUris);
+        this._rehydrateUris.clear();
+      }
+      signal?.throwIfAborted();
+
+      // 0c. Tool-call arguments: providers reject (and adapters can't
+      //     convert) tool calls whose arguments are not JSON objects.
+      const repaired = repairToolCalls(history, this.malformedToolArguments);
+      history = repaired.messages;
+      const reported = this._reportedRepairs;
+      this._reportedRepairs = new Set();
+      for (const repair of repaired.repairs) {
+        const key = `${repair.toolCallId ?? repair.toolName}\u0000${repair.original}`;
+        this._reportedRepairs.add(key);
+        if (reported.has(key)) continue;
+        await this.emitter.emit('tool_call:repaired', repair, signal);
+      }
+
       // 1. Janitor: Compress history if needed
-      const compressedHistory = await this.janitor.compress(this.history);
+      const compressedHistory = await this.janitor.compress(history, { signal });
       signal?.throwIfAborted();
 
       // 2. onBeforeCompile hook: inject external context (RAG, AST, MCP, etc.)
@@ -984,7 +1281,7 @@ export class ContextChef {
       const meta: CompileMeta = { injectedMemoryKeys, memoryExpiredKeys };
       if (this._activeSkill) meta.activeSkillName = this._activeSkill.name;
       const payload: TargetPayload = { ...adapterPayload, meta };
-      if (tools.length > 0) payload.tools = tools;
+      if (tools.length > 0) payload.tools = adapter.compileTools?.(tools) ?? tools;
 
       // 9. Emit compile:done
       await this.emitter.emit('compile:done', { payload }, signal);
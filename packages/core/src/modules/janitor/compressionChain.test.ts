@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Message } from '../../types';
+import {
+  chainCompressionModels,
+  createExtractiveCompressionModel,
+  maxSummaryTokens,
+  minSummaryLength,
+  requireMentions,
+} from './compressionChain';
+
+const instruction: Message = { role: 'user', content: 'Summarize the conversation above.' };
+const context = { input: [instruction], modelIndex: 0 };
+
+// ═══════════════════════════════════════════════════════
+// Built-in quality checks
+// ═══════════════════════════════════════════════════════
+
+describe('summary quality checks', () => {
+  it('minSummaryLength rejects short summaries', () => {
+    expect(minSummaryLength(10)('short', context)).toContain('below the 10-char minimum');
+    expect(minSummaryLength(5)('short', context)).toBeUndefined();
+  });
+
+  it('requireMentions lists the identifiers a summary omits', () => {
+    const check = requireMentions(['PROJ-42', 'src/app.ts']);
+    expect(check('Fixed PROJ-42', context)).toBe('summary omits src/app.ts');
+    expect(check('PROJ-42 in src/app.ts', context)).toBeUndefined();
+  });
+
+  it('requireMentions derives identifiers from the input when given a function', () => {
+    const check = requireMentions((input) => input.flatMap((m) => m.content.match(/T-\d+/g) ?? []));
+    const input: Message[] = [{ role: 'user', content: 'close T-7' }, instruction];
+    expect(check('nothing', { input, modelIndex: 0 })).toBe('summary omits T-7');
+  });
+
+  it('maxSummaryTokens uses the tokenizer when given', () => {
+    expect(maxSummaryTokens(5, () => 6)('x', context)).toContain('6 tokens, over the 5-token');
+    expect(maxSummaryTokens(5)('x', context)).toBeUndefined();
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Extractive fallback model
+// ═══════════════════════════════════════════════════════
+
+describe('createExtractiveCompressionModel', () => {
+  it('extracts requests, tools, identifiers and the last reply', async () => {
+    const model = createExtractiveCompressionModel();
+    const out = await model([
+      { role: 'user', content: 'Fix the bug in src/app.ts' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          { id: 'c1', type: 'function', function: { name: 'read_file', arguments: '{}' } },
+        ],
+      },
+      { role: 'tool', content: 'see https://example.com/docs', tool_call_id: 'c1' },
+      { role: 'assistant', content: 'Fixed it.' },
+      instruction,
+    ]);
+
+    expect(out).toMatch(/^<summary>\n[\s\S]*\n<\/summary>$/);
+    expect(out).toContain('- Fix the bug in src/app.ts');
+    expect(out).toContain('Tools used: read_file');
+    expect(out).toContain('Referenced: src/app.ts, https://example.com/docs');
+    expect(out).toContain('Last assistant reply:\nFixed it.');
+    expect(out).not.toContain('Summarize the conversation');
+  });
+
+  it('carries over a previous summary from the incremental instruction', async () => {
+    const model = createExtractiveCompressionModel();
+    const out = await model([
+      { role: 'user', content: 'next step' },
+      { role: 'user', content: '…\n<previous_summary>\nEarlier work\n</previous_summary>\n…' },
+    ]);
+    expect(out).toContain('Earlier summary:\nEarlier work');
+  });
+
+  it('clips long messages and keeps only the most recent requests', async () => {
+    const model = createExtractiveCompressionModel({ maxRequests: 1, maxItemChars: 4 });
+    const out = await model([
+      { role: 'user', content: 'first request' },
+      { role: 'user', content: 'second request' },
+      instruction,
+    ]);
+    expect(out).toContain('- seco…');
+    expect(out).not.toContain('firs');
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// chainCompressionModels
+// ═══════════════════════════════════════════════════════
+
+describe('chainCompressionModels', () => {
+  it('moves on when a model throws or a check rejects, reporting the accepted index', async () => {
+    const logger = { warn: vi.fn() };
+    const onAccepted = vi.fn();
+    const chain = chainCompressionModels(
+      [
+        async () => {
+          throw new Error('down');
+        },
+        async () => '<summary>tiny</summary>',
+        async () => '<summary>long enough</summary>',
+      ],
+      [minSummaryLength(8)],
+      logger,
+      onAccepted,
+    );
+
+    expect(await chain([instruction])).toBe('<summary>long enough</summary>');
+    expect(onAccepted).toHaveBeenCalledWith(2);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+    expect(logger.warn.mock.calls[1][0]).toContain('#1 summary rejected');
+  });
+
+  it("rethrows the last model's error", async () => {
+    const chain = chainCompressionModels(
+      [
+        async () => {
+          throw new Error('last');
+        },
+      ],
+      [],
+      { warn: vi.fn() },
+      vi.fn(),
+    );
+    await expect(chain([instruction])).rejects.toThrow('last');
+  });
+
+  it('throws when every summary is rejected', async () => {
+    const chain = chainCompressionModels(
+      [async () => 'a', async () => 'b'],
+      [() => 'no'],
+      { warn: vi.fn() },
+      vi.fn(),
+    );
+    await expect(chain([instruction])).rejects.toThrow('every compression model failed');
+  });
+});
@@ -0,0 +1,164 @@
+import { Prompts } from '../../prompts';
+import type { ChefLogger, Message } from '../../types';
+import { estimate } from '../../utils/tokenUtils';
+
+/** A compression model callback — same contract as `JanitorConfig.compressionModel`. */
+export type CompressionModel = (messagesToCompress: Message[]) => Promise<string>;
+
+export interface SummaryCheckContext {
+  /** The messages sent to the compression model (the trailing instruction included). */
+  input: Message[];
+  /** Position in the chain of the model that produced the summary (0 = `compressionModel`). */
+  modelIndex: number;
+}
+
+/**
+ * Judges a candidate summary (already passed through `formatCompactSummary`).
+ * Return a short rejection reason to discard it and move on to the next model
+ * in the chain, or nothing to accept it.
+ */
+export type SummaryQualityCheck = (
+  summary: string,
+  context: SummaryCheckContext,
+) => string | null | undefined | Promise<string | null | undefined>;
+
+/** Rejects summaries shorter than `minChars` characters. */
+export function minSummaryLength(minChars: number): SummaryQualityCheck {
+  return (summary) =>
+    summary.length < minChars
+      ? `summary is ${summary.length} chars, below the ${minChars}-char minimum`
+      : undefined;
+}
+
+/**
+ * Rejects summaries that drop any of the given identifiers (ticket IDs, file
+ * paths, …). Pass a function to derive them from the summarized input.
+ */
+export function requireMentions(
+  identifiers: string[] | ((input: Message[]) => string[]),
+): SummaryQualityCheck {
+  return (summary, { input }) => {
+    const required = typeof identifiers === 'function' ? identifiers(input) : identifiers;
+    const missing = required.filter((id) => !summary.includes(id));
+    return missing.length > 0 ? `summary omits ${missing.join(', ')}` : undefined;
+  };
+}
+
+/**
+ * Rejects summaries larger than `maxTokens`. Uses the heuristic estimator
+ * unless a tokenizer is given.
+ */
+export function maxSummaryTokens(
+  maxTokens: number,
+  tokenizer?: (messages: Message[]) => number,
+): SummaryQualityCheck {
+  return (summary) => {
+    const tokens = tokenizer ? tokenizer([{ role: 'user', content: summary }]) : estimate(summary);
+    return tokens > maxTokens
+      ? `summary is ${tokens} tokens, over the ${maxTokens}-token limit`
+      : undefined;
+  };
+}
+
+const IDENTIFIER_PATTERN = /\bhttps?:\/\/[^\s"'<>)]+|(?:\.{0,2}\/)?(?:[\w.-]+\/)+[\w.-]+\.\w+/g;
+
+export interface ExtractiveCompressionOptions {
+  /** Max user requests to list, most recent kept. Default: 10. */
+  maxRequests?: number;
+  /** Each listed message is cut to this many characters. Default: 300. */
+  maxItemChars?: number;
+}
+
+/**
+ * Deterministic, model-free compression "model" — the natural last link of a
+ * fallback chain. Builds a `<summary>` from the input by extraction: the
+ * user's requests, tools called, file paths and URLs mentioned, and the last
+ * assistant reply. A `<previous_summary>` embedded in the instruction
+ * (incremental mode) is carried over verbatim. Never throws.
+ */
+export function createExtractiveCompressionModel(
+  options: ExtractiveCompressionOptions = {},
+): CompressionModel {
+  const maxRequests = options.maxRequests ?? 10;
+  const maxItemChars = options.maxItemChars ?? 300;
+  const clip = (text: string) =>
+    text.length > maxItemChars ? `${text.slice(0, maxItemChars)}…` : text;
+
+  return async (messages) => {
+    // The compression pipeline always ends with the instruction message.
+    const instruction = messages[messages.length - 1]?.content ?? '';
+    const conversation = messages.slice(0, -1);
+
+    const requests = conversation
+      .filter((m) => m.role === 'user' && m.content.trim())
+      .map((m) => clip(m.content.trim()))
+      .slice(-maxRequests);
+    const tools = [
+      ...new Set(conversation.flatMap((m) => m.tool_calls?.map((tc) => tc.function.name) ?? [])),
+    ];
+    const identifiers = [
+      ...new Set(conversation.flatMap((m) => m.content.match(IDENTIFIER_PATTERN) ?? [])),
+    ];
+    const lastReply = [...conversation]
+      .reverse()
+      .find((m) => m.role === 'assistant' && m.content.trim());
+    const previous = instruction.match(/<previous_summary>\n?([\s\S]*?)\n?<\/previous_summary>/);
+
+    const sections = [
+      previous ? `Earlier summary:\n${previous[1]}` : '',
+      requests.length ? `User requests:\n${requests.map((r) => `- ${r}`).join('\n')}` : '',
+      tools.length ? `Tools used: ${tools.join(', ')}` : '',
+      identifiers.length ? `Referenced: ${identifiers.join(', ')}` : '',
+      lastReply ? `Last assistant reply:\n${clip(lastReply.content.trim())}` : '',
+    ].filter(Boolean);
+
+    return `<summary>\n${sections.join('\n\n')}\n</summary>`;
+  };
+}
+
+/**
+ * Folds a chain of compression models into one callback. Each model is tried
+ * in order; a throw or a rejection by any quality check moves on to the next
+ * (logged via `logger`). `onAccepted` receives the index of the model whose
+ * summary passed. Throws when the whole chain is exhausted.
+ */
+export function chainCompressionModels(
+  models: CompressionModel[],
+  checks: SummaryQualityCheck[],
+  logger: ChefLogger,
+  onAccepted: (modelIndex: number) => void,
+): CompressionModel {
+  return async (messages) => {
+    for (let i = 0; i < models.length; i++) {
+      let raw: string;
+      try {
+        raw = await models[i](messages);
+      } catch (error) {
+        if (i < models.length - 1) {
+          logger.warn(
+            `[context-chef] compression model #${i} failed — trying model #${i + 1}`,
+            error,
+          );
+          continue;
+        }
+        throw error;
+      }
+
+      const summary = Prompts.formatCompactSummary(raw);
+      let reason: string | null | undefined;
+      for (const check of checks) {
+        reason = await check(summary, { input: messages, modelIndex: i });
+        if (reason) break;
+      }
+      if (!reason) {
+        onAccepted(i);
+        return raw;
+      }
+      logger.warn(
+        `[context-chef] compression model #${i} summary rejected (${reason})` +
+          (i < models.length - 1 ? ` — trying model #${i + 1}` : ''),
+      );
+    }
+    throw new Error('[context-chef] every compression model failed or was rejected');
+  };
+}
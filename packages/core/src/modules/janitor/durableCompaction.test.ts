@@ -108,6 +108,16 @@ describe('planCompaction', () => {
     expect(contents(plan.toSummarize)).toEqual(['u1', 'a1', 'u2', 'a2', 't2']);
     expect(contents(plan.toKeep)).toEqual(['u3', 'a3']);
   });
+
+  it('lifts pinned turns out of toSummarize into toKeep, in order', () => {
+    const history = buildHistory();
+    history[1] = { ...history[1], _pinned: true }; // u1
+    history[5] = { ...history[5], _pinned: true }; // t2 pins the whole (a2 + t2) turn
+    const plan = planCompaction(history, { keepRecentTurns: 2 });
+
+    expect(contents(plan.toSummarize)).toEqual(['a1', 'u2']);
+    expect(contents(plan.toKeep)).toEqual(['u1', 'a2', 't2', 'u3', 'a3']);
+  });
 });
 
 describe('compactHistory', () => {
@@ -128,6 +138,23 @@ describe('compactHistory', () => {
     expect(contents(result.slice(2))).toEqual(['u3', 'a3']);
   });
 
+  it('keeps pinned turns right after the summary', async () => {
+    const history = buildHistory();
+    history[3] = { ...history[3], _pinned: true }; // u2
+    const result = await compactHistory(history, async () => 'S', { keepRecentTurns: 2 });
+
+    expect(contents(result.slice(2))).toEqual(['u2', 'u3', 'a3']);
+  });
+
+  it('returns the same history reference when every old turn is pinned', async () => {
+    const history = buildHistory().map((m) => ({ ...m, _pinned: true }));
+    const compress = vi.fn(async () => 'unused');
+    const result = await compactHistory(history, compress, { keepRecentTurns: 2 });
+
+    expect(result).toBe(history);
+    expect(compress).not.toHaveBeenCalled();
+  });
+
   it('returns the same history reference when nothing is old enough to compact', async () => {
     const history = buildHistory();
     const result = await compactHistory(history, async () => 'unused', {
@@ -1,7 +1,12 @@
 import { Prompts } from '../../prompts';
 import type { Message } from '../../types';
 import { ensureValidHistory } from '../../utils/ensureValidHistory';
-import { groupIntoTurns, type SummarizeHistoryOptions, summarizeHistory } from '.';
+import {
+  groupIntoTurns,
+  partitionPinnedTurns,
+  type SummarizeHistoryOptions,
+  summarizeHistory,
+} from '.';
 
 export interface PlanCompactionOptions {
   /**
@@ -24,7 +29,10 @@ export interface CompactionPlan {
    * `summarizeHistory`. Empty when there is nothing old enough to compact.
    */
   toSummarize: Message[];
-  /** The recent conversation turns to keep verbatim. */
+  /**
+   * The conversation turns to keep verbatim: pinned turns (`_pinned`) lifted
+   * out of the old slice, in order, followed by the recent turns.
+   */
   toKeep: Message[];
 }
 
@@ -60,11 +68,14 @@ export function planCompaction(history: Message[], options: PlanCompactionOption
   const splitTurn = Math.max(0, turns.length - keep);
   // splitTurn === turns.length only when keep is 0 → summarize everything.
   const splitIndex = splitTurn < turns.length ? turns[splitTurn].startIndex : conversation.length;
+  // Pinned turns are never summarized. They don't count toward
+  // keepRecentTurns — that budget is for the recent tail only.
+  const { pinned, unpinned } = partitionPinnedTurns(conversation.slice(0, splitIndex));
 
   return {
     system,
-    toSummarize: conversation.slice(0, splitIndex),
-    toKeep: conversation.slice(splitIndex),
+    toSummarize: unpinned,
+    toKeep: [...pinned, ...conversation.slice(splitIndex)],
   };
 }
 
@@ -83,8 +94,8 @@ export function planCompaction(history: Message[], options: PlanCompactionOption
  * ai-sdk-middleware, use its `compactHistory(prompt, model, options)` wrapper.
  *
  * Returns the input `history` **reference unchanged** when there is nothing old
- * enough to compact (no more turns than `keepRecentTurns`) or when the summarizer
- * yields no text — so it is safe to call unconditionally, and callers can skip
+ * enough to compact (no more turns than `keepRecentTurns`, or every older turn
+ * is pinned) or when the summarizer yields no text — so it is safe to call unconditionally, and callers can skip
  * persistence on a no-op via `result === history`. Throws only if `compress`
  * throws.
  */
@@ -1,8 +1,24 @@
 import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
 import { ContextChef } from '../../index';
 import { Prompts } from '../../prompts';
 import type { Message } from '../../types';
-import { compactMessages, flattenForCompression, groupIntoTurns, Janitor } from '.';
+import { estimate } from '../../utils/tokenUtils';
+import { objectToXml } from '../../utils/xmlGenerator';
+import {
+  compactMessages,
+  type DegradationEvent,
+  flattenForCompression,
+  groupIntoTurns,
+  Janitor,
+  type JanitorConfig,
+} from '.';
+import {
+  createExtractiveCompressionModel,
+  minSummaryLength,
+  requireMentions,
+} from './compressionChain';
+import { InMemorySummaryCache, type SummaryCacheStore } from './summaryCache';
 
 // ─── Helpers ───
 
@@ -1672,11 +1688,1178 @@ describe('Janitor — toolResultStubThreshold', () => {
   });
 });
 
+// ═══════════════════════════════════════════════════════
+// Pinned messages
+// ═══════════════════════════════════════════════════════
+
+describe('Janitor — pinned messages', () => {
+  const pin = (history: Message[], ...indices: number[]) =>
+    history.map((m, i) => (indices.includes(i) ? { ...m, _pinned: true } : m));
+
+  it('lifts pinned turns out of the summarized slice and keeps them in order', async () => {
+    const compressionModel = vi.fn(async (_messages: Message[]) => '<summary>S</summary>');
+    const onCompress = vi.fn();
+    const janitor = new Janitor({
+      contextWindow: 50,
+      tokenizer: makeTokenizer(10),
+      preserveRatio: 0.5, // 25 tokens: 2 pinned turns leave no room — only the last turn is kept
+      compressionModel,
+      onCompress,
+    });
+    const history = pin(buildHistory(6), 0, 2);
+
+    const result = await janitor.compress(history);
+
+    expect(result.map((m) => m.content)).toEqual([
+      Prompts.getCompactSummaryWrapper('S'),
+      'msg-1',
+      'msg-3',
+      'msg-6',
+    ]);
+    const sent = compressionModel.mock.calls[0][0];
+    expect(sent.slice(0, -1).map((m) => m.content)).toEqual(['msg-2', 'msg-4', 'msg-5']);
+    expect(onCompress.mock.calls[0][1]).toBe(3);
+    expect(onCompress.mock.calls[0][2].compressedMessages.map((m: Message) => m.content)).toEqual([
+      'msg-2',
+      'msg-4',
+      'msg-5',
+    ]);
+  });
+
+  it('counts pinned tokens against the preserve budget', async () => {
+    const makeJanitor = () =>
+      new Janitor({
+        contextWindow: 50,
+        tokenizer: makeTokenizer(10),
+        preserveRatio: 0.6, // 30 tokens
+        compressionModel: async () => '<summary>S</summary>',
+      });
+
+    const unpinned = await makeJanitor().compress(buildHistory(6));
+    expect(unpinned.slice(1).map((m) => m.content)).toEqual(['msg-4', 'msg-5', 'msg-6']);
+
+    // The pinned first message takes 10 of the 30 tokens — one fewer recent turn fits.
+    const pinned = await makeJanitor().compress(pin(buildHistory(6), 0));
+    expect(pinned.slice(1).map((m) => m.content)).toEqual(['msg-1', 'msg-5', 'msg-6']);
+  });
+
+  it('pins the whole turn when a tool result is pinned', async () => {
+    const compressionModel = vi.fn(async () => '<summary>S</summary>');
+    const janitor = new Janitor({
+      contextWindow: 30,
+      tokenizer: makeTokenizer(10),
+      preserveRatio: 0.1,
+      compressionModel,
+    });
+    const history: Message[] = [
+      { role: 'user', content: 'q' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ id: 'c1', type: 'function', function: { name: 'read', arguments: '{}' } }],
+      },
+      { role: 'tool', content: 'key result', tool_call_id: 'c1', _pinned: true },
+      { role: 'assistant', content: 'done' },
+      { role: 'user', content: 'next' },
+    ];
+
+    const result = await janitor.compress(history);
+
+    expect(result.map((m) => m.role)).toEqual(['user', 'assistant', 'tool', 'user']);
+    expect(result[2].content).toBe('key result');
+  });
+
+  it('does not compress when everything before the split is pinned', async () => {
+    const compressionModel = vi.fn(async () => '<summary>S</summary>');
+    const janitor = new Janitor({
+      contextWindow: 30,
+      tokenizer: makeTokenizer(10),
+      preserveRatio: 0.3,
+      compressionModel,
+    });
+    const history = pin(buildHistory(5), 0, 1, 2, 3);
+
+    expect(await janitor.compress(history)).toBe(history);
+    expect(compressionModel).not.toHaveBeenCalled();
+  });
+
+  it('keeps pinned turns in the feedTokenUsage path and without a compressionModel', async () => {
+    const janitor = new Janitor({
+      contextWindow: 100,
+      logger: { warn: vi.fn() },
+    });
+    janitor.feedTokenUsage(1000);
+
+    const result = await janitor.compress(pin(buildHistory(4), 1));
+
+    expect(result.map((m) => m.content)).toEqual(['msg-2', 'msg-4']);
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// incrementalSummary — anchored summarization
+// ═══════════════════════════════════════════════════════
+
+describe('Janitor — incrementalSummary', () => {
+  const makeJanitor = (compressionModel: (messages: Message[]) => Promise<string>) =>
+    new Janitor({
+      contextWindow: 30,
+      tokenizer: makeTokenizer(10),
+      preserveRatio: 0.3, // keeps the last message only
+      compressionModel,
+      incrementalSummary: true,
+    });
+
+  it('sends only the delta plus the previous summary on the next compression', async () => {
+    const calls: Message[][] = [];
+    const compressionModel = vi.fn(async (messages: Message[]) => {
+      calls.push(messages);
+      return `<summary>S${calls.length}</summary>`;
+    });
+    const janitor = makeJanitor(compressionModel);
+
+    const first = await janitor.compress(buildHistory(5));
+    expect(first[0].content).toBe(Prompts.getCompactSummaryWrapper('S1'));
+
+    // Caller persists the compressed history and keeps talking.
+    const next = [...first, ...buildHistory(3).map((m) => ({ ...m, content: `new-${m.content}` }))];
+    await janitor.compress(next); // E10 suppressed
+    const second = await janitor.compress(next);
+
+    expect(compressionModel).toHaveBeenCalledTimes(2);
+    const sent = calls[1];
+    // Summary message itself is not re-sent — only the evicted turns since then.
+    expect(sent.map((m) => m.content).slice(0, -1)).toEqual(['msg-5', 'new-msg-1', 'new-msg-2']);
+    const instruction = sent[sent.length - 1].content;
+    expect(instruction).toContain('<previous_summary>\nS1\n</previous_summary>');
+    expect(second[0].content).toBe(Prompts.getCompactSummaryWrapper('S2'));
+  });
+
+  it('falls back to a full pass when the anchor is not in the evicted slice', async () => {
+    const calls: Message[][] = [];
+    const compressionModel = vi.fn(async (messages: Message[]) => {
+      calls.push(messages);
+      return '<summary>S</summary>';
+    });
+    const janitor = makeJanitor(compressionModel);
+
+    await janitor.compress(buildHistory(5));
+    await janitor.compress(buildHistory(5)); // E10 suppressed
+    await janitor.compress(buildHistory(5)); // anchor absent — history was replaced
+
+    const instruction = calls[1][calls[1].length - 1].content;
+    expect(instruction).toBe(Prompts.CONTEXT_COMPACTION_INSTRUCTION);
+    expect(calls[1]).toHaveLength(5); // 4 evicted + instruction
+  });
+
+  it('does not track an anchor when disabled', async () => {
+    const janitor = new Janitor({
+      contextWindow: 30,
+      tokenizer: makeTokenizer(10),
+      compressionModel: async () => '<summary>S</summary>',
+    });
+    await janitor.compress(buildHistory(5));
+    expect(janitor.snapshotState().summaryAnchor).toBeNull();
+  });
+
+  it('clears the anchor when the compression model fails', async () => {
+    let fail = false;
+    const janitor = makeJanitor(async () => {
+      if (fail) throw new Error('down');
+      return '<summary>S</summary>';
+    });
+    const logger = { warn: vi.fn() };
+    janitor['config'].logger = logger;
+
+    await janitor.compress(buildHistory(5));
+    expect(janitor.snapshotState().summaryAnchor).toBe('S');
+
+    fail = true;
+    await janitor.compress(buildHistory(5)); // E10 suppressed
+    await janitor.compress(buildHistory(5));
+    expect(janitor.snapshotState().summaryAnchor).toBeNull();
+  });
+
+  it('survives snapshot/restore into a fresh Janitor, and reset() clears it', async () => {
+    const source = makeJanitor(async () => '<summary>S1</summary>');
+    const compressed = await source.compress(buildHistory(5));
+    const snap = source.snapshotState();
+    expect(snap.summaryAnchor).toBe('S1');
+
+    const calls: Message[][] = [];
+    const restored = makeJanitor(async (messages) => {
+      calls.push(messages);
+      return '<summary>S2</summary>';
+    });
+    restored.restoreState(snap);
+    const next: Message[] = [
+      ...compressed,
+      { role: 'user', content: 'later' },
+      { role: 'assistant', content: 'ok' },
+    ];
+    await restored.compress(next); // E10 suppression carried over in the snapshot
+    await restored.compress(next);
+
+    expect(calls[0][calls[0].length - 1].content).toContain('S1');
+
+    restored.reset();
+    expect(restored.snapshotState().summaryAnchor).toBeNull();
+  });
+
+  it('restores legacy snapshots without summaryAnchor to no anchor', () => {
+    const janitor = makeJanitor(async () => '<summary>S</summary>');
+    janitor.restoreState({
+      externalTokenUsage: null,
+      suppressNextCompression: false,
+      consecutiveFailures: 0,
+    });
+    expect(janitor.snapshotState().summaryAnchor).toBeNull();
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Compression fallback chain
+// ═══════════════════════════════════════════════════════
+
+describe('Janitor — compressionFallbacks / summaryChecks', () => {
+  const makeJanitor = (extra: Partial<JanitorConfig>) =>
+    new Janitor({
+      contextWindow: 30,
+      tokenizer: makeTokenizer(10),
+      preserveRatio: 0.3,
+      logger: { warn: vi.fn() },
+      ...extra,
+    });
+
+  it('uses the next model when the primary fails and reports its index', async () => {
+    const onCompress = vi.fn();
+    const janitor = makeJanitor({
+      compressionModel: async () => {
+        throw new Error('down');
+      },
+      compressionFallbacks: [async () => '<summary>from fallback</summary>'],
+      onCompress,
+    });
+
+    const result = await janitor.compress(buildHistory(5));
+
+    expect(result[0].content).toBe(Prompts.getCompactSummaryWrapper('from fallback'));
+    expect(onCompress.mock.calls[0][2].compressionModelIndex).toBe(1);
+    expect(janitor.snapshotState().consecutiveFailures).toBe(0);
+  });
+
+  it('hands a rejected summary to the next model', async () => {
+    const onCompress = vi.fn();
+    const fallback = vi.fn(async () => '<summary>PROJ-1 handled</summary>');
+    const janitor = makeJanitor({
+      compressionModel: async () => '<summary>handled</summary>',
+      compressionFallbacks: [fallback],
+      summaryChecks: [requireMentions(['PROJ-1'])],
+      onCompress,
+    });
+
+    const result = await janitor.compress(buildHistory(5));
+
+    expect(fallback).toHaveBeenCalledOnce();
+    expect(result[0].content).toBe(Prompts.getCompactSummaryWrapper('PROJ-1 handled'));
+    expect(onCompress.mock.calls[0][2].compressionModelIndex).toBe(1);
+  });
+
+  it('reports index 0 when the primary model succeeds', async () => {
+    const onCompress = vi.fn();
+    const janitor = makeJanitor({
+      compressionModel: async () => '<summary>S</summary>',
+      onCompress,
+    });
+    await janitor.compress(buildHistory(5));
+    expect(onCompress.mock.calls[0][2].compressionModelIndex).toBe(0);
+  });
+
+  it('counts a failure for the circuit breaker only when the whole chain is exhausted', async () => {
+    const onCompress = vi.fn();
+    const janitor = makeJanitor({
+      compressionModel: async () => '<summary>x</summary>',
+      compressionFallbacks: [async () => '<summary>y</summary>'],
+      summaryChecks: [minSummaryLength(10)],
+      onCompress,
+    });
+
+    const result = await janitor.compress(buildHistory(5));
+
+    expect(result[0].content).toBe(
+      Prompts.getCompactSummaryWrapper(Prompts.getFallbackCompressionSummary(4)),
+    );
+    expect(onCompress.mock.calls[0][2].compressionModelIndex).toBeUndefined();
+    expect(janitor.snapshotState().consecutiveFailures).toBe(1);
+  });
+
+  it('accepts the extractive model as a deterministic last resort', async () => {
+    const janitor = makeJanitor({
+      compressionModel: async () => {
+        throw new Error('down');
+      },
+      compressionFallbacks: [createExtractiveCompressionModel()],
+    });
+
+    const result = await janitor.compress(buildHistory(5));
+
+    expect(result[0].content).toContain('- msg-4');
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// summarySchema — structured summaries
+// ═══════════════════════════════════════════════════════
+
+describe('Janitor — summarySchema', () => {
+  const summarySchema = z.object({ decisions: z.array(z.string()) });
+
+  const makeJanitor = (
+    compressionModel: (messages: Message[]) => Promise<string>,
+    extra: Partial<JanitorConfig> = {},
+  ) =>
+    new Janitor({
+      contextWindow: 30,
+      tokenizer: makeTokenizer(10),
+      preserveRatio: 0.3,
+      compressionModel,
+      summarySchema,
+      ...extra,
+    });
+
+  it('renders the validated object into the summary message and passes it to onCompress', async () => {
+    const onCompress = vi.fn();
+    const janitor = makeJanitor(async () => '<summary>{"decisions":["use SQLite"]}</summary>', {
+      onCompress,
+    });
+
+    const result = await janitor.compress(buildHistory(5));
+
+    const rendered = objectToXml({ decisions: ['use SQLite'] }, 'structured_summary');
+    expect(result[0].content).toBe(Prompts.getCompactSummaryWrapper(rendered));
+    expect(onCompress.mock.calls[0][2].structuredSummary).toEqual({ decisions: ['use SQLite'] });
+  });
+
+  it('types details.structuredSummary from the schema', async () => {
+    const decisions: string[][] = [];
+    const janitor = new Janitor({
+      contextWindow: 30,
+      tokenizer: makeTokenizer(10),
+      preserveRatio: 0.3,
+      compressionModel: async () => '<summary>{"decisions":["use SQLite"]}</summary>',
+      summarySchema,
+      onCompress: (_summary, _count, details) => {
+        // No cast: TSummary is inferred from summarySchema.
+        if (details.structuredSummary) decisions.push(details.structuredSummary.decisions);
+      },
+    });
+
+    await janitor.compress(buildHistory(5));
+
+    expect(decisions).toEqual([['use SQLite']]);
+  });
+
+  it('treats a failed retry as a compression failure', async () => {
+    const logger = { warn: vi.fn() };
+    const onCompress = vi.fn();
+    const compressionModel = vi.fn(async () => '<summary>{}</summary>');
+    const janitor = makeJanitor(compressionModel, { logger, onCompress });
+
+    const result = await janitor.compress(buildHistory(5));
+
+    expect(compressionModel).toHaveBeenCalledTimes(2);
+    expect(result[0].content).toBe(
+      Prompts.getCompactSummaryWrapper(Prompts.getFallbackCompressionSummary(4)),
+    );
+    expect(onCompress.mock.calls[0][2].structuredSummary).toBeUndefined();
+    expect(janitor.snapshotState().consecutiveFailures).toBe(1);
+  });
+
+  it('merges into the previous structured summary in incremental mode', async () => {
+    const calls: Message[][] = [];
+    const janitor = makeJanitor(
+      async (messages) => {
+        calls.push(messages);
+        return `<summary>{"decisions":["d${calls.length}"]}</summary>`;
+      },
+      { incrementalSummary: true },
+    );
+
+    const first = await janitor.compress(buildHistory(5));
+    const next = [...first, ...buildHistory(3)];
+    await janitor.compress(next); // E10 suppressed
+    await janitor.compress(next);
+
+    const instruction = calls[1][calls[1].length - 1].content;
+    expect(instruction).toContain(objectToXml({ decisions: ['d1'] }, 'structured_summary'));
+  });
+
+  it('warns that summarySchema is ignored in hierarchicalSummary mode', () => {
+    const logger = { warn: vi.fn() };
+    makeJanitor(async () => '', { hierarchicalSummary: true, logger });
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('summarySchema is ignored'));
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// hierarchicalSummary — multi-level tiers
+// ═══════════════════════════════════════════════════════
+
+describe('Janitor — hierarchicalSummary', () => {
+  const numberedModel = () => {
+    const calls: Message[][] = [];
+    const model = vi.fn(async (messages: Message[]) => {
+      calls.push(messages);
+      return `<summary>S${calls.length}</summary>`;
+    });
+    return { calls, model };
+  };
+
+  const makeJanitor = (
+    compressionModel: (messages: Message[]) => Promise<string>,
+    hierarchicalSummary: JanitorConfig['hierarchicalSummary'],
+    onCompress?: JanitorConfig['onCompress'],
+  ) =>
+    new Janitor({
+      contextWindow: 30,
+      tokenizer: makeTokenizer(10),
+      preserveRatio: 0.3, // keeps the last message only
+      compressionModel,
+      hierarchicalSummary,
+      onCompress,
+    });
+
+  it('chunks evicted turns into level-0 summaries and exposes the layout', async () => {
+    const { calls, model } = numberedModel();
+    const onCompress = vi.fn();
+    const janitor = makeJanitor(model, { chunkTurns: 2 }, onCompress);
+
+    const result = await janitor.compress(buildHistory(5));
+
+    expect(calls.map((c) => c.slice(0, -1).map((m) => m.content))).toEqual([
+      ['msg-1', 'msg-2'],
+      ['msg-3', 'msg-4'],
+    ]);
+    const tiers = [
+      { level: 0, summary: 'S1', turns: 2, tokens: 10 },
+      { level: 0, summary: 'S2', turns: 2, tokens: 10 },
+    ];
+    expect(result[0].content).toBe(
+      Prompts.getCompactSummaryWrapper(Prompts.formatSummaryTiers(tiers)),
+    );
+    expect(result.slice(1)).toEqual([{ role: 'user', content: 'msg-5' }]);
+    expect(onCompress.mock.calls[0][2].tiers).toEqual(tiers);
+    expect(janitor.snapshotState().summaryTiers).toEqual(tiers);
+  });
+
+  it('rolls the oldest summaries of a full level up, cascading upward', async () => {
+    const { calls, model } = numberedModel();
+    const janitor = makeJanitor(model, { chunkTurns: 1, rollupFanout: 2 });
+
+    await janitor.compress(buildHistory(8)); // 7 evicted turns
+
+    // S1..S7 chunks; (S1,S2)→S8, (S3,S4)→S9, (S5,S6)→S10 on level 1; (S8,S9)→S11 on level 2
+    const tiers = janitor.snapshotState().summaryTiers ?? [];
+    expect(tiers.map((t) => [t.level, t.summary, t.turns])).toEqual([
+      [2, 'S11', 4],
+      [1, 'S10', 2],
+      [0, 'S7', 1],
+    ]);
+    const rollup = calls[7];
+    expect(rollup.slice(0, -1).map((m) => m.content)).toEqual(['S1', 'S2']);
+    expect(rollup[rollup.length - 1].content).toContain(Prompts.getSummaryRollupInstruction(1));
+  });
+
+  it('carries existing tiers over without re-summarizing them', async () => {
+    const { calls, model } = numberedModel();
+    const janitor = makeJanitor(model, true);
+
+    const first = await janitor.compress(buildHistory(5));
+    const next = [...first, ...buildHistory(3).map((m) => ({ ...m, content: `new-${m.content}` }))];
+    await janitor.compress(next); // E10 suppressed
+    await janitor.compress(next);
+
+    expect(calls[1].slice(0, -1).map((m) => m.content)).toEqual([
+      'msg-5',
+      'new-msg-1',
+      'new-msg-2',
+    ]);
+    expect(janitor.snapshotState().summaryTiers?.map((t) => t.summary)).toEqual(['S1', 'S2']);
+  });
+
+  it('starts the layout over when the summary message is not in the evicted slice', async () => {
+    const { model } = numberedModel();
+    const janitor = makeJanitor(model, true);
+
+    await janitor.compress(buildHistory(5));
+    await janitor.compress(buildHistory(5)); // E10 suppressed
+    await janitor.compress(buildHistory(5));
+
+    expect(janitor.snapshotState().summaryTiers?.map((t) => t.summary)).toEqual(['S2']);
+  });
+
+  it('takes precedence over incrementalSummary', async () => {
+    const { calls, model } = numberedModel();
+    const janitor = new Janitor({
+      contextWindow: 30,
+      tokenizer: makeTokenizer(10),
+      preserveRatio: 0.3,
+      compressionModel: model,
+      incrementalSummary: true,
+      hierarchicalSummary: true,
+    });
+
+    await janitor.compress(buildHistory(5));
+
+    expect(calls[0][calls[0].length - 1].content).toBe(Prompts.CONTEXT_COMPACTION_INSTRUCTION);
+    expect(janitor.snapshotState().summaryAnchor).toBeNull();
+  });
+
+  // ─── Tier token budgets ───
+
+  describe('tierTokenBudgets', () => {
+    const makeFeedJanitor = (
+      compressionModel: (messages: Message[]) => Promise<string>,
+      logger = { warn: vi.fn() },
+    ) => {
+      const janitor = new Janitor({
+        contextWindow: 100,
+        compressionModel,
+        hierarchicalSummary: { tierTokenBudgets: [50] },
+        logger,
+      });
+      janitor.feedTokenUsage(1000);
+      return janitor;
+    };
+
+    it('puts the cap in the prompt and condenses an overshooting summary once', async () => {
+      const calls: Message[][] = [];
+      const model = vi.fn(async (messages: Message[]) => {
+        calls.push(messages);
+        return calls.length === 1
+          ? `<summary>${'x'.repeat(400)}</summary>`
+          : '<summary>short</summary>';
+      });
+      const janitor = makeFeedJanitor(model);
+
+      await janitor.compress(buildHistory(3));
+
+      expect(model).toHaveBeenCalledTimes(2);
+      expect(calls[0][calls[0].length - 1].content).toContain(
+        Prompts.getSummaryBudgetInstruction(50),
+      );
+      expect(calls[1][0].content).toBe('x'.repeat(400));
+      expect(janitor.snapshotState().summaryTiers).toEqual([
+        { level: 0, summary: 'short', turns: 2, tokens: estimate('short') },
+      ]);
+    });
+
+    it('keeps the summary and warns when the condensing pass still overshoots', async () => {
+      const logger = { warn: vi.fn() };
+      const janitor = makeFeedJanitor(async () => `<summary>${'x'.repeat(400)}</summary>`, logger);
+
+      await janitor.compress(buildHistory(3));
+
+      expect(janitor.snapshotState().summaryTiers?.[0].summary).toBe('x'.repeat(400));
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('over its 50-token cap'));
+    });
+  });
+
+  // ─── State ───
+
+  it('clears the layout when compression fails and omits tiers from details', async () => {
+    let fail = false;
+    const onCompress = vi.fn();
+    const janitor = makeJanitor(
+      async () => {
+        if (fail) throw new Error('down');
+        return '<summary>S</summary>';
+      },
+      true,
+      onCompress,
+    );
+    janitor['config'].logger = { warn: vi.fn() };
+
+    const first = await janitor.compress(buildHistory(5));
+    fail = true;
+    await janitor.compress([...first, ...buildHistory(3)]); // E10 suppressed
+    await janitor.compress([...first, ...buildHistory(3)]);
+
+    expect(janitor.snapshotState().summaryTiers).toEqual([]);
+    expect(onCompress.mock.calls[1][2].tiers).toBeUndefined();
+  });
+
+  it('survives snapshot/restore, restores legacy snapshots empty, and reset() clears it', async () => {
+    const { model } = numberedModel();
+    const source = makeJanitor(model, true);
+    await source.compress(buildHistory(5));
+    const snap = source.snapshotState();
+
+    const restored = makeJanitor(model, true);
+    restored.restoreState(snap);
+    expect(restored.snapshotState().summaryTiers).toEqual(snap.summaryTiers);
+
+    restored.reset();
+    expect(restored.snapshotState().summaryTiers).toEqual([]);
+
+    restored.restoreState({
+      externalTokenUsage: null,
+      suppressNextCompression: false,
+      consecutiveFailures: 0,
+    });
+    expect(restored.snapshotState().summaryTiers).toEqual([]);
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Degradation ladder — clear, stub, offload, then summarize
+// ═══════════════════════════════════════════════════════
+
+describe('Janitor — degradation policy', () => {
+  // One token per character of content or thinking.
+  const charTokenizer = (messages: Message[]) =>
+    messages.reduce((n, m) => n + m.content.length + (m.thinking?.thinking.length ?? 0), 0);
+
+  const toolTurn = (id: string, name: string, result: string): Message[] => [
+    {
+      role: 'assistant',
+      content: '',
+      tool_calls: [{ id, type: 'function', function: { name, arguments: '{}' } }],
+    },
+    { role: 'tool', content: result, tool_call_id: id },
+  ];
+
+  const buildLadderHistory = (): Message[] => [
+    { role: 'user', content: 'q' },
+    { role: 'assistant', content: 'a', thinking: { thinking: 't'.repeat(100) } },
+    ...toolTurn('c1', 'fs_read', 'x'.repeat(300)),
+    ...toolTurn('c2', 'grep', 'y'.repeat(300)),
+  ];
+  // 1 + 1 + 100 + 300 + 300 = 702 tokens
+
+  it('runs only the rungs whose threshold is reached, mildest first', async () => {
+    const events: DegradationEvent[] = [];
+    const offload = vi.fn(async () => 'offloaded');
+    const janitor = new Janitor({
+      contextWindow: 1000,
+      tokenizer: charTokenizer,
+      toolResultStubThreshold: 50,
+      degradation: { clearThinkingAt: 0.6, stubToolResultsAt: 0.75, offload },
+      onDegrade: (e) => {
+        events.push(e);
+      },
+    });
+
+    const result = await janitor.compress(buildLadderHistory());
+
+    expect(events).toEqual([
+      {
+        stage: 'clear-thinking',
+        tokensBefore: 702,
+        tokensAfter: 602,
+        limit: 1000,
+        affectedMessages: 1,
+      },
+    ]);
+    expect(result[1].thinking).toBeUndefined();
+    expect(result[3].content).toBe('x'.repeat(300));
+    expect(offload).not.toHaveBeenCalled();
+  });
+
+  it('stubs old tool results, sparing the most recent and pinned ones', async () => {
+    const events: DegradationEvent[] = [];
+    const history = buildLadderHistory();
+    const janitor = new Janitor({
+      contextWindow: 1000,
+      tokenizer: charTokenizer,
+      toolResultStubThreshold: 50,
+      degradation: { stubToolResultsAt: 0.5 },
+      onDegrade: (e) => {
+        events.push(e);
+      },
+    });
+
+    const result = await janitor.compress(history);
+
+    expect(result[3].content).toBe(Prompts.getStubbedToolResultPlaceholder('fs_read', 300));
+    expect(result[5]).toBe(history[5]);
+    expect(events.map((e) => e.stage)).toEqual(['stub-tool-results']);
+    expect(events[0].tokensAfter).toBe(702 - 300 + result[3].content.length);
+
+    const pinnedHistory = buildLadderHistory();
+    pinnedHistory[2] = { ...pinnedHistory[2], _pinned: true };
+    const pinnedResult = await janitor.compress(pinnedHistory);
+    expect(pinnedResult[3]).toBe(pinnedHistory[3]);
+  });
+
+  it('offloads large tool results, recent ones included, keeping only shorter replacements', async () => {
+    const offload = vi.fn(async (content: string) =>
+      content.startsWith('x') ? 'vfs://fs_read' : content + content,
+    );
+    const janitor = new Janitor({
+      contextWindow: 1000,
+      tokenizer: charTokenizer,
+      toolResultStubThreshold: 50,
+      degradation: { offloadToolResultsAt: 0.5, offload },
+    });
+
+    const history = buildLadderHistory();
+    const result = await janitor.compress(history);
+
+    expect(offload).toHaveBeenCalledTimes(2);
+    expect(result[3].content).toBe('vfs://fs_read');
+    expect(result[5]).toBe(history[5]);
+  });
+
+  it('keeps degraded messages across calls instead of re-running the rungs', async () => {
+    const events: DegradationEvent[] = [];
+    const offload = vi.fn(async () => 'vfs://offloaded');
+    const janitor = new Janitor({
+      contextWindow: 1000,
+      tokenizer: charTokenizer,
+      toolResultStubThreshold: 50,
+      degradation: { offloadToolResultsAt: 0.5, offload },
+      onDegrade: (e) => {
+        events.push(e);
+      },
+    });
+
+    const history = buildLadderHistory();
+    const first = await janitor.compress(history);
+    const second = await janitor.compress([...history, { role: 'user', content: 'next' }]);
+
+    expect(offload).toHaveBeenCalledTimes(2);
+    expect(events.map((e) => e.stage)).toEqual(['offload-tool-results']);
+    expect(second.slice(0, -1)).toEqual(first);
+
+    janitor.reset();
+    await janitor.compress(history);
+    expect(offload).toHaveBeenCalledTimes(4);
+  });
+
+  it('lowers a fed token count by what the rungs saved before deciding to summarize', async () => {
+    const model = vi.fn().mockResolvedValue('<summary>S</summary>');
+    const events: DegradationEvent[] = [];
+    const janitor = new Janitor({
+      contextWindow: 1000,
+      compressionModel: model,
+      toolResultStubThreshold: 50,
+      degradation: { stubToolResultsAt: 0.6 },
+      onDegrade: (e) => {
+        events.push(e);
+      },
+    });
+
+    // Stubbing frees enough room that summarization is no longer needed.
+    janitor.feedTokenUsage(1050);
+    await janitor.compress(buildLadderHistory());
+    expect(events.map((e) => e.stage)).toEqual(['stub-tool-results']);
+    expect(events[0].tokensAfter).toBeLessThan(1000);
+    expect(model).not.toHaveBeenCalled();
+  });
+
+  it('reports summarization as the final stage', async () => {
+    const events: DegradationEvent[] = [];
+    const janitor = new Janitor({
+      contextWindow: 30,
+      preserveRatio: 0.3,
+      tokenizer: makeTokenizer(10),
+      compressionModel: async () => '<summary>S</summary>',
+      onDegrade: (e) => {
+        events.push(e);
+      },
+    });
+
+    await janitor.compress(buildHistory(5));
+
+    expect(events).toEqual([
+      { stage: 'summarize', tokensBefore: 50, tokensAfter: 20, limit: 30, affectedMessages: 4 },
+    ]);
+  });
+
+  it('logs a throwing onDegrade hook and keeps going', async () => {
+    const logger = { warn: vi.fn(), error: vi.fn() };
+    const janitor = new Janitor({
+      contextWindow: 1000,
+      tokenizer: charTokenizer,
+      logger,
+      degradation: { clearThinkingAt: 0.5 },
+      onDegrade: () => {
+        throw new Error('sink down');
+      },
+    });
+
+    const result = await janitor.compress(buildLadderHistory());
+
+    expect(result[1].thinking).toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("onDegrade hook threw on stage 'clear-thinking'"),
+      expect.any(Error),
+    );
+  });
+
+  it('ContextChef emits degrade events and offloads to its VFS by default', async () => {
+    const stored = new Map<string, string>();
+    const chef = new ContextChef({
+      vfs: {
+        adapter: {
+          write: (filename, content) => {
+            stored.set(filename, content);
+          },
+          read: (filename) => stored.get(filename) ?? null,
+        },
+      },
+      janitor: {
+        contextWindow: 10000,
+        tokenizer: charTokenizer,
+        degradation: { offloadToolResultsAt: 0.5 },
+      },
+    });
+    const handler = vi.fn();
+    chef.on('degrade', handler);
+
+    const big = 'z'.repeat(6000);
+    chef.setHistory([{ role: 'user', content: 'q' }, ...toolTurn('c1', 'fs_read', big)]);
+    const payload = await chef.compile({ target: 'openai' });
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(handler.mock.calls[0][0]).toMatchObject({
+      stage: 'offload-tool-results',
+      affectedMessages: 1,
+    });
+    expect([...stored.values()]).toEqual([big]);
+    const tool = payload.messages.find((m) => m.role === 'tool');
+    expect(tool?.content).toContain('context://vfs/');
+  });
+
+  it('ContextChef reports a degraded message once though compile rebuilds it', async () => {
+    const chef = new ContextChef({
+      janitor: {
+        contextWindow: 1000,
+        tokenizer: charTokenizer,
+        degradation: { clearThinkingAt: 0.5 },
+      },
+    });
+    const handler = vi.fn();
+    chef.on('degrade', handler);
+
+    // The malformed arguments make compile() repair, and so copy, the
+    // assistant message before the Janitor sees it.
+    chef.setHistory([
+      { role: 'user', content: 'q' },
+      {
+        role: 'assistant',
+        content: '',
+        thinking: { thinking: 't'.repeat(600) },
+        tool_calls: [
+          { id: 'c1', type: 'function', function: { name: 'edit', arguments: '{"path": "a.ts",' } },
+        ],
+      },
+      { role: 'tool', content: 'done', tool_call_id: 'c1' },
+    ]);
+    const first = await chef.compile({ target: 'openai' });
+    const second = await chef.compile({ target: 'openai' });
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(handler.mock.calls[0][0]).toMatchObject({
+      stage: 'clear-thinking',
+      affectedMessages: 1,
+    });
+    expect(second.messages).toEqual(first.messages);
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Speculative pre-compression
+// ═══════════════════════════════════════════════════════
+
+describe('Janitor — speculativeCompression', () => {
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  // 10 tokens per message: 8 messages cross the 0.8 soft threshold, the
+  // preserve budget keeps the last 3.
+  const makeJanitor = (
+    model: JanitorConfig['compressionModel'],
+    extra: Partial<JanitorConfig> = {},
+  ) =>
+    new Janitor({
+      contextWindow: 100,
+      preserveRatio: 0.3,
+      tokenizer: makeTokenizer(10),
+      compressionModel: model,
+      speculativeCompression: true,
+      ...extra,
+    } as JanitorConfig);
+
+  it('summarizes in the background past the soft threshold and swaps the result in', async () => {
+    const model = vi.fn().mockResolvedValue('<summary>EARLY</summary>');
+    const onCompress = vi.fn();
+    const janitor = makeJanitor(model, { onCompress });
+
+    const history = buildHistory(11);
+    const soft = await janitor.compress(history.slice(0, 8));
+    expect(soft).toHaveLength(8);
+    expect(model).toHaveBeenCalledOnce();
+    await flush();
+
+    const result = await janitor.compress(history);
+
+    expect(model).toHaveBeenCalledOnce();
+    expect(result[0].content).toContain('EARLY');
+    expect(result.slice(1).map((m) => m.content)).toEqual(history.slice(5).map((m) => m.content));
+    expect(onCompress).toHaveBeenCalledWith(expect.anything(), 5, expect.anything());
+  });
+
+  it('waits for a speculation that is still running', async () => {
+    let resolve!: (summary: string) => void;
+    const model = vi.fn(
+      () =>
+        new Promise<string>((r) => {
+          resolve = r;
+        }),
+    );
+    const janitor = makeJanitor(model);
+    const history = buildHistory(11);
+
+    await janitor.compress(history.slice(0, 8));
+    const pending = janitor.compress(history);
+    resolve('<summary>LATE</summary>');
+
+    expect((await pending)[0].content).toContain('LATE');
+    expect(model).toHaveBeenCalledOnce();
+  });
+
+  it('does not restart a speculation while its prefix is intact', async () => {
+    const model = vi.fn().mockResolvedValue('<summary>S</summary>');
+    const janitor = makeJanitor(model);
+    const history = buildHistory(10);
+
+    await janitor.compress(history.slice(0, 8));
+    await janitor.compress(history.slice(0, 9));
+    await janitor.compress(history);
+
+    expect(model).toHaveBeenCalledOnce();
+  });
+
+  it('compresses inline when the prefix changed or the swap would not fit', async () => {
+    const model = vi.fn().mockResolvedValue('<summary>S</summary>');
+
+    const edited = makeJanitor(model);
+    await edited.compress(buildHistory(8));
+    await flush();
+    const history = buildHistory(11);
+    history[0] = { role: 'user', content: 'edited' };
+    await edited.compress(history);
+    expect(model).toHaveBeenCalledTimes(2);
+
+    model.mockClear();
+    const grown = makeJanitor(model);
+    await grown.compress(buildHistory(8));
+    await flush();
+    // summary + 15 kept messages = 160 tokens — over the window.
+    const result = await grown.compress(buildHistory(20));
+    expect(model).toHaveBeenCalledTimes(2);
+    expect(result).toHaveLength(4);
+  });
+
+  it('discards a speculation when the signal that started it aborts', async () => {
+    const model = vi.fn().mockResolvedValue('<summary>S</summary>');
+    const janitor = makeJanitor(model);
+    const controller = new AbortController();
+
+    await janitor.compress(buildHistory(8), { signal: controller.signal });
+    controller.abort();
+    await flush();
+    await janitor.compress(buildHistory(11));
+
+    expect(model).toHaveBeenCalledTimes(2);
+  });
+
+  it('rethrows an abort while waiting on a running speculation', async () => {
+    const model = vi.fn(() => new Promise<string>(() => {}));
+    const janitor = makeJanitor(model);
+    await janitor.compress(buildHistory(8));
+
+    const controller = new AbortController();
+    const pending = janitor.compress(buildHistory(11), { signal: controller.signal });
+    controller.abort(new Error('cancelled'));
+
+    await expect(pending).rejects.toThrow('cancelled');
+  });
+
+  it('logs a failed speculation and leaves the circuit breaker alone', async () => {
+    const logger = { warn: vi.fn(), error: vi.fn() };
+    const model = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('flaky'))
+      .mockResolvedValue('<summary>INLINE</summary>');
+    const janitor = makeJanitor(model, { logger });
+
+    await janitor.compress(buildHistory(8));
+    await flush();
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('speculative compression failed'),
+      expect.any(Error),
+    );
+    expect(janitor.snapshotState().consecutiveFailures).toBe(0);
+
+    const result = await janitor.compress(buildHistory(11));
+    expect(result[0].content).toContain('INLINE');
+  });
+
+  it('carries a finished speculation through snapshot/restore, and reset() drops it', async () => {
+    const model = vi.fn().mockResolvedValue('<summary>SNAP</summary>');
+    const source = makeJanitor(model);
+    await source.compress(buildHistory(8));
+    await flush();
+    const snap = source.snapshotState();
+    expect(snap.speculativeSummary).toMatchObject({ splitIndex: 5, summary: 'SNAP' });
+
+    const otherModel = vi.fn().mockResolvedValue('<summary>OTHER</summary>');
+    const restored = makeJanitor(otherModel);
+    restored.restoreState(snap);
+    const result = await restored.compress(buildHistory(11));
+    expect(otherModel).not.toHaveBeenCalled();
+    expect(result[0].content).toContain('SNAP');
+
+    const cleared = makeJanitor(otherModel);
+    cleared.restoreState(snap);
+    cleared.reset();
+    expect(cleared.snapshotState().speculativeSummary).toBeNull();
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Summary cache — in-flight reuse
+// ═══════════════════════════════════════════════════════
+
+describe('Janitor — summaryCache', () => {
+  const makeJanitor = (
+    model: JanitorConfig['compressionModel'],
+    cache: SummaryCacheStore,
+    extra: Partial<JanitorConfig> = {},
+  ) =>
+    new Janitor({
+      contextWindow: 100,
+      preserveRatio: 0.3,
+      tokenizer: makeTokenizer(10),
+      compressionModel: model,
+      summaryCache: cache,
+      ...extra,
+    } as JanitorConfig);
+
+  it('keeps a re-expanded history compressed on every call without new model calls', async () => {
+    const model = vi.fn().mockResolvedValue('<summary>CACHED</summary>');
+    const onCompress = vi.fn();
+    const janitor = makeJanitor(model, new InMemorySummaryCache(), { onCompress });
+    const history = buildHistory(12);
+
+    const first = await janitor.compress(history.slice(0, 11));
+    expect(first).toHaveLength(4);
+
+    // The E10-suppressed call re-applies the cached summary silently.
+    const replayed = await janitor.compress(history.slice(0, 11));
+    expect(replayed).toEqual(first);
+    expect(onCompress).toHaveBeenCalledOnce();
+
+    // A new turn moves the planned split; the cached prefix is still reused.
+    const grown = await janitor.compress(history);
+    expect(grown[0].content).toContain('CACHED');
+    expect(grown.slice(1).map((m) => m.content)).toEqual(history.slice(8).map((m) => m.content));
+    expect(onCompress).toHaveBeenCalledTimes(2);
+    expect(onCompress.mock.calls[1][1]).toBe(8);
+
+    expect(model).toHaveBeenCalledOnce();
+  });
+
+  it('shares summaries across Janitors through one store', async () => {
+    const cache = new InMemorySummaryCache();
+    const model = vi.fn().mockResolvedValue('<summary>SHARED</summary>');
+    await makeJanitor(model, cache).compress(buildHistory(11));
+
+    const other = vi.fn().mockResolvedValue('<summary>OTHER</summary>');
+    const result = await makeJanitor(other, cache).compress(buildHistory(11));
+
+    expect(other).not.toHaveBeenCalled();
+    expect(result[0].content).toContain('SHARED');
+  });
+
+  it('summarizes afresh when the cached prefix no longer fits the window', async () => {
+    const cache = new InMemorySummaryCache();
+    const model = vi.fn().mockResolvedValue('<summary>S</summary>');
+    await makeJanitor(model, cache).compress(buildHistory(11));
+
+    // summary + 12 messages after the cached prefix = 130 tokens
+    const result = await makeJanitor(model, cache).compress(buildHistory(20));
+
+    expect(model).toHaveBeenCalledTimes(2);
+    expect(result).toHaveLength(4);
+  });
+
+  it('logs a failing store and compresses without it', async () => {
+    const logger = { warn: vi.fn(), error: vi.fn() };
+    const broken: SummaryCacheStore = {
+      get: async () => {
+        throw new Error('redis down');
+      },
+      set: async () => {
+        throw new Error('redis down');
+      },
+    };
+    const model = vi.fn().mockResolvedValue('<summary>S</summary>');
+
+    const result = await makeJanitor(model, broken, { logger }).compress(buildHistory(11));
+
+    expect(result[0].content).toContain('S');
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('summaryCache.get failed'),
+      expect.any(Error),
+    );
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('summaryCache.set failed'),
+      expect.any(Error),
+    );
+  });
+});
+
 // ═══════════════════════════════════════════════════════
 // compactMessages — pure exported function
 // ═══════════════════════════════════════════════════════
 
 describe('compactMessages (pure)', () => {
+  it('never clears pinned turns, and they do not use up keepRecent', () => {
+    const history: Message[] = [
+      {
+        role: 'assistant',
+        content: '',
+        thinking: { thinking: 'plan' },
+        tool_calls: [{ id: 'c1', type: 'function', function: { name: 'f', arguments: '{}' } }],
+        _pinned: true,
+      },
+      { role: 'tool', content: 'pinned result', tool_call_id: 'c1' },
+      { role: 'user', content: 'go on' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          { id: 'c2', type: 'function', function: { name: 'f', arguments: '{}' } },
+          { id: 'c3', type: 'function', function: { name: 'f', arguments: '{}' } },
+        ],
+      },
+      { role: 'tool', content: 'old', tool_call_id: 'c2' },
+      { role: 'tool', content: 'recent', tool_call_id: 'c3' },
+    ];
+
+    const result = compactMessages(history, {
+      clear: ['thinking', { target: 'tool-result', keepRecent: 1 }],
+    });
+
+    expect(result[0]).toBe(history[0]);
+    expect(result[1]).toBe(history[1]);
+    expect(result[4].content).toBe('[Old tool result content cleared]');
+    expect(result[5].content).toBe('recent');
+  });
+
   const history: Message[] = [
     { role: 'user', content: 'q1' },
     { role: 'assistant', content: 'a1', thinking: { thinking: 'hmm' } },
@@ -1710,4 +2893,99 @@ describe('compactMessages (pure)', () => {
     compactMessages(history, { clear: ['tool-result'] });
     expect(history[2].content).toBe('result-1');
   });
+
+  describe('duplicate-tool-result', () => {
+    const fileA = Array.from({ length: 20 }, (_, i) => `line ${i} of a.ts`).join('\n');
+    const call = (id: string, name: string): Message => ({
+      role: 'assistant',
+      content: '',
+      tool_calls: [{ id, type: 'function', function: { name, arguments: '{}' } }],
+    });
+
+    it('replaces older identical copies with a back-reference to the newest', () => {
+      const dupes: Message[] = [
+        call('c1', 'read_file'),
+        { role: 'tool', content: fileA, tool_call_id: 'c1' },
+        { role: 'user', content: 'again' },
+        call('c2', 'read_file'),
+        { role: 'tool', content: fileA, tool_call_id: 'c2' },
+      ];
+
+      const out = compactMessages(dupes, { clear: ['duplicate-tool-result'] });
+
+      expect(out[1].content).toBe('[Identical to the result of call c2 at turn 3]');
+      expect(out[1].tool_call_id).toBe('c1');
+      expect(out[4]).toBe(dupes[4]);
+      expect(dupes[1].content).toBe(fileA);
+    });
+
+    it('skips results shorter than minChars', () => {
+      const dupes: Message[] = [
+        call('c1', 'ls'),
+        { role: 'tool', content: 'a.ts', tool_call_id: 'c1' },
+        call('c2', 'ls'),
+        { role: 'tool', content: 'a.ts', tool_call_id: 'c2' },
+      ];
+      expect(compactMessages(dupes, { clear: ['duplicate-tool-result'] })).toEqual(dupes);
+      const out = compactMessages(dupes, {
+        clear: [{ target: 'duplicate-tool-result', minChars: 1 }],
+      });
+      expect(out[1].content).toBe('[Identical to the result of call c2 at turn 2]');
+    });
+
+    it('matches near-duplicates of the same tool at the similarity threshold', () => {
+      const edited = fileA.replace('line 7 of a.ts', 'line 7 of a.ts (edited)');
+      const dupes: Message[] = [
+        call('c1', 'read_file'),
+        { role: 'tool', content: fileA, tool_call_id: 'c1' },
+        call('c2', 'grep'),
+        { role: 'tool', content: edited, tool_call_id: 'c2' },
+        call('c3', 'read_file'),
+        { role: 'tool', content: edited, tool_call_id: 'c3' },
+      ];
+
+      expect(compactMessages(dupes, { clear: ['duplicate-tool-result'] })[1]).toBe(dupes[1]);
+
+      const out = compactMessages(dupes, {
+        clear: [{ target: 'duplicate-tool-result', similarity: 0.9 }],
+      });
+      expect(out[1].content).toBe(
+        '[Nearly identical (95% similar) to the result of call c3 at turn 3]',
+      );
+      // Exact copies match across tools
+      expect(out[3].content).toBe('[Identical to the result of call c3 at turn 3]');
+    });
+
+    it('never replaces pinned results, but they still serve as the newest copy', () => {
+      const dupes: Message[] = [
+        { ...call('c1', 'read_file'), _pinned: true },
+        { role: 'tool', content: fileA, tool_call_id: 'c1' },
+        call('c2', 'read_file'),
+        { role: 'tool', content: fileA, tool_call_id: 'c2' },
+        { ...call('c3', 'read_file'), _pinned: true },
+        { role: 'tool', content: fileA, tool_call_id: 'c3' },
+      ];
+
+      const out = compactMessages(dupes, { clear: ['duplicate-tool-result'] });
+
+      expect(out[1]).toBe(dupes[1]);
+      expect(out[3].content).toBe('[Identical to the result of call c3 at turn 3]');
+      expect(out[5]).toBe(dupes[5]);
+    });
+
+    it('leaves cleared results to the tool-result placeholder', () => {
+      const dupes: Message[] = [
+        call('c1', 'read_file'),
+        { role: 'tool', content: fileA, tool_call_id: 'c1' },
+        call('c2', 'read_file'),
+        { role: 'tool', content: fileA, tool_call_id: 'c2' },
+      ];
+
+      const out = compactMessages(dupes, {
+        clear: ['tool-result', 'duplicate-tool-result'],
+      });
+
+      expect(out[1].content).toBe('[Old tool result content cleared]');
+    });
+  });
 });
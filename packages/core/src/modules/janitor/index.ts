@@ -1,9 +1,25 @@
+import * as crypto from 'node:crypto';
+import { z } from 'zod';
 import { Prompts } from '../../prompts';
 import type { ChefLogger, CompactOptions, Message } from '../../types';
-import { estimateObject } from '../../utils/tokenUtils';
+import { estimate, estimateObject } from '../../utils/tokenUtils';
+import { objectToXml } from '../../utils/xmlGenerator';
+import {
+  type CompressionModel,
+  chainCompressionModels,
+  type SummaryQualityCheck,
+} from './compressionChain';
+import type { CachedSummary, SummaryCacheStore } from './summaryCache';
 
 const DEFAULT_PRESERVE_RATIO = 0.8;
 const DEFAULT_PRESERVE_RECENT_MESSAGES = 1;
+const DEFAULT_TIER_CHUNK_TURNS = 8;
+const DEFAULT_TIER_ROLLUP_FANOUT = 4;
+const DEFAULT_DEGRADATION_STUB_THRESHOLD = 5000;
+const DEFAULT_DEGRADATION_KEEP_RECENT_TOOL_RESULTS = 1;
+const DEFAULT_SPECULATIVE_THRESHOLD = 0.8;
+/** Turn boundaries, counting back from the planned split, probed for a cached summary. */
+const SUMMARY_CACHE_LOOKBACK_TURNS = 16;
 const MAX_CONSECUTIVE_COMPRESSION_FAILURES = 3;
 
 /**
@@ -83,6 +99,36 @@ export function groupIntoTurns(history: Message[]): Turn[] {
   return turns;
 }
 
+// ─── Pinned turns ───
+
+/**
+ * Per-message flags marking every message that belongs to a pinned turn — a
+ * turn (see {@link groupIntoTurns}) in which any message carries `_pinned`.
+ * Pinning is turn-granular so a pinned tool result never loses its tool call.
+ */
+export function markPinnedTurns(messages: Message[]): boolean[] {
+  const mask = new Array<boolean>(messages.length).fill(false);
+  for (const turn of groupIntoTurns(messages)) {
+    if (!messages.slice(turn.startIndex, turn.endIndex).some((m) => m._pinned)) continue;
+    mask.fill(true, turn.startIndex, turn.endIndex);
+  }
+  return mask;
+}
+
+/**
+ * Lifts pinned turns out of a slice. Both halves keep their original order.
+ */
+export function partitionPinnedTurns(messages: Message[]): {
+  pinned: Message[];
+  unpinned: Message[];
+} {
+  const mask = markPinnedTurns(messages);
+  return {
+    pinned: messages.filter((_, i) => mask[i]),
+    unpinned: messages.filter((_, i) => !mask[i]),
+  };
+}
+
 // ─── Attachment stripping for compression ───
 
 /**
@@ -163,6 +209,37 @@ function stripLargeToolResultsForCompression(messages: Message[], threshold: num
   });
 }
 
+/** Content key for a history slice — speculative and cached summaries are matched by it. */
+function hashMessages(messages: Message[]): string {
+  return prefixKeys(messages, [messages.length])[0];
+}
+
+/**
+ * Keys of several prefixes of `history` (`lengths` ascending) in one pass —
+ * each equals `hashMessages(history.slice(0, length))`.
+ */
+function prefixKeys(history: Message[], lengths: number[]): string[] {
+  const hash = crypto.createHash('sha256');
+  const keys: string[] = [];
+  let hashed = 0;
+  for (const length of lengths) {
+    for (; hashed < length; hashed++) hash.update(`${JSON.stringify(history[hashed])}\n`);
+    keys.push(hash.copy().digest('hex'));
+  }
+  return keys;
+}
+
+/** Races `promise` against `signal`, rejecting with the abort reason. */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  signal.throwIfAborted();
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
 /**
  * Strategy for choosing the trigger token count when both a local tokenizer
  * and an externally-reported usage value (via `feedTokenUsage()`) are
@@ -189,12 +266,16 @@ export type UsagePreferenceWithTokenizer = 'max' | 'feedFirst' | 'tokenizerFirst
  */
 export type UsagePreferenceWithoutTokenizer = 'max' | 'feedFirst';
 
-/** Boundary metadata for onCompress — maps the summary back to exact messages. */
-export interface CompressionDetails {
+/**
+ * Boundary metadata for onCompress — maps the summary back to exact messages.
+ * `TSummary` is the output type of `JanitorConfig.summarySchema`.
+ */
+export interface CompressionDetails<TSummary = unknown> {
   /**
    * The messages removed from history, now represented by the summary:
-   * the prefix slice [0, truncatedCount) of the input history (after any
-   * onBeforeCompress modification). Match these back to your own store by
+   * the prefix slice of the input history (after any onBeforeCompress
+   * modification) minus any pinned turns, which stay in the returned
+   * history right after the summary. Match these back to your own store by
    * identity (e.g. tool_call_id) or content — indices into this internal
    * array are deliberately not exposed, since consumers don't hold it.
    * In the no-compressionModel fallback these messages are dropped and the
@@ -202,13 +283,145 @@ export interface CompressionDetails {
    * persistence layers should still record the boundary.
    */
   compressedMessages: Message[];
+  /**
+   * `hierarchicalSummary` mode only: the tier layout now held in the summary
+   * message, oldest first. Absent in flat mode and when compression failed.
+   */
+  tiers?: SummaryTier[];
+  /**
+   * Which model in the compression chain produced the summary: 0 for
+   * `compressionModel`, 1+ for `compressionFallbacks` entries. When several
+   * model calls make up one compression (hierarchical mode, structured
+   * retry), the highest index used. Absent when compression failed or no
+   * compressionModel is configured.
+   */
+  compressionModelIndex?: number;
+  /**
+   * `summarySchema` mode only: the validated summary object. The summary
+   * message carries the same data rendered as XML.
+   */
+  structuredSummary?: TSummary;
+}
+
+/** One summary in the tier layout produced by `hierarchicalSummary` mode. */
+export interface SummaryTier {
+  /** 0 for chunk summaries; level N+1 summaries are roll-ups of level N. */
+  level: number;
+  /** Summary text (already passed through `formatCompactSummary`). */
+  summary: string;
+  /** Number of conversation turns (see {@link groupIntoTurns}) this summary covers. */
+  turns: number;
+  /** Size of `summary` — measured with the configured tokenizer, else estimated. */
+  tokens: number;
+}
+
+/**
+ * Rungs of the degradation ladder, mildest first. `'summarize'` is the
+ * regular compression pass and always runs last.
+ */
+export type DegradationStage =
+  | 'clear-thinking'
+  | 'stub-tool-results'
+  | 'offload-tool-results'
+  | 'summarize';
+
+/**
+ * Thresholds for `JanitorConfig.degradation`, as fractions of
+ * `contextWindow`. A rung runs on every compress() while usage is at or above
+ * its threshold; leave a threshold unset to skip that rung. LLM summarization
+ * still triggers only once usage exceeds the window itself.
+ */
+export interface DegradationPolicy {
+  /** Drop `thinking` / `redacted_thinking` from assistant messages (e.g. `0.6`). */
+  clearThinkingAt?: number;
+  /**
+   * Replace tool results longer than `toolResultStubThreshold` (default 5000
+   * chars) with a one-line stub naming the tool and size (e.g. `0.75`).
+   */
+  stubToolResultsAt?: number;
+  /**
+   * Move tool results longer than `toolResultStubThreshold` out of the
+   * history through `offload` (e.g. `0.9`). Unlike stubbing, this also covers
+   * the `keepRecentToolResults` most recent results.
+   */
+  offloadToolResultsAt?: number;
+  /** Most recent tool results that stubbing never touches. Default: 1. */
+  keepRecentToolResults?: number;
+  /**
+   * Stores a tool result and returns the text that replaces it, typically a
+   * preview plus a URI. A replacement that isn't shorter than the original is
+   * discarded. ContextChef defaults this to its VFS Offloader; a bare Janitor
+   * skips the offload rung without it.
+   */
+  offload?: (content: string) => string | Promise<string>;
+}
+
+/** Reported through `onDegrade` for every ladder rung that changed the history. */
+export interface DegradationEvent {
+  stage: DegradationStage;
+  /** Token usage before the rung ran. */
+  tokensBefore: number;
+  /** Token usage after the rung ran. */
+  tokensAfter: number;
+  /** `contextWindow`. */
+  limit: number;
+  /** Messages the rung rewrote — or, for `'summarize'`, evicted. */
+  affectedMessages: number;
+}
+
+/** Tuning for `JanitorConfig.speculativeCompression`. */
+export interface SpeculativeCompressionConfig {
+  /**
+   * Fraction of `contextWindow` at which background summarization starts.
+   * Default: 0.8.
+   */
+  threshold?: number;
+}
+
+/** A finished speculative summary, as carried by {@link JanitorSnapshot}. */
+export interface SpeculativeSummary extends CachedSummary {
+  /** SHA-256 of the history prefix that was summarized. */
+  key: string;
+  /** Length of that prefix — the split point the summary replaces. */
+  splitIndex: number;
+}
+
+interface SpeculationRecord {
+  key: string;
+  splitIndex: number;
+  pending: Promise<CachedSummary>;
+  /** Set once `pending` resolves. */
+  outcome?: CachedSummary;
+}
+
+/** Tuning for `JanitorConfig.hierarchicalSummary`. */
+export interface HierarchicalSummaryConfig {
+  /**
+   * Turns per level-0 chunk. Evicted history is split on turn boundaries into
+   * chunks of this many turns, each summarized separately. Default: 8.
+   */
+  chunkTurns?: number;
+  /**
+   * When a level holds more than this many summaries, its oldest `rollupFanout`
+   * summaries are merged into one summary on the next level up. Cascades, so
+   * the layout grows logarithmically with session length. Default: 4.
+   */
+  rollupFanout?: number;
+  /**
+   * Token cap per tier, indexed by level; the last entry applies to every
+   * higher level. The cap is given to the model in the prompt, and a summary
+   * that still exceeds it gets one extra condensing pass. Give older tiers
+   * smaller caps to compress them hardest, e.g. `[1500, 800, 400]`.
+   * Default: uncapped.
+   */
+  tierTokenBudgets?: number[];
 }
 
 /**
  * Fields shared by every JanitorConfig variant. Not exported on its own —
  * downstream callers should use {@link JanitorConfig}.
  */
-interface JanitorConfigBase {
+interface JanitorConfigBase<TSummary = unknown> {
   /**
    * The model's context window size (in tokens).
    * Compression is triggered when token usage exceeds this value.
@@ -237,7 +450,25 @@ interface JanitorConfigBase {
    * the next successful compression or an explicit janitor.reset() / chef.clearHistory().
    * The failure counter is preserved across snapshot()/restore().
    */
-  compressionModel?: (messagesToCompress: Message[]) => Promise<string>;
+  compressionModel?: CompressionModel;
+
+  /**
+   * Models tried in order when `compressionModel` throws or its summary is
+   * rejected by `summaryChecks` — e.g. a bigger model, then
+   * `createExtractiveCompressionModel()` as a deterministic last resort.
+   * Only when the whole chain is exhausted does the compression count as a
+   * failure for the circuit breaker. `onCompress` details report which model
+   * produced the summary as `compressionModelIndex`.
+   */
+  compressionFallbacks?: CompressionModel[];
+
+  /**
+   * Quality gates applied to every summary a chain model produces. A check
+   * returning a reason rejects the summary and hands the same input to the
+   * next model in the chain. Built-ins: `minSummaryLength`,
+   * `requireMentions`, `maxSummaryTokens`.
+   */
+  summaryChecks?: SummaryQualityCheck[];
 
   /** Sink for degradation warnings. Defaults to `console`. */
   logger?: ChefLogger;
@@ -271,6 +502,121 @@ interface JanitorConfigBase {
    */
   customCompressionInstructions?: string;
 
+  /**
+   * Incremental (anchored) summarization. When enabled, the Janitor remembers
+   * the last summary it produced. On the next compression, if that summary
+   * message is still inside the slice being evicted, only the delta — the
+   * previous summary plus the newly evicted turns — is sent to the
+   * compression model with a "merge into existing summary" prompt
+   * (`Prompts.getIncrementalCompactionInstruction`), instead of
+   * re-summarizing the whole slice from scratch.
+   *
+   * The anchor is matched by content, so it keeps working when you persist
+   * the summary message from `onCompress` into your own store. When the
+   * anchor is not found (history was replaced, or the summary was already
+   * kept out of the evicted slice), compression falls back to a full pass.
+   * The anchor survives snapshotState()/restoreState().
+   *
+   * Default: false.
+   */
+  incrementalSummary?: boolean;
+
+  /**
+   * Structured summaries. The compression model is asked for a JSON object
+   * matching this zod schema (sent as JSON Schema inside the prompt). The
+   * result is validated; on failure the model gets one retry with the
+   * validation error. The validated object is rendered as XML into the
+   * summary message and passed to `onCompress` as
+   * `details.structuredSummary`. A second failure counts as a compression
+   * failure (fallback notice + circuit breaker).
+   *
+   * Combines with `incrementalSummary`. Ignored in `hierarchicalSummary` mode.
+   *
+   * @example
+   * summarySchema: z.object({
+   *   filesTouched: z.array(z.string()),
+   *   decisions: z.array(z.string()),
+   *   openTodos: z.array(z.string()),
+   *   errorsResolved: z.array(z.string()),
+   * })
+   */
+  summarySchema?: z.ZodType<TSummary>;
+
+  /**
+   * Hierarchical (multi-level) summarization for very long sessions. Instead
+   * of one flat summary that keeps growing or gets re-squashed, evicted turns
+   * are summarized in level-0 chunks that are periodically rolled up into
+   * higher-level "epoch" summaries. The summary message holds every tier,
+   * oldest first; `onCompress` details expose the layout as `tiers`.
+   *
+   * Like `incrementalSummary`, existing tiers are recognized in the evicted
+   * slice by content and are not re-summarized; if the summary message is not
+   * found, the layout starts over. The layout survives
+   * snapshotState()/restoreState(). Takes precedence over `incrementalSummary`.
+   *
+   * Pass `true` for defaults. Default: disabled.
+   */
+  hierarchicalSummary?: boolean | HierarchicalSummaryConfig;
+
+  /**
+   * Speculative pre-compression. Once usage crosses a soft threshold (still
+   * under `contextWindow`), compress() starts summarizing the slice it would
+   * evict in the background and returns immediately. The result is cached,
+   * keyed by the content of that history prefix. When the budget is later
+   * exceeded, and the history still starts with the same prefix, the cached
+   * summary is swapped in without an inline model call — provided the
+   * result fits the window; otherwise compression runs inline as usual.
+   *
+   * A speculation is discarded if the `signal` passed to the compress() call
+   * that started it aborts. A finished speculation survives
+   * snapshotState()/restoreState(); one still running does not.
+   *
+   * Pass `true` for the default threshold (0.8). Requires `compressionModel`.
+   * Default: disabled.
+   */
+  speculativeCompression?: boolean | SpeculativeCompressionConfig;
+
+  /**
+   * Content-addressed summary cache. Every summary is stored under a hash of
+   * the history prefix it replaced; a later compression whose history starts
+   * with a cached prefix (probing the last few turn boundaries before the
+   * planned split) reuses the summary without a model call, provided the
+   * result fits the window. Meant for in-flight callers that don't persist
+   * summaries: the call right after a compression — normally skipped — also
+   * re-applies a cached summary, so the re-expanded history stays compressed
+   * on every call.
+   *
+   * Store errors are logged and treated as misses. Use one store per Janitor
+   * configuration. Requires `compressionModel`. Default: disabled.
+   */
+  summaryCache?: SummaryCacheStore;
+
+  /**
+   * Tiered degradation. As usage climbs toward `contextWindow`, compress()
+   * first applies cheap mechanical reductions — clearing thinking, stubbing
+   * large tool results, offloading them — and only summarizes with the LLM
+   * once the window is actually exceeded. Each rung that changes the history
+   * is reported through `onDegrade`, as is the final summarization.
+   *
+   * Rungs run even while the circuit breaker is open or the post-compression
+   * check is suppressed, since they never call a model. Pinned turns are
+   * never touched.
+   *
+   * @example
+   * degradation: { clearThinkingAt: 0.6, stubToolResultsAt: 0.75, offloadToolResultsAt: 0.9 }
+   */
+  degradation?: DegradationPolicy;
+
+  /**
+   * Observes the degradation ladder: called once per rung that changed the
+   * history, and with stage `'summarize'` whenever compression evicts
+   * messages (with or without `degradation` configured).
+   *
+   * Contract: should not throw or reject. A throwing hook is caught and
+   * logged via `logger`; compression continues.
+   */
+  onDegrade?: (event: DegradationEvent) => void | Promise<void>;
+
   /**
    * Hook triggered ONLY when compression actually happens.
    * Useful for UI loaders ("Compressing memory..."), logging, or saving the compressed state.
@@ -287,7 +633,7 @@ interface JanitorConfigBase {
   onCompress?: (
     summaryMessage: Message,
     truncatedCount: number,
-    details: CompressionDetails,
+    details: CompressionDetails<TSummary>,
   ) => void | Promise<void>;
 
   /**
@@ -328,7 +674,8 @@ interface JanitorConfigBase {
  * @example
  * tokenizer: (msgs) => msgs.reduce((sum, m) => sum + encode(JSON.stringify(m)).length, 0)
  */
-export interface JanitorConfigWithTokenizer extends JanitorConfigBase {
+export interface JanitorConfigWithTokenizer<TSummary = unknown>
+  extends JanitorConfigBase<TSummary> {
   tokenizer: (messages: Message[]) => number;
   usagePreference?: UsagePreferenceWithTokenizer;
 }
@@ -342,7 +689,8 @@ export interface JanitorConfigWithTokenizer extends JanitorConfigBase {
  * value union: with no tokenizer present it would have nothing to read from,
  * so the type system rejects it at compile time.
  */
-export interface JanitorConfigWithoutTokenizer extends JanitorConfigBase {
+export interface JanitorConfigWithoutTokenizer<TSummary = unknown>
+  extends JanitorConfigBase<TSummary> {
   tokenizer?: undefined;
   usagePreference?: UsagePreferenceWithoutTokenizer;
 }
@@ -353,13 +701,115 @@ export interface JanitorConfigWithoutTokenizer extends JanitorConfigBase {
  *
  * - With tokenizer: `'max' | 'feedFirst' | 'tokenizerFirst'`
  * - Without tokenizer: `'max' | 'feedFirst'`
+ *
+ * `TSummary` is inferred from `summarySchema`, which types
+ * `onCompress`'s `details.structuredSummary`.
  */
-export type JanitorConfig = JanitorConfigWithTokenizer | JanitorConfigWithoutTokenizer;
+export type JanitorConfig<TSummary = unknown> =
+  | JanitorConfigWithTokenizer<TSummary>
+  | JanitorConfigWithoutTokenizer<TSummary>;
 
 export interface JanitorSnapshot {
   externalTokenUsage: number | null;
   suppressNextCompression: boolean;
   consecutiveFailures: number;
+  /**
+   * Text of the last summary produced in `incrementalSummary` mode, or null.
+   * Optional for backward compatibility — older snapshots restore to null.
+   */
+  summaryAnchor?: string | null;
+  /**
+   * Tier layout held in `hierarchicalSummary` mode. Optional for backward
+   * compatibility — older snapshots restore to an empty layout.
+   */
+  summaryTiers?: SummaryTier[];
+  /**
+   * Finished `speculativeCompression` result awaiting use, or null. Optional
+   * for backward compatibility — older snapshots restore to none.
+   */
+  speculativeSummary?: SpeculativeSummary | null;
+}
+
+// ─── Duplicate tool results ───
+
+/** Dice coefficient over the line multisets of two texts (1 = same lines). */
+function lineSimilarity(a: Map<string, number>, b: Map<string, number>, total: number): number {
+  let shared = 0;
+  for (const [line, count] of a) {
+    shared += Math.min(count, b.get(line) ?? 0);
+  }
+  return total === 0 ? 1 : (2 * shared) / total;
+}
+
+function countLines(content: string): { counts: Map<string, number>; size: number } {
+  const counts = new Map<string, number>();
+  const lines = content.split('\n');
+  for (const line of lines) {
+    counts.set(line, (counts.get(line) ?? 0) + 1);
+  }
+  return { counts, size: lines.length };
+}
+
+/**
+ * Finds tool results whose content reappears in a later tool result and maps
+ * their indices to a back-reference naming the later copy. Walks newest to
+ * oldest so the most recent copy always stays verbatim. Exact matches are
+ * recognized across tools; near matches (`similarity < 1`) only between
+ * results of the same tool. Pinned messages, messages with attachments and
+ * results shorter than `minChars` are never replaced.
+ */
+function findDuplicateToolResults(
+  history: Message[],
+  pinned: boolean[],
+  similarity: number,
+  minChars: number,
+): Map<number, string> {
+  const turnOf = new Array<number>(history.length);
+  groupIntoTurns(history).forEach((turn, t) => {
+    turnOf.fill(t + 1, turn.startIndex, turn.endIndex);
+  });
+  const nameMap = buildToolNameMap(history);
+
+  interface Canonical {
+    id: string;
+    turn: number;
+    name: string;
+    counts: Map<string, number>;
+    size: number;
+  }
+  const exact = new Map<string, Canonical>();
+  const kept: Canonical[] = [];
+  const references = new Map<number, string>();
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const msg = history[i];
+    if (msg.role !== 'tool' || msg.attachments?.length || msg.content.length < minChars) continue;
+    const name = (msg.tool_call_id && nameMap.get(msg.tool_call_id)) ?? 'unknown';
+
+    let match = exact.get(msg.content);
+    let score = 1;
+    const lines = countLines(msg.content);
+    if (!match && similarity < 1) {
+      for (const candidate of kept) {
+        if (candidate.name !== name) continue;
+        const s = lineSimilarity(lines.counts, candidate.counts, lines.size + candidate.size);
+        if (s >= similarity && s > (match ? score : 0)) {
+          match = candidate;
+          score = s;
+        }
+      }
+    }
+
+    if (match && !pinned[i]) {
+      references.set(i, Prompts.getDuplicateToolResultReference(match.id, match.turn, score));
+    } else if (!match && msg.tool_call_id) {
+      const canonical = { id: msg.tool_call_id, turn: turnOf[i], name, ...lines };
+      exact.set(msg.content, canonical);
+      kept.push(canonical);
+    }
+  }
+
+  return references;
 }
 
 /**
@@ -372,26 +822,34 @@ export function compactMessages(history: Message[], options: CompactOptions): Me
   let clearToolResult = false;
   let toolResultKeepRecent: number | undefined;
   let clearThinking = false;
+  let dedupe: { similarity?: number; minChars?: number } | undefined;
 
   for (const target of options.clear) {
     if (target === 'tool-result') {
       clearToolResult = true;
     } else if (target === 'thinking') {
       clearThinking = true;
+    } else if (target === 'duplicate-tool-result') {
+      dedupe = {};
     } else if (typeof target === 'object' && target.target === 'tool-result') {
       clearToolResult = true;
       toolResultKeepRecent = target.keepRecent;
+    } else if (typeof target === 'object' && target.target === 'duplicate-tool-result') {
+      dedupe = target;
     }
   }
 
+  // Pinned turns are never cleared and don't use up the keepRecent allowance
+  const pinned = markPinnedTurns(history);
+
   // Build the set of tool message indices to skip (keepRecent)
   let toolResultSkipSet: Set<number> | undefined;
   if (clearToolResult && toolResultKeepRecent !== undefined) {
     const keepCount = Math.max(1, toolResultKeepRecent);
-    // Collect indices of all tool messages (in order)
+    // Collect indices of all unpinned tool messages (in order)
     const toolIndices: number[] = [];
     for (let i = 0; i < history.length; i++) {
-      if (history[i].role === 'tool') {
+      if (history[i].role === 'tool' && !pinned[i]) {
         toolIndices.push(i);
       }
     }
@@ -400,7 +858,17 @@ export function compactMessages(history: Message[], options: CompactOptions): Me
     toolResultSkipSet = new Set(preserveIndices);
   }
 
+  const duplicates = dedupe
+    ? findDuplicateToolResults(
+        history,
+        pinned,
+        Math.min(1, Math.max(0, dedupe.similarity ?? 1)),
+        dedupe.minChars ?? 200,
+      )
+    : undefined;
+
   return history.map((msg, idx) => {
+    if (pinned[idx]) return msg;
     let result = msg;
 
     if (clearToolResult && msg.role === 'tool') {
@@ -410,6 +878,12 @@ export function compactMessages(history: Message[], options: CompactOptions): Me
       }
     }
 
+    // Clearing wins: a result already reduced to a placeholder needs no back-reference
+    const reference = duplicates?.get(idx);
+    if (reference && result === msg) {
+      result = { ...result, content: reference };
+    }
+
     if (clearThinking && msg.role === 'assistant') {
       if (msg.thinking || msg.redacted_thinking) {
         // Set to undefined rather than destructure-delete: keeps Message typing
@@ -429,6 +903,11 @@ export interface SummarizeHistoryOptions {
   /** Replace tool-result content longer than this many chars with a one-line
    *  metadata stub before summarizing (saves summarizer tokens). */
   toolResultStubThreshold?: number;
+  /** A summary produced earlier for the material preceding `messages`. When
+   *  set, `messages` is treated as the delta since that summary and the model
+   *  is asked to merge it in (`Prompts.getIncrementalCompactionInstruction`)
+   *  instead of summarizing from scratch. */
+  previousSummary?: string;
 }
 
 /**
@@ -443,7 +922,8 @@ export interface SummarizeHistoryOptions {
  * callers decide their own degradation. `Janitor.executeCompression` delegates
  * here and keeps its own try/catch + circuit breaker.
  *
- * An empty `messages` slice returns `''` without invoking `compress`.
+ * An empty `messages` slice returns `''` without invoking `compress` — even
+ * with `previousSummary` set (there is nothing to merge).
  *
  * @param messages   The slice to summarize (conversation only; exclude the
  *                   standing system prompt).
@@ -462,27 +942,138 @@ export async function summarizeHistory(
 ): Promise<string> {
   if (messages.length === 0) return '';
 
-  let instruction = Prompts.CONTEXT_COMPACTION_INSTRUCTION;
-  const extra = opts.customCompressionInstructions?.trim();
-  if (extra) {
-    instruction += `\n\nAdditional Instructions:\n${extra}`;
+  const instruction = opts.previousSummary
+    ? Prompts.getIncrementalCompactionInstruction(opts.previousSummary)
+    : Prompts.CONTEXT_COMPACTION_INSTRUCTION;
+
+  const raw = await compress(buildCompressionMessages(messages, instruction, opts));
+  return Prompts.formatCompactSummary(raw);
+}
+
+export interface StructuredSummaryOptions<T> extends SummarizeHistoryOptions {
+  /** Shape the summary must validate against. Sent to the model as JSON Schema. */
+  schema: z.ZodType<T>;
+}
+
+export interface StructuredSummary<T> {
+  /** The validated summary object. */
+  data: T;
+  /** `data` rendered as XML — the text to put in the summary message. */
+  summary: string;
+}
+
+/**
+ * Thrown by {@link summarizeHistoryStructured} when the model's output still
+ * fails JSON parsing or schema validation after the retry.
+ */
+export class StructuredSummaryError extends Error {
+  /** Raw output of the final (retry) compression call. */
+  readonly raw: string;
+
+  constructor(validationError: string, raw: string) {
+    super(`Structured summary failed validation after a retry: ${validationError}`);
+    this.name = 'StructuredSummaryError';
+    this.raw = raw;
   }
+}
+
+/**
+ * Structured counterpart of {@link summarizeHistory}: same pipeline, but the
+ * model is asked for a JSON object matching `opts.schema`
+ * (`Prompts.getStructuredCompactionInstruction`). The output is parsed and
+ * validated; on failure the model is called once more with its previous
+ * answer and the validation error (`Prompts.getStructuredSummaryRetry`).
+ *
+ * Returns the validated object plus its XML rendering, or `null` for an
+ * empty slice (without invoking `compress`). THROWS
+ * {@link StructuredSummaryError} when the retry also fails, or whatever
+ * `compress` throws. The role-flattening contract on `compress` is the same
+ * as for {@link summarizeHistory}.
+ */
+export async function summarizeHistoryStructured<T>(
+  messages: Message[],
+  compress: (messages: Message[]) => Promise<string>,
+  opts: StructuredSummaryOptions<T>,
+): Promise<StructuredSummary<T> | null> {
+  if (messages.length === 0) return null;
+
+  const jsonSchema = JSON.stringify(
+    z.toJSONSchema(opts.schema, { io: 'input', unrepresentable: 'any' }),
+    null,
+    2,
+  );
+  const compressionMessages = buildCompressionMessages(
+    messages,
+    Prompts.getStructuredCompactionInstruction(jsonSchema, opts.previousSummary),
+    opts,
+  );
+
+  const raw = await compress(compressionMessages);
+  let parsed = parseStructuredSummary(raw, opts.schema);
+  if (!parsed.success) {
+    const retryRaw = await compress([
+      ...compressionMessages,
+      { role: 'assistant', content: raw },
+      { role: 'user', content: Prompts.getStructuredSummaryRetry(parsed.error) },
+    ]);
+    parsed = parseStructuredSummary(retryRaw, opts.schema);
+    if (!parsed.success) throw new StructuredSummaryError(parsed.error, retryRaw);
+  }
+
+  return { data: parsed.data, summary: objectToXml(parsed.data, 'structured_summary') };
+}
+
+/**
+ * Shared prompt assembly for the summarize functions: tool-result stubbing →
+ * attachment stripping → trailing instruction (plus any custom instructions).
+ */
+function buildCompressionMessages(
+  messages: Message[],
+  instruction: string,
+  opts: SummarizeHistoryOptions,
+): Message[] {
+  const extra = opts.customCompressionInstructions?.trim();
+  const fullInstruction = extra
+    ? `${instruction}\n\nAdditional Instructions:\n${extra}`
+    : instruction;
 
   const stubbed =
     opts.toolResultStubThreshold !== undefined
       ? stripLargeToolResultsForCompression(messages, opts.toolResultStubThreshold)
       : messages;
 
-  const compressionMessages: Message[] = [
-    ...stripAttachmentsForCompression(stubbed),
-    { role: 'user', content: instruction },
-  ];
+  return [...stripAttachmentsForCompression(stubbed), { role: 'user', content: fullInstruction }];
+}
 
-  const raw = await compress(compressionMessages);
-  return Prompts.formatCompactSummary(raw);
+/**
+ * Extracts the `<summary>` body of a structured-summary response, parses it
+ * as JSON (tolerating a code fence) and validates it against `schema`.
+ */
+function parseStructuredSummary<T>(
+  raw: string,
+  schema: z.ZodType<T>,
+): { success: true; data: T } | { success: false; error: string } {
+  const body = Prompts.formatCompactSummary(raw)
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const result = schema.safeParse(json);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: z.prettifyError(result.error) };
 }
 
-export class Janitor {
+export class Janitor<TSummary = unknown> {
   /** Externally reported token count from the last API response. */
   private _externalTokenUsage: number | null = null;
   /** Suppresses the next compression check after a successful compression (E10). */
@@ -493,8 +1084,27 @@ export class Janitor {
    * to prevent hammering a broken compression model on every turn.
    */
   private _consecutiveFailures = 0;
+  /**
+   * Incremental mode only: the last summary text this Janitor produced. Its
+   * wrapped message is the anchor the next compression merges into.
+   */
+  private _summaryAnchor: string | null = null;
+  /** Hierarchical mode only: the tier layout held in the last summary message. */
+  private _summaryTiers: SummaryTier[] = [];
+  /** Speculative mode only: the background summary in flight or awaiting use. */
+  private _speculation: SpeculationRecord | null = null;
+  /**
+   * Degradation only: what each input message became on an earlier ladder
+   * run, keyed by the message's serialized content. ContextChef never writes
+   * compress() output back to its history, and callers (attachment offload,
+   * argument repair, the middlewares' prompt conversion) rebuild message
+   * objects on every call, so without this every compile would re-run the
+   * rungs on the same messages — re-reporting them and offloading the same
+   * content again. Holds only messages present in the last input.
+   */
+  private _degraded = new Map<string, Message>();
 
-  constructor(private config: JanitorConfig) {
+  constructor(private config: JanitorConfig<TSummary>) {
     // Warn if feedTokenUsage path is likely used without a compressionModel
     if (!config.tokenizer && !config.compressionModel) {
       (config.logger ?? console).warn(
@@ -503,6 +1113,11 @@ export class Janitor {
           'with only a placeholder summary. Consider providing a compressionModel for meaningful context preservation.',
       );
     }
+    if (config.summarySchema && config.hierarchicalSummary) {
+      (config.logger ?? console).warn(
+        '[Janitor] Warning: summarySchema is ignored when hierarchicalSummary is enabled — tiers are plain-text summaries.',
+      );
+    }
   }
 
   public snapshotState(): JanitorSnapshot {
@@ -510,6 +1125,15 @@ export class Janitor {
       externalTokenUsage: this._externalTokenUsage,
       suppressNextCompression: this._suppressNextCompression,
       consecutiveFailures: this._consecutiveFailures,
+      summaryAnchor: this._summaryAnchor,
+      summaryTiers: this._summaryTiers.map((t) => ({ ...t })),
+      speculativeSummary: this._speculation?.outcome
+        ? {
+            ...this._speculation.outcome,
+            key: this._speculation.key,
+            splitIndex: this._speculation.splitIndex,
+          }
+        : null,
     };
   }
 
@@ -517,6 +1141,15 @@ export class Janitor {
     this._externalTokenUsage = state.externalTokenUsage;
     this._suppressNextCompression = state.suppressNextCompression;
     this._consecutiveFailures = state.consecutiveFailures ?? 0;
+    this._summaryAnchor = state.summaryAnchor ?? null;
+    this._summaryTiers = state.summaryTiers?.map((t) => ({ ...t })) ?? [];
+    const speculated = state.speculativeSummary;
+    if (speculated) {
+      const { key, splitIndex, ...outcome } = speculated;
+      this._speculation = { key, splitIndex, pending: Promise.resolve(outcome), outcome };
+    } else {
+      this._speculation = null;
+    }
   }
 
   /**
@@ -527,6 +1160,10 @@ export class Janitor {
     this._externalTokenUsage = null;
     this._suppressNextCompression = false;
     this._consecutiveFailures = 0;
+    this._summaryAnchor = null;
+    this._summaryTiers = [];
+    this._speculation = null;
+    this._degraded = new Map();
   }
 
   /**
@@ -548,18 +1185,39 @@ export class Janitor {
    *
    * Circuit breaker: if the compressionModel has failed MAX_CONSECUTIVE_COMPRESSION_FAILURES
    * times in a row, compress() returns history unchanged to avoid futile retries.
+   *
+   * With `degradation` configured, the mechanical rungs of the ladder run
+   * first (see {@link JanitorConfigBase.degradation}). With
+   * `speculativeCompression`, an under-budget call may start a background
+   * summary instead. `options.signal` (e.g. `CompileOptions.signal`) aborts
+   * a wait on that summary and discards speculations it started.
    */
-  public async compress(history: Message[]): Promise<Message[]> {
+  public async compress(
+    history: Message[],
+    options: { signal?: AbortSignal } = {},
+  ): Promise<Message[]> {
+    const { signal } = options;
+    history = await this._degrade(history);
+
     // Circuit breaker: bail out if compression is consistently failing.
     if (this._consecutiveFailures >= MAX_CONSECUTIVE_COMPRESSION_FAILURES) {
       return history;
     }
 
+    // Read before evaluateBudget consumes the fed value.
+    const usage = this.config.speculativeCompression ? this._effectiveTokens(history) : 0;
+    const suppressed = this._suppressNextCompression;
     const evaluation = this.evaluateBudget(history);
-    if (evaluation === null) return history;
+    if (evaluation === null) {
+      if (suppressed) {
+        const replayed = await this._replayCachedSummary(history);
+        if (replayed) return replayed;
+      }
+      this._speculate(history, usage, signal);
+      return history;
+    }
 
-    let { splitIndex } = evaluation;
-    const { currentTokens } = evaluation;
+    let { splitIndex, currentTokens } = evaluation;
 
     // Fire onBeforeCompress hook — developer gets a chance to intervene
     const hook = this.config.onBeforeCompress ?? this.config.onBudgetExceeded;
@@ -588,10 +1246,11 @@ export class Janitor {
         if (reEval === null) return modified;
         history = modified;
         splitIndex = reEval.splitIndex;
+        currentTokens = reEval.currentTokens;
       }
     }
 
-    return this.executeCompression(history, splitIndex);
+    return this.executeCompression(history, splitIndex, currentTokens, signal);
   }
 
   /**
@@ -617,6 +1276,10 @@ export class Janitor {
    * - compact + compress: clear `thinking` only in compact, leave tool-result
    *   trimming to `toolResultStubThreshold`
    *
+   * `duplicate-tool-result` is safe in every combination: it only rewrites
+   * older copies of a result that still appears verbatim (or nearly so) later
+   * in the history, so nothing the model needs is lost.
+   *
    * @example
    * // Clear all tool results and thinking (compact only, no compress)
    * history = janitor.compact(history, { clear: ['tool-result', 'thinking'] });
@@ -628,6 +1291,11 @@ export class Janitor {
    * // on the Janitor for tool-result trimming
    * history = janitor.compact(history, { clear: ['thinking'] });
    * history = await janitor.compress(history);
+   *
+   * // Replace re-read files that barely changed with a back-reference
+   * history = janitor.compact(history, {
+   *   clear: [{ target: 'duplicate-tool-result', similarity: 0.9 }],
+   * });
    */
   public compact(history: Message[], options: CompactOptions): Message[] {
     return compactMessages(history, options);
@@ -641,6 +1309,10 @@ export class Janitor {
    * (assistant+tool_calls+tool_results as one unit), and splits only happen
    * on turn boundaries. This guarantees tool pair integrity and valid
    * message alternation without post-hoc corrections.
+   *
+   * Pinned turns never count as compressible: in the tokenizer path their
+   * tokens are charged to the preserve budget up front, and a split that
+   * would leave only pinned turns to compress yields null.
    */
   private evaluateBudget(history: Message[]): { splitIndex: number; currentTokens: number } | null {
     if (history.length === 0) return null;
@@ -651,49 +1323,59 @@ export class Janitor {
       return null;
     }
 
-    const turns = groupIntoTurns(history);
+    const currentTokens = this._effectiveTokens(history);
+    this._externalTokenUsage = null;
 
-    // ─── Tokenizer path: precise per-message calculation ───
-    if (this.config.tokenizer) {
-      const tokenizerTokens = this.config.tokenizer(history);
-      const fedTokens = this._externalTokenUsage;
-      this._externalTokenUsage = null;
-
-      // Trigger source selection — see UsagePreferenceWithTokenizer JSDoc for
-      // when each branch is the right call. Default 'max' preserves the
-      // historical Math.max behavior for callers that do not opt in.
-      const preference = this.config.usagePreference ?? 'max';
-      let effectiveTokens: number;
-      switch (preference) {
-        case 'feedFirst':
-          effectiveTokens = fedTokens ?? tokenizerTokens;
-          break;
-        case 'tokenizerFirst':
-          effectiveTokens = tokenizerTokens;
-          break;
-        default:
-          effectiveTokens = Math.max(tokenizerTokens, fedTokens ?? 0);
-      }
+    if (currentTokens <= this.config.contextWindow) {
+      return null;
+    }
 
-      if (effectiveTokens <= this.config.contextWindow) {
-        return null;
-      }
+    const splitIndex = this._planSplit(history);
+    return splitIndex === null ? null : { splitIndex, currentTokens };
+  }
+
+  /**
+   * Where compression would cut `history`, independent of whether the budget
+   * is exceeded: by `preserveRatio` in the tokenizer path, by
+   * `preserveRecentMessages` turns otherwise. Null when the cut would leave
+   * nothing unpinned to compress.
+   */
+  private _planSplit(history: Message[]): number | null {
+    const turns = groupIntoTurns(history);
+    const pinned = markPinnedTurns(history);
+    // Nothing to compress when every message before the split is pinned.
+    const hasUnpinned = (splitIndex: number) => pinned.slice(0, splitIndex).includes(false);
 
+    // ─── Tokenizer path: precise per-message calculation ───
+    const { tokenizer } = this.config;
+    if (tokenizer) {
       const preserveTarget = Math.floor(
         this.config.contextWindow * (this.config.preserveRatio ?? DEFAULT_PRESERVE_RATIO),
       );
 
-      // Iterate turns from the tail, accumulating token costs per turn
+      const turnTokens = (t: number) =>
+        tokenizer(history.slice(turns[t].startIndex, turns[t].endIndex));
+
+      // Pinned turns survive compression wherever they sit, so they spend
+      // the preserve budget first.
       let accumulatedTokens = 0;
+      for (let t = 0; t < turns.length; t++) {
+        if (pinned[turns[t].startIndex]) accumulatedTokens += turnTokens(t);
+      }
+
+      // Iterate turns from the tail, accumulating token costs per turn
       let splitTurn = turns.length;
 
       for (let t = turns.length - 1; t >= 0; t--) {
-        const turnMessages = history.slice(turns[t].startIndex, turns[t].endIndex);
-        const turnTokens = this.config.tokenizer(turnMessages);
-        if (accumulatedTokens + turnTokens > preserveTarget) {
+        if (pinned[turns[t].startIndex]) {
+          splitTurn = t;
+          continue;
+        }
+        const tokens = turnTokens(t);
+        if (accumulatedTokens + tokens > preserveTarget) {
           break;
         }
-        accumulatedTokens += turnTokens;
+        accumulatedTokens += tokens;
         splitTurn = t;
       }
 
@@ -705,17 +1387,10 @@ export class Janitor {
       if (splitTurn <= 0) return null;
 
       const splitIndex = turns[splitTurn].startIndex;
-      return { splitIndex, currentTokens: effectiveTokens };
-    }
-
-    // ─── FeedTokenUsage path: simple total comparison, keep last N turns ───
-    const currentTokens = this._externalTokenUsage ?? estimateObject(history);
-    this._externalTokenUsage = null;
-
-    if (currentTokens <= this.config.contextWindow) {
-      return null;
+      return hasUnpinned(splitIndex) ? splitIndex : null;
     }
 
+    // ─── FeedTokenUsage path: keep last N turns ───
     // Keep the last N turns (not messages), compress everything else
     const keepCount = Math.min(
       this.config.preserveRecentMessages ?? DEFAULT_PRESERVE_RECENT_MESSAGES,
@@ -726,35 +1401,192 @@ export class Janitor {
     if (splitTurn <= 0) return null;
 
     const splitIndex = turns[splitTurn].startIndex;
-    return { splitIndex, currentTokens };
+    return hasUnpinned(splitIndex) ? splitIndex : null;
   }
 
-  private async executeCompression(history: Message[], splitIndex: number): Promise<Message[]> {
-    const toCompress = history.slice(0, splitIndex);
-    const toKeep = history.slice(splitIndex);
+  /**
+   * Current usage as compress() sees it, without consuming the fed value.
+   * Tokenizer path: tokenizer vs. fed per `usagePreference`. FeedTokenUsage
+   * path: the fed value, else the heuristic estimate.
+   */
+  private _effectiveTokens(history: Message[]): number {
+    const fedTokens = this._externalTokenUsage;
+    if (!this.config.tokenizer) return fedTokens ?? estimateObject(history);
+
+    const tokenizerTokens = this.config.tokenizer(history);
+    // Trigger source selection — see UsagePreferenceWithTokenizer JSDoc for
+    // when each branch is the right call. Default 'max' preserves the
+    // historical Math.max behavior for callers that do not opt in.
+    switch (this.config.usagePreference ?? 'max') {
+      case 'feedFirst':
+        return fedTokens ?? tokenizerTokens;
+      case 'tokenizerFirst':
+        return tokenizerTokens;
+      default:
+        return Math.max(tokenizerTokens, fedTokens ?? 0);
+    }
+  }
 
-    if (!this.config.compressionModel) {
+  /** Size of a message list — the tokenizer when configured, else estimated. */
+  private _measure(messages: Message[]): number {
+    return this.config.tokenizer ? this.config.tokenizer(messages) : estimateObject(messages);
+  }
+
+  /**
+   * Runs the mechanical rungs of the degradation ladder whose threshold the
+   * current usage has reached, mildest first, re-measuring after each. A fed
+   * token count is lowered by what the rungs saved so the summarization
+   * decision that follows sees the reduced history. Messages degraded by an
+   * earlier call are swapped for their degraded form up front and not
+   * reported again. Returns `history` unchanged when nothing applied.
+   */
+  private async _degrade(input: Message[]): Promise<Message[]> {
+    const policy = this.config.degradation;
+    if (!policy || input.length === 0) return input;
+
+    // Pinning belongs to the turn, not the content: a pinned copy of a
+    // message degraded elsewhere stays verbatim.
+    const pinnedInput = markPinnedTurns(input);
+    const keys = input.map((m) => JSON.stringify(m));
+    let history = input.map((m, i) => (pinnedInput[i] ? m : (this._degraded.get(keys[i]) ?? m)));
+
+    const limit = this.config.contextWindow;
+    const startTokens = this._effectiveTokens(history);
+    let tokens = startTokens;
+    const reached = (at: number | undefined) => at !== undefined && tokens >= at * limit;
+
+    const runRung = async (
+      stage: DegradationStage,
+      apply: (messages: Message[]) => Message[] | Promise<Message[]>,
+    ) => {
+      const next = await apply(history);
+      const affectedMessages = next.filter((m, i) => m !== history[i]).length;
+      if (affectedMessages === 0) return;
+      const tokensAfter = tokens - (this._measure(history) - this._measure(next));
+      await this._fireOnDegrade({
+        stage,
+        tokensBefore: tokens,
+        tokensAfter,
+        limit,
+        affectedMessages,
+      });
+      history = next;
+      tokens = tokensAfter;
+    };
+
+    const stubThreshold = this.config.toolResultStubThreshold ?? DEFAULT_DEGRADATION_STUB_THRESHOLD;
+
+    if (reached(policy.clearThinkingAt)) {
+      await runRung('clear-thinking', (messages) =>
+        compactMessages(messages, { clear: ['thinking'] }),
+      );
+    }
+
+    if (reached(policy.stubToolResultsAt)) {
+      await runRung('stub-tool-results', (messages) => {
+        const pinned = markPinnedTurns(messages);
+        const keepRecent = Math.max(
+          0,
+          policy.keepRecentToolResults ?? DEFAULT_DEGRADATION_KEEP_RECENT_TOOL_RESULTS,
+        );
+        const toolIndices: number[] = [];
+        for (let i = 0; i < messages.length; i++) {
+          if (messages[i].role === 'tool' && !pinned[i]) toolIndices.push(i);
+        }
+        const spared = new Set(keepRecent > 0 ? toolIndices.slice(-keepRecent) : []);
+        const nameMap = buildToolNameMap(messages);
+        return messages.map((m, i) => {
+          if (m.role !== 'tool' || pinned[i] || spared.has(i)) return m;
+          if (m.content.length <= stubThreshold) return m;
+          const name = (m.tool_call_id && nameMap.get(m.tool_call_id)) ?? 'unknown';
+          return {
+            ...m,
+            content: Prompts.getStubbedToolResultPlaceholder(name, m.content.length),
+          };
+        });
+      });
+    }
+
+    const { offload } = policy;
+    if (offload && reached(policy.offloadToolResultsAt)) {
+      await runRung('offload-tool-results', async (messages) => {
+        const pinned = markPinnedTurns(messages);
+        const next: Message[] = [];
+        for (let i = 0; i < messages.length; i++) {
+          const m = messages[i];
+          if (m.role !== 'tool' || pinned[i] || m.content.length <= stubThreshold) {
+            next.push(m);
+            continue;
+          }
+          const replacement = await offload(m.content);
+          next.push(replacement.length < m.content.length ? { ...m, content: replacement } : m);
+        }
+        return next;
+      });
+    }
+
+    if (this._externalTokenUsage !== null && tokens !== startTokens) {
+      this._externalTokenUsage = Math.max(0, this._externalTokenUsage - (startTokens - tokens));
+    }
+    // Every rung maps messages one-to-one, so indices still line up.
+    const degraded = new Map<string, Message>();
+    for (let i = 0; i < input.length; i++) {
+      if (history[i] !== input[i]) degraded.set(keys[i], history[i]);
+    }
+    this._degraded = degraded;
+    return degraded.size > 0 ? history : input;
+  }
+
+  private async executeCompression(
+    history: Message[],
+    splitIndex: number,
+    currentTokens: number,
+    signal?: AbortSignal,
+  ): Promise<Message[]> {
+    // Pinned turns are lifted out of the evicted slice and kept, in order,
+    // ahead of the preserved tail.
+    let { pinned, unpinned: toCompress } = partitionPinnedTurns(history.slice(0, splitIndex));
+
+    const { compressionModel } = this.config;
+    if (!compressionModel) {
+      const toKeep = [...pinned, ...history.slice(splitIndex)];
       await this._fireOnCompress(
         { role: 'system', content: Prompts.getFallbackCompressionSummary(toCompress.length) },
         toCompress.length,
         { compressedMessages: toCompress },
       );
+      await this._fireOnDegrade({
+        stage: 'summarize',
+        tokensBefore: currentTokens,
+        tokensAfter: this._measure(toKeep),
+        limit: this.config.contextWindow,
+        affectedMessages: toCompress.length,
+      });
       this._suppressNextCompression = true;
       return [...toKeep];
     }
 
+    // A background or cached summary of a still-unchanged prefix replaces
+    // the inline model call; its split point wins.
+    const speculated = await this._claimSpeculation(history, signal);
+    const cached = speculated ? null : await this._lookupCachedSummary(history, splitIndex);
+    const reused = speculated ?? cached;
+    if (reused) {
+      splitIndex = reused.splitIndex;
+      ({ pinned, unpinned: toCompress } = partitionPinnedTurns(history.slice(0, splitIndex)));
+    }
+    const toKeep = [...pinned, ...history.slice(splitIndex)];
+
     if (toCompress.length === 0) {
       return history;
     }
 
-    const compressionModel = this.config.compressionModel;
-
-    let summaryText: string;
+    let outcome: CachedSummary;
     try {
-      summaryText = await summarizeHistory(toCompress, compressionModel, {
-        customCompressionInstructions: this.config.customCompressionInstructions,
-        toolResultStubThreshold: this.config.toolResultStubThreshold,
-      });
+      outcome = reused ?? (await this._summarize(toCompress, compressionModel));
+      if (!cached) await this._cacheSummary(history.slice(0, splitIndex), outcome);
+      if (outcome.tiers) this._summaryTiers = outcome.tiers;
+      else if (this.config.incrementalSummary) this._summaryAnchor = outcome.summary;
       // Reset circuit breaker on success.
       this._consecutiveFailures = 0;
     } catch (error) {
@@ -768,22 +1600,404 @@ export class Janitor {
         '[context-chef] compression model failed — compressed messages replaced by a bare truncation notice',
         error,
       );
-      summaryText = Prompts.getFallbackCompressionSummary(toCompress.length);
+      outcome = { summary: Prompts.getFallbackCompressionSummary(toCompress.length) };
+      // The fallback notice is not a summary worth merging into.
+      this._summaryAnchor = null;
+      this._summaryTiers = [];
     }
 
     const summaryMessage: Message = {
       role: 'user',
-      content: Prompts.getCompactSummaryWrapper(summaryText),
+      content: Prompts.getCompactSummaryWrapper(outcome.summary),
     };
+    const { compressionModelIndex, tiers, structuredSummary } = outcome;
 
     await this._fireOnCompress(summaryMessage, toCompress.length, {
       compressedMessages: toCompress,
+      ...(compressionModelIndex !== undefined && { compressionModelIndex }),
+      ...(tiers && { tiers }),
+      ...(structuredSummary !== undefined && { structuredSummary }),
+    });
+
+    const compressed = [summaryMessage, ...toKeep];
+    await this._fireOnDegrade({
+      stage: 'summarize',
+      tokensBefore: currentTokens,
+      tokensAfter: this._measure(compressed),
+      limit: this.config.contextWindow,
+      affectedMessages: toCompress.length,
     });
 
     // E10: Suppress the immediate next compression check.
     this._suppressNextCompression = true;
 
-    return [summaryMessage, ...toKeep];
+    return compressed;
+  }
+
+  /**
+   * Runs the configured summarization mode over `toCompress` through the
+   * compression chain. Reads the anchor / tier layout but leaves all Janitor
+   * state untouched — the caller commits the outcome — so it can also run
+   * speculatively. Throws when the chain is exhausted.
+   */
+  private async _summarize(
+    toCompress: Message[],
+    primary: CompressionModel,
+  ): Promise<CachedSummary> {
+    let compressionModelIndex: number | undefined;
+    const compressionModel = chainCompressionModels(
+      [primary, ...(this.config.compressionFallbacks ?? [])],
+      this.config.summaryChecks ?? [],
+      this.config.logger ?? console,
+      (index) => {
+        compressionModelIndex = Math.max(compressionModelIndex ?? 0, index);
+      },
+    );
+
+    if (this.config.hierarchicalSummary) {
+      const tiers = await this._compressIntoTiers(toCompress, compressionModel);
+      return { summary: Prompts.formatSummaryTiers(tiers), tiers, compressionModelIndex };
+    }
+
+    const { toSummarize, previousSummary } = this._splitAtAnchor(toCompress);
+    const summarizeOptions: SummarizeHistoryOptions = {
+      customCompressionInstructions: this.config.customCompressionInstructions,
+      toolResultStubThreshold: this.config.toolResultStubThreshold,
+      previousSummary,
+    };
+    if (this.config.summarySchema) {
+      // toSummarize is never empty here, so a result is always produced.
+      const structured = await summarizeHistoryStructured(toSummarize, compressionModel, {
+        ...summarizeOptions,
+        schema: this.config.summarySchema,
+      });
+      return {
+        summary: structured?.summary ?? '',
+        structuredSummary: structured?.data,
+        compressionModelIndex,
+      };
+    }
+    const summary = await summarizeHistory(toSummarize, compressionModel, summarizeOptions);
+    return { summary, compressionModelIndex };
+  }
+
+  /**
+   * Starts summarizing the slice compression would evict, in the background,
+   * once usage reaches the speculative threshold. At most one speculation is
+   * held. An abort of `signal`
+   * discards the speculation it started. Failures are logged and never count
+   * toward the circuit breaker.
+   */
+  private _speculate(history: Message[], usage: number, signal?: AbortSignal): void {
+    const { speculativeCompression: cfg, compressionModel } = this.config;
+    if (!cfg || !compressionModel || signal?.aborted) return;
+    const threshold =
+      (typeof cfg === 'object' ? cfg.threshold : undefined) ?? DEFAULT_SPECULATIVE_THRESHOLD;
+    if (usage < threshold * this.config.contextWindow) return;
+
+    // A held speculation stays claimable for as long as its prefix is intact,
+    // so it is kept rather than restarted on every turn.
+    const held = this._speculation;
+    if (held && this._prefixMatches(history, held)) return;
+
+    const splitIndex = this._planSplit(history);
+    if (splitIndex === null) return;
+    const prefix = history.slice(0, splitIndex);
+    const key = hashMessages(prefix);
+
+    const record: SpeculationRecord = {
+      key,
+      splitIndex,
+      pending: this._summarize(partitionPinnedTurns(prefix).unpinned, compressionModel),
+    };
+    this._speculation = record;
+    record.pending.then(
+      (outcome) => {
+        record.outcome = outcome;
+      },
+      (error) => {
+        if (this._speculation === record) this._speculation = null;
+        (this.config.logger ?? console).warn(
+          '[context-chef] speculative compression failed — the next compression will run inline',
+          error,
+        );
+      },
+    );
+    signal?.addEventListener(
+      'abort',
+      () => {
+        if (this._speculation === record) this._speculation = null;
+      },
+      { once: true },
+    );
+  }
+
+  /**
+   * Finds the longest cached prefix of `history` among the turn boundaries
+   * at or before `splitIndex` (at most {@link SUMMARY_CACHE_LOOKBACK_TURNS}),
+   * provided compressing there fits the window. Null when caching is off,
+   * nothing matches, or the store fails.
+   */
+  private async _lookupCachedSummary(
+    history: Message[],
+    splitIndex: number,
+  ): Promise<(CachedSummary & { splitIndex: number }) | null> {
+    const store = this.config.summaryCache;
+    if (!store) return null;
+
+    // A candidate prefix must hold at least one unpinned message.
+    const firstUnpinned = markPinnedTurns(history).indexOf(false);
+    if (firstUnpinned === -1) return null;
+    const candidates = groupIntoTurns(history)
+      .map((t) => t.startIndex)
+      .filter((i) => i > firstUnpinned && i <= splitIndex)
+      .slice(-SUMMARY_CACHE_LOOKBACK_TURNS);
+    const keys = prefixKeys(history, candidates);
+
+    for (let c = candidates.length - 1; c >= 0; c--) {
+      let entry: CachedSummary | null;
+      try {
+        entry = await store.get(keys[c]);
+      } catch (error) {
+        (this.config.logger ?? console).warn(
+          '[context-chef] summaryCache.get failed — compressing without the cache',
+          error,
+        );
+        return null;
+      }
+      if (!entry) continue;
+      // A shorter prefix leaves even more history behind, so stop at the
+      // first hit whether or not it fits.
+      if (!this._fitsWindow(history, candidates[c], entry.summary)) return null;
+      return { ...entry, splitIndex: candidates[c] };
+    }
+    return null;
+  }
+
+  /** Stores a fresh summary of `prefix`; a failing store is logged, not fatal. */
+  private async _cacheSummary(prefix: Message[], outcome: CachedSummary): Promise<void> {
+    const store = this.config.summaryCache;
+    if (!store) return;
+    try {
+      await store.set(hashMessages(prefix), outcome);
+    } catch (error) {
+      (this.config.logger ?? console).warn(
+        '[context-chef] summaryCache.set failed — this summary will not be reused',
+        error,
+      );
+    }
+  }
+
+  /**
+   * The call right after a compression skips the budget check (E10). An
+   * in-flight caller re-sends the full history on that call, so re-apply a
+   * cached summary if usage is still over the window. No hooks fire and no
+   * state changes — this repeats the previous compression's result.
+   */
+  private async _replayCachedSummary(history: Message[]): Promise<Message[] | null> {
+    if (!this.config.summaryCache || !this.config.compressionModel) return null;
+    if (this._effectiveTokens(history) <= this.config.contextWindow) return null;
+    const splitIndex = this._planSplit(history);
+    if (splitIndex === null) return null;
+
+    const cached = await this._lookupCachedSummary(history, splitIndex);
+    if (!cached) return null;
+    const { pinned } = partitionPinnedTurns(history.slice(0, cached.splitIndex));
+    return [
+      { role: 'user', content: Prompts.getCompactSummaryWrapper(cached.summary) },
+      ...pinned,
+      ...history.slice(cached.splitIndex),
+    ];
+  }
+
+  /** Whether replacing `history[0, splitIndex)` with `summary` fits `contextWindow`. */
+  private _fitsWindow(history: Message[], splitIndex: number, summary: string): boolean {
+    const { pinned } = partitionPinnedTurns(history.slice(0, splitIndex));
+    const compressed: Message[] = [
+      { role: 'user', content: Prompts.getCompactSummaryWrapper(summary) },
+      ...pinned,
+      ...history.slice(splitIndex),
+    ];
+    return this._measure(compressed) <= this.config.contextWindow;
+  }
+
+  /** Whether `history` still starts with the prefix `record` summarized, cut on a turn boundary. */
+  private _prefixMatches(history: Message[], record: SpeculationRecord): boolean {
+    const { splitIndex } = record;
+    return (
+      splitIndex < history.length &&
+      groupIntoTurns(history).some((t) => t.startIndex === splitIndex) &&
+      hashMessages(history.slice(0, splitIndex)) === record.key
+    );
+  }
+
+  /**
+   * Takes the held speculation if `history` still starts with the exact
+   * prefix it summarized and compressing at its split fits the window,
+   * awaiting it if still running. Returns null on any mismatch or failure
+   * — the caller then compresses inline. An abort of `signal` while waiting
+   * rethrows the abort reason and leaves the speculation in place.
+   */
+  private async _claimSpeculation(
+    history: Message[],
+    signal?: AbortSignal,
+  ): Promise<(CachedSummary & { splitIndex: number }) | null> {
+    const record = this._speculation;
+    if (!record) return null;
+    this._speculation = null;
+
+    if (!this._prefixMatches(history, record)) return null;
+    const { splitIndex } = record;
+
+    let outcome: CachedSummary;
+    try {
+      outcome = record.outcome ?? (await abortable(record.pending, signal));
+    } catch (error) {
+      if (!signal?.aborted) return null;
+      this._speculation ??= record;
+      throw error;
+    }
+
+    if (!this._fitsWindow(history, splitIndex, outcome.summary)) return null;
+    return { ...outcome, splitIndex };
+  }
+
+  /**
+   * Incremental mode: locates the previous summary message inside the slice
+   * about to be evicted and splits it off, so only the turns evicted since
+   * then are sent to the compression model. Returns the slice unchanged (and
+   * no previous summary) when incremental mode is off, no anchor is held, the
+   * anchor is not in the slice, or the anchor is all the slice contains.
+   */
+  private _splitAtAnchor(toCompress: Message[]): {
+    toSummarize: Message[];
+    previousSummary?: string;
+  } {
+    const anchor = this._summaryAnchor;
+    if (!this.config.incrementalSummary || anchor === null) return { toSummarize: toCompress };
+
+    const anchorContent = Prompts.getCompactSummaryWrapper(anchor);
+    const anchorIndex = toCompress.findIndex(
+      (m) => m.role === 'user' && m.content === anchorContent,
+    );
+    if (anchorIndex === -1 || toCompress.length === 1) return { toSummarize: toCompress };
+
+    return {
+      toSummarize: toCompress.filter((_, i) => i !== anchorIndex),
+      previousSummary: anchor,
+    };
+  }
+
+  /**
+   * Hierarchical mode: folds the evicted slice into the tier layout. The
+   * previous summary message (matched by content) contributes its tiers as-is;
+   * everything else is chunked on turn boundaries into new level-0 summaries,
+   * then any level holding more than `rollupFanout` summaries has its oldest
+   * ones rolled up a level. Works on a copy — throws without touching
+   * `_summaryTiers`, so the caller's failure path stays in charge.
+   */
+  private async _compressIntoTiers(
+    toCompress: Message[],
+    compressionModel: CompressionModel,
+  ): Promise<SummaryTier[]> {
+    const opts = this._tierConfig();
+    const chunkTurns = Math.max(1, opts.chunkTurns ?? DEFAULT_TIER_CHUNK_TURNS);
+    const fanout = Math.max(2, opts.rollupFanout ?? DEFAULT_TIER_ROLLUP_FANOUT);
+
+    let tiers: SummaryTier[] = [];
+    let fresh = toCompress;
+    if (this._summaryTiers.length > 0) {
+      const previous = Prompts.getCompactSummaryWrapper(
+        Prompts.formatSummaryTiers(this._summaryTiers),
+      );
+      const index = toCompress.findIndex((m) => m.role === 'user' && m.content === previous);
+      if (index !== -1) {
+        tiers = this._summaryTiers.map((t) => ({ ...t }));
+        fresh = toCompress.filter((_, i) => i !== index);
+      }
+    }
+
+    const turns = groupIntoTurns(fresh);
+    for (let t = 0; t < turns.length; t += chunkTurns) {
+      const chunk = turns.slice(t, t + chunkTurns);
+      const messages = fresh.slice(chunk[0].startIndex, chunk[chunk.length - 1].endIndex);
+      tiers.push(await this._summarizeTier(messages, 0, chunk.length, compressionModel));
+    }
+
+    // Tiers stay ordered oldest first with non-increasing levels, so each
+    // level's summaries are contiguous and the roll-up lands in place — right
+    // after the older summaries already on the next level.
+    for (let level = 0; tiers.some((t) => t.level >= level); level++) {
+      let sameLevel = tiers.filter((t) => t.level === level);
+      while (sameLevel.length > fanout) {
+        const start = tiers.indexOf(sameLevel[0]);
+        const group = sameLevel.slice(0, fanout);
+        const rolled = await this._summarizeTier(
+          group.map((g) => ({ role: 'user', content: g.summary })),
+          level + 1,
+          group.reduce((sum, g) => sum + g.turns, 0),
+          compressionModel,
+        );
+        tiers.splice(start, fanout, rolled);
+        sameLevel = sameLevel.slice(fanout);
+      }
+    }
+
+    return tiers;
+  }
+
+  /**
+   * Summarizes one tier entry, applying the roll-up prompt above level 0 and
+   * the tier's token cap (with one condensing retry when the model overshoots).
+   */
+  private async _summarizeTier(
+    messages: Message[],
+    level: number,
+    turns: number,
+    compressionModel: CompressionModel,
+  ): Promise<SummaryTier> {
+    const budgets = this._tierConfig().tierTokenBudgets;
+    const budget = budgets?.length ? budgets[Math.min(level, budgets.length - 1)] : undefined;
+    const budgetInstruction =
+      budget !== undefined ? Prompts.getSummaryBudgetInstruction(budget) : undefined;
+    const instructions = [
+      this.config.customCompressionInstructions?.trim(),
+      level > 0 ? Prompts.getSummaryRollupInstruction(level) : undefined,
+      budgetInstruction,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+
+    let summary = await summarizeHistory(messages, compressionModel, {
+      customCompressionInstructions: instructions,
+      toolResultStubThreshold: this.config.toolResultStubThreshold,
+    });
+    let tokens = this._countSummaryTokens(summary);
+
+    if (budget !== undefined && tokens > budget) {
+      summary = await summarizeHistory([{ role: 'user', content: summary }], compressionModel, {
+        customCompressionInstructions: budgetInstruction,
+      });
+      tokens = this._countSummaryTokens(summary);
+      if (tokens > budget) {
+        (this.config.logger ?? console).warn(
+          `[context-chef] level-${level} summary is ${tokens} tokens, over its ${budget}-token cap after a condensing pass — keeping it`,
+        );
+      }
+    }
+
+    return { level, summary, turns, tokens };
+  }
+
+  private _tierConfig(): HierarchicalSummaryConfig {
+    const cfg = this.config.hierarchicalSummary;
+    return typeof cfg === 'object' ? cfg : {};
+  }
+
+  private _countSummaryTokens(summary: string): number {
+    return this.config.tokenizer
+      ? this.config.tokenizer([{ role: 'user', content: summary }])
+      : estimate(summary);
   }
 
   /**
@@ -798,7 +2012,13 @@ export class Janitor {
   ): Promise<void> {
     if (!this.config.onCompress) return;
     try {
-      await this.config.onCompress(summaryMessage, truncatedCount, details);
+      // structuredSummary was validated against summarySchema when it was
+      // produced — possibly by an earlier run, via summaryCache or a snapshot.
+      await this.config.onCompress(
+        summaryMessage,
+        truncatedCount,
+        details as CompressionDetails<TSummary>,
+      );
     } catch (error) {
       (this.config.logger ?? console).warn(
         '[context-chef] onCompress hook threw — compression result is kept, but your sink may have missed this summary',
@@ -806,4 +2026,17 @@ export class Janitor {
       );
     }
   }
+
+  /** Invokes the `onDegrade` hook with the same safety net as `onCompress`. */
+  private async _fireOnDegrade(event: DegradationEvent): Promise<void> {
+    if (!this.config.onDegrade) return;
+    try {
+      await this.config.onDegrade(event);
+    } catch (error) {
+      (this.config.logger ?? console).warn(
+        `[context-chef] onDegrade hook threw on stage '${event.stage}' — continuing`,
+        error,
+      );
+    }
+  }
 }
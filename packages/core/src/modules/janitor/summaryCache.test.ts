@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { InMemorySummaryCache } from './summaryCache';
+
+describe('InMemorySummaryCache', () => {
+  it('returns null for unknown keys and stored entries otherwise', () => {
+    const cache = new InMemorySummaryCache();
+    expect(cache.get('missing')).toBeNull();
+    cache.set('k', { summary: 'S', compressionModelIndex: 1 });
+    expect(cache.get('k')).toEqual({ summary: 'S', compressionModelIndex: 1 });
+  });
+
+  it('drops the least recently used entry past maxEntries', () => {
+    const cache = new InMemorySummaryCache({ maxEntries: 2 });
+    cache.set('a', { summary: 'A' });
+    cache.set('b', { summary: 'B' });
+    cache.get('a');
+    cache.set('c', { summary: 'C' });
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('a')?.summary).toBe('A');
+    expect(cache.get('c')?.summary).toBe('C');
+  });
+});
@@ -0,0 +1,57 @@
+import type { SummaryTier } from '.';
+
+/** A finished summarization pass — everything needed to rebuild the summary message. */
+export interface CachedSummary {
+  summary: string;
+  tiers?: SummaryTier[];
+  structuredSummary?: unknown;
+  compressionModelIndex?: number;
+}
+
+/**
+ * Content-addressed store for `JanitorConfig.summaryCache`. Keys are SHA-256
+ * hashes of the evicted history prefix, so one store can back many sessions
+ * — but not differently configured Janitors, whose summaries of the same
+ * prefix differ. Both methods may be async (e.g. Redis).
+ */
+export interface SummaryCacheStore {
+  get(key: string): CachedSummary | null | Promise<CachedSummary | null>;
+  set(key: string, entry: CachedSummary): void | Promise<void>;
+}
+
+export interface InMemorySummaryCacheOptions {
+  /** Entries kept before the least recently used is dropped. Default: 256. */
+  maxEntries?: number;
+}
+
+/** Default {@link SummaryCacheStore}: a process-local LRU map. */
+export class InMemorySummaryCache implements SummaryCacheStore {
+  private entries = new Map<string, CachedSummary>();
+  private readonly maxEntries: number;
+
+  constructor(options: InMemorySummaryCacheOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 256);
+  }
+
+  get(key: string): CachedSummary | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    // Re-insert to mark as most recently used.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CachedSummary): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -957,7 +957,7 @@ describe('ContextChef + Memory', () => {
     const payload = await chef.compile({ target: 'openai' });
 
     expect(payload.tools).toBeDefined();
-    const toolNames = payload.tools?.map((t) => t.name);
+    const toolNames = payload.tools?.map((t) => t.function.name);
     expect(toolNames).toContain('create_memory');
     expect(toolNames).toContain('modify_memory');
   });
@@ -971,7 +971,7 @@ describe('ContextChef + Memory', () => {
     const payload = await chef.compile({ target: 'openai' });
 
     expect(payload.tools).toBeDefined();
-    const toolNames = payload.tools?.map((t) => t.name);
+    const toolNames = payload.tools?.map((t) => t.function.name);
     expect(toolNames).toContain('create_memory');
     expect(toolNames).not.toContain('modify_memory');
   });
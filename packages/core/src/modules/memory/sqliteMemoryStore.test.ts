@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { MemoryStoreEntry } from './memoryStore';
+import { SqliteMemoryStore } from './sqliteMemoryStore';
+
+const hasSqlite = !!process.getBuiltinModule?.('node:sqlite');
+
+const entry = (value: string): MemoryStoreEntry => ({
+  value,
+  createdAt: 1,
+  updatedAt: 1,
+  updateCount: 1,
+});
+
+describe.skipIf(!hasSqlite)('SqliteMemoryStore', () => {
+  it('gets, sets, deletes and lists keys', () => {
+    const store = new SqliteMemoryStore(':memory:');
+    store.set('b', entry('beta'));
+    store.set('a', entry('alpha'));
+    store.set('a', { ...entry('alpha 2'), description: 'rules', expiresAtTurn: 4 });
+
+    expect(store.get('a')).toEqual({ ...entry('alpha 2'), description: 'rules', expiresAtTurn: 4 });
+    expect(store.get('missing')).toBeNull();
+    expect(store.keys()).toEqual(['a', 'b']);
+    expect(store.delete('b')).toBe(true);
+    expect(store.delete('b')).toBe(false);
+    store.close();
+  });
+
+  it('restores a snapshot transactionally', () => {
+    const store = new SqliteMemoryStore(':memory:');
+    store.set('a', entry('alpha'));
+    const snap = store.snapshot();
+    store.set('b', entry('beta'));
+
+    store.restore(snap);
+    expect(store.keys()).toEqual(['a']);
+
+    // BigInt makes JSON.stringify throw midway through the transaction.
+    const bad = {
+      c: entry('gamma'),
+      d: { ...entry('delta'), importance: 1n as unknown as number },
+    };
+    expect(() => store.restore(bad)).toThrow();
+    expect(store.keys()).toEqual(['a']);
+  });
+});
+
+describe.skipIf(hasSqlite)('SqliteMemoryStore without node:sqlite', () => {
+  it('fails with a clear error', () => {
+    expect(() => new SqliteMemoryStore(':memory:')).toThrow(/requires the built-in node:sqlite/);
+  });
+});
@@ -0,0 +1,104 @@
+import type { DatabaseSync, StatementSync } from 'node:sqlite';
+import { assertTableName, openDatabase, transaction } from '../../utils/sqlite';
+import type { MemoryStore, MemoryStoreEntry } from './memoryStore';
+
+export interface SqliteMemoryStoreOptions {
+  /** Table holding the entries, created if missing. Default: 'memory_entries'. */
+  table?: string;
+}
+
+/**
+ * MemoryStore on Node's built-in `node:sqlite` (Node.js 22.5+): one row per
+ * key in a single database instead of one file per key. `restore()` replaces
+ * every entry in one transaction, so a failed restore leaves the previous
+ * state intact.
+ *
+ * Pass a path (`':memory:'` for tests) or an open `DatabaseSync` to share
+ * one database with `SqliteStorageAdapter`.
+ */
+export class SqliteMemoryStore implements MemoryStore {
+  private readonly db: DatabaseSync;
+  private readonly owned: boolean;
+  private readonly statements: {
+    get: StatementSync;
+    set: StatementSync;
+    delete: StatementSync;
+    keys: StatementSync;
+    all: StatementSync;
+    clear: StatementSync;
+  };
+
+  constructor(
+    database: string | DatabaseSync = '.context_memory.db',
+    options: SqliteMemoryStoreOptions = {},
+  ) {
+    const table = options.table ?? 'memory_entries';
+    assertTableName('SqliteMemoryStore', table);
+    ({ db: this.db, owned: this.owned } = openDatabase('SqliteMemoryStore', database));
+
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (
+        key TEXT PRIMARY KEY,
+        entry TEXT NOT NULL
+      ) WITHOUT ROWID`,
+    );
+    this.statements = {
+      get: this.db.prepare(`SELECT entry FROM ${table} WHERE key = ?`),
+      set: this.db.prepare(
+        `INSERT INTO ${table} (key, entry) VALUES (?, ?)
+         ON CONFLICT(key) DO UPDATE SET entry = excluded.entry`,
+      ),
+      delete: this.db.prepare(`DELETE FROM ${table} WHERE key = ?`),
+      keys: this.db.prepare(`SELECT key FROM ${table} ORDER BY key`),
+      all: this.db.prepare(`SELECT key, entry FROM ${table}`),
+      clear: this.db.prepare(`DELETE FROM ${table}`),
+    };
+  }
+
+  get(key: string): MemoryStoreEntry | null {
+    const row = this.statements.get.get(key) as { entry: string } | undefined;
+    if (!row) return null;
+    try {
+      const entry: MemoryStoreEntry = JSON.parse(row.entry);
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  set(key: string, entry: MemoryStoreEntry): void {
+    this.statements.set.run(key, JSON.stringify(entry));
+  }
+
+  delete(key: string): boolean {
+    return Number(this.statements.delete.run(key).changes) > 0;
+  }
+
+  keys(): string[] {
+    return (this.statements.keys.all() as { key: string }[]).map((row) => row.key);
+  }
+
+  snapshot(): Record<string, MemoryStoreEntry> {
+    const result: Record<string, MemoryStoreEntry> = {};
+    for (const row of this.statements.all.all() as { key: string; entry: string }[]) {
+      try {
+        result[row.key] = JSON.parse(row.entry);
+      } catch {
+        // Skip unreadable rows, as get() does.
+      }
+    }
+    return result;
+  }
+
+  restore(data: Record<string, MemoryStoreEntry>): void {
+    transaction(this.db, () => {
+      this.statements.clear.run();
+      for (const [key, entry] of Object.entries(data)) this.set(key, entry);
+    });
+  }
+
+  /** Closes the database if this store opened it; a shared handle is left open. */
+  close(): void {
+    if (this.owned) this.db.close();
+  }
+}
@@ -0,0 +1,178 @@
+import * as crypto from 'node:crypto';
+import { describe, expect, it, vi } from 'vitest';
+import { Offloader, type VFSStorageAdapter } from '.';
+import { CompressedAdapter, EncryptedAdapter, TieredStorageAdapter } from './adapters';
+
+class MemoryAdapter implements VFSStorageAdapter {
+  readonly db = new Map<string, string>();
+  write(filename: string, content: string): void {
+    this.db.set(filename, content);
+  }
+  read(filename: string): string | null {
+    return this.db.get(filename) ?? null;
+  }
+  list(): string[] {
+    return [...this.db.keys()];
+  }
+  delete(filename: string): void {
+    this.db.delete(filename);
+  }
+}
+
+const LOG = Array.from({ length: 400 }, (_, i) => `GET /api/items/${i % 7} 200 12ms`).join('\n');
+const KEY = crypto.randomBytes(32);
+
+describe('CompressedAdapter', () => {
+  it.each(['gzip', 'brotli'] as const)('round-trips %s and stores fewer bytes', (algorithm) => {
+    const inner = new MemoryAdapter();
+    const adapter = new CompressedAdapter(inner, { algorithm });
+    adapter.write('vfs_a.txt', LOG);
+
+    expect(inner.db.get('vfs_a.txt')?.startsWith(algorithm === 'gzip' ? 'gz:' : 'br:')).toBe(true);
+    expect(adapter.read('vfs_a.txt')).toBe(LOG);
+    expect(adapter.getStoredBytes('vfs_a.txt')).toBeLessThan(LOG.length / 4);
+  });
+
+  it('reads untagged plain-text entries as-is and mirrors inner capabilities', () => {
+    const inner = new MemoryAdapter();
+    inner.write('vfs_old.txt', 'plain');
+    const adapter = new CompressedAdapter(inner);
+
+    expect(adapter.read('vfs_old.txt')).toBe('plain');
+    expect(adapter.read('vfs_missing.txt')).toBeNull();
+    expect(adapter.list?.()).toEqual(['vfs_old.txt']);
+    expect(new CompressedAdapter({ write: () => {}, read: () => null }).list).toBeUndefined();
+    expect('getPhysicalPath' in adapter).toBe(false);
+  });
+});
+
+describe('EncryptedAdapter', () => {
+  it('round-trips and never stores plaintext', () => {
+    const inner = new MemoryAdapter();
+    const adapter = new EncryptedAdapter(inner, { key: () => KEY });
+    adapter.write('vfs_a.txt', 'api_key=sk-secret');
+
+    expect(inner.db.get('vfs_a.txt')).not.toContain('sk-secret');
+    expect(adapter.read('vfs_a.txt')).toBe('api_key=sk-secret');
+  });
+
+  it('rejects tampered, relocated or unencrypted entries, and bad keys', () => {
+    const inner = new MemoryAdapter();
+    const adapter = new EncryptedAdapter(inner, { key: () => KEY });
+    adapter.write('vfs_a.txt', 'secret');
+    inner.write('vfs_b.txt', inner.db.get('vfs_a.txt') ?? '');
+    inner.write('vfs_plain.txt', 'secret');
+
+    expect(() => adapter.read('vfs_b.txt')).toThrow();
+    expect(() => adapter.read('vfs_plain.txt')).toThrow(/is not encrypted/);
+    const wrongKey = new EncryptedAdapter(inner, { key: () => crypto.randomBytes(32) });
+    expect(() => wrongKey.read('vfs_a.txt')).toThrow();
+    const shortKey = new EncryptedAdapter(inner, { key: () => Buffer.alloc(16) });
+    expect(() => shortKey.write('vfs_c.txt', 'x')).toThrow(/32-byte key/);
+  });
+
+  it('becomes async with an async key provider', async () => {
+    const adapter = new EncryptedAdapter(new MemoryAdapter(), { key: async () => KEY });
+    const written = adapter.write('vfs_a.txt', 'secret');
+    expect(written).toBeInstanceOf(Promise);
+    await written;
+    await expect(adapter.read('vfs_a.txt')).resolves.toBe('secret');
+  });
+});
+
+describe('TieredStorageAdapter', () => {
+  it('writes through and serves recent entries from memory', () => {
+    const inner = new MemoryAdapter();
+    const adapter = new TieredStorageAdapter(inner);
+    adapter.write('vfs_a.txt', 'alpha');
+    inner.db.set('vfs_b.txt', 'beta');
+
+    expect(inner.db.get('vfs_a.txt')).toBe('alpha');
+    expect(adapter.read('vfs_a.txt')).toBe('alpha');
+    expect(adapter.read('vfs_b.txt')).toBe('beta');
+    expect(adapter.read('vfs_b.txt')).toBe('beta');
+    expect(adapter.read('vfs_missing.txt')).toBeNull();
+    expect(adapter.stats).toEqual({ hits: 2, misses: 2, evictions: 0, entries: 2, bytes: 9 });
+  });
+
+  it('evicts least recently used entries by bytes', () => {
+    const adapter = new TieredStorageAdapter(new MemoryAdapter(), { maxBytes: 10 });
+    adapter.write('vfs_a.txt', 'aaaa');
+    adapter.write('vfs_b.txt', 'bbbb');
+    adapter.read('vfs_a.txt');
+    adapter.write('vfs_c.txt', 'cccc');
+    adapter.write('vfs_big.txt', 'x'.repeat(11));
+
+    expect(adapter.stats).toMatchObject({ evictions: 1, entries: 2, bytes: 8 });
+    adapter.read('vfs_a.txt');
+    adapter.read('vfs_b.txt');
+    adapter.read('vfs_big.txt');
+    expect(adapter.stats).toMatchObject({ hits: 2, misses: 2 });
+    expect(() => new TieredStorageAdapter(new MemoryAdapter(), { maxBytes: -1 })).toThrow(
+      /non-negative/,
+    );
+  });
+
+  it('caches only what the inner adapter stored, and evicts on delete', async () => {
+    let fail = true;
+    const inner = new MemoryAdapter();
+    const exists = vi.fn((filename: string) => inner.db.has(filename));
+    const adapter = new TieredStorageAdapter({
+      write: async (filename, content) => {
+        if (fail) throw new Error('backend down');
+        inner.write(filename, content);
+      },
+      read: async (filename) => inner.read(filename),
+      exists,
+      delete: async (filename) => inner.delete(filename),
+    });
+
+    await expect(adapter.write('vfs_a.txt', 'alpha')).rejects.toThrow('backend down');
+    expect(await adapter.exists?.('vfs_a.txt')).toBe(false);
+    expect(adapter.stats.entries).toBe(0);
+
+    fail = false;
+    await adapter.write('vfs_a.txt', 'alpha');
+    exists.mockClear();
+    expect(await adapter.exists?.('vfs_a.txt')).toBe(true);
+    expect(exists).not.toHaveBeenCalled();
+
+    await adapter.delete?.('vfs_a.txt');
+    expect(await adapter.exists?.('vfs_a.txt')).toBe(false);
+    expect(await adapter.read('vfs_a.txt')).toBeNull();
+    expect(adapter.list).toBeUndefined();
+    expect(adapter.getPhysicalPath).toBeUndefined();
+  });
+
+  it('lets the Offloader resolve recent offloads without a backend read', async () => {
+    const inner = new MemoryAdapter();
+    const read = vi.spyOn(inner, 'read');
+    const offloader = new Offloader({ adapter: new TieredStorageAdapter(inner), threshold: 100 });
+
+    const { uri } = await offloader.offloadAsync(LOG, { tailChars: 0 });
+    expect(await offloader.resolveAsync(uri ?? '')).toBe(LOG);
+    expect(read).not.toHaveBeenCalled();
+  });
+});
+
+describe('Offloader over encoding adapters', () => {
+  it('records logical and stored sizes, and caps either via maxBytesBasis', () => {
+    const adapter = new CompressedAdapter(
+      new EncryptedAdapter(new MemoryAdapter(), { key: () => KEY }),
+    );
+    const makeOffloader = (maxBytesBasis: 'logical' | 'stored') =>
+      new Offloader({ adapter, threshold: 100, maxBytes: 2000, maxBytesBasis });
+
+    const logical = makeOffloader('logical');
+    const { uri } = logical.offload(LOG, { tailChars: 0 });
+    const [entry] = logical.getEntries();
+    expect(entry.bytes).toBe(LOG.length);
+    expect(entry.storedBytes).toBeLessThan(entry.bytes / 4);
+    expect(logical.resolve(uri ?? '')).toBe(LOG);
+    expect(logical.cleanup().evictedByBytes).toBe(1);
+
+    const stored = makeOffloader('stored');
+    stored.offload(LOG, { tailChars: 0 });
+    expect(stored.cleanup().evicted).toEqual([]);
+  });
+});
@@ -0,0 +1,310 @@
+import * as crypto from 'node:crypto';
+import * as zlib from 'node:zlib';
+import type { VFSStorageAdapter } from '.';
+
+/** Applies `fn` to a value that may or may not be a Promise, staying sync when it is not. */
+function then<T, R>(value: T | Promise<T>, fn: (resolved: T) => R | Promise<R>): R | Promise<R> {
+  return value instanceof Promise ? value.then(fn) : fn(value);
+}
+
+/**
+ * Base for adapters that transform content on its way to and from an inner
+ * adapter. Optional capabilities (`exists`, `list`, `delete`) are exposed
+ * only when the inner adapter has them, so the Offloader's capability checks
+ * still see the truth. `getPhysicalPath` is never exposed: the file on disk
+ * holds encoded bytes that a file-read tool could not use.
+ */
+abstract class EncodingAdapter implements VFSStorageAdapter {
+  readonly exists?: (filename: string) => boolean | Promise<boolean>;
+  readonly list?: () => string[] | Promise<string[]>;
+  readonly delete?: (filename: string) => void | Promise<void>;
+  /** Encoded sizes of entries written by this instance, for getStoredBytes(). */
+  private readonly _storedBytes = new Map<string, number>();
+
+  constructor(protected readonly inner: VFSStorageAdapter) {
+    if (inner.exists) this.exists = (filename) => inner.exists?.(filename) ?? false;
+    if (inner.list) this.list = () => inner.list?.() ?? [];
+    if (inner.delete) {
+      this.delete = (filename) => {
+        this._storedBytes.delete(filename);
+        return inner.delete?.(filename);
+      };
+    }
+  }
+
+  protected abstract encode(filename: string, content: string): string | Promise<string>;
+  protected abstract decode(filename: string, stored: string): string | Promise<string>;
+
+  write(filename: string, content: string): void | Promise<void> {
+    return then(this.encode(filename, content), (encoded) => {
+      this._storedBytes.set(filename, Buffer.byteLength(encoded, 'utf8'));
+      return this.inner.write(filename, encoded);
+    });
+  }
+
+  read(filename: string): string | null | Promise<string | null> {
+    return then(this.inner.read(filename), (stored) =>
+      stored == null ? null : this.decode(filename, stored),
+    );
+  }
+
+  getStoredBytes(filename: string): number | null | Promise<number | null> {
+    if (this.inner.getStoredBytes) return this.inner.getStoredBytes(filename);
+    return this._storedBytes.get(filename) ?? null;
+  }
+}
+
+export type CompressionAlgorithm = 'gzip' | 'brotli';
+
+export interface CompressedAdapterOptions {
+  /** Default: 'gzip'. Reads detect the algorithm per entry, so switching is safe. */
+  algorithm?: CompressionAlgorithm;
+}
+
+const COMPRESSION_PREFIX: Record<CompressionAlgorithm, string> = {
+  gzip: 'gz:',
+  brotli: 'br:',
+};
+
+/**
+ * Compresses content with `node:zlib` before it reaches the inner adapter,
+ * stored as a base64 string tagged with its algorithm. Entries without a tag
+ * are returned as-is, so an existing plain-text store can be wrapped in place.
+ *
+ * @example
+ * new Offloader({ adapter: new CompressedAdapter(new FileSystemAdapter('.context_vfs')) });
+ */
+export class CompressedAdapter extends EncodingAdapter {
+  private readonly algorithm: CompressionAlgorithm;
+
+  constructor(inner: VFSStorageAdapter, options: CompressedAdapterOptions = {}) {
+    super(inner);
+    this.algorithm = options.algorithm ?? 'gzip';
+  }
+
+  protected encode(_filename: string, content: string): string {
+    const compressed =
+      this.algorithm === 'brotli' ? zlib.brotliCompressSync(content) : zlib.gzipSync(content);
+    return COMPRESSION_PREFIX[this.algorithm] + compressed.toString('base64');
+  }
+
+  protected decode(_filename: string, stored: string): string {
+    if (stored.startsWith(COMPRESSION_PREFIX.gzip)) {
+      return zlib.gunzipSync(Buffer.from(stored.slice(3), 'base64')).toString('utf8');
+    }
+    if (stored.startsWith(COMPRESSION_PREFIX.brotli)) {
+      return zlib.brotliDecompressSync(Buffer.from(stored.slice(3), 'base64')).toString('utf8');
+    }
+    return stored;
+  }
+}
+
+/** Returns the 32-byte AES-256 key. Called on every read and write — cache it if it is fetched remotely. */
+export type EncryptionKeyProvider = () => Uint8Array | Promise<Uint8Array>;
+
+export interface EncryptedAdapterOptions {
+  key: EncryptionKeyProvider;
+}
+
+const ENCRYPTION_PREFIX = 'aes256gcm:';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Encrypts content with AES-256-GCM before it reaches the inner adapter.
+ * Each entry gets a random IV and is bound to its filename as associated
+ * data, so ciphertext moved to another name fails to decrypt. Reading an
+ * entry that is not encrypted, or was tampered with, throws.
+ *
+ * To combine with compression, wrap this adapter in the CompressedAdapter —
+ * `new CompressedAdapter(new EncryptedAdapter(fs, { key }))` — so content
+ * is compressed before it is encrypted; ciphertext does not compress.
+ */
+export class EncryptedAdapter extends EncodingAdapter {
+  private readonly key: EncryptionKeyProvider;
+
+  constructor(inner: VFSStorageAdapter, options: EncryptedAdapterOptions) {
+    super(inner);
+    this.key = options.key;
+  }
+
+  private _withKey<R>(fn: (key: Uint8Array) => R): R | Promise<R> {
+    return then(this.key(), (key) => {
+      if (key.length !== 32) {
+        throw new Error(`EncryptedAdapter requires a 32-byte key, got ${key.length} bytes.`);
+      }
+      return fn(key);
+    });
+  }
+
+  protected encode(filename: string, content: string): string | Promise<string> {
+    return this._withKey((key) => {
+      const iv = crypto.randomBytes(IV_BYTES);
+      const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+      cipher.setAAD(Buffer.from(filename, 'utf8'));
+      const ciphertext = Buffer.concat([cipher.update(content, 'utf8'), cipher.final()]);
+      const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+      return ENCRYPTION_PREFIX + payload.toString('base64');
+    });
+  }
+
+  protected decode(filename: string, stored: string): string | Promise<string> {
+    if (!stored.startsWith(ENCRYPTION_PREFIX)) {
+      throw new Error(`EncryptedAdapter: '${filename}' is not encrypted.`);
+    }
+    return this._withKey((key) => {
+      const payload = Buffer.from(stored.slice(ENCRYPTION_PREFIX.length), 'base64');
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, payload.subarray(0, IV_BYTES));
+      decipher.setAAD(Buffer.from(filename, 'utf8'));
+      decipher.setAuthTag(payload.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+      const plaintext = Buffer.concat([
+        decipher.update(payload.subarray(IV_BYTES + TAG_BYTES)),
+        decipher.final(),
+      ]);
+      return plaintext.toString('utf8');
+    });
+  }
+}
+
+export interface TieredStorageAdapterOptions {
+  /**
+   * Budget for cached content, in UTF-8 bytes. Least recently used entries
+   * are dropped to stay under it; an entry larger than the whole budget is
+   * never cached. Default: 16 MiB.
+   */
+  maxBytes?: number;
+}
+
+/** Counters for {@link TieredStorageAdapter}, as of the moment they were read. */
+export interface TieredCacheStats {
+  /** Reads answered from memory. */
+  hits: number;
+  /** Reads that went to the inner adapter. */
+  misses: number;
+  /** Entries dropped to stay under `maxBytes`. */
+  evictions: number;
+  /** Entries currently cached. */
+  entries: number;
+  /** UTF-8 bytes currently cached. */
+  bytes: number;
+}
+
+/**
+ * Puts a bounded in-memory LRU in front of a slow adapter (object storage,
+ * a remote database), so content offloaded moments ago resolves without a
+ * round-trip. Writes go through to the inner adapter and are cached only
+ * once it has stored them: a cached entry is always a persisted one, which
+ * lets `exists()` answer true from memory without breaking its contract.
+ * Misses — and all of `list()` — still go to the inner adapter.
+ *
+ * Deletes must go through this adapter to evict the cached copy. Entries
+ * are content-addressed and never change, so there is nothing else to
+ * invalidate. Optional capabilities are exposed only when the inner adapter
+ * has them.
+ *
+ * @example
+ * const adapter = new TieredStorageAdapter(new S3Adapter(bucket), { maxBytes: 64 * 1024 * 1024 });
+ * metrics.gauge('vfs.cache.hits', adapter.stats.hits);
+ */
+export class TieredStorageAdapter implements VFSStorageAdapter {
+  readonly exists?: (filename: string) => boolean | Promise<boolean>;
+  readonly list?: () => string[] | Promise<string[]>;
+  readonly delete?: (filename: string) => void | Promise<void>;
+  readonly getPhysicalPath?: (filename: string) => string | null | Promise<string | null>;
+  readonly getStoredBytes?: (filename: string) => number | null | Promise<number | null>;
+
+  private readonly maxBytes: number;
+  /** Insertion order is recency order: the first key is the least recently used. */
+  private readonly cache = new Map<string, { content: string; bytes: number }>();
+  private cachedBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly inner: VFSStorageAdapter,
+    options: TieredStorageAdapterOptions = {},
+  ) {
+    const maxBytes = options.maxBytes ?? 16 * 1024 * 1024;
+    if (!Number.isFinite(maxBytes) || maxBytes < 0) {
+      throw new Error(
+        `TieredStorageAdapter maxBytes must be a non-negative number, got ${maxBytes}.`,
+      );
+    }
+    this.maxBytes = maxBytes;
+
+    if (inner.exists) {
+      this.exists = (filename) => this.cache.has(filename) || (inner.exists?.(filename) ?? false);
+    }
+    if (inner.list) this.list = () => inner.list?.() ?? [];
+    if (inner.delete) {
+      this.delete = (filename) => {
+        this._forget(filename);
+        // A read that missed before the delete landed may have re-cached it.
+        return then(inner.delete?.(filename), () => this._forget(filename));
+      };
+    }
+    if (inner.getPhysicalPath) {
+      this.getPhysicalPath = (filename) => inner.getPhysicalPath?.(filename) ?? null;
+    }
+    if (inner.getStoredBytes) {
+      this.getStoredBytes = (filename) => inner.getStoredBytes?.(filename) ?? null;
+    }
+  }
+
+  write(filename: string, content: string): void | Promise<void> {
+    return then(this.inner.write(filename, content), () => this._remember(filename, content));
+  }
+
+  read(filename: string): string | null | Promise<string | null> {
+    const cached = this.cache.get(filename);
+    if (cached) {
+      this.hits++;
+      this.cache.delete(filename);
+      this.cache.set(filename, cached);
+      return cached.content;
+    }
+    this.misses++;
+    return then(this.inner.read(filename), (content) => {
+      if (content != null) this._remember(filename, content);
+      return content;
+    });
+  }
+
+  get stats(): TieredCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: this.cache.size,
+      bytes: this.cachedBytes,
+    };
+  }
+
+  /** Empties the cache. Counters are kept. */
+  clear(): void {
+    this.cache.clear();
+    this.cachedBytes = 0;
+  }
+
+  private _remember(filename: string, content: string): void {
+    this._forget(filename);
+    const bytes = Buffer.byteLength(content, 'utf8');
+    if (bytes > this.maxBytes) return;
+    this.cache.set(filename, { content, bytes });
+    this.cachedBytes += bytes;
+    for (const [oldest, entry] of this.cache) {
+      if (this.cachedBytes <= this.maxBytes) break;
+      this.cache.delete(oldest);
+      this.cachedBytes -= entry.bytes;
+      this.evictions++;
+    }
+  }
+
+  private _forget(filename: string): void {
+    const entry = this.cache.get(filename);
+    if (!entry) return;
+    this.cache.delete(filename);
+    this.cachedBytes -= entry.bytes;
+  }
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Attachment, Message } from '../../types';
+import { Offloader, type VFSStorageAdapter } from '.';
+import { offloadAttachments, rehydrateAttachments, resolveAttachment } from './attachments';
+
+class MemoryAdapter implements VFSStorageAdapter {
+  readonly db = new Map<string, string>();
+  write(filename: string, content: string): void {
+    this.db.set(filename, content);
+  }
+  read(filename: string): string | null {
+    return this.db.get(filename) ?? null;
+  }
+  list(): string[] {
+    return [...this.db.keys()];
+  }
+  delete(filename: string): void {
+    this.db.delete(filename);
+  }
+}
+
+const png: Attachment = { mediaType: 'image/png', data: 'iVBORw0KGgo'.repeat(50) };
+const pdf: Attachment = {
+  mediaType: 'application/pdf',
+  data: 'JVBERi0xLjQK'.repeat(5),
+  filename: 'report.pdf',
+};
+const remote: Attachment = { mediaType: 'image/jpeg', data: 'https://example.com/cat.jpg' };
+
+const user = (content: string, attachments?: Attachment[]): Message => ({
+  role: 'user',
+  content,
+  ...(attachments && { attachments }),
+});
+const assistant = (content: string): Message => ({ role: 'assistant', content });
+
+const makeOffloader = () => new Offloader({ adapter: new MemoryAdapter() });
+const silent = { warn: vi.fn() };
+
+describe('offloadAttachments', () => {
+  it('offloads attachments once enough user turns have followed', async () => {
+    const offloader = makeOffloader();
+    const history = [
+      user('look at this', [png]),
+      assistant('a chart'),
+      user('and now?'),
+      assistant('sure'),
+      user('latest', [pdf]),
+    ];
+
+    const result = await offloadAttachments(history, offloader, { afterTurns: 2 });
+
+    expect(result[0].attachments).toBeUndefined();
+    expect(result[0].content).toMatch(
+      /^\[image — stored at context:\/\/vfs\/vfs_[0-9a-f]+\.txt\]\nlook at this$/,
+    );
+    expect(result[4]).toBe(history[4]);
+    expect(result[1]).toBe(history[1]);
+    expect(history[0].attachments).toEqual([png]);
+  });
+
+  it('offloads oversized attachments regardless of age', async () => {
+    const result = await offloadAttachments([user('both', [png, pdf])], makeOffloader(), {
+      maxBytes: 100,
+    });
+
+    expect(result[0].attachments).toEqual([pdf]);
+    expect(result[0].content.split('\n')).toHaveLength(2);
+    expect(result[0].content).toContain('[image — stored at context://vfs/');
+  });
+
+  it('leaves remote references and pinned messages alone', async () => {
+    const pinned: Message = { ...user('keep', [png]), _pinned: true };
+    const history = [user('url', [remote]), pinned, user('now')];
+
+    const result = await offloadAttachments(history, makeOffloader(), { afterTurns: 0 });
+
+    expect(result[0]).toBe(history[0]);
+    expect(result[1]).toBe(pinned);
+  });
+
+  it('is a no-op without a trigger', async () => {
+    const history = [user('x', [png])];
+    expect(await offloadAttachments(history, makeOffloader(), {})).toBe(history);
+  });
+
+  it('puts a memoized caption in the marker', async () => {
+    const offloader = makeOffloader();
+    const caption = vi.fn().mockResolvedValue('A bar chart\nof Q3 revenue');
+    const history = [user('', [pdf])];
+
+    const first = await offloadAttachments(history, offloader, { afterTurns: 0, caption });
+    const second = await offloadAttachments(history, offloader, { afterTurns: 0, caption });
+
+    expect(first[0].content).toMatch(
+      /^\[document: report\.pdf — stored at context:\/\/vfs\/\S+; caption: A bar chart of Q3 revenue\]$/,
+    );
+    expect(second[0].content).toBe(first[0].content);
+    expect(caption).toHaveBeenCalledTimes(1);
+    expect(caption).toHaveBeenCalledWith(pdf);
+  });
+
+  it('drops a caption that throws', async () => {
+    const caption = vi.fn().mockRejectedValue(new Error('vision down'));
+    const offloader = new Offloader({ adapter: new MemoryAdapter(), logger: silent });
+
+    const result = await offloadAttachments([user('', [png])], offloader, {
+      afterTurns: 0,
+      caption,
+    });
+
+    expect(result[0].content).toMatch(/^\[image — stored at \S+\]$/);
+  });
+
+  it('keeps an attachment inline when the write fails', async () => {
+    const failing: VFSStorageAdapter = {
+      write: () => {
+        throw new Error('disk full');
+      },
+      read: () => null,
+    };
+    const logger = { warn: vi.fn() };
+    const history = [user('x', [png])];
+
+    const result = await offloadAttachments(
+      history,
+      new Offloader({ adapter: failing, logger }),
+      { afterTurns: 0 },
+      logger,
+    );
+
+    expect(result[0]).toBe(history[0]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      '[context-chef] attachment offload failed — keeping it inline:',
+      expect.any(Error),
+    );
+  });
+});
+
+describe('resolveAttachment / rehydrateAttachments', () => {
+  it('round-trips an offloaded attachment back onto its message', async () => {
+    const offloader = makeOffloader();
+    const offloaded = await offloadAttachments(
+      [user('compare these', [png, pdf]), assistant('ok'), user('next')],
+      offloader,
+      { afterTurns: 1, caption: () => 'a logo' },
+    );
+    const uri = offloaded[0].content.match(/stored at (\S+?);/)?.[1] as string;
+
+    expect(await resolveAttachment(offloader, uri)).toEqual(png);
+
+    const restored = await rehydrateAttachments(offloaded, offloader, [uri]);
+    expect(restored[0].attachments).toEqual([png]);
+    expect(restored[0].content).not.toContain(uri);
+    expect(restored[0].content).toContain('[document: report.pdf — stored at');
+    expect(restored[0].content).toContain('compare these');
+    expect(restored[1]).toBe(offloaded[1]);
+  });
+
+  it('leaves markers whose entry is gone and ignores non-attachment entries', async () => {
+    const offloader = makeOffloader();
+    const offloaded = await offloadAttachments([user('x', [png])], offloader, { afterTurns: 0 });
+    const uri = offloaded[0].content.match(/stored at (\S+?)\]/)?.[1] as string;
+    const text = await offloader.offloadAsync('plain tool output', {
+      threshold: 0,
+      headChars: 0,
+      tailChars: 0,
+    });
+
+    expect(await resolveAttachment(offloader, text.uri as string)).toBeNull();
+    expect(await resolveAttachment(offloader, 'context://vfs/missing.txt')).toBeNull();
+
+    await offloader.cleanupAsync({ maxFiles: 0 });
+    expect(await rehydrateAttachments(offloaded, offloader, [uri])).toEqual(offloaded);
+  });
+});
@@ -0,0 +1,192 @@
+import { Prompts } from '../../prompts';
+import type { Attachment, ChefLogger, Message } from '../../types';
+import type { Offloader } from '.';
+
+/** Describes an attachment for the marker that replaces it — usually a vision-model call. */
+export type AttachmentCaptioner = (attachment: Attachment) => string | Promise<string>;
+
+/** When `offloadAttachments` moves an attachment's data into VFS. Either trigger suffices. */
+export interface AttachmentOffloadPolicy {
+  /**
+   * Offload once this many user turns have followed the attachment's
+   * message. `0` offloads every attachment, including the current turn's.
+   */
+  afterTurns?: number;
+  /** Offload attachments whose inline data exceeds this many UTF-8 bytes, whatever their age. */
+  maxBytes?: number;
+  /**
+   * Puts a caption in the marker so the model keeps a description of what
+   * it no longer sees. Called once per stored attachment — the Offloader
+   * memoizes it like a tool-result summary. A throw or an empty caption
+   * leaves the marker without one.
+   */
+  caption?: AttachmentCaptioner;
+}
+
+// Remote references (URLs, Cloud Storage URIs) are already small — only
+// inline data is worth moving. Same test the target adapters use.
+function isInline(attachment: Attachment): boolean {
+  return !attachment.data.startsWith('http') && !attachment.data.startsWith('gs://');
+}
+
+/**
+ * Moves attachments that match `policy` into VFS, replacing each with a
+ * one-line {@link Prompts.getOffloadedAttachmentPlaceholder} marker at the
+ * top of its message's content. Storage is content-addressed, so running
+ * this on every request over the same history writes each attachment once
+ * and keeps the markers byte-stable.
+ *
+ * Returns a new array; messages without offloaded attachments pass through
+ * by reference. Pinned messages are left verbatim. An attachment whose
+ * write fails stays inline (logged).
+ */
+export async function offloadAttachments(
+  messages: Message[],
+  offloader: Offloader,
+  policy: AttachmentOffloadPolicy,
+  logger: ChefLogger = console,
+): Promise<Message[]> {
+  const { afterTurns, maxBytes, caption } = policy;
+  if (afterTurns == null && maxBytes == null) return messages;
+
+  // User turns that follow each message.
+  const turnsAfter = new Array<number>(messages.length);
+  let turns = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    turnsAfter[i] = turns;
+    if (messages[i].role === 'user') turns++;
+  }
+
+  const result: Message[] = [];
+  for (const [i, msg] of messages.entries()) {
+    if (!msg.attachments?.length || msg._pinned) {
+      result.push(msg);
+      continue;
+    }
+
+    const aged = afterTurns != null && turnsAfter[i] >= afterTurns;
+    const kept: Attachment[] = [];
+    const markers: string[] = [];
+    for (const attachment of msg.attachments) {
+      const oversized = maxBytes != null && Buffer.byteLength(attachment.data, 'utf8') > maxBytes;
+      if (!isInline(attachment) || (!aged && !oversized)) {
+        kept.push(attachment);
+        continue;
+      }
+      const marker = await storeAttachment(attachment, offloader, caption, logger);
+      if (marker) markers.push(marker);
+      else kept.push(attachment);
+    }
+
+    if (markers.length === 0) {
+      result.push(msg);
+      continue;
+    }
+    const { attachments: _attachments, ...rest } = msg;
+    const placeholders = markers.join('\n');
+    result.push({
+      ...rest,
+      content: msg.content ? `${placeholders}\n${msg.content}` : placeholders,
+      ...(kept.length > 0 && { attachments: kept }),
+    });
+  }
+  return result;
+}
+
+async function storeAttachment(
+  attachment: Attachment,
+  offloader: Offloader,
+  caption: AttachmentCaptioner | undefined,
+  logger: ChefLogger,
+): Promise<string | null> {
+  try {
+    const stored = await offloader.offloadAsync(JSON.stringify(attachment), {
+      threshold: 0,
+      headChars: 0,
+      tailChars: 0,
+      ...(caption && { summarizer: () => caption(attachment) }),
+    });
+    if (!stored.uri) return null;
+    return Prompts.getOffloadedAttachmentPlaceholder(
+      attachment.mediaType,
+      stored.uri,
+      attachment.filename,
+      stored.summary,
+    );
+  } catch (error) {
+    logger.warn('[context-chef] attachment offload failed — keeping it inline:', error);
+    return null;
+  }
+}
+
+/** Reads an attachment stored by `offloadAttachments` back from its URI. Null when unknown or not an attachment. */
+export async function resolveAttachment(
+  offloader: Offloader,
+  uri: string,
+): Promise<Attachment | null> {
+  const raw = await offloader.resolveAsync(uri);
+  if (raw == null) return null;
+  let parsed: Partial<Attachment>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof parsed?.mediaType !== 'string' || typeof parsed.data !== 'string') return null;
+  return {
+    mediaType: parsed.mediaType,
+    data: parsed.data,
+    ...(typeof parsed.filename === 'string' && { filename: parsed.filename }),
+  };
+}
+
+/**
+ * Inverse of {@link offloadAttachments} for the given URIs: each marker line
+ * pointing at one of them is removed and the stored attachment is put back
+ * on its message, so target adapters send the media again. Markers whose
+ * entry can no longer be read (e.g. evicted) are left in place.
+ */
+export async function rehydrateAttachments(
+  messages: Message[],
+  offloader: Offloader,
+  uris: Iterable<string>,
+): Promise<Message[]> {
+  const wanted = new Set(uris);
+  if (wanted.size === 0) return messages;
+  const resolved = new Map<string, Attachment | null>();
+  const lookup = async (uri: string) => {
+    if (!resolved.has(uri)) resolved.set(uri, await resolveAttachment(offloader, uri));
+    return resolved.get(uri) ?? null;
+  };
+
+  const result: Message[] = [];
+  for (const msg of messages) {
+    const restored: Attachment[] = [];
+    const lines: string[] = [];
+    for (const line of msg.content.split('\n')) {
+      const uri = line.startsWith('[') ? markerUri(line, wanted) : undefined;
+      const attachment = uri ? await lookup(uri) : null;
+      if (attachment) restored.push(attachment);
+      else lines.push(line);
+    }
+    if (restored.length === 0) {
+      result.push(msg);
+      continue;
+    }
+    result.push({
+      ...msg,
+      content: lines.join('\n'),
+      attachments: [...(msg.attachments ?? []), ...restored],
+    });
+  }
+  return result;
+}
+
+/** The wanted URI an attachment marker line points at, if any. */
+function markerUri(line: string, wanted: Set<string>): string | undefined {
+  for (const uri of wanted) {
+    const at = ` — stored at ${uri}`;
+    if (line.includes(`${at}]`) || line.includes(`${at};`)) return uri;
+  }
+  return undefined;
+}
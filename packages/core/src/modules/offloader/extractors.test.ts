@@ -0,0 +1,183 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Offloader, type VFSStorageAdapter } from '.';
+import {
+  diffExtraction,
+  extractExcerpt,
+  jsonExtraction,
+  logExtraction,
+  resolveExtractionStrategy,
+  stackTraceExtraction,
+  truncateInline,
+} from './extractors';
+
+const BUILD_LOG = [
+  ...Array.from({ length: 100 }, (_, i) => `compiling module ${i}`),
+  'src/app.ts:12:3 - error TS2322: Type string is not assignable to number',
+  ...Array.from({ length: 100 }, (_, i) => `compiling module ${100 + i}`),
+  'Build finished with 1 error',
+].join('\n');
+
+describe('logExtraction', () => {
+  it('keeps error lines with context and the tail, marking omitted runs', () => {
+    const out = logExtraction({ contextLines: 1, tailLines: 1 })(BUILD_LOG, 2000);
+    expect(out).toBe(
+      [
+        '[… 99 lines omitted …]',
+        '100\tcompiling module 99',
+        '101\tsrc/app.ts:12:3 - error TS2322: Type string is not assignable to number',
+        '102\tcompiling module 100',
+        '[… 98 lines omitted …]',
+        '201\tcompiling module 199',
+        '202\tBuild finished with 1 error',
+      ].join('\n'),
+    );
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(logExtraction()('all good\nstill good', 2000)).toBeNull();
+  });
+
+  it('drops context before matches when the budget is tight', () => {
+    const out = logExtraction({ tailLines: 0 })(BUILD_LOG, 80);
+    expect(out).toContain('101\tsrc/app.ts');
+    expect(out).not.toContain('compiling module 99');
+  });
+});
+
+describe('diffExtraction', () => {
+  const diff = [
+    'diff --git a/x.ts b/x.ts',
+    '--- a/x.ts',
+    '+++ b/x.ts',
+    '@@ -1,5 +1,5 @@',
+    ' const a = 1;',
+    '-const b = 2;',
+    '+const b = 3;',
+    ' const c = 4;',
+  ].join('\n');
+
+  it('keeps headers and changed lines, dropping unchanged context', () => {
+    const out = diffExtraction()(diff, 2000);
+    expect(out).toContain('4\t@@ -1,5 +1,5 @@');
+    expect(out).toContain('6\t-const b = 2;');
+    expect(out).not.toContain('const a = 1');
+  });
+
+  it('returns null for content without hunks', () => {
+    expect(diffExtraction()('- a bullet\n+ not a diff', 2000)).toBeNull();
+  });
+});
+
+describe('jsonExtraction', () => {
+  const doc = JSON.stringify({
+    total: 500,
+    items: Array.from({ length: 500 }, (_, i) => ({ id: i, body: 'x'.repeat(200) })),
+  });
+
+  it('keeps every key with sampled arrays and clipped strings', () => {
+    const out = jsonExtraction({ sampleItems: 1, maxStringLength: 5 })(doc, 2000);
+    expect(JSON.parse(out ?? '')).toEqual({
+      total: 500,
+      items: [{ id: 0, body: 'xxxxx… (200 chars)' }, '… 499 more items'],
+    });
+  });
+
+  it('tightens sampling to fit the budget and rejects non-JSON', () => {
+    const out = jsonExtraction()(doc, 60);
+    expect(JSON.parse(out ?? '')).toEqual({ total: 500, items: ['… 500 more items'] });
+    expect(jsonExtraction()('not json', 2000)).toBeNull();
+  });
+});
+
+describe('stackTraceExtraction', () => {
+  const trace = [
+    'TypeError: Cannot read properties of undefined',
+    ...Array.from({ length: 20 }, (_, i) => `    at lib${i} (node_modules/lib/index.js:${i}:1)`),
+    '    at handler (src/routes/user.ts:42:7)',
+    'Caused by: Error: connection reset',
+    '    at Socket.onend (node:internal/net:1:1)',
+  ].join('\n');
+
+  it('keeps headers, top frames and application frames', () => {
+    const out = stackTraceExtraction({ topFrames: 2 })(trace, 2000) ?? '';
+    expect(out).toContain('1\tTypeError: Cannot read properties of undefined');
+    expect(out).toContain('3\t    at lib1');
+    expect(out).not.toContain('at lib2 ');
+    expect(out).toContain('22\t    at handler (src/routes/user.ts:42:7)');
+    expect(out).toContain('23\tCaused by: Error: connection reset');
+    expect(out).toContain('24\t    at Socket.onend');
+  });
+
+  it('returns null without frames', () => {
+    expect(stackTraceExtraction()('Error: plain message', 2000)).toBeNull();
+  });
+});
+
+describe('Offloader with a strategy', () => {
+  const makeAdapter = (): VFSStorageAdapter => {
+    const store = new Map<string, string>();
+    return {
+      write: (filename, content) => {
+        store.set(filename, content);
+      },
+      read: (filename) => store.get(filename) ?? null,
+    };
+  };
+
+  it('shows the excerpt in the marker, bounded by headChars + tailChars', () => {
+    const offloader = new Offloader({ threshold: 100, adapter: makeAdapter(), storageDir: '' });
+    const r = offloader.offload(BUILD_LOG, { strategy: 'log', tailChars: 500 });
+    expect(r.content).toContain('log excerpt shown below');
+    expect(r.content).toContain('101\tsrc/app.ts:12:3 - error TS2322');
+    expect(r.content).toContain(`Full output: ${r.uri}`);
+  });
+
+  it('falls back to head/tail when the strategy does not apply or throws', () => {
+    const logger = { warn: vi.fn(), error: vi.fn() };
+    const offloader = new Offloader({
+      threshold: 100,
+      adapter: makeAdapter(),
+      storageDir: '',
+      logger,
+    });
+    const notJson = offloader.offload(BUILD_LOG, { strategy: 'json', tailChars: 50 });
+    const thrown = offloader.offload(BUILD_LOG, {
+      tailChars: 50,
+      strategy: () => {
+        throw new Error('boom');
+      },
+    });
+    for (const r of [notJson, thrown]) {
+      expect(r.content).toContain('output truncated (202 lines');
+      expect(r.content).toContain('Build finished with 1 error');
+    }
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects unknown strategy names', () => {
+    expect(() => resolveExtractionStrategy('yaml' as 'log')).toThrow(/Unknown extraction strategy/);
+  });
+});
+
+describe('truncateInline', () => {
+  it('previews with the strategy excerpt, else head and tail', () => {
+    const logger = { warn: vi.fn(), error: vi.fn() };
+    expect(truncateInline(BUILD_LOG, 0, 300, 'log', logger)).toMatch(
+      /^--- truncated \(202 lines, \d+ chars total; log excerpt\) ---\n[\s\S]*error TS2322/,
+    );
+    expect(truncateInline('a'.repeat(10) + 'b'.repeat(10), 3, 3)).toBe(
+      'aaa\n--- truncated (1 lines, 20 chars total) ---\nbbb',
+    );
+    expect(
+      extractExcerpt(
+        BUILD_LOG,
+        () => {
+          throw new Error('boom');
+        },
+        300,
+        logger,
+      ),
+    ).toBeNull();
+    expect(logger.warn).toHaveBeenCalledOnce();
+  });
+});
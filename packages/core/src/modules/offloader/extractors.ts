@@ -0,0 +1,251 @@
+import type { ChefLogger } from '../../types';
+
+/**
+ * Picks the parts of oversized content worth keeping in the preview.
+ * Receives the content and a character budget for the excerpt; returns the
+ * excerpt, or null when the content doesn't suit the strategy (the Offloader
+ * then falls back to a head/tail preview).
+ */
+export type ExtractionStrategy = (content: string, maxChars: number) => string | null;
+
+/** Built-in strategies, selectable by name in `OffloadOptions.strategy` and middleware `perTool`. */
+export type ExtractionStrategyName = 'log' | 'diff' | 'json' | 'stack-trace';
+
+export interface LogExtractionOptions {
+  /** Lines to keep. Default: error, fatal, failure, exception, panic and warning lines. */
+  pattern?: RegExp;
+  /** Lines of context kept around each match. Default: 2. */
+  contextLines?: number;
+  /** Trailing lines always kept — logs usually end with the outcome. Default: 5. */
+  tailLines?: number;
+}
+
+export interface JsonExtractionOptions {
+  /** Array items kept per array before sampling is tightened to fit. Default: 3. */
+  sampleItems?: number;
+  /** Strings longer than this are clipped. Default: 80. */
+  maxStringLength?: number;
+}
+
+export interface StackTraceExtractionOptions {
+  /** Frames kept after each exception header. Default: 3. */
+  topFrames?: number;
+  /** Frames matching this are library code, kept only among the top frames. */
+  libraryFrame?: RegExp;
+}
+
+const DEFAULT_LOG_PATTERN =
+  /\b(error|errors|err|fatal|fail|failed|failure|exception|panic|warn|warning)\b/i;
+const DEFAULT_LIBRARY_FRAME = /node_modules|node:internal|site-packages|dist-packages|<anonymous>/;
+const FRAME_LINE = /^\s+(at\s|File\s"|\.\.\.\s\d+\smore)/;
+const EXCEPTION_HEADER =
+  /^(\S.*(Error|Exception|Traceback|panic)\b|Caused by\b|During handling of the above exception)/;
+
+/**
+ * Keeps the highest-priority lines that fit in `maxChars`, then renders them
+ * in original order with line numbers (usable as `read_context` startLine)
+ * and a marker for every omitted run.
+ */
+function renderKeptLines(lines: string[], groups: number[][], maxChars: number): string | null {
+  const kept = new Set<number>();
+  let size = 0;
+  for (const group of groups) {
+    for (const i of group) {
+      if (kept.has(i) || i < 0 || i >= lines.length) continue;
+      const cost = `${i + 1}\t${lines[i]}`.length + 1;
+      if (size + cost > maxChars) continue;
+      kept.add(i);
+      size += cost;
+    }
+  }
+  if (kept.size === 0) return null;
+
+  const out: string[] = [];
+  let prev = -1;
+  for (const i of [...kept].sort((a, b) => a - b)) {
+    if (i > prev + 1) out.push(`[… ${i - prev - 1} lines omitted …]`);
+    out.push(`${i + 1}\t${lines[i]}`);
+    prev = i;
+  }
+  if (prev < lines.length - 1) out.push(`[… ${lines.length - 1 - prev} lines omitted …]`);
+  return out.join('\n');
+}
+
+/** Keeps error/warning lines with surrounding context, plus the last few lines. */
+export function logExtraction(options: LogExtractionOptions = {}): ExtractionStrategy {
+  const pattern = options.pattern ?? DEFAULT_LOG_PATTERN;
+  const contextLines = options.contextLines ?? 2;
+  const tailLines = options.tailLines ?? 5;
+  return (content, maxChars) => {
+    const lines = content.split('\n');
+    const tail = tailLines > 0 ? lines.map((_, i) => i).slice(-tailLines) : [];
+    const matches: number[] = [];
+    const context: number[] = [];
+    lines.forEach((line, i) => {
+      if (!pattern.test(line)) return;
+      matches.push(i);
+      for (let j = i - contextLines; j <= i + contextLines; j++) context.push(j);
+    });
+    if (matches.length === 0) return null;
+    return renderKeptLines(lines, [tail, matches, context], maxChars);
+  };
+}
+
+/** Keeps file headers, hunk headers and changed lines; drops unchanged context lines. */
+export function diffExtraction(): ExtractionStrategy {
+  return (content, maxChars) => {
+    const lines = content.split('\n');
+    const headers: number[] = [];
+    const changes: number[] = [];
+    lines.forEach((line, i) => {
+      if (/^(diff --git |index |--- |\+\+\+ |@@ )/.test(line)) headers.push(i);
+      else if (/^[+-]/.test(line)) changes.push(i);
+    });
+    if (!headers.some((i) => lines[i].startsWith('@@ '))) return null;
+    return renderKeptLines(lines, [headers, changes], maxChars);
+  };
+}
+
+/**
+ * Keeps the structural skeleton of a JSON document — every key, with arrays
+ * sampled and long strings clipped. Sampling tightens until it fits.
+ */
+export function jsonExtraction(options: JsonExtractionOptions = {}): ExtractionStrategy {
+  const maxStringLength = options.maxStringLength ?? 80;
+  return (content, maxChars) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return null;
+    }
+    const samples = [...new Set([options.sampleItems ?? 3, 1, 0])];
+    let rendered = '';
+    for (const sample of samples) {
+      rendered = JSON.stringify(skeleton(parsed, sample, maxStringLength), null, 2);
+      if (rendered.length <= maxChars) return rendered;
+    }
+    return `${rendered.slice(0, maxChars)}…`;
+  };
+}
+
+function skeleton(value: unknown, sample: number, maxStringLength: number): unknown {
+  if (typeof value === 'string') {
+    return value.length > maxStringLength
+      ? `${value.slice(0, maxStringLength)}… (${value.length} chars)`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, sample).map((v) => skeleton(v, sample, maxStringLength));
+    const rest = value.length - items.length;
+    return rest > 0 ? [...items, `… ${rest} more items`] : items;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, skeleton(v, sample, maxStringLength)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Keeps exception headers (including `Caused by` chains), the top frames of
+ * each trace and every application frame; drops the rest of library frames.
+ */
+export function stackTraceExtraction(
+  options: StackTraceExtractionOptions = {},
+): ExtractionStrategy {
+  const topFrames = options.topFrames ?? 3;
+  const libraryFrame = options.libraryFrame ?? DEFAULT_LIBRARY_FRAME;
+  return (content, maxChars) => {
+    const lines = content.split('\n');
+    const headers: number[] = [];
+    const top: number[] = [];
+    const appFrames: number[] = [];
+    let framesSinceHeader = Number.POSITIVE_INFINITY;
+    lines.forEach((line, i) => {
+      if (FRAME_LINE.test(line)) {
+        framesSinceHeader++;
+        if (framesSinceHeader <= topFrames) top.push(i);
+        else if (!libraryFrame.test(line)) appFrames.push(i);
+      } else if (EXCEPTION_HEADER.test(line)) {
+        headers.push(i);
+        framesSinceHeader = 0;
+      }
+    });
+    if (top.length === 0) return null;
+    return renderKeptLines(lines, [headers, top, appFrames], maxChars);
+  };
+}
+
+const BUILTIN_STRATEGIES: Record<ExtractionStrategyName, () => ExtractionStrategy> = {
+  log: () => logExtraction(),
+  diff: diffExtraction,
+  json: () => jsonExtraction(),
+  'stack-trace': () => stackTraceExtraction(),
+};
+
+/** Resolves a strategy name to its built-in implementation; functions pass through. */
+export function resolveExtractionStrategy(
+  strategy: ExtractionStrategyName | ExtractionStrategy,
+): ExtractionStrategy {
+  if (typeof strategy === 'function') return strategy;
+  const factory = BUILTIN_STRATEGIES[strategy];
+  if (!factory) throw new Error(`Unknown extraction strategy '${strategy}'`);
+  return factory();
+}
+
+/**
+ * Runs `strategy` on `content` within a `maxChars` budget. Returns null when
+ * there is no budget, the strategy declines, or it throws (logged) — the
+ * caller then falls back to a head/tail preview. An unknown strategy name
+ * throws: that is a config error.
+ */
+export function extractExcerpt(
+  content: string,
+  strategy: ExtractionStrategyName | ExtractionStrategy,
+  maxChars: number,
+  logger: ChefLogger = console,
+): string | null {
+  if (maxChars <= 0) return null;
+  // Resolved outside the try: an unknown strategy name is a config error.
+  const extract = resolveExtractionStrategy(strategy);
+  try {
+    return extract(content, maxChars) || null;
+  } catch (error) {
+    logger.warn(
+      '[context-chef] Extraction strategy threw — falling back to head/tail preview:',
+      error,
+    );
+    return null;
+  }
+}
+
+/**
+ * Storage-less preview of oversized content, for when the original is
+ * discarded: the strategy's excerpt when it applies, otherwise head/tail
+ * slices around a truncation banner.
+ */
+export function truncateInline(
+  content: string,
+  headChars: number,
+  tailChars: number,
+  strategy?: ExtractionStrategyName | ExtractionStrategy,
+  logger: ChefLogger = console,
+): string {
+  const totalLines = content.split('\n').length;
+  const excerpt = strategy
+    ? extractExcerpt(content, strategy, headChars + tailChars, logger)
+    : null;
+  if (excerpt) {
+    const label = typeof strategy === 'string' ? strategy : 'custom';
+    return `--- truncated (${totalLines} lines, ${content.length} chars total; ${label} excerpt) ---\n${excerpt}`;
+  }
+
+  const head = content.slice(0, headChars);
+  const tail = content.slice(content.length - tailChars);
+  return [head, `\n--- truncated (${totalLines} lines, ${content.length} chars total) ---\n`, tail]
+    .filter(Boolean)
+    .join('')
+    .trim();
+}
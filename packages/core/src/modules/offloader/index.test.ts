@@ -832,6 +832,77 @@ describe('Offloader', () => {
       });
     });
 
+    describe('Reachability (protectReferenced)', () => {
+      const offloadAt = (o: Offloader, time: number, content: string) => {
+        vi.setSystemTime(time);
+        return o.offload(content, { tailChars: 0 }).uri ?? '';
+      };
+
+      it('keeps expired entries a root still references and reports them', () => {
+        vi.useFakeTimers();
+        const adapter = new InMemorySyncAdapter();
+        const o = new Offloader({ adapter, threshold: 10, maxAge: 500, protectReferenced: true });
+        const kept = offloadAt(o, 0, 'A'.repeat(20));
+        const dropped = offloadAt(o, 0, 'B'.repeat(20));
+        const history = [{ role: 'tool', content: `see ${kept}.` }];
+        o.addRoot(() => history);
+        vi.setSystemTime(1000);
+
+        const result = o.cleanup();
+        expect(result.evicted.map((e) => e.uri)).toEqual([dropped]);
+        expect(result.protected.map((e) => e.uri)).toEqual([kept]);
+        expect(o.resolve(kept)).toBe('A'.repeat(20));
+      });
+
+      it('skips referenced LRU victims but still counts them toward the caps', () => {
+        vi.useFakeTimers();
+        const adapter = new InMemorySyncAdapter();
+        const o = new Offloader({ adapter, threshold: 10, maxFiles: 2, protectReferenced: true });
+        const uris = ['A', 'B', 'C', 'D'].map((c, i) => offloadAt(o, i * 100, c.repeat(20)));
+        o.addRoot({ messages: [{ content: [{ type: 'text', text: uris[0] }] }] });
+
+        const result = o.cleanup();
+        expect(result.evicted.map((e) => e.uri)).toEqual([uris[1], uris[2]]);
+        expect(result.protected.map((e) => e.uri)).toEqual([uris[0]]);
+        expect(
+          o
+            .getEntries()
+            .map((e) => e.uri)
+            .sort(),
+        ).toEqual([uris[0], uris[3]].sort());
+      });
+
+      it('ignores roots unless enabled, and honours per-call roots and removal', () => {
+        vi.useFakeTimers();
+        const adapter = new InMemorySyncAdapter();
+        const o = new Offloader({ adapter, threshold: 10, maxAge: 500 });
+        const a = offloadAt(o, 0, 'A'.repeat(20));
+        const b = offloadAt(o, 0, 'B'.repeat(20));
+        const remove = o.addRoot(a);
+        vi.setSystemTime(1000);
+
+        expect(o.cleanup({ maxAge: Infinity, protectReferenced: true }).protected).toEqual([]);
+        const result = o.cleanup({ protectReferenced: true, roots: [[b]] });
+        expect(result.evicted).toEqual([]);
+        expect(result.protected.map((e) => e.uri).sort()).toEqual([a, b].sort());
+
+        remove();
+        expect(o.findReferencedFiles()).toEqual(new Set());
+        expect(o.cleanup().evicted).toHaveLength(2);
+      });
+
+      it('cleanupAsync protects referenced entries too', async () => {
+        const adapter = new InMemoryAsyncAdapter();
+        const o = new Offloader({ adapter, threshold: 10, maxFiles: 0, protectReferenced: true });
+        const { uri } = await o.offloadAsync('A'.repeat(20), { tailChars: 0 });
+        await o.offloadAsync('B'.repeat(20), { tailChars: 0 });
+
+        const result = await o.cleanupAsync({ roots: [`${uri}`] });
+        expect(result.evicted).toHaveLength(1);
+        expect(result.protected.map((e) => e.uri)).toEqual([uri]);
+      });
+    });
+
     describe('Failure handling', () => {
       it('delete() throws on one entry midway; other entries still evicted; failure recorded', () => {
         const db = new Map<string, string>();
@@ -947,6 +1018,92 @@ describe('Offloader', () => {
       });
     });
 
+    describe('Manifest', () => {
+      it('restores createdAt / accessedAt across instances so maxAge and LRU stay correct', () => {
+        vi.useFakeTimers();
+        const adapter = new InMemorySyncAdapter();
+        vi.setSystemTime(1000);
+        const first = new Offloader({ adapter, threshold: 10, manifest: true });
+        const old = first.offload('A'.repeat(20), { tailChars: 0 }).uri ?? '';
+        vi.setSystemTime(5000);
+        const fresh = first.offload('B'.repeat(20), { tailChars: 0 }).uri ?? '';
+        vi.setSystemTime(6000);
+        first.resolve(old);
+        // The access-only touch is saved by the next cleanup.
+        vi.setSystemTime(7000);
+        first.cleanup();
+
+        // "Restart": a new instance over the same storage.
+        vi.setSystemTime(10_000);
+        const second = new Offloader({ adapter, threshold: 10, manifest: true });
+        expect(second.getEntries().sort((a, b) => a.createdAt - b.createdAt)).toMatchObject([
+          { uri: old, createdAt: 1000, accessedAt: 6000, bytes: 20 },
+          { uri: fresh, createdAt: 5000, accessedAt: 5000, bytes: 20 },
+        ]);
+
+        const result = second.cleanup({ maxAge: 8000 });
+        expect(result.evicted.map((e) => e.uri)).toEqual([old]);
+        const third = new Offloader({ adapter, threshold: 10, manifest: true });
+        expect(third.getEntries().map((e) => e.uri)).toEqual([fresh]);
+      });
+
+      it('does not rewrite the manifest on a resolve that only bumps accessedAt', async () => {
+        const adapter = new InMemorySyncAdapter();
+        const o = new Offloader({ adapter, threshold: 10, manifest: true });
+        const { uri } = o.offload('A'.repeat(20), { tailChars: 0 });
+        const write = vi.spyOn(adapter, 'write');
+
+        o.resolve(uri ?? '');
+        await o.resolveAsync(uri ?? '');
+        expect(write).not.toHaveBeenCalled();
+
+        // Adopting a file the index didn't know about is a change; it is saved.
+        const rebuilt = new Offloader({ adapter, threshold: 10 });
+        const orphan = rebuilt.offload('B'.repeat(20), { tailChars: 0 }).uri ?? '';
+        write.mockClear();
+        o.resolve(orphan);
+        expect(write).toHaveBeenCalledWith('.vfs_manifest.json', expect.stringContaining('vfs_'));
+      });
+
+      it('is never adopted by reconcile() or listed as an entry', () => {
+        const adapter = new InMemorySyncAdapter();
+        const o = new Offloader({ adapter, threshold: 10, manifest: 'index.json' });
+        o.offload('A'.repeat(20), { tailChars: 0 });
+        expect(adapter.db.has('index.json')).toBe(true);
+
+        adapter.db.delete('index.json');
+        const rebuilt = new Offloader({ adapter, threshold: 10, manifest: 'index.json' });
+        expect(rebuilt.reconcile()).toBe(1);
+        expect(adapter.db.has('index.json')).toBe(true);
+        expect(rebuilt.reconcile()).toBe(0);
+        expect(rebuilt.getEntries().map((e) => e.filename)).not.toContain('index.json');
+      });
+
+      it('loads through an async adapter before async operations run', async () => {
+        const adapter = new InMemoryAsyncAdapter();
+        const first = new Offloader({ adapter, threshold: 10, manifest: true });
+        const { uri } = await first.offloadAsync('A'.repeat(20), { tailChars: 0 });
+
+        const second = new Offloader({ adapter, threshold: 10, manifest: true, maxFiles: 0 });
+        const result = await second.cleanupAsync();
+        expect(result.evicted.map((e) => e.uri)).toEqual([uri]);
+        await second.ready();
+        expect(JSON.parse(adapter.db.get('.vfs_manifest.json') ?? '')).toEqual({
+          version: 1,
+          entries: [],
+        });
+      });
+
+      it('warns and starts empty on a malformed manifest', () => {
+        const adapter = new InMemorySyncAdapter();
+        adapter.db.set('.vfs_manifest.json', '{not json');
+        const logger = { warn: vi.fn(), error: vi.fn() };
+        const o = new Offloader({ adapter, threshold: 10, manifest: true, logger });
+        expect(o.getEntries()).toEqual([]);
+        expect(logger.warn).toHaveBeenCalledWith('[Offloader] ignoring malformed VFS manifest.');
+      });
+    });
+
     describe('reconcile() and reconcileAsync()', () => {
       it('after restart equivalent: reconcile() adopts all on-disk files, dating content-addressed names from adoption', () => {
         // Phase 1: write 3 files with Offloader A. Filenames are now
@@ -1070,6 +1227,34 @@ describe('Offloader', () => {
         expect(deleteCalls.length).toBe(2);
       });
 
+      it('a whole-store sweep waits for a namespace sweep instead of deleting the same files', async () => {
+        const db = new Map<string, string>();
+        const deleteCalls: string[] = [];
+        const adapter: VFSStorageAdapter = {
+          write: async (f, c) => {
+            db.set(f, c);
+          },
+          read: async (f) => db.get(f) ?? null,
+          list: async () => Array.from(db.keys()),
+          delete: async (f) => {
+            deleteCalls.push(f);
+            await new Promise((r) => setTimeout(r, 30));
+            db.delete(f);
+          },
+        };
+        const o = new Offloader({ adapter, threshold: 10 });
+        await o.offloadAsync('A'.repeat(20), { tailChars: 0, namespace: 'a' });
+        await o.offloadAsync('B'.repeat(20), { tailChars: 0 });
+
+        const scoped = o.cleanupAsync({ namespace: 'a', maxFiles: 0 });
+        const whole = o.cleanupAsync({ maxFiles: 0 });
+        const [r1, r2] = await Promise.all([scoped, whole]);
+
+        expect(r1.evicted.map((e) => e.namespace)).toEqual(['a']);
+        expect(r2.evicted.map((e) => e.namespace)).toEqual([undefined]);
+        expect(new Set(deleteCalls).size).toBe(deleteCalls.length);
+      });
+
       it('offloadAsync during cleanupAsync does not crash; new entry survives', async () => {
         const db = new Map<string, string>();
         const adapter: VFSStorageAdapter = {
@@ -1334,3 +1519,183 @@ describe('Offloader — content-addressed filenames', () => {
     expect(() => o.offload(BIG, { tailChars: 20 })).toThrow(/asynchronous|offloadAsync/);
   });
 });
+
+describe('Offloader — summarizer', () => {
+  const BIG = Array.from({ length: 50 }, (_, i) => `result ${i}`).join('\n');
+  const quietLogger = () => ({ warn: vi.fn(), error: vi.fn() });
+
+  it('embeds the summary and URI in place of the head/tail preview', async () => {
+    const adapter = makeMemoryAdapter();
+    const o = new Offloader({ threshold: 10, adapter, storageDir: '' });
+    const summarizer = vi.fn(async () => 'results 17 and 23 match the query');
+
+    const r = await o.offloadAsync(BIG, {
+      summarizer,
+      toolName: 'search',
+      toolArgs: { query: 'needle' },
+    });
+
+    expect(summarizer).toHaveBeenCalledWith(BIG, {
+      toolName: 'search',
+      toolArgs: { query: 'needle' },
+    });
+    expect(r.isOffloaded).toBe(true);
+    expect(r.content).toContain('output summarized (50 lines');
+    expect(r.content).toContain(`Full output: ${r.uri}`);
+    expect(r.content.endsWith('results 17 and 23 match the query')).toBe(true);
+    expect(r.content).not.toContain('result 49');
+    expect(adapter.store.get(r.uri?.replace('context://vfs/', '') ?? '')).toBe(BIG);
+  });
+
+  it('memoizes the summary per stored file', async () => {
+    const o = new Offloader({ threshold: 10, adapter: makeMemoryAdapter(), storageDir: '' });
+    const summarizer = vi.fn(() => 'summary');
+    const r1 = o.offload(BIG, { summarizer });
+    const r2 = await o.offloadAsync(BIG, { summarizer });
+    expect(summarizer).toHaveBeenCalledTimes(1);
+    expect(r2.content).toBe(r1.content);
+  });
+
+  it('summarizes even when the head/tail window would cover the content', () => {
+    const o = new Offloader({ threshold: 10, adapter: makeMemoryAdapter(), storageDir: '' });
+    const r = o.offload(BIG, { tailChars: 10_000, summarizer: () => 'summary' });
+    expect(r.isOffloaded).toBe(true);
+    expect(r.content).toContain('summary');
+  });
+
+  it('falls back to the head/tail preview when the summarizer throws or returns nothing', async () => {
+    const logger = quietLogger();
+    const o = new Offloader({
+      threshold: 10,
+      adapter: makeMemoryAdapter(),
+      storageDir: '',
+      logger,
+    });
+
+    const thrown = await o.offloadAsync(BIG, {
+      tailChars: 20,
+      summarizer: async () => {
+        throw new Error('model down');
+      },
+    });
+    const empty = o.offload(BIG, { tailChars: 20, summarizer: () => '  ' });
+
+    for (const r of [thrown, empty]) {
+      expect(r.isOffloaded).toBe(true);
+      expect(r.content).toContain('output truncated');
+      expect(r.content).toContain('result 49');
+    }
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('sync offload() rejects an async summarizer', () => {
+    const o = new Offloader({ threshold: 10, adapter: makeMemoryAdapter(), storageDir: '' });
+    expect(() => o.offload(BIG, { summarizer: async () => 'summary' })).toThrow(/offloadAsync/);
+  });
+});
+
+describe('Offloader — namespaces', () => {
+  const NS_DIR = path.join(process.cwd(), '.test_vfs_namespaces');
+  const blob = (tag: string) => `${tag}\n${'x'.repeat(200)}`;
+
+  afterEach(() => {
+    fs.rmSync(NS_DIR, { recursive: true, force: true });
+  });
+
+  it('stores namespaced entries in a sub-directory and resolves them', () => {
+    const o = new Offloader({ threshold: 10, storageDir: NS_DIR });
+    const r = o.offload(blob('a'), { tailChars: 10, namespace: 'session-1' });
+
+    expect(r.uri).toMatch(/^context:\/\/vfs\/session-1\/vfs_[a-f0-9]{16}\.txt$/);
+    expect(fs.readdirSync(path.join(NS_DIR, 'session-1'))).toHaveLength(1);
+    expect(o.resolve(r.uri ?? '')).toBe(blob('a'));
+    expect(o.getEntries()[0].namespace).toBe('session-1');
+    expect(new FileSystemAdapter(NS_DIR).list()).toEqual([r.uri?.slice('context://vfs/'.length)]);
+  });
+
+  it('hashes namespaces that are not a safe path segment', () => {
+    const o = new Offloader({ threshold: 10, adapter: makeMemoryAdapter(), storageDir: '' });
+    const r = o.offload(blob('a'), { tailChars: 10, namespace: '../user@example.com' });
+    expect(r.uri).toMatch(/^context:\/\/vfs\/ns_[a-f0-9]{16}\/vfs_[a-f0-9]{16}\.txt$/);
+  });
+
+  it('enforces namespaceLimits per namespace, leaving other namespaces alone', () => {
+    vi.useFakeTimers();
+    try {
+      const o = new Offloader({
+        threshold: 10,
+        adapter: makeMemoryAdapter(),
+        storageDir: '',
+        namespaceLimits: { maxFiles: 2 },
+      });
+      for (const tag of ['a1', 'a2', 'a3']) {
+        o.offload(blob(tag), { tailChars: 10, namespace: 'a' });
+        vi.advanceTimersByTime(10);
+      }
+      o.offload(blob('b1'), { tailChars: 10, namespace: 'b' });
+      o.offload(blob('top'), { tailChars: 10 });
+
+      const result = o.cleanup();
+      expect(result.evictedByCount).toBe(1);
+      expect(result.evicted[0].namespace).toBe('a');
+      expect(o.getEntries().map((e) => e.namespace)).toEqual(['a', 'a', 'b', undefined]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('cleanup({ namespace }) sweeps only that namespace', async () => {
+    const o = new Offloader({ threshold: 10, adapter: makeAsyncMemoryAdapter(), storageDir: '' });
+    await o.offloadAsync(blob('a1'), { tailChars: 10, namespace: 'a' });
+    await o.offloadAsync(blob('b1'), { tailChars: 10, namespace: 'b' });
+
+    const result = await o.cleanupAsync({ namespace: 'a', maxFiles: 0 });
+    expect(result.evicted.map((e) => e.namespace)).toEqual(['a']);
+    expect(o.getEntries().map((e) => e.namespace)).toEqual(['b']);
+  });
+
+  it('gives adopted orphans the namespace of their segment', () => {
+    const adapter = makeMemoryAdapter();
+    const o = new Offloader({ threshold: 10, adapter, storageDir: '' });
+    const hashed = o.offload(blob('a'), { tailChars: 10, namespace: '../user@example.com' });
+    const segment = hashed.uri?.slice('context://vfs/'.length).split('/')[0];
+    adapter.store.set('a/vfs_0123456789abcdef.txt', 'left by an earlier process');
+    adapter.store.set(`${segment}/vfs_fedcba9876543210.txt`, 'left by an earlier process');
+
+    o.reconcile();
+    const namespaces = Object.fromEntries(o.getEntries().map((e) => [e.filename, e.namespace]));
+    expect(namespaces['a/vfs_0123456789abcdef.txt']).toBe('a');
+    expect(namespaces[`${segment}/vfs_fedcba9876543210.txt`]).toBe('../user@example.com');
+  });
+
+  it('dropNamespace() deletes indexed and unindexed entries and reports them', () => {
+    const onVFSEvicted = vi.fn();
+    const adapter = makeMemoryAdapter();
+    const o = new Offloader({ threshold: 10, adapter, storageDir: '', onVFSEvicted });
+    o.offload(blob('a1'), { tailChars: 10, namespace: 'a' });
+    o.offload(blob('b1'), { tailChars: 10, namespace: 'b' });
+    adapter.store.set('a/vfs_0123456789abcdef.txt', 'left by an earlier process');
+
+    const result = o.dropNamespace('a');
+    expect(result.evicted).toHaveLength(2);
+    expect([...adapter.store.keys()]).toEqual([expect.stringMatching(/^b\//)]);
+    expect(o.getEntries().map((e) => e.namespace)).toEqual(['b']);
+    expect(onVFSEvicted).toHaveBeenCalledWith(expect.anything(), 'namespace');
+  });
+
+  it('dropNamespaceAsync() removes the namespace directory from disk', async () => {
+    const o = new Offloader({ threshold: 10, storageDir: NS_DIR });
+    await o.offloadAsync(blob('a1'), { tailChars: 10, namespace: 'a' });
+    await o.offloadAsync(blob('top'), { tailChars: 10 });
+
+    await o.dropNamespaceAsync('a');
+    expect(fs.existsSync(path.join(NS_DIR, 'a'))).toBe(false);
+    expect(o.getEntries()).toHaveLength(1);
+  });
+
+  it('rejects negative namespaceLimits', () => {
+    expect(() => new Offloader({ namespaceLimits: { maxBytes: -1 } })).toThrow(
+      /namespaceLimits.maxBytes/,
+    );
+  });
+});
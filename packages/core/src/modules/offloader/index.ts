@@ -3,6 +3,13 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { Prompts } from '../../prompts';
 import type { ChefLogger } from '../../types';
+import { type ExtractionStrategy, type ExtractionStrategyName, extractExcerpt } from './extractors';
+import {
+  parseReadContextArgs,
+  type ReadContextArgs,
+  type ReadContextLimits,
+  readContextContent,
+} from './readContext';
 
 export interface VFSStorageAdapter {
   write(filename: string, content: string): void | Promise<void>;
@@ -33,6 +40,12 @@ export interface VFSStorageAdapter {
    * unset; the marker then falls back to the URI alone.
    */
   getPhysicalPath?(filename: string): string | null | Promise<string | null>;
+  /**
+   * Optional. Size of the entry as stored, when that differs from its UTF-8
+   * length (compression, encryption, encoding). Fills
+   * `VFSEntryMeta.storedBytes`; null or unimplemented falls back to `bytes`.
+   */
+  getStoredBytes?(filename: string): number | null | Promise<number | null>;
 }
 
 export class FileSystemAdapter implements VFSStorageAdapter {
@@ -47,15 +60,21 @@ export class FileSystemAdapter implements VFSStorageAdapter {
 
   write(filename: string, content: string): void {
     const filepath = path.join(this.storageDir, filename);
-    const tmppath = path.join(this.storageDir, `.tmp_${process.pid}_${filename}`);
+    // Namespaced entries ('<ns>/vfs_<hash>.txt') live in a sub-directory; the
+    // tmp file sits next to its target so the rename stays on one filesystem.
+    const tmppath = path.join(
+      path.dirname(filepath),
+      `.tmp_${process.pid}_${path.basename(filepath)}`,
+    );
     try {
       fs.writeFileSync(tmppath, content, 'utf8');
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
       // The storage dir can vanish mid-process — OS temp cleaners purge
       // /var/folders & friends on long-running hosts, and the constructor's
-      // mkdir only ran once. Recreate and retry once.
-      fs.mkdirSync(this.storageDir, { recursive: true });
+      // mkdir only ran once. A namespace sub-directory doesn't exist until its
+      // first write. Create and retry once.
+      fs.mkdirSync(path.dirname(tmppath), { recursive: true });
       fs.writeFileSync(tmppath, content, 'utf8');
     }
     fs.renameSync(tmppath, filepath); // atomic on the same filesystem
@@ -75,7 +94,10 @@ export class FileSystemAdapter implements VFSStorageAdapter {
 
   list(): string[] {
     if (!fs.existsSync(this.storageDir)) return [];
-    return fs.readdirSync(this.storageDir).filter((f) => f.startsWith('vfs_'));
+    return fs
+      .readdirSync(this.storageDir, { recursive: true, encoding: 'utf8' })
+      .filter((f) => path.basename(f).startsWith('vfs_'))
+      .map((f) => f.split(path.sep).join('/'));
   }
 
   delete(filename: string): void {
@@ -83,11 +105,24 @@ export class FileSystemAdapter implements VFSStorageAdapter {
     if (fs.existsSync(filepath)) {
       fs.unlinkSync(filepath);
     }
+    if (filename.includes('/')) {
+      // Drop the namespace sub-directory once its last entry is gone.
+      try {
+        fs.rmdirSync(path.dirname(filepath));
+      } catch {
+        // Not empty (or already gone) — leave it.
+      }
+    }
   }
 
   getPhysicalPath(filename: string): string {
     return path.join(this.storageDir, filename);
   }
+
+  getStoredBytes(filename: string): number | null {
+    const filepath = path.join(this.storageDir, filename);
+    return fs.existsSync(filepath) ? fs.statSync(filepath).size : null;
+  }
 }
 
 /** Per-entry metadata tracked by the Offloader's in-memory index. */
@@ -98,11 +133,19 @@ export interface VFSEntryMeta {
   createdAt: number;
   /** Date.now() at last successful resolve(). Drives LRU eviction order. */
   accessedAt: number;
-  /** UTF-8 byte length of stored content (Buffer.byteLength). */
+  /** UTF-8 byte length of the logical content (Buffer.byteLength). */
   bytes: number;
+  /**
+   * Bytes the adapter actually stores (see `VFSStorageAdapter.getStoredBytes`),
+   * e.g. after compression. Equals `bytes` when the adapter can't report it.
+   */
+  storedBytes: number;
+  /** Namespace the entry was offloaded under (see `OffloadOptions.namespace`). */
+  namespace?: string;
 }
 
-export type VFSEvictionReason = 'maxAge' | 'maxFiles' | 'maxBytes';
+/** `'namespace'` marks entries removed by `Offloader.dropNamespace()`. */
+export type VFSEvictionReason = 'maxAge' | 'maxFiles' | 'maxBytes' | 'namespace';
 
 export interface VFSCleanupResult {
   evicted: VFSEntryMeta[];
@@ -111,6 +154,11 @@ export interface VFSCleanupResult {
   evictedByCount: number;
   evictedByBytes: number;
   failed: { entry: VFSEntryMeta; error: Error }[];
+  /**
+   * Entries that were due for eviction but kept because a root still
+   * references their URI. Always empty unless `protectReferenced` is on.
+   */
+  protected: VFSEntryMeta[];
 }
 
 export interface CleanupOptions {
@@ -120,6 +168,22 @@ export interface CleanupOptions {
   maxFiles?: number;
   /** Override config maxBytes for this call. Pass Infinity to disable for this call. Omit to use configured value. */
   maxBytes?: number;
+  /** Override config protectReferenced for this call. */
+  protectReferenced?: boolean;
+  /** Extra roots scanned for this call only, on top of those registered via addRoot(). */
+  roots?: unknown[];
+  /**
+   * Sweeps a single namespace: only its entries are considered, and
+   * `maxFiles` / `maxBytes` cap that namespace — defaulting to
+   * `VFSConfig.namespaceLimits` rather than the store-wide caps.
+   */
+  namespace?: string;
+}
+
+/** Caps applied to each namespace separately. */
+export interface VFSNamespaceLimits {
+  maxFiles?: number;
+  maxBytes?: number;
 }
 
 export class VFSCleanupNotSupportedError extends Error {
@@ -149,6 +213,26 @@ export interface VFSConfig {
   maxFiles?: number;
   /** Max total UTF-8 bytes of stored content. Undefined = no byte cap. 0 = evict all in cleanup(). */
   maxBytes?: number;
+  /**
+   * Which size `maxBytes` caps: `'logical'` (default) sums `bytes`, the
+   * content's UTF-8 length; `'stored'` sums `storedBytes`, what the adapter
+   * keeps on disk after compression or encryption.
+   */
+  maxBytesBasis?: 'logical' | 'stored';
+  /**
+   * Per-namespace caps, enforced by cleanup() before the store-wide
+   * `maxFiles` / `maxBytes`, so one namespace filling up evicts its own
+   * least-recently-used entries rather than everyone else's. Entries
+   * offloaded without a namespace are not subject to them.
+   */
+  namespaceLimits?: VFSNamespaceLimits;
+  /**
+   * Mark-and-sweep mode: before evicting, cleanup() scans every root (see
+   * `Offloader.addRoot()`) for `context://` URIs and keeps the entries they
+   * reference, so the model is never pointed at an evicted URI. Referenced
+   * entries still count toward `maxFiles` / `maxBytes`. Default: false.
+   */
+  protectReferenced?: boolean;
   /**
    * Per-entry eviction notification.
    *
@@ -158,16 +242,55 @@ export interface VFSConfig {
    * does not await the result.
    */
   onVFSEvicted?: (entry: VFSEntryMeta, reason: VFSEvictionReason) => void | Promise<void>;
+  /**
+   * Persists the entry index as a JSON manifest through the adapter, so
+   * `createdAt` / `accessedAt` — and with them maxAge and LRU eviction —
+   * survive process restarts without reconcile(). `true` uses
+   * `.vfs_manifest.json`; a string names the file. The manifest is
+   * rewritten in a single `write()` whenever an offload, cleanup, reconcile
+   * or adopting resolve changes the index, so it is as atomic as the
+   * adapter's writes. A resolve that only bumps `accessedAt` does not write;
+   * the new time is saved by the next offload, cleanup or reconcile, and lost
+   * on a restart before one. It is loaded on
+   * construction; with an async adapter the async methods wait for the load
+   * (see `ready()`). Default: off.
+   */
+  manifest?: boolean | string;
   /** Sink for degradation warnings. Defaults to `console`. */
   logger?: ChefLogger;
 }
 
+/** On-storage shape of the manifest written when `VFSConfig.manifest` is set. */
+export interface VFSManifest {
+  version: 1;
+  entries: VFSEntryMeta[];
+}
+
 export interface VFSResult {
   isOffloaded: boolean;
   content: string;
   uri?: string;
+  /** The `OffloadOptions.summarizer` output shown in the marker, when one was used. */
+  summary?: string;
+}
+
+/** What a {@link ToolResultSummarizer} knows about the content it condenses. */
+export interface ToolResultSummaryContext {
+  /** Name of the tool that produced the content, when known. */
+  toolName?: string;
+  /** Arguments of the originating tool call, when known — e.g. the search query. */
+  toolArgs?: unknown;
 }
 
+/**
+ * Condenses oversized content (typically a tool result) into a focused
+ * summary. Usually an LLM call; may be sync or async.
+ */
+export type ToolResultSummarizer = (
+  content: string,
+  context: ToolResultSummaryContext,
+) => string | Promise<string>;
+
 export interface OffloadOptions {
   /** Allows overriding the instance threshold for a specific call */
   threshold?: number;
@@ -175,6 +298,36 @@ export interface OffloadOptions {
   headChars?: number;
   /** Number of characters to preserve from the tail of the content (default: 2000) */
   tailChars?: number;
+  /**
+   * Replaces the head/tail preview with a summary of the whole content. The
+   * full original is still written to VFS and its URI kept in the marker. A
+   * throw or an empty summary falls back to head/tail (logged). Summaries are
+   * memoized per stored file, so re-offloading the same content does not
+   * call the summarizer again. The sync `offload()` requires a sync summarizer.
+   */
+  summarizer?: ToolResultSummarizer;
+  /**
+   * Picks what the preview keeps instead of plain head/tail slices: `'log'`
+   * (error/warning lines with context), `'diff'` (hunk headers and changed
+   * lines), `'json'` (structural skeleton), `'stack-trace'` (exception
+   * headers and top/application frames), or a custom function. The excerpt
+   * is bounded by `headChars + tailChars`; when the content doesn't suit the
+   * strategy, the head/tail preview is used. `summarizer` takes precedence.
+   */
+  strategy?: ExtractionStrategyName | ExtractionStrategy;
+  /** Passed to `summarizer` as context. */
+  toolName?: string;
+  /** Passed to `summarizer` as context. */
+  toolArgs?: unknown;
+  /**
+   * Stores the entry under a namespace — typically a session id — as
+   * `<namespace>/vfs_<hash>.txt` (a sub-directory with FileSystemAdapter).
+   * Namespaces get their own caps (`VFSConfig.namespaceLimits`), can be
+   * swept alone (`cleanup({ namespace })`) and removed wholesale
+   * (`dropNamespace()`). Ids that aren't a plain `[A-Za-z0-9_-]` token of
+   * at most 64 characters are hashed into one.
+   */
+  namespace?: string;
 }
 
 // Matches only the legacy timestamped name vfs_<ts>_<hash>.txt, so reconciled
@@ -183,12 +336,67 @@ export interface OffloadOptions {
 // they fall back to Date.now() at adoption in _buildOrphanMeta.
 const ORPHAN_FILENAME_RE = /^vfs_(\d+)_[a-f0-9]+\.txt$/;
 
+// Every name the Offloader generates: vfs_<hash>.txt or legacy
+// vfs_<ts>_<hash>.txt, optionally under one namespace segment. resolve()
+// refuses anything else before it reaches the adapter — URIs come back from
+// the model, and `context://vfs/../.env` must not read (or adopt, and later
+// delete) a file outside the store.
+const VFS_FILENAME_RE = /^(?:[A-Za-z0-9_-]+\/)?vfs_(?:\d+_)?[a-f0-9]+\.txt$/;
+
+const DEFAULT_MANIFEST_FILENAME = '.vfs_manifest.json';
+
+function isEntryMeta(value: unknown): value is VFSEntryMeta {
+  const e = value as VFSEntryMeta;
+  return (
+    !!e &&
+    typeof e.filename === 'string' &&
+    typeof e.uri === 'string' &&
+    Number.isFinite(e.createdAt) &&
+    Number.isFinite(e.accessedAt) &&
+    Number.isFinite(e.bytes)
+  );
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Path segment for a namespace: the id itself when it is a safe token, otherwise a hash. */
+function namespaceSegment(namespace: string): string {
+  if (/^[A-Za-z0-9_-]{1,64}$/.test(namespace)) return namespace;
+  return `ns_${crypto.createHash('sha256').update(namespace).digest('hex').substring(0, 16)}`;
+}
+
+/** Namespace segment of a stored filename, or undefined for top-level entries. */
+function segmentOf(filename: string): string | undefined {
+  const slash = filename.indexOf('/');
+  return slash === -1 ? undefined : filename.slice(0, slash);
+}
+
 export class Offloader {
   private config: VFSConfig;
   private adapter: VFSStorageAdapter;
   private readonly logger: ChefLogger;
   private _index = new Map<string, VFSEntryMeta>();
-  private _cleanupInFlight: Promise<VFSCleanupResult> | null = null;
+  /** Summaries produced by `OffloadOptions.summarizer`, keyed by filename. */
+  private _summaries = new Map<string, string>();
+  /** In-flight cleanupAsync() sweeps, keyed by namespace (null = whole store). */
+  private _cleanupInFlight = new Map<string | null, Promise<VFSCleanupResult>>();
+  /** Tail of the cleanupAsync() queue: sweeps run one at a time, whatever their scope. */
+  private _cleanupQueue: Promise<unknown> = Promise.resolve();
+  /** GC roots for mark-and-sweep cleanup. Functions are called at sweep time. */
+  private _roots = new Set<unknown>();
+  private readonly _manifestName: string | null;
+  /** Pending manifest read when the adapter is async; awaited by the async methods. */
+  private _manifestLoad: Promise<void> | null = null;
+  /** Serializes async manifest writes so an older index never lands last. */
+  private _manifestWrite: Promise<void> = Promise.resolve();
+  /**
+   * An `accessedAt` bump from resolve() not yet in the manifest. Touches
+   * don't write on their own; the next offload writes anyway, and cleanup
+   * and reconcile write for this even when the index didn't change.
+   */
+  private _accessUnsaved = false;
 
   constructor(config: Partial<VFSConfig> = {}) {
     if (config.maxAge != null && config.maxAge < 0) {
@@ -200,6 +408,12 @@ export class Offloader {
     if (config.maxBytes != null && config.maxBytes < 0) {
       throw new Error(`VFSConfig.maxBytes must be non-negative, got ${config.maxBytes}`);
     }
+    for (const key of ['maxFiles', 'maxBytes'] as const) {
+      const limit = config.namespaceLimits?.[key];
+      if (limit != null && limit < 0) {
+        throw new Error(`VFSConfig.namespaceLimits.${key} must be non-negative, got ${limit}`);
+      }
+    }
 
     const storageDir = config.storageDir ?? path.join(process.cwd(), '.context_vfs');
     this.config = {
@@ -209,11 +423,107 @@ export class Offloader {
       maxAge: config.maxAge,
       maxFiles: config.maxFiles,
       maxBytes: config.maxBytes,
+      maxBytesBasis: config.maxBytesBasis,
+      namespaceLimits: config.namespaceLimits,
+      protectReferenced: config.protectReferenced,
       onVFSEvicted: config.onVFSEvicted,
     };
 
     this.logger = config.logger ?? console;
     this.adapter = config.adapter ?? new FileSystemAdapter(storageDir);
+
+    this._manifestName = config.manifest
+      ? typeof config.manifest === 'string'
+        ? config.manifest
+        : DEFAULT_MANIFEST_FILENAME
+      : null;
+    if (this._manifestName) this._loadManifest(this._manifestName);
+  }
+
+  /**
+   * Resolves once the manifest has been loaded. Only needed with an async
+   * adapter before calling sync accessors like getEntries(); the async
+   * methods already wait.
+   */
+  public async ready(): Promise<void> {
+    if (this._manifestLoad) await this._manifestLoad;
+  }
+
+  private _loadManifest(name: string): void {
+    let raw: string | null | Promise<string | null>;
+    try {
+      raw = this.adapter.read(name);
+    } catch (error) {
+      this.logger.warn('[Offloader] failed to read the VFS manifest; starting empty:', error);
+      return;
+    }
+    if (raw instanceof Promise) {
+      this._manifestLoad = raw.then(
+        (content) => this._applyManifest(content),
+        (error) => {
+          this.logger.warn('[Offloader] failed to read the VFS manifest; starting empty:', error);
+        },
+      );
+      return;
+    }
+    this._applyManifest(raw);
+  }
+
+  /** Merges persisted entries into the index. Entries already indexed win. */
+  private _applyManifest(raw: string | null): void {
+    if (raw == null) return;
+    let entries: unknown;
+    try {
+      entries = (JSON.parse(raw) as Partial<VFSManifest>).entries;
+    } catch {
+      entries = undefined;
+    }
+    if (!Array.isArray(entries)) {
+      this.logger.warn('[Offloader] ignoring malformed VFS manifest.');
+      return;
+    }
+    for (const entry of entries) {
+      if (!isEntryMeta(entry) || this._index.has(entry.filename)) continue;
+      const { filename, uri, createdAt, accessedAt, bytes, namespace } = entry;
+      // Manifests written before storedBytes existed lack it.
+      const storedBytes = Number.isFinite(entry.storedBytes) ? entry.storedBytes : bytes;
+      const meta: VFSEntryMeta = { filename, uri, createdAt, accessedAt, bytes, storedBytes };
+      if (typeof namespace === 'string') meta.namespace = namespace;
+      this._index.set(filename, meta);
+    }
+  }
+
+  private _serializeManifest(): string {
+    this._accessUnsaved = false;
+    const manifest: VFSManifest = { version: 1, entries: Array.from(this._index.values()) };
+    return JSON.stringify(manifest);
+  }
+
+  /** A failed manifest write only costs metadata on the next restart — warn, never throw. */
+  private _saveManifestSync(): void {
+    if (!this._manifestName) return;
+    try {
+      const result = this.adapter.write(this._manifestName, this._serializeManifest());
+      if (result instanceof Promise) {
+        result.catch((error) => this.logger.warn('[Offloader] VFS manifest write failed:', error));
+      }
+    } catch (error) {
+      this.logger.warn('[Offloader] VFS manifest write failed:', error);
+    }
+  }
+
+  private _saveManifestAsync(): Promise<void> {
+    const name = this._manifestName;
+    if (!name) return Promise.resolve();
+    // Serialized at write time, so a queued write always carries the latest index.
+    this._manifestWrite = this._manifestWrite.then(async () => {
+      try {
+        await this.adapter.write(name, this._serializeManifest());
+      } catch (error) {
+        this.logger.warn('[Offloader] VFS manifest write failed:', error);
+      }
+    });
+    return this._manifestWrite;
   }
 
   /**
@@ -237,13 +547,18 @@ export class Offloader {
     return nextNewline === -1 ? charIndex : nextNewline + 1;
   }
 
-  private _generateFilename(content: string): { filename: string; uri: string } {
+  private _generateFilename(
+    content: string,
+    namespace: string | undefined,
+  ): { filename: string; uri: string } {
     // Content-addressed: identical content always maps to the same file, so
     // re-offloading in an agent loop is idempotent and the truncation marker
     // (URI + physical path) is byte-stable — provider prefix caches survive.
     // 16 hex chars (64 bits) because the hash alone is now the identity.
     const hash = crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
-    const filename = `vfs_${hash}.txt`;
+    const filename = namespace
+      ? `${namespaceSegment(namespace)}/vfs_${hash}.txt`
+      : `vfs_${hash}.txt`;
     const uri = `${this.config.uriScheme}${filename}`;
     return { filename, uri };
   }
@@ -277,6 +592,117 @@ export class Offloader {
     );
   }
 
+  /**
+   * Marker for offloaded content: the summary when there is one, else the
+   * strategy's excerpt, else the head/tail preview.
+   */
+  private _buildMarker(
+    content: string,
+    uri: string,
+    physicalPath: string | null,
+    summary: string | null,
+    options: OffloadOptions | undefined,
+    headChars: number,
+    tailChars: number,
+  ): string {
+    if (summary) return this._buildSummaryMarker(content, uri, summary, physicalPath);
+    const excerpt = options?.strategy
+      ? extractExcerpt(content, options.strategy, headChars + tailChars, this.logger)
+      : null;
+    if (excerpt && options?.strategy) {
+      const label = typeof options.strategy === 'string' ? options.strategy : 'custom';
+      return Prompts.getVFSExcerptReminder(
+        uri,
+        content.split('\n').length,
+        content.length,
+        label,
+        excerpt,
+        physicalPath,
+      );
+    }
+    return this._buildTruncatedMarker(content, uri, headChars, tailChars, physicalPath);
+  }
+
+  private _buildSummaryMarker(
+    content: string,
+    uri: string,
+    summary: string,
+    physicalPath: string | null,
+  ): string {
+    return Prompts.getVFSSummaryReminder(
+      uri,
+      content.split('\n').length,
+      content.length,
+      summary,
+      physicalPath,
+    );
+  }
+
+  /**
+   * Runs `options.summarizer` synchronously, memoized by filename. Returns
+   * null (head/tail fallback) when it throws or yields nothing; throws when
+   * it returns a Promise.
+   */
+  private _summarizeSync(
+    content: string,
+    filename: string,
+    options: OffloadOptions,
+  ): string | null {
+    const memo = this._summaries.get(filename);
+    if (memo !== undefined || !options.summarizer) return memo ?? null;
+
+    let result: string | Promise<string>;
+    try {
+      result = options.summarizer(content, {
+        toolName: options.toolName,
+        toolArgs: options.toolArgs,
+      });
+    } catch (error) {
+      this.logger.warn('[Offloader] summarizer threw — falling back to head/tail preview:', error);
+      return null;
+    }
+    if (result instanceof Promise) {
+      result.catch(() => {});
+      throw new Error(
+        'Offloader.offload() was called synchronously, but the summarizer is asynchronous. Use offloadAsync() instead.',
+      );
+    }
+    return this._rememberSummary(filename, result);
+  }
+
+  /** Async variant — awaits Promise-returning summarizers. */
+  private async _summarizeAsync(
+    content: string,
+    filename: string,
+    options: OffloadOptions,
+  ): Promise<string | null> {
+    const memo = this._summaries.get(filename);
+    if (memo !== undefined || !options.summarizer) return memo ?? null;
+
+    try {
+      const result = await options.summarizer(content, {
+        toolName: options.toolName,
+        toolArgs: options.toolArgs,
+      });
+      return this._rememberSummary(filename, result);
+    } catch (error) {
+      this.logger.warn('[Offloader] summarizer threw — falling back to head/tail preview:', error);
+      return null;
+    }
+  }
+
+  private _rememberSummary(filename: string, summary: string): string | null {
+    const trimmed = typeof summary === 'string' ? summary.trim() : '';
+    if (!trimmed) {
+      this.logger.warn(
+        '[Offloader] summarizer returned no text — falling back to head/tail preview',
+      );
+      return null;
+    }
+    this._summaries.set(filename, trimmed);
+    return trimmed;
+  }
+
   /**
    * Resolves the adapter's physical path for `filename` synchronously.
    * Returns null when the adapter doesn't expose paths or returns a Promise
@@ -294,17 +720,38 @@ export class Offloader {
     return await this.adapter.getPhysicalPath(filename);
   }
 
-  private _registerEntry(filename: string, uri: string, content: string): void {
+  private _registerEntry(
+    filename: string,
+    uri: string,
+    content: string,
+    storedBytes: number | null,
+    namespace: string | undefined,
+  ): void {
     const now = Date.now();
+    const bytes = Buffer.byteLength(content, 'utf8');
     this._index.set(filename, {
       filename,
       uri,
       createdAt: now,
       accessedAt: now,
-      bytes: Buffer.byteLength(content, 'utf8'),
+      bytes,
+      storedBytes: storedBytes ?? bytes,
+      ...(namespace && { namespace }),
     });
   }
 
+  /** Stored size from the adapter, or null when it can't say (or is async on the sync path). */
+  private _storedBytesSync(filename: string): number | null {
+    if (!this.adapter.getStoredBytes) return null;
+    const result = this.adapter.getStoredBytes(filename);
+    return typeof result === 'number' ? result : null;
+  }
+
+  private async _storedBytesAsync(filename: string): Promise<number | null> {
+    if (!this.adapter.getStoredBytes) return null;
+    return await this.adapter.getStoredBytes(filename);
+  }
+
   /**
    * If content exceeds the threshold, writes full content to VFS (synchronously)
    * and returns a truncated string with a pointer URI.
@@ -319,19 +766,39 @@ export class Offloader {
       return { isOffloaded: false, content };
     }
 
-    if (headChars + tailChars >= content.length) {
+    // With a summarizer the head/tail window is only the fallback preview.
+    if (!options?.summarizer && headChars + tailChars >= content.length) {
       return { isOffloaded: false, content };
     }
 
-    const { filename, uri } = this._generateFilename(content);
+    const { filename, uri } = this._generateFilename(content, options?.namespace);
     const physicalPath = this._resolvePhysicalPathSync(filename);
-    const truncated = this._buildTruncatedMarker(content, uri, headChars, tailChars, physicalPath);
+    const summary = options ? this._summarizeSync(content, filename, options) : null;
+    if (!summary && headChars + tailChars >= content.length) {
+      return { isOffloaded: false, content };
+    }
+    const truncated = this._buildMarker(
+      content,
+      uri,
+      physicalPath,
+      summary,
+      options,
+      headChars,
+      tailChars,
+    );
+    const offloaded: VFSResult = {
+      isOffloaded: true,
+      content: truncated,
+      uri,
+      ...(summary && { summary }),
+    };
 
     const indexed = this._index.get(filename);
     if (indexed) {
       // Same content already offloaded by this instance — refresh LRU recency.
       indexed.accessedAt = Date.now();
-      return { isOffloaded: true, content: truncated, uri };
+      this._saveManifestSync();
+      return offloaded;
     }
 
     if (this.adapter.exists) {
@@ -341,8 +808,15 @@ export class Offloader {
       // If write() is also async it throws the established async-adapter error;
       // a mixed sync-write adapter just proceeds with a harmless redundant write.
       if (exists === true) {
-        this._registerEntry(filename, uri, content);
-        return { isOffloaded: true, content: truncated, uri };
+        this._registerEntry(
+          filename,
+          uri,
+          content,
+          this._storedBytesSync(filename),
+          options?.namespace,
+        );
+        this._saveManifestSync();
+        return offloaded;
       }
     }
 
@@ -353,13 +827,16 @@ export class Offloader {
       );
     }
 
-    this._registerEntry(filename, uri, content);
-
-    return {
-      isOffloaded: true,
-      content: truncated,
+    this._registerEntry(
+      filename,
       uri,
-    };
+      content,
+      this._storedBytesSync(filename),
+      options?.namespace,
+    );
+    this._saveManifestSync();
+
+    return offloaded;
   }
 
   /**
@@ -368,6 +845,7 @@ export class Offloader {
    * Safely supports both synchronous and asynchronous adapters.
    */
   public async offloadAsync(content: string, options?: OffloadOptions): Promise<VFSResult> {
+    await this.ready();
     const activeThreshold = options?.threshold ?? this.config.threshold;
     const headChars = options?.headChars ?? 0;
     const tailChars = options?.tailChars ?? 2000;
@@ -376,41 +854,71 @@ export class Offloader {
       return { isOffloaded: false, content };
     }
 
-    if (headChars + tailChars >= content.length) {
+    if (!options?.summarizer && headChars + tailChars >= content.length) {
       return { isOffloaded: false, content };
     }
 
-    const { filename, uri } = this._generateFilename(content);
+    const { filename, uri } = this._generateFilename(content, options?.namespace);
     const physicalPath = await this._resolvePhysicalPathAsync(filename);
-    const truncated = this._buildTruncatedMarker(content, uri, headChars, tailChars, physicalPath);
+    const summary = options ? await this._summarizeAsync(content, filename, options) : null;
+    if (!summary && headChars + tailChars >= content.length) {
+      return { isOffloaded: false, content };
+    }
+    const truncated = this._buildMarker(
+      content,
+      uri,
+      physicalPath,
+      summary,
+      options,
+      headChars,
+      tailChars,
+    );
+    const offloaded: VFSResult = {
+      isOffloaded: true,
+      content: truncated,
+      uri,
+      ...(summary && { summary }),
+    };
 
     const indexed = this._index.get(filename);
     if (indexed) {
       indexed.accessedAt = Date.now();
-      return { isOffloaded: true, content: truncated, uri };
+      await this._saveManifestAsync();
+      return offloaded;
     }
 
     if (this.adapter.exists && (await this.adapter.exists(filename))) {
-      this._registerEntry(filename, uri, content);
-      return { isOffloaded: true, content: truncated, uri };
+      this._registerEntry(
+        filename,
+        uri,
+        content,
+        await this._storedBytesAsync(filename),
+        options?.namespace,
+      );
+      await this._saveManifestAsync();
+      return offloaded;
     }
 
     await this.adapter.write(filename, content);
 
-    this._registerEntry(filename, uri, content);
-
-    return {
-      isOffloaded: true,
-      content: truncated,
+    this._registerEntry(
+      filename,
       uri,
-    };
+      content,
+      await this._storedBytesAsync(filename),
+      options?.namespace,
+    );
+    await this._saveManifestAsync();
+
+    return offloaded;
   }
 
   /**
    * Reads the full content back from a URI (synchronously).
    * On a hit, updates the entry's accessedAt timestamp; if the URI is not in the index,
    * auto-adopts the file (parses createdAt from filename, seeds bytes from content length).
-   * Throws an error if the adapter is asynchronous.
+   * Returns null without reading for a filename the Offloader could not have generated
+   * (e.g. one containing `..`). Throws an error if the adapter is asynchronous.
    */
   public resolve(uri: string): string | null {
     const scheme = this.config.uriScheme;
@@ -419,6 +927,7 @@ export class Offloader {
     }
 
     const filename = uri.slice(scheme.length);
+    if (!VFS_FILENAME_RE.test(filename)) return null;
     const readResult = this.adapter.read(filename);
 
     if (readResult instanceof Promise) {
@@ -427,8 +936,9 @@ export class Offloader {
       );
     }
 
-    if (readResult != null) {
-      this._touchOrAdopt(filename, uri, readResult);
+    // An access-only touch rides along with the next manifest write.
+    if (readResult != null && this._touchOrAdopt(filename, uri, readResult)) {
+      this._saveManifestSync();
     }
 
     return readResult;
@@ -439,32 +949,65 @@ export class Offloader {
    * Safely supports both synchronous and asynchronous adapters.
    */
   public async resolveAsync(uri: string): Promise<string | null> {
+    await this.ready();
     const scheme = this.config.uriScheme;
     if (!scheme || !uri.startsWith(scheme)) {
       return null;
     }
 
     const filename = uri.slice(scheme.length);
+    if (!VFS_FILENAME_RE.test(filename)) return null;
     const readResult = await this.adapter.read(filename);
 
-    if (readResult != null) {
-      this._touchOrAdopt(filename, uri, readResult);
+    if (readResult != null && this._touchOrAdopt(filename, uri, readResult)) {
+      await this._saveManifestAsync();
     }
 
     return readResult;
   }
 
-  private _touchOrAdopt(filename: string, uri: string, content: string): void {
+  /**
+   * Dispatcher for the `read_context` tool (see `getReadContextToolDefinition`).
+   * Accepts the call's arguments as an object or raw JSON string and returns
+   * the tool result text — a bounded slice of the stored content, or an
+   * `Error: ...` line for bad arguments and unknown URIs. Never throws for
+   * those; throws if the adapter is asynchronous (use readContextAsync()).
+   */
+  public readContext(args: ReadContextArgs | string, limits?: ReadContextLimits): string {
+    const parsed = parseReadContextArgs(args);
+    if (typeof parsed === 'string') return parsed;
+    const content = this.resolve(parsed.uri);
+    if (content == null) return `Error: no stored content at ${parsed.uri}.`;
+    return readContextContent(parsed.uri, content, parsed, limits);
+  }
+
+  /** Async variant of readContext(). Safely supports both synchronous and asynchronous adapters. */
+  public async readContextAsync(
+    args: ReadContextArgs | string,
+    limits?: ReadContextLimits,
+  ): Promise<string> {
+    const parsed = parseReadContextArgs(args);
+    if (typeof parsed === 'string') return parsed;
+    const content = await this.resolveAsync(parsed.uri);
+    if (content == null) return `Error: no stored content at ${parsed.uri}.`;
+    return readContextContent(parsed.uri, content, parsed, limits);
+  }
+
+  /** Returns true when the file was adopted, i.e. the index gained an entry. */
+  private _touchOrAdopt(filename: string, uri: string, content: string): boolean {
     const existing = this._index.get(filename);
     const now = Date.now();
     if (existing) {
       existing.accessedAt = now;
-      return;
+      this._accessUnsaved = this._manifestName != null;
+      return false;
     }
     const meta = this._buildOrphanMeta(filename, uri);
     meta.accessedAt = now;
     meta.bytes = Buffer.byteLength(content, 'utf8');
+    meta.storedBytes = meta.bytes;
     this._index.set(filename, meta);
+    return true;
   }
 
   /**
@@ -474,20 +1017,33 @@ export class Offloader {
    * fall back to Date.now() at adoption — so maxAge for adopted orphans
    * counts from adoption, the conservative direction (we never under-age and
    * evict early; at worst a just-adopted orphan lingers one maxAge window).
+   * A file under a namespace segment gets that namespace: the one an indexed
+   * entry of the same segment carries, else the segment itself (which is the
+   * namespace unless it had to be hashed).
    */
   private _buildOrphanMeta(filename: string, uri?: string): VFSEntryMeta {
     const resolvedUri = uri ?? `${this.config.uriScheme}${filename}`;
     const match = filename.match(ORPHAN_FILENAME_RE);
     const createdAt = match ? Number(match[1]) : Date.now();
+    const segment = segmentOf(filename);
     return {
       filename,
       uri: resolvedUri,
       createdAt,
       accessedAt: createdAt,
       bytes: 0,
+      storedBytes: 0,
+      ...(segment && { namespace: this._namespaceOfSegment(segment) }),
     };
   }
 
+  private _namespaceOfSegment(segment: string): string {
+    for (const entry of this._index.values()) {
+      if (entry.namespace && segmentOf(entry.filename) === segment) return entry.namespace;
+    }
+    return segment;
+  }
+
   /** Returns a deep-cloned array of all entries currently tracked in the in-memory index. For tests/debugging. */
   public getEntries(): VFSEntryMeta[] {
     return Array.from(this._index.values()).map((e) => ({ ...e }));
@@ -503,49 +1059,159 @@ export class Offloader {
   private _planEvictions(
     now: number,
     overrides?: CleanupOptions,
-  ): { entry: VFSEntryMeta; reason: VFSEvictionReason }[] {
+  ): {
+    plan: { entry: VFSEntryMeta; reason: VFSEvictionReason }[];
+    kept: VFSEntryMeta[];
+  } {
+    const scope = overrides?.namespace;
+    const limits = this.config.namespaceLimits;
     const maxAge = overrides?.maxAge ?? this.config.maxAge;
-    const maxFiles = overrides?.maxFiles ?? this.config.maxFiles;
-    const maxBytes = overrides?.maxBytes ?? this.config.maxBytes;
-
-    const allEntries = Array.from(this._index.values()).map((e) => ({ ...e }));
+    // A namespace-scoped sweep caps the namespace, not the whole store.
+    const maxFiles = overrides?.maxFiles ?? (scope ? limits?.maxFiles : this.config.maxFiles);
+    const maxBytes = overrides?.maxBytes ?? (scope ? limits?.maxBytes : this.config.maxBytes);
+    const sizeOf = (e: VFSEntryMeta) =>
+      this.config.maxBytesBasis === 'stored' ? e.storedBytes : e.bytes;
+    const protectReferenced = overrides?.protectReferenced ?? this.config.protectReferenced;
+    const referenced = protectReferenced
+      ? this.findReferencedFiles(overrides?.roots)
+      : new Set<string>();
+
+    const scopeSegment = scope ? namespaceSegment(scope) : undefined;
+    const allEntries = Array.from(this._index.values())
+      .filter((e) => !scopeSegment || segmentOf(e.filename) === scopeSegment)
+      .map((e) => ({ ...e }));
     const plan: { entry: VFSEntryMeta; reason: VFSEvictionReason }[] = [];
+    const kept: VFSEntryMeta[] = [];
+    // `remaining` is what stays on disk (counted toward the caps); `candidates`
+    // is the subset the LRU phases may still pick from.
     const remaining = new Map<string, VFSEntryMeta>();
+    const candidates = new Map<string, VFSEntryMeta>();
 
     // Phase A — maxAge sweep (relative to createdAt).
     for (const entry of allEntries) {
-      if (maxAge != null && now - entry.createdAt > maxAge) {
+      const expired = maxAge != null && now - entry.createdAt > maxAge;
+      if (expired && !referenced.has(entry.filename)) {
         plan.push({ entry, reason: 'maxAge' });
-      } else {
-        remaining.set(entry.filename, entry);
+        continue;
       }
+      remaining.set(entry.filename, entry);
+      if (expired) kept.push(entry);
+      else candidates.set(entry.filename, entry);
     }
 
-    if (maxFiles == null && maxBytes == null) return plan;
-
-    // Phase B — single-pass LRU until both count and byte caps are satisfied.
-    let totalBytes = 0;
-    for (const e of remaining.values()) totalBytes += e.bytes;
+    const evictLRU = (
+      pool: Map<string, VFSEntryMeta>,
+      poolCandidates: Map<string, VFSEntryMeta>,
+      capFiles: number | undefined,
+      capBytes: number | undefined,
+    ) => {
+      // Single-pass LRU until both count and byte caps are satisfied. A
+      // referenced victim is kept and skipped; it still occupies its share of the caps.
+      let totalBytes = 0;
+      for (const e of pool.values()) totalBytes += sizeOf(e);
+
+      while (true) {
+        const overCount = capFiles != null && pool.size > capFiles;
+        const overBytes = capBytes != null && totalBytes > capBytes;
+        if (!overCount && !overBytes) break;
+        if (poolCandidates.size === 0) break;
+
+        let victim: VFSEntryMeta | null = null;
+        for (const e of poolCandidates.values()) {
+          if (!victim || e.accessedAt < victim.accessedAt) victim = e;
+        }
+        if (!victim) break;
 
-    while (true) {
-      const overCount = maxFiles != null && remaining.size > maxFiles;
-      const overBytes = maxBytes != null && totalBytes > maxBytes;
-      if (!overCount && !overBytes) break;
-      if (remaining.size === 0) break;
+        poolCandidates.delete(victim.filename);
+        candidates.delete(victim.filename);
+        if (referenced.has(victim.filename)) {
+          kept.push(victim);
+          continue;
+        }
+        const reason: VFSEvictionReason = overCount ? 'maxFiles' : 'maxBytes';
+        plan.push({ entry: victim, reason });
+        pool.delete(victim.filename);
+        remaining.delete(victim.filename);
+        totalBytes -= sizeOf(victim);
+      }
+    };
 
-      let victim: VFSEntryMeta | null = null;
-      for (const e of remaining.values()) {
-        if (!victim || e.accessedAt < victim.accessedAt) victim = e;
+    // Phase B — per-namespace caps, so one namespace only evicts its own entries.
+    if (!scope && (limits?.maxFiles != null || limits?.maxBytes != null)) {
+      const pools = new Map<string, Map<string, VFSEntryMeta>>();
+      for (const entry of remaining.values()) {
+        const segment = segmentOf(entry.filename);
+        if (segment === undefined) continue;
+        let pool = pools.get(segment);
+        if (!pool) {
+          pool = new Map();
+          pools.set(segment, pool);
+        }
+        pool.set(entry.filename, entry);
+      }
+      for (const pool of pools.values()) {
+        const poolCandidates = new Map([...pool].filter(([filename]) => candidates.has(filename)));
+        evictLRU(pool, poolCandidates, limits?.maxFiles, limits?.maxBytes);
       }
-      if (!victim) break;
+    }
 
-      const reason: VFSEvictionReason = overCount ? 'maxFiles' : 'maxBytes';
-      plan.push({ entry: victim, reason });
-      remaining.delete(victim.filename);
-      totalBytes -= victim.bytes;
+    // Phase C — store-wide caps (or the namespace's, for a scoped sweep).
+    if (maxFiles != null || maxBytes != null) {
+      evictLRU(remaining, candidates, maxFiles, maxBytes);
     }
 
-    return plan;
+    return { plan, kept };
+  }
+
+  /**
+   * Registers a GC root for mark-and-sweep cleanup (`protectReferenced`).
+   * A root is anything that may hold `context://` URIs — a message array, a
+   * `ChefSnapshot`, a string — and is scanned recursively. Pass a function
+   * to scan whatever it returns at sweep time (e.g. a live history).
+   * Returns a function that removes the root.
+   */
+  public addRoot(root: unknown): () => void {
+    this._roots.add(root);
+    return () => {
+      this._roots.delete(root);
+    };
+  }
+
+  /** Removes a root registered via addRoot(). Returns false if it was not registered. */
+  public removeRoot(root: unknown): boolean {
+    return this._roots.delete(root);
+  }
+
+  /**
+   * Mark phase of mark-and-sweep cleanup: scans the registered roots (plus
+   * `extraRoots`) and returns the filenames of every indexed entry whose URI
+   * appears in them.
+   */
+  public findReferencedFiles(extraRoots: unknown[] = []): Set<string> {
+    const scheme = this.config.uriScheme ?? '';
+    const referenced = new Set<string>();
+    if (!scheme) return referenced;
+    const uriRe = new RegExp(`${escapeRegExp(scheme)}([\\w-]+(?:[./][\\w-]+)*)`, 'g');
+    const seen = new WeakSet<object>();
+
+    const visit = (value: unknown): void => {
+      if (typeof value === 'string') {
+        if (!value.includes(scheme)) return;
+        for (const match of value.matchAll(uriRe)) {
+          if (this._index.has(match[1])) referenced.add(match[1]);
+        }
+        return;
+      }
+      if (!value || typeof value !== 'object') return;
+      if (seen.has(value)) return;
+      seen.add(value);
+      for (const child of Array.isArray(value) ? value : Object.values(value)) visit(child);
+    };
+
+    for (const root of [...this._roots, ...extraRoots]) {
+      visit(typeof root === 'function' ? root() : root);
+    }
+    return referenced;
   }
 
   private _accumulateResult(
@@ -557,7 +1223,7 @@ export class Offloader {
     result.evictedBytes += entry.bytes;
     if (reason === 'maxAge') result.evictedByAge++;
     else if (reason === 'maxFiles') result.evictedByCount++;
-    else result.evictedByBytes++;
+    else if (reason === 'maxBytes') result.evictedByBytes++;
   }
 
   private _emptyResult(): VFSCleanupResult {
@@ -568,37 +1234,25 @@ export class Offloader {
       evictedByCount: 0,
       evictedByBytes: 0,
       failed: [],
+      protected: [],
     };
   }
 
   /**
-   * Sweeps expired and over-cap entries from the adapter and the index.
-   * Throws VFSCleanupNotSupportedError if the adapter lacks list() or delete().
-   * Throws if the adapter is asynchronous (use cleanupAsync() instead).
+   * Deletes each planned entry from the adapter and the index, firing
+   * onVFSEvicted. A failed delete is recorded and leaves the entry indexed.
    */
-  public cleanup(overrides?: CleanupOptions): VFSCleanupResult {
-    const adapter = this.adapter;
-    if (!adapter.list || !adapter.delete) {
-      throw new VFSCleanupNotSupportedError(this._missingCleanupCapabilities());
-    }
-
-    // Sync-ness probe: if adapter.list() returns a Promise, we cannot proceed synchronously.
-    const probedList = adapter.list();
-    if (probedList instanceof Promise) {
-      throw new Error(
-        'Offloader.cleanup() was called synchronously, but the VFSStorageAdapter is asynchronous. Use cleanupAsync() instead.',
-      );
-    }
-
-    const plan = this._planEvictions(Date.now(), overrides);
-    const result = this._emptyResult();
-
+  private _evictSync(
+    plan: { entry: VFSEntryMeta; reason: VFSEvictionReason }[],
+    result: VFSCleanupResult,
+    caller: string,
+  ): void {
     for (const { entry, reason } of plan) {
       try {
-        const deleteResult = adapter.delete(entry.filename);
+        const deleteResult = this.adapter.delete?.(entry.filename);
         if (deleteResult instanceof Promise) {
           throw new Error(
-            'Offloader.cleanup() was called synchronously, but the VFSStorageAdapter is asynchronous. Use cleanupAsync() instead.',
+            `Offloader.${caller}() was called synchronously, but the VFSStorageAdapter is asynchronous. Use ${caller}Async() instead.`,
           );
         }
       } catch (error) {
@@ -608,13 +1262,14 @@ export class Offloader {
       }
 
       this._index.delete(entry.filename);
+      this._summaries.delete(entry.filename);
 
       if (this.config.onVFSEvicted) {
         try {
           const hookResult = this.config.onVFSEvicted(entry, reason);
           if (hookResult instanceof Promise) {
             this.logger.warn(
-              '[Offloader] onVFSEvicted returned a Promise during sync cleanup(); call cleanupAsync() to await async hooks.',
+              `[Offloader] onVFSEvicted returned a Promise during sync ${caller}(); call ${caller}Async() to await async hooks.`,
             );
           }
         } catch (error) {
@@ -624,34 +1279,15 @@ export class Offloader {
 
       this._accumulateResult(result, entry, reason);
     }
-
-    return result;
   }
 
-  /**
-   * Async variant of cleanup(). Awaits each adapter.delete() and onVFSEvicted call.
-   * Concurrent cleanupAsync() calls are coalesced into a single in-flight promise.
-   */
-  public cleanupAsync(overrides?: CleanupOptions): Promise<VFSCleanupResult> {
-    if (this._cleanupInFlight) return this._cleanupInFlight;
-    this._cleanupInFlight = this._cleanupAsyncImpl(overrides).finally(() => {
-      this._cleanupInFlight = null;
-    });
-    return this._cleanupInFlight;
-  }
-
-  private async _cleanupAsyncImpl(overrides?: CleanupOptions): Promise<VFSCleanupResult> {
-    const adapter = this.adapter;
-    if (!adapter.list || !adapter.delete) {
-      throw new VFSCleanupNotSupportedError(this._missingCleanupCapabilities());
-    }
-
-    const plan = this._planEvictions(Date.now(), overrides);
-    const result = this._emptyResult();
-
+  private async _evictAsync(
+    plan: { entry: VFSEntryMeta; reason: VFSEvictionReason }[],
+    result: VFSCleanupResult,
+  ): Promise<void> {
     for (const { entry, reason } of plan) {
       try {
-        await adapter.delete(entry.filename);
+        await this.adapter.delete?.(entry.filename);
       } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
         result.failed.push({ entry, error: err });
@@ -659,6 +1295,7 @@ export class Offloader {
       }
 
       this._index.delete(entry.filename);
+      this._summaries.delete(entry.filename);
 
       if (this.config.onVFSEvicted) {
         try {
@@ -670,13 +1307,133 @@ export class Offloader {
 
       this._accumulateResult(result, entry, reason);
     }
+  }
+
+  /**
+   * Sweeps expired and over-cap entries from the adapter and the index.
+   * Throws VFSCleanupNotSupportedError if the adapter lacks list() or delete().
+   * Throws if the adapter is asynchronous (use cleanupAsync() instead).
+   */
+  public cleanup(overrides?: CleanupOptions): VFSCleanupResult {
+    const adapter = this.adapter;
+    if (!adapter.list || !adapter.delete) {
+      throw new VFSCleanupNotSupportedError(this._missingCleanupCapabilities());
+    }
+
+    // Sync-ness probe: if adapter.list() returns a Promise, we cannot proceed synchronously.
+    const probedList = adapter.list();
+    if (probedList instanceof Promise) {
+      throw new Error(
+        'Offloader.cleanup() was called synchronously, but the VFSStorageAdapter is asynchronous. Use cleanupAsync() instead.',
+      );
+    }
+
+    const { plan, kept } = this._planEvictions(Date.now(), overrides);
+    const result = this._emptyResult();
+    result.protected = kept;
+    this._evictSync(plan, result, 'cleanup');
+
+    if (result.evicted.length > 0 || this._accessUnsaved) this._saveManifestSync();
+    return result;
+  }
+
+  /**
+   * Async variant of cleanup(). Awaits each adapter.delete() and onVFSEvicted call.
+   * Concurrent cleanupAsync() calls for the same namespace (or for the whole
+   * store) are coalesced into a single in-flight promise. Sweeps of different
+   * scopes run one after another, so a whole-store sweep never plans deletes
+   * from an index a namespace sweep is still evicting from.
+   */
+  public cleanupAsync(overrides?: CleanupOptions): Promise<VFSCleanupResult> {
+    const key = overrides?.namespace ?? null;
+    const inFlight = this._cleanupInFlight.get(key);
+    if (inFlight) return inFlight;
+    const pending = this._cleanupQueue
+      .then(() => this._cleanupAsyncImpl(overrides))
+      .finally(() => {
+        this._cleanupInFlight.delete(key);
+      });
+    this._cleanupQueue = pending.catch(() => {});
+    this._cleanupInFlight.set(key, pending);
+    return pending;
+  }
+
+  private async _cleanupAsyncImpl(overrides?: CleanupOptions): Promise<VFSCleanupResult> {
+    await this.ready();
+    const adapter = this.adapter;
+    if (!adapter.list || !adapter.delete) {
+      throw new VFSCleanupNotSupportedError(this._missingCleanupCapabilities());
+    }
+
+    const { plan, kept } = this._planEvictions(Date.now(), overrides);
+    const result = this._emptyResult();
+    result.protected = kept;
+    await this._evictAsync(plan, result);
+
+    if (result.evicted.length > 0 || this._accessUnsaved) await this._saveManifestAsync();
+    return result;
+  }
+
+  /** Every stored entry of a namespace, indexed or not, as an eviction plan. */
+  private _namespacePlan(
+    namespace: string,
+    listed: string[],
+  ): { entry: VFSEntryMeta; reason: VFSEvictionReason }[] {
+    const segment = namespaceSegment(namespace);
+    const filenames = new Set(listed.filter((f) => segmentOf(f) === segment));
+    for (const filename of this._index.keys()) {
+      if (segmentOf(filename) === segment) filenames.add(filename);
+    }
+    return Array.from(filenames, (filename) => {
+      const indexed = this._index.get(filename);
+      const entry = indexed ? { ...indexed } : this._buildOrphanMeta(filename);
+      return { entry, reason: 'namespace' as const };
+    });
+  }
+
+  /**
+   * Deletes every entry stored under `namespace` — including files this
+   * instance never indexed — e.g. when the session that owns it ends.
+   * References are not protected: the namespace is gone as a whole.
+   * onVFSEvicted fires with reason `'namespace'`. Throws
+   * VFSCleanupNotSupportedError if the adapter lacks list() or delete(), and
+   * if the adapter is asynchronous (use dropNamespaceAsync() instead).
+   */
+  public dropNamespace(namespace: string): VFSCleanupResult {
+    const adapter = this.adapter;
+    if (!adapter.list || !adapter.delete) {
+      throw new VFSCleanupNotSupportedError(this._missingCleanupCapabilities());
+    }
+    const listed = adapter.list();
+    if (listed instanceof Promise) {
+      throw new Error(
+        'Offloader.dropNamespace() was called synchronously, but the VFSStorageAdapter is asynchronous. Use dropNamespaceAsync() instead.',
+      );
+    }
+
+    const result = this._emptyResult();
+    this._evictSync(this._namespacePlan(namespace, listed), result, 'dropNamespace');
+    if (result.evicted.length > 0 || this._accessUnsaved) this._saveManifestSync();
+    return result;
+  }
+
+  /** Async variant of dropNamespace(). */
+  public async dropNamespaceAsync(namespace: string): Promise<VFSCleanupResult> {
+    await this.ready();
+    const adapter = this.adapter;
+    if (!adapter.list || !adapter.delete) {
+      throw new VFSCleanupNotSupportedError(this._missingCleanupCapabilities());
+    }
 
+    const result = this._emptyResult();
+    await this._evictAsync(this._namespacePlan(namespace, await adapter.list()), result);
+    if (result.evicted.length > 0 || this._accessUnsaved) await this._saveManifestAsync();
     return result;
   }
 
   /**
    * Walks adapter.list() and adopts orphan files (files on the adapter not in the index).
-   * Required after process restart for cleanup() to see pre-restart files.
+   * Required after process restart for cleanup() to see pre-restart files not covered by the manifest.
    * Legacy vfs_<ts>_<hash>.txt names yield createdAt from the embedded timestamp;
    * content-addressed vfs_<hash16>.txt (and malformed) names fall back to Date.now().
    * Returns count of orphans adopted. With measureBytes, reads each orphan to populate accurate bytes.
@@ -693,7 +1450,7 @@ export class Offloader {
 
     let adopted = 0;
     for (const filename of filenames) {
-      if (this._index.has(filename)) continue;
+      if (this._index.has(filename) || filename === this._manifestName) continue;
 
       const meta = this._buildOrphanMeta(filename);
       if (options?.measureBytes) {
@@ -703,34 +1460,43 @@ export class Offloader {
             'Offloader.reconcile() was called synchronously, but the VFSStorageAdapter is asynchronous. Use reconcileAsync() instead.',
           );
         }
-        if (content != null) meta.bytes = Buffer.byteLength(content, 'utf8');
+        if (content != null) {
+          meta.bytes = Buffer.byteLength(content, 'utf8');
+          meta.storedBytes = this._storedBytesSync(filename) ?? meta.bytes;
+        }
       }
 
       this._index.set(filename, meta);
       adopted++;
     }
+    if (adopted > 0 || this._accessUnsaved) this._saveManifestSync();
     return adopted;
   }
 
   /** Async variant of reconcile(). */
   public async reconcileAsync(options?: { measureBytes?: boolean }): Promise<number> {
     if (!this.adapter.list) throw new VFSCleanupNotSupportedError(['list']);
+    await this.ready();
 
     const filenames = await this.adapter.list();
 
     let adopted = 0;
     for (const filename of filenames) {
-      if (this._index.has(filename)) continue;
+      if (this._index.has(filename) || filename === this._manifestName) continue;
 
       const meta = this._buildOrphanMeta(filename);
       if (options?.measureBytes) {
         const content = await this.adapter.read(filename);
-        if (content != null) meta.bytes = Buffer.byteLength(content, 'utf8');
+        if (content != null) {
+          meta.bytes = Buffer.byteLength(content, 'utf8');
+          meta.storedBytes = (await this._storedBytesAsync(filename)) ?? meta.bytes;
+        }
       }
 
       this._index.set(filename, meta);
       adopted++;
     }
+    if (adopted > 0 || this._accessUnsaved) await this._saveManifestAsync();
     return adopted;
   }
 }
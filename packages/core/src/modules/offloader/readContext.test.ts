@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { Offloader, type VFSStorageAdapter } from '.';
+import {
+  getReadContextToolDefinition,
+  parseReadContextArgs,
+  READ_CONTEXT_TOOL_NAME,
+  readContextContent,
+} from './readContext';
+
+const URI = 'context://vfs/vfs_test.txt';
+const LOG = Array.from({ length: 500 }, (_, i) =>
+  i === 249 ? 'ERROR disk full' : `line ${i + 1}`,
+).join('\n');
+
+describe('readContextContent', () => {
+  it('reads a line range with line numbers and a continuation hint', () => {
+    const out = readContextContent(URI, LOG, { startLine: 10, endLine: 12 });
+    expect(out).toBe(
+      `[${URI} — lines 10-12 of 500; continue with startLine: 13]\n10\tline 10\n11\tline 11\n12\tline 12`,
+    );
+  });
+
+  it('bounds line reads by maxLines and maxChars', () => {
+    expect(readContextContent(URI, LOG, {}, { maxLines: 5 })).toContain('lines 1-5 of 500');
+    const out = readContextContent(URI, LOG, {}, { maxChars: 30 });
+    expect(out).toContain('lines 1-3 of 500; continue with startLine: 4');
+  });
+
+  it('reads a character window', () => {
+    const out = readContextContent(URI, 'abcdefghij', { offset: 2, length: 3 });
+    expect(out).toBe(`[${URI} — chars 2-5 of 10; continue with offset: 5]\ncde`);
+  });
+
+  it('searches with grep-style context blocks', () => {
+    const out = readContextContent(URI, LOG, {
+      pattern: 'error',
+      ignoreCase: true,
+      contextLines: 1,
+    });
+    expect(out).toBe(
+      `[${URI} — 1 line matches /error/]\n249-line 249\n250:ERROR disk full\n251-line 251`,
+    );
+  });
+
+  it('separates non-adjacent blocks and caps the number of matches', () => {
+    const out = readContextContent(
+      URI,
+      LOG,
+      { pattern: '^line \\d+0$', contextLines: 0 },
+      { maxMatches: 2 },
+    );
+    expect(out).toBe(
+      `[${URI} — 49 lines match /^line \\d+0$/; showing the first 2]\n10:line 10\n--\n20:line 20`,
+    );
+  });
+
+  it('searches for plain text with literal', () => {
+    const out = readContextContent(URI, 'a (b+)+ c\nnothing', {
+      pattern: '(B+)+',
+      literal: true,
+      ignoreCase: true,
+      contextLines: 0,
+    });
+    expect(out).toBe(`[${URI} — 1 line matches "(B+)+"]\n1:a (b+)+ c`);
+  });
+
+  it('refuses patterns that can backtrack catastrophically', () => {
+    for (const pattern of ['(a+)+$', '(\\w*)*x', '(a|ab)*c', '((a)+)+', 'x'.repeat(201)]) {
+      expect(readContextContent(URI, LOG, { pattern })).toMatch(
+        /^Error: invalid pattern — .*pass literal: true\.$/,
+      );
+    }
+    for (const pattern of ['(error|warn)', '(?:ab)+', '[(+]+', '\\(a+\\)+', '(\\d+) files']) {
+      expect(readContextContent(URI, LOG, { pattern })).not.toMatch(/^Error/);
+    }
+  });
+
+  it('returns error lines the model can act on', () => {
+    expect(readContextContent(URI, LOG, { startLine: 900 })).toMatch(/^Error: startLine 900/);
+    expect(readContextContent(URI, LOG, { offset: 1e9 })).toMatch(/^Error: offset/);
+    expect(readContextContent(URI, LOG, { pattern: '(' })).toMatch(/^Error: invalid pattern/);
+    expect(readContextContent(URI, LOG, { pattern: 'nope' })).toContain('no lines match');
+  });
+});
+
+describe('parseReadContextArgs', () => {
+  it('accepts objects and JSON strings, rejecting malformed input', () => {
+    expect(parseReadContextArgs(`{"uri":"${URI}","startLine":3}`)).toEqual({
+      uri: URI,
+      startLine: 3,
+    });
+    expect(parseReadContextArgs('{')).toMatch(/not valid JSON/);
+    expect(parseReadContextArgs({ startLine: 1 })).toMatch(/requires a "uri"/);
+    expect(parseReadContextArgs({ uri: URI, startLine: '3' })).toMatch(/"startLine" must be/);
+    expect(parseReadContextArgs({ uri: URI, literal: 'yes' })).toMatch(/"literal" must be/);
+  });
+});
+
+describe('Offloader.readContext', () => {
+  const makeAdapter = (): VFSStorageAdapter => {
+    const store = new Map<string, string>();
+    return {
+      write: (filename, content) => {
+        store.set(filename, content);
+      },
+      read: (filename) => store.get(filename) ?? null,
+    };
+  };
+
+  it('dispatches a tool call against offloaded content', async () => {
+    const offloader = new Offloader({ threshold: 100, adapter: makeAdapter(), storageDir: '' });
+    const { uri } = offloader.offload(LOG);
+
+    const out = await offloader.readContextAsync(JSON.stringify({ uri, pattern: 'ERROR' }));
+    expect(out).toContain('250:ERROR disk full');
+    expect(offloader.readContext({ uri: uri ?? '', startLine: 500 })).toContain('500\tline 500');
+  });
+
+  it('never reads or adopts filenames outside the store', async () => {
+    const reads: string[] = [];
+    const adapter: VFSStorageAdapter = {
+      write: () => {},
+      read: (filename) => {
+        reads.push(filename);
+        return 'SECRET=1';
+      },
+    };
+    const offloader = new Offloader({ adapter, storageDir: '' });
+
+    for (const uri of [
+      'context://vfs/../.env',
+      'context://vfs/ns/../../.env',
+      'context://vfs//etc/passwd',
+      'context://vfs/vfs_abc.txt/../../x',
+    ]) {
+      expect(offloader.readContext({ uri })).toBe(`Error: no stored content at ${uri}.`);
+      expect(await offloader.readContextAsync({ uri })).toBe(`Error: no stored content at ${uri}.`);
+    }
+    expect(reads).toEqual([]);
+    expect(offloader.getEntries()).toEqual([]);
+
+    expect(offloader.resolve('context://vfs/ns/vfs_0123abcd.txt')).toBe('SECRET=1');
+    expect(offloader.resolve('context://vfs/vfs_1700000000000_abcd.txt')).toBe('SECRET=1');
+  });
+
+  it('reports unknown URIs', () => {
+    const offloader = new Offloader({ adapter: makeAdapter(), storageDir: '' });
+    expect(offloader.readContext({ uri: 'context://vfs/missing.txt' })).toBe(
+      'Error: no stored content at context://vfs/missing.txt.',
+    );
+  });
+
+  it('ships a matching tool definition', () => {
+    const def = getReadContextToolDefinition();
+    expect(def.name).toBe(READ_CONTEXT_TOOL_NAME);
+    expect(def.parameters).toMatchObject({ required: ['uri'] });
+  });
+});
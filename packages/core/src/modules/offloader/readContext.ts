@@ -0,0 +1,302 @@
+import type { ToolDefinition } from '../../types';
+
+export const READ_CONTEXT_TOOL_NAME = 'read_context';
+
+/**
+ * Arguments of the `read_context` tool. One mode per call: `pattern` searches,
+ * `offset`/`length` reads a character window, otherwise a line range is read.
+ */
+export interface ReadContextArgs {
+  /** A `context://vfs/...` URI from a truncation marker. */
+  uri: string;
+  /** First line to read, 1-based. Default: 1. */
+  startLine?: number;
+  /** Last line to read, inclusive. Default: as many as the limits allow. */
+  endLine?: number;
+  /** Character offset to start a window read at, 0-based. */
+  offset?: number;
+  /** Characters to read from `offset`. Capped by `maxChars`. */
+  length?: number;
+  /** Regular expression to search for, line by line. */
+  pattern?: string;
+  /** Match `pattern` as plain text instead of a regular expression. */
+  literal?: boolean;
+  /** Lines of context shown around each match. Default: 2, max 10. */
+  contextLines?: number;
+  /** Match `pattern` case-insensitively. */
+  ignoreCase?: boolean;
+}
+
+/** Bounds on what a single `read_context` call may return. */
+export interface ReadContextLimits {
+  /** Max characters of content returned per call. Default: 20000. */
+  maxChars?: number;
+  /** Max lines returned by a line-range read. Default: 200. */
+  maxLines?: number;
+  /** Max matching lines shown by a search. Default: 50. */
+  maxMatches?: number;
+}
+
+const DEFAULT_MAX_CHARS = 20_000;
+const DEFAULT_MAX_LINES = 200;
+const DEFAULT_MAX_MATCHES = 50;
+const MAX_CONTEXT_LINES = 10;
+const MAX_PATTERN_LENGTH = 200;
+
+/**
+ * Tool definition for `read_context`, to be merged into the LLM tools array.
+ * Dispatch its calls to `Offloader.readContext()` / `ContextChef.readContext()`.
+ */
+export function getReadContextToolDefinition(): ToolDefinition {
+  return {
+    name: READ_CONTEXT_TOOL_NAME,
+    description:
+      'Read content that was moved out of the conversation to save space. Pass the context:// URI ' +
+      'from a <persisted-output> marker. Read by line range (startLine/endLine), by character window ' +
+      '(offset/length), or search with a regular expression (pattern). Results are bounded; follow the ' +
+      'continuation hint in the header to read further.',
+    parameters: {
+      type: 'object',
+      properties: {
+        uri: { type: 'string', description: 'The context:// URI to read.' },
+        startLine: { type: 'integer', minimum: 1, description: 'First line to read, 1-based.' },
+        endLine: { type: 'integer', minimum: 1, description: 'Last line to read, inclusive.' },
+        offset: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Character offset for a window read. Use instead of line numbers.',
+        },
+        length: { type: 'integer', minimum: 1, description: 'Characters to read from offset.' },
+        pattern: {
+          type: 'string',
+          description: 'Regular expression to search for. Returns matching lines with context.',
+        },
+        literal: { type: 'boolean', description: 'Match pattern as plain text, not a regex.' },
+        contextLines: {
+          type: 'integer',
+          minimum: 0,
+          maximum: MAX_CONTEXT_LINES,
+          description: 'Lines of context around each match (default 2).',
+        },
+        ignoreCase: { type: 'boolean', description: 'Case-insensitive search.' },
+      },
+      required: ['uri'],
+    },
+  };
+}
+
+/**
+ * Validates raw `read_context` arguments — an object or the JSON string a
+ * provider sends. Returns an `Error: ...` string the model can act on when
+ * they are unusable.
+ */
+export function parseReadContextArgs(raw: unknown): ReadContextArgs | string {
+  let args = raw;
+  if (typeof raw === 'string') {
+    try {
+      args = JSON.parse(raw);
+    } catch {
+      return 'Error: read_context arguments are not valid JSON.';
+    }
+  }
+  if (!args || typeof args !== 'object' || typeof (args as ReadContextArgs).uri !== 'string') {
+    return 'Error: read_context requires a "uri" string.';
+  }
+  const parsed = args as Record<string, unknown>;
+  for (const key of ['startLine', 'endLine', 'offset', 'length', 'contextLines'] as const) {
+    if (parsed[key] != null && typeof parsed[key] !== 'number') {
+      return `Error: read_context "${key}" must be a number.`;
+    }
+  }
+  if (parsed.pattern != null && typeof parsed.pattern !== 'string') {
+    return 'Error: read_context "pattern" must be a string.';
+  }
+  for (const key of ['literal', 'ignoreCase'] as const) {
+    if (parsed[key] != null && typeof parsed[key] !== 'boolean') {
+      return `Error: read_context "${key}" must be a boolean.`;
+    }
+  }
+  return args as ReadContextArgs;
+}
+
+/**
+ * Pure implementation behind `read_context`: renders the requested slice of
+ * `content` with a header naming the range and how to continue. Never
+ * returns more than `limits.maxChars` characters of content.
+ */
+export function readContextContent(
+  uri: string,
+  content: string,
+  args: Omit<ReadContextArgs, 'uri'>,
+  limits: ReadContextLimits = {},
+): string {
+  const maxChars = Math.max(1, limits.maxChars ?? DEFAULT_MAX_CHARS);
+  if (args.pattern != null) {
+    return searchContent(uri, content, args, maxChars, limits.maxMatches ?? DEFAULT_MAX_MATCHES);
+  }
+  if (args.offset != null || args.length != null) {
+    return readCharWindow(uri, content, args, maxChars);
+  }
+  return readLineRange(uri, content, args, maxChars, limits.maxLines ?? DEFAULT_MAX_LINES);
+}
+
+function readLineRange(
+  uri: string,
+  content: string,
+  args: Omit<ReadContextArgs, 'uri'>,
+  maxChars: number,
+  maxLines: number,
+): string {
+  const lines = content.split('\n');
+  const total = lines.length;
+  const start = Math.max(1, Math.floor(args.startLine ?? 1));
+  if (start > total) {
+    return `Error: startLine ${start} is past the end of ${uri} (${total} lines).`;
+  }
+  if (args.endLine != null && args.endLine < start) {
+    return `Error: endLine ${args.endLine} is before startLine ${start}.`;
+  }
+  const last = Math.min(total, start + Math.max(1, maxLines) - 1, args.endLine ?? total);
+
+  const body: string[] = [];
+  let size = 0;
+  let end = start - 1;
+  for (let n = start; n <= last; n++) {
+    let line = `${n}\t${lines[n - 1]}`;
+    if (body.length > 0 && size + line.length > maxChars) break;
+    if (line.length > maxChars) line = `${line.slice(0, maxChars)}…`;
+    body.push(line);
+    size += line.length + 1;
+    end = n;
+  }
+
+  const more = end < total ? `; continue with startLine: ${end + 1}` : '';
+  return `[${uri} — lines ${start}-${end} of ${total}${more}]\n${body.join('\n')}`;
+}
+
+function readCharWindow(
+  uri: string,
+  content: string,
+  args: Omit<ReadContextArgs, 'uri'>,
+  maxChars: number,
+): string {
+  const offset = Math.max(0, Math.floor(args.offset ?? 0));
+  if (offset >= content.length) {
+    return `Error: offset ${offset} is past the end of ${uri} (${content.length} chars).`;
+  }
+  const length = Math.min(Math.max(1, Math.floor(args.length ?? maxChars)), maxChars);
+  const end = Math.min(content.length, offset + length);
+  const more = end < content.length ? `; continue with offset: ${end}` : '';
+  return `[${uri} — chars ${offset}-${end} of ${content.length}${more}]\n${content.slice(offset, end)}`;
+}
+
+function searchContent(
+  uri: string,
+  content: string,
+  args: Omit<ReadContextArgs, 'uri'>,
+  maxChars: number,
+  maxMatches: number,
+): string {
+  const pattern = args.pattern ?? '';
+  const label = args.literal ? JSON.stringify(pattern) : `/${pattern}/`;
+  let matches: (line: string) => boolean;
+  if (args.literal) {
+    const needle = args.ignoreCase ? pattern.toLowerCase() : pattern;
+    matches = (line) => (args.ignoreCase ? line.toLowerCase() : line).includes(needle);
+  } else {
+    const unsafe = unsafePatternReason(pattern);
+    if (unsafe) return `Error: invalid pattern — ${unsafe}; simplify it or pass literal: true.`;
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, args.ignoreCase ? 'i' : '');
+    } catch (error) {
+      return `Error: invalid pattern — ${error instanceof Error ? error.message : String(error)}`;
+    }
+    matches = (line) => regex.test(line);
+  }
+  const contextLines = Math.min(MAX_CONTEXT_LINES, Math.max(0, args.contextLines ?? 2));
+  const lines = content.split('\n');
+  const hits: number[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (matches(lines[i])) hits.push(i);
+  }
+  if (hits.length === 0) {
+    return `[${uri} — no lines match ${label} in ${lines.length} lines]`;
+  }
+
+  // Grep-style output: `N:` marks a matching line, `N-` a context line, and
+  // `--` separates non-adjacent blocks.
+  const shown = hits.slice(0, Math.max(1, maxMatches));
+  const hitSet = new Set(shown);
+  const body: string[] = [];
+  let size = 0;
+  let clipped = false;
+  let printedUpTo = -1;
+  outer: for (const hit of shown) {
+    const from = Math.max(printedUpTo + 1, hit - contextLines);
+    const to = Math.min(lines.length - 1, hit + contextLines);
+    if (body.length > 0 && from > printedUpTo + 1) body.push('--');
+    for (let i = from; i <= to; i++) {
+      const line = `${i + 1}${hitSet.has(i) ? ':' : '-'}${lines[i]}`;
+      if (size + line.length > maxChars) {
+        clipped = true;
+        break outer;
+      }
+      body.push(line);
+      size += line.length + 1;
+      printedUpTo = i;
+    }
+  }
+
+  const notes = [
+    shown.length < hits.length ? `showing the first ${shown.length}` : '',
+    clipped ? 'output clipped — narrow the pattern or read a line range' : '',
+  ].filter(Boolean);
+  const suffix = notes.length ? `; ${notes.join('; ')}` : '';
+  const count = hits.length === 1 ? '1 line matches' : `${hits.length} lines match`;
+  return `[${uri} — ${count} ${label}${suffix}]\n${body.join('\n')}`;
+}
+
+/**
+ * Patterns come from the model and run synchronously over the whole
+ * content, so shapes that can backtrack catastrophically are refused up
+ * front: a quantified group whose body itself repeats or alternates —
+ * `(a+)+`, `(\w*)*`, `(a|ab)*`. Deliberately conservative; `literal` is the
+ * way around a false positive. Returns why the pattern is refused, or null.
+ */
+function unsafePatternReason(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `longer than ${MAX_PATTERN_LENGTH} characters`;
+  }
+  const isQuantifier = (ch: string | undefined) => ch === '*' || ch === '+' || ch === '{';
+  // One flag per open group: does its body repeat or alternate?
+  const groups: boolean[] = [];
+  const markOpenGroup = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '[') {
+      // A character class is a single atom; skip to its closing bracket.
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (ch === '(') {
+      groups.push(false);
+      if (pattern[i + 1] === '?') i++;
+    } else if (ch === ')') {
+      const varies = groups.pop() ?? false;
+      if (isQuantifier(pattern[i + 1])) {
+        if (varies) return 'a repeated group that itself repeats or alternates';
+        markOpenGroup();
+      } else if (varies) {
+        markOpenGroup();
+      }
+    } else if (isQuantifier(ch) || ch === '?' || ch === '|') {
+      markOpenGroup();
+    }
+  }
+  return null;
+}
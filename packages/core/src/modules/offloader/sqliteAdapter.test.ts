@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Offloader } from '.';
+import { SqliteStorageAdapter } from './sqliteAdapter';
+
+const hasSqlite = !!process.getBuiltinModule?.('node:sqlite');
+
+describe.skipIf(!hasSqlite)('SqliteStorageAdapter', () => {
+  it('implements the full adapter contract', () => {
+    const adapter = new SqliteStorageAdapter(':memory:');
+    adapter.write('vfs_b.txt', 'beta');
+    adapter.write('vfs_a.txt', 'alpha');
+    adapter.write('vfs_a.txt', 'alpha v2 ✓');
+
+    expect(adapter.read('vfs_a.txt')).toBe('alpha v2 ✓');
+    expect(adapter.read('vfs_missing.txt')).toBeNull();
+    expect(adapter.exists('vfs_b.txt')).toBe(true);
+    expect(adapter.list()).toEqual(['vfs_a.txt', 'vfs_b.txt']);
+    expect(adapter.getStoredBytes('vfs_a.txt')).toBe(Buffer.byteLength('alpha v2 ✓'));
+
+    adapter.delete('vfs_b.txt');
+    adapter.delete('vfs_b.txt'); // idempotent
+    expect(adapter.exists('vfs_b.txt')).toBe(false);
+    adapter.close();
+  });
+
+  it('backs offload, resolve and cleanup', () => {
+    const adapter = new SqliteStorageAdapter(':memory:', { table: 'agent_vfs' });
+    const o = new Offloader({ adapter, threshold: 10, maxFiles: 1 });
+    const first = o.offload('A'.repeat(50), { tailChars: 0 });
+    o.offload('B'.repeat(50), { tailChars: 0 });
+
+    expect(o.resolve(first.uri ?? '')).toBe('A'.repeat(50));
+    expect(o.cleanup().evicted).toHaveLength(1);
+    expect(adapter.list()).toHaveLength(1);
+  });
+
+  it('rejects unsafe table names', () => {
+    expect(() => new SqliteStorageAdapter(':memory:', { table: 'x; DROP TABLE y' })).toThrow(
+      /invalid table name/,
+    );
+  });
+});
+
+describe.skipIf(hasSqlite)('SqliteStorageAdapter without node:sqlite', () => {
+  it('fails with a clear error', () => {
+    expect(() => new SqliteStorageAdapter(':memory:')).toThrow(/requires the built-in node:sqlite/);
+  });
+});
@@ -0,0 +1,93 @@
+import type { DatabaseSync, StatementSync } from 'node:sqlite';
+import { assertTableName, openDatabase } from '../../utils/sqlite';
+import type { VFSStorageAdapter } from '.';
+
+export interface SqliteStorageAdapterOptions {
+  /** Table holding the entries, created if missing. Default: 'vfs_entries'. */
+  table?: string;
+}
+
+/**
+ * VFSStorageAdapter on Node's built-in `node:sqlite` (Node.js 22.5+): one
+ * database file instead of one file per entry. Every write is a single
+ * upsert, so an entry is either fully stored or absent, and `exists()` /
+ * `list()` / `delete()` — what the cleanup sweep runs — are primary-key
+ * lookups. Entry sizes are kept in their own column, so `getStoredBytes()`
+ * never reads content.
+ *
+ * Pass a path (`':memory:'` for tests) or an open `DatabaseSync` to share
+ * one database with `SqliteMemoryStore`.
+ */
+export class SqliteStorageAdapter implements VFSStorageAdapter {
+  private readonly db: DatabaseSync;
+  private readonly owned: boolean;
+  private readonly statements: {
+    write: StatementSync;
+    read: StatementSync;
+    exists: StatementSync;
+    list: StatementSync;
+    delete: StatementSync;
+    bytes: StatementSync;
+  };
+
+  constructor(
+    database: string | DatabaseSync = '.context_vfs.db',
+    options: SqliteStorageAdapterOptions = {},
+  ) {
+    const table = options.table ?? 'vfs_entries';
+    assertTableName('SqliteStorageAdapter', table);
+    ({ db: this.db, owned: this.owned } = openDatabase('SqliteStorageAdapter', database));
+
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (
+        filename TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        bytes INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      ) WITHOUT ROWID`,
+    );
+    this.statements = {
+      write: this.db.prepare(
+        `INSERT INTO ${table} (filename, content, bytes, updated_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT(filename) DO UPDATE SET
+           content = excluded.content, bytes = excluded.bytes, updated_at = excluded.updated_at`,
+      ),
+      read: this.db.prepare(`SELECT content FROM ${table} WHERE filename = ?`),
+      exists: this.db.prepare(`SELECT 1 AS found FROM ${table} WHERE filename = ?`),
+      list: this.db.prepare(`SELECT filename FROM ${table} ORDER BY filename`),
+      delete: this.db.prepare(`DELETE FROM ${table} WHERE filename = ?`),
+      bytes: this.db.prepare(`SELECT bytes FROM ${table} WHERE filename = ?`),
+    };
+  }
+
+  write(filename: string, content: string): void {
+    this.statements.write.run(filename, content, Buffer.byteLength(content, 'utf8'), Date.now());
+  }
+
+  read(filename: string): string | null {
+    const row = this.statements.read.get(filename) as { content: string } | undefined;
+    return row?.content ?? null;
+  }
+
+  exists(filename: string): boolean {
+    return this.statements.exists.get(filename) !== undefined;
+  }
+
+  list(): string[] {
+    return (this.statements.list.all() as { filename: string }[]).map((row) => row.filename);
+  }
+
+  delete(filename: string): void {
+    this.statements.delete.run(filename);
+  }
+
+  getStoredBytes(filename: string): number | null {
+    const row = this.statements.bytes.get(filename) as { bytes: number } | undefined;
+    return row?.bytes ?? null;
+  }
+
+  /** Closes the database if this adapter opened it; a shared handle is left open. */
+  close(): void {
+    if (this.owned) this.db.close();
+  }
+}
@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ToolPolicy, type ToolPolicyRule } from '.';
+
+const RULES: ToolPolicyRule[] = [
+  {
+    id: 'no-rm',
+    tools: 'shell',
+    effect: 'deny',
+    when: [{ arg: 'command', matches: '\\brm\\s+-rf\\b' }],
+    reason: 'Recursive deletes are not allowed.',
+  },
+  {
+    id: 'workspace',
+    tools: ['write_*', 'delete_file'],
+    effect: 'deny',
+    when: [{ arg: 'path', notWithin: ['/workspace'] }],
+  },
+  { id: 'deploys', tools: 'deploy_*', effect: 'confirm' },
+];
+
+describe('ToolPolicy', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('rules', () => {
+    const policy = new ToolPolicy({ rules: RULES });
+
+    it('allows calls no rule matches', () => {
+      expect(policy.check({ name: 'read_file', arguments: { path: '/etc/passwd' } })).toEqual({
+        allowed: true,
+      });
+      expect(policy.check({ name: 'shell', arguments: '{"command":"ls -la"}' })).toEqual({
+        allowed: true,
+      });
+    });
+
+    it('denies on argument patterns with the rule reason', () => {
+      expect(policy.check({ name: 'shell', arguments: { command: 'sudo rm -rf /' } })).toEqual({
+        allowed: false,
+        outcome: 'deny',
+        reason: 'Recursive deletes are not allowed.',
+        violations: [
+          { rule: 'no-rm', effect: 'deny', reason: 'Recursive deletes are not allowed.' },
+        ],
+      });
+    });
+
+    it('restricts paths to a directory, including traversal', () => {
+      const write = (p: string) => policy.check({ name: 'write_file', arguments: { path: p } });
+
+      expect(write('/workspace/src/a.ts').allowed).toBe(true);
+      expect(write('/workspace').allowed).toBe(true);
+      expect(write('/workspace/../etc/hosts').allowed).toBe(false);
+      expect(write('/workspace-evil/a.ts').allowed).toBe(false);
+      expect(policy.check({ name: 'write_file', arguments: {} }).allowed).toBe(false);
+      expect(policy.check({ name: 'delete_file', arguments: { path: '/tmp/x' } }).allowed).toBe(
+        false,
+      );
+    });
+
+    it('applies restrictions when arguments are missing or unparseable', () => {
+      const result = policy.check({ name: 'shell', arguments: '{"command": "rm -rf' });
+      expect(result.allowed).toBe(false);
+      expect(policy.check({ name: 'write_file' }).allowed).toBe(false);
+    });
+
+    it('asks for confirmation and accepts it', () => {
+      const result = policy.check({ name: 'deploy_prod' });
+      expect(result).toMatchObject({
+        allowed: false,
+        outcome: 'confirm',
+        reason: 'Tool "deploy_prod" requires user confirmation.',
+      });
+      expect(policy.check({ name: 'deploy_prod' }, { confirmed: true })).toEqual({ allowed: true });
+    });
+  });
+
+  it('composes: deny beats confirm beats allow, and defaultEffect deny makes an allowlist', () => {
+    const policy = new ToolPolicy({
+      defaultEffect: 'deny',
+      rules: [
+        { id: 'reads', tools: 'read_*', effect: 'allow' },
+        {
+          id: 'secrets',
+          tools: '*',
+          effect: 'confirm',
+          when: [{ arg: 'path', matches: 'secret' }],
+        },
+        { id: 'env', tools: '*', effect: 'deny', when: [{ arg: 'path', matches: '\\.env$' }] },
+        {
+          id: 'scoped',
+          tools: 'write_file',
+          effect: 'allow',
+          when: [{ arg: 'path', within: ['/workspace'] }],
+        },
+      ],
+    });
+
+    expect(policy.check({ name: 'read_file', arguments: { path: 'a.ts' } }).allowed).toBe(true);
+    const env = policy.check({ name: 'read_file', arguments: { path: 'secret/.env' } });
+    expect(env).toMatchObject({ allowed: false, outcome: 'deny' });
+    expect(!env.allowed && env.violations.map((v) => v.rule)).toEqual(['env', 'secrets']);
+
+    expect(policy.check({ name: 'run_bash', arguments: { command: 'ls' } })).toMatchObject({
+      outcome: 'deny',
+      violations: [{ rule: 'default' }],
+    });
+    expect(policy.check({ name: 'write_file', arguments: { path: '/workspace/a' } }).allowed).toBe(
+      true,
+    );
+    expect(policy.check({ name: 'write_file', arguments: '{' }).allowed).toBe(false);
+  });
+
+  it('rate-limits each tool over a sliding window', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const policy = new ToolPolicy({
+      rules: [
+        { id: 'quota', tools: 'search_*', effect: 'deny', rateLimit: { max: 2, windowMs: 1000 } },
+      ],
+    });
+
+    expect(policy.check({ name: 'search_web' }).allowed).toBe(true);
+    vi.setSystemTime(500);
+    expect(policy.check({ name: 'search_web' }).allowed).toBe(true);
+    expect(policy.check({ name: 'search_docs' }).allowed).toBe(true);
+    const limited = policy.check({ name: 'search_web' });
+    expect(limited).toMatchObject({
+      allowed: false,
+      reason: 'Tool "search_web" exceeded its rate limit of 2 calls per 1000 ms.',
+    });
+
+    vi.setSystemTime(1001);
+    expect(policy.check({ name: 'search_web' }).allowed).toBe(true);
+    expect(policy.check({ name: 'search_web' }).allowed).toBe(false);
+  });
+
+  it('round-trips rules and rate-limit state through snapshot / restore', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const policy = new ToolPolicy({
+      rules: [
+        {
+          id: 'once',
+          tools: 'send_email',
+          effect: 'deny',
+          rateLimit: { max: 1, windowMs: 60_000 },
+        },
+      ],
+    });
+    policy.check({ name: 'send_email' });
+    const snap = policy.snapshotState();
+
+    const restored = new ToolPolicy();
+    restored.restoreState(JSON.parse(JSON.stringify(snap)));
+    expect(restored.getRules()).toEqual(policy.getRules());
+    expect(restored.check({ name: 'send_email' }).allowed).toBe(false);
+
+    restored.setRules([]);
+    restored.setRules(policy.getRules());
+    expect(restored.check({ name: 'send_email' }).allowed).toBe(true);
+  });
+
+  it('rejects invalid rules up front and keeps the previous ones', () => {
+    const policy = new ToolPolicy({ rules: RULES });
+
+    expect(() => policy.setRules([{ tools: [], effect: 'deny' }])).toThrow(/tool name or glob/);
+    expect(() => policy.setRules([{ tools: 'x', effect: 'block' as unknown as 'deny' }])).toThrow(
+      /invalid effect/,
+    );
+    expect(() =>
+      policy.setRules([{ tools: 'x', effect: 'deny', when: [{ arg: 'a', matches: '(' }] }]),
+    ).toThrow(/invalid pattern/);
+    expect(() =>
+      policy.setRules([{ tools: 'x', effect: 'deny', rateLimit: { max: 1, windowMs: 0 } }]),
+    ).toThrow(/rateLimit/);
+    expect(() =>
+      policy.setRules([
+        { id: 'a', tools: 'x', effect: 'deny' },
+        { id: 'a', tools: 'y', effect: 'deny' },
+      ]),
+    ).toThrow(/unique/);
+    expect(policy.getRules()).toHaveLength(RULES.length);
+  });
+});
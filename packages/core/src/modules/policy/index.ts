@@ -0,0 +1,347 @@
+import * as path from 'node:path';
+
+// ─── Core Types ───
+
+/**
+ * What a matching rule does to a call. When several rules match, `deny`
+ * beats `confirm`, which beats `allow`.
+ */
+export type ToolPolicyEffect = 'allow' | 'deny' | 'confirm';
+
+/**
+ * A condition on one argument of the call. Every field that is set must
+ * hold. Arguments that are missing or not valid JSON satisfy the conditions
+ * of `deny` / `confirm` rules and fail those of `allow` rules, so a
+ * malformed call never slips past a restriction.
+ */
+export interface ToolArgCondition {
+  /** Dotted path into the arguments, e.g. `command` or `options.target`. */
+  arg: string;
+  /** Regular expression source the value must match. Non-string values are matched as JSON. */
+  matches?: string;
+  /** Flags for `matches`, e.g. `'i'`. */
+  flags?: string;
+  /** The value equals this, compared as JSON. */
+  equals?: unknown;
+  /** The value is a path inside one of these directories (resolved against the working directory). */
+  within?: string[];
+  /** The value is a path outside all of these directories — or not a path at all. */
+  notWithin?: string[];
+}
+
+export interface ToolPolicyRule {
+  /** Names the rule in check results and rate-limit state. Default: `rule_<index>`. */
+  id?: string;
+  /** Tool names or globs — `*` matches any run of characters, `?` a single one. */
+  tools: string | string[];
+  effect: ToolPolicyEffect;
+  /** Argument conditions, all of which must hold. Omit to match every call to `tools`. */
+  when?: ToolArgCondition[];
+  /**
+   * Makes the rule a sliding-window rate limit: it applies only once `max`
+   * calls to the same tool have been allowed within the last `windowMs`.
+   */
+  rateLimit?: { max: number; windowMs: number };
+  /** Returned to the caller — and usually the model — when the rule applies. */
+  reason?: string;
+}
+
+export interface ToolPolicyConfig {
+  rules?: ToolPolicyRule[];
+  /** Outcome when no rule matches. `'deny'` turns the rules into an allowlist. Default: 'allow'. */
+  defaultEffect?: 'allow' | 'deny';
+}
+
+/** One rule that stopped a call. */
+export interface ToolPolicyViolation {
+  /**
+   * The rule's id, `'default'` for `defaultEffect: 'deny'`, or — from
+   * `ContextChef.checkToolCall` — `'blocklist'` or `'malformed'`.
+   */
+  rule: string;
+  effect: 'deny' | 'confirm';
+  reason: string;
+}
+
+export type ToolPolicyDecision =
+  | { allowed: true }
+  | {
+      allowed: false;
+      /** `'confirm'` when only confirmation rules stopped the call — re-check with `{ confirmed: true }` once approved. */
+      outcome: 'deny' | 'confirm';
+      /** The first violation's reason. */
+      reason: string;
+      violations: ToolPolicyViolation[];
+    };
+
+export interface ToolPolicyCheckOptions {
+  /** The user approved the call: `confirm` rules are skipped. */
+  confirmed?: boolean;
+}
+
+export interface ToolPolicySnapshot {
+  rules: ToolPolicyRule[];
+  defaultEffect: 'allow' | 'deny';
+  /** Timestamps of allowed calls per rate-limited rule and tool, keyed `<rule id>:<tool>`. */
+  callWindows: Record<string, number[]>;
+}
+
+// ─── Internal helpers ───
+
+interface CompiledRule {
+  id: string;
+  rule: ToolPolicyRule;
+  names: RegExp[];
+  patterns: (RegExp | undefined)[];
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((ch) => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+function getArg(args: Record<string, unknown>, dotted: string): unknown {
+  let value: unknown = args;
+  for (const key of dotted.split('.')) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isWithin(value: unknown, dirs: string[]): boolean {
+  if (typeof value !== 'string' || value === '') return false;
+  const target = path.resolve(value);
+  return dirs.some((dir) => {
+    const relative = path.relative(path.resolve(dir), target);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  });
+}
+
+function asText(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function parseArgs(raw: unknown): Record<string, unknown> | undefined {
+  let parsed = raw;
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+  return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : undefined;
+}
+
+// ─── ToolPolicy ───
+
+/**
+ * ToolPolicy — dispatch-time rules for tool calls, evaluated by
+ * `ContextChef.checkToolCall()`.
+ *
+ * Rules are plain data so they round-trip through `ChefSnapshot`. Each
+ * rule matches tools by name or glob, optionally narrowed by argument
+ * conditions and a sliding-window rate limit, and has an effect. All
+ * matching rules are collected, so rules compose: a broad `allow` never
+ * overrides a narrower `deny`.
+ *
+ * @example
+ * new ToolPolicy({
+ *   rules: [
+ *     { id: 'no-rm', tools: 'shell', effect: 'deny', when: [{ arg: 'command', matches: '\\brm\\s+-rf\\b' }] },
+ *     { id: 'workspace', tools: 'write_*', effect: 'deny', when: [{ arg: 'path', notWithin: ['./workspace'] }] },
+ *     { id: 'search-quota', tools: 'web_search', effect: 'deny', rateLimit: { max: 10, windowMs: 60_000 } },
+ *     { id: 'deploys', tools: 'deploy_*', effect: 'confirm' },
+ *   ],
+ * });
+ */
+export class ToolPolicy {
+  private rules: CompiledRule[] = [];
+  private defaultEffect: 'allow' | 'deny';
+  private callWindows = new Map<string, number[]>();
+
+  constructor(config: ToolPolicyConfig = {}) {
+    this.defaultEffect = config.defaultEffect ?? 'allow';
+    this.setRules(config.rules ?? []);
+  }
+
+  /**
+   * Replaces the rules. Replace semantics, like `Pruner.setBlockedTools`.
+   * Rate-limit history is kept for rules whose id is unchanged. Throws on
+   * an invalid rule rather than failing open later.
+   */
+  public setRules(rules: ToolPolicyRule[]): this {
+    const compiled = rules.map((rule, index) => this._compile(rule, index));
+    const ids = new Set(compiled.map((r) => r.id));
+    if (ids.size !== compiled.length) {
+      throw new Error('ToolPolicy rule ids must be unique.');
+    }
+    this.rules = compiled;
+    for (const key of this.callWindows.keys()) {
+      if (!ids.has(key.slice(0, key.indexOf(':')))) this.callWindows.delete(key);
+    }
+    return this;
+  }
+
+  public getRules(): ToolPolicyRule[] {
+    return structuredClone(this.rules.map((r) => r.rule));
+  }
+
+  /**
+   * Evaluates a call against the rules. An allowed call counts towards the
+   * rate limits it matched, so call this once per dispatch.
+   */
+  public check(
+    toolCall: { name: string; arguments?: string | Record<string, unknown> },
+    options: ToolPolicyCheckOptions = {},
+  ): ToolPolicyDecision {
+    const args = parseArgs(toolCall.arguments);
+    const now = Date.now();
+    const violations: ToolPolicyViolation[] = [];
+    const counted: string[] = [];
+    let allowedByRule = false;
+
+    for (const compiled of this.rules) {
+      const { rule } = compiled;
+      if (!compiled.names.some((re) => re.test(toolCall.name))) continue;
+      if (!this._conditionsHold(compiled, args)) continue;
+
+      if (rule.rateLimit) {
+        const key = `${compiled.id}:${toolCall.name}`;
+        counted.push(key);
+        const recent = this._recentCalls(key, now - rule.rateLimit.windowMs);
+        if (recent < rule.rateLimit.max) continue;
+      }
+
+      if (rule.effect === 'allow') {
+        allowedByRule = true;
+      } else if (rule.effect === 'deny' || !options.confirmed) {
+        violations.push({
+          rule: compiled.id,
+          effect: rule.effect,
+          reason: rule.reason ?? this._defaultReason(toolCall.name, rule),
+        });
+      }
+    }
+
+    if (violations.length === 0 && !allowedByRule && this.defaultEffect === 'deny') {
+      violations.push({
+        rule: 'default',
+        effect: 'deny',
+        reason: `Tool "${toolCall.name}" is not allowed by any policy rule.`,
+      });
+    }
+
+    if (violations.length > 0) {
+      // Denials first, so `reason` names the decisive rule.
+      violations.sort((a, b) => (a.effect === b.effect ? 0 : a.effect === 'deny' ? -1 : 1));
+      return {
+        allowed: false,
+        outcome: violations[0].effect,
+        reason: violations[0].reason,
+        violations,
+      };
+    }
+
+    for (const key of counted) {
+      const window = this.callWindows.get(key) ?? [];
+      window.push(now);
+      this.callWindows.set(key, window);
+    }
+    return { allowed: true };
+  }
+
+  // ─── Snapshot / Restore ───
+
+  public snapshotState(): ToolPolicySnapshot {
+    return structuredClone({
+      rules: this.rules.map((r) => r.rule),
+      defaultEffect: this.defaultEffect,
+      callWindows: Object.fromEntries(this.callWindows),
+    });
+  }
+
+  public restoreState(state: ToolPolicySnapshot): void {
+    const cloned = structuredClone(state);
+    this.defaultEffect = cloned.defaultEffect;
+    this.callWindows = new Map(Object.entries(cloned.callWindows));
+    this.setRules(cloned.rules);
+  }
+
+  // ─── Internal ───
+
+  private _compile(rule: ToolPolicyRule, index: number): CompiledRule {
+    const id = rule.id ?? `rule_${index}`;
+    const tools = Array.isArray(rule.tools) ? rule.tools : [rule.tools];
+    if (tools.length === 0 || tools.some((t) => typeof t !== 'string' || t === '')) {
+      throw new Error(`ToolPolicy rule "${id}" needs at least one non-empty tool name or glob.`);
+    }
+    if (!['allow', 'deny', 'confirm'].includes(rule.effect)) {
+      throw new Error(`ToolPolicy rule "${id}" has an invalid effect: ${String(rule.effect)}.`);
+    }
+    if (id.includes(':')) {
+      throw new Error(`ToolPolicy rule id "${id}" must not contain ":".`);
+    }
+    if (rule.rateLimit) {
+      const { max, windowMs } = rule.rateLimit;
+      if (!(Number.isInteger(max) && max >= 0) || !(windowMs > 0)) {
+        throw new Error(
+          `ToolPolicy rule "${id}" rateLimit needs an integer max >= 0 and a positive windowMs.`,
+        );
+      }
+    }
+    const patterns = (rule.when ?? []).map((condition) => {
+      if (condition.matches === undefined) return undefined;
+      try {
+        return new RegExp(condition.matches, condition.flags);
+      } catch (error) {
+        throw new Error(`ToolPolicy rule "${id}" has an invalid pattern: ${String(error)}`);
+      }
+    });
+    return { id, rule: structuredClone(rule), names: tools.map(globToRegExp), patterns };
+  }
+
+  private _conditionsHold(
+    compiled: CompiledRule,
+    args: Record<string, unknown> | undefined,
+  ): boolean {
+    const { rule, patterns } = compiled;
+    if (!rule.when?.length) return true;
+    // Unreadable arguments: restrictions apply, permissions do not.
+    if (!args) return rule.effect !== 'allow';
+
+    return rule.when.every((condition, i) => {
+      const value = getArg(args, condition.arg);
+      const pattern = patterns[i];
+      if (pattern && (value === undefined || !pattern.test(asText(value)))) return false;
+      if ('equals' in condition && JSON.stringify(value) !== JSON.stringify(condition.equals)) {
+        return false;
+      }
+      if (condition.within && !isWithin(value, condition.within)) return false;
+      if (condition.notWithin && isWithin(value, condition.notWithin)) return false;
+      return true;
+    });
+  }
+
+  /** Calls since `since` for a window key, dropping older ones. */
+  private _recentCalls(key: string, since: number): number {
+    const recent = (this.callWindows.get(key) ?? []).filter((t) => t > since);
+    this.callWindows.set(key, recent);
+    return recent.length;
+  }
+
+  private _defaultReason(toolName: string, rule: ToolPolicyRule): string {
+    if (rule.rateLimit) {
+      return `Tool "${toolName}" exceeded its rate limit of ${rule.rateLimit.max} calls per ${rule.rateLimit.windowMs} ms.`;
+    }
+    return rule.effect === 'confirm'
+      ? `Tool "${toolName}" requires user confirmation.`
+      : `Tool "${toolName}" is denied by policy.`;
+  }
+}
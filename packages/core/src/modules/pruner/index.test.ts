@@ -1,4 +1,5 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MalformedToolArgumentsError } from '../../utils/toolArguments';
 import { Pruner, type ToolDefinition, type ToolGroup } from '.';
 
 // ─── Mock Data ───
@@ -189,6 +190,95 @@ describe('Pruner — Flat Mode (Legacy)', () => {
   });
 });
 
+// ─── Similarity Mode ───
+
+// Deterministic stand-in for an embedding model: one dimension per concept.
+const CONCEPTS: Record<string, string[]> = {
+  files: ['file', 'disk', 'document', 'save'],
+  shell: ['shell', 'command', 'terminal', 'script'],
+  web: ['web', 'internet', 'online', 'searches'],
+  time: ['time', 'timestamp', 'clock', 'date'],
+};
+const embedText = (text: string): number[] =>
+  Object.values(CONCEPTS).map(
+    (words) => words.filter((word) => text.toLowerCase().includes(word)).length,
+  );
+
+describe('Pruner — pruneBySimilarity', () => {
+  const makePruner = () => {
+    const embed = vi.fn((texts: string[]) => texts.map(embedText));
+    const pruner = new Pruner({ embed }).registerTools(MOCK_TOOLS);
+    return { pruner, embed };
+  };
+
+  it('ranks tools by similarity and keeps the topK', async () => {
+    const { pruner } = makePruner();
+    const result = await pruner.pruneBySimilarity('look something up online', { topK: 1 });
+
+    expect(result.tools.map((t) => t.name)).toEqual(['search_web']);
+    expect(result.kept).toBe(1);
+    expect(result.removed).toHaveLength(4);
+    expect(Object.keys(result.scores ?? {})).toHaveLength(MOCK_TOOLS.length);
+    expect(result.scores?.search_web).toBeCloseTo(1);
+  });
+
+  it('finds untagged tools by meaning and drops those under minScore', async () => {
+    const { pruner } = makePruner();
+    const result = await pruner.pruneBySimilarity('what is the date on the clock?', {
+      minScore: 0.5,
+    });
+
+    expect(result.tools.map((t) => t.name)).toEqual(['get_current_time']);
+    expect(result.scores?.run_bash).toBe(0);
+  });
+
+  it('embeds each tool once and re-embeds only edited ones', async () => {
+    const { pruner, embed } = makePruner();
+    await pruner.pruneBySimilarity('save a file');
+    await pruner.pruneBySimilarity('run a script');
+
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(embed.mock.calls[0][0]).toHaveLength(MOCK_TOOLS.length + 1);
+    expect(embed.mock.calls[1][0]).toEqual(['run a script']);
+
+    pruner.registerTools([
+      ...MOCK_TOOLS.slice(1),
+      { ...MOCK_TOOLS[0], description: 'Reads a document from disk' },
+    ]);
+    await pruner.pruneBySimilarity('open a document');
+    expect(embed.mock.calls[2][0]).toEqual([
+      'open a document',
+      'read_file: Reads a document from disk\nTags: file, read, disk',
+    ]);
+  });
+
+  it('forgets the vectors of tools that are no longer registered', async () => {
+    const { pruner, embed } = makePruner();
+    await pruner.pruneBySimilarity('save a file');
+    pruner.registerTools(MOCK_TOOLS.slice(1));
+    await pruner.pruneBySimilarity('save a file');
+    pruner.registerTools(MOCK_TOOLS);
+    await pruner.pruneBySimilarity('save a file');
+
+    expect(embed.mock.calls[1][0]).toEqual(['save a file']);
+    expect(embed.mock.calls[2][0]).toHaveLength(2);
+    expect(embed.mock.calls[2][0][1]).toMatch(/^read_file: /);
+  });
+
+  it('rejects a missing embedding function, bad options and malformed output', async () => {
+    await expect(new Pruner().pruneBySimilarity('x')).rejects.toThrow(/requires an embedding/);
+    const { pruner } = makePruner();
+    await expect(pruner.pruneBySimilarity('x', { topK: -1 })).rejects.toThrow(/topK/);
+
+    const short = new Pruner({ embed: () => [[1]] }).registerTools(MOCK_TOOLS);
+    await expect(short.pruneBySimilarity('x')).rejects.toThrow(/returned 1 vectors for 6 texts/);
+    const ragged = new Pruner({
+      embed: (texts) => texts.map((_, i) => (i === 0 ? [1, 0] : [1])),
+    }).registerTools(MOCK_TOOLS);
+    await expect(ragged.pruneBySimilarity('x')).rejects.toThrow(/dimensions differ/);
+  });
+});
+
 // ─── Namespace Mode (Layer 1) ───
 
 describe('Pruner — Namespace Mode (Layer 1)', () => {
@@ -286,6 +376,42 @@ describe('Pruner — Namespace Mode (Layer 1)', () => {
       ).toThrow('not a registered namespace');
     });
 
+    it('should report args that do not match the sub-tool schema in invalid', () => {
+      const resolved = pruner.resolveNamespace({
+        name: 'terminal',
+        arguments: { action: 'kill_process', args: { pid: '42' } },
+      });
+
+      expect(resolved.toolName).toBe('kill_process');
+      expect(resolved.invalid?.issues).toEqual([
+        { path: 'pid', message: 'expected number, got string' },
+      ]);
+      expect(resolved.invalid?.message).toContain('Invalid arguments for tool "kill_process"');
+      expect(
+        pruner.resolveNamespace({
+          name: 'terminal',
+          arguments: { action: 'kill_process', args: { pid: 42 } },
+        }).invalid,
+      ).toBeUndefined();
+    });
+
+    it('should repair malformed string arguments and report it', () => {
+      const resolved = pruner.resolveNamespace({
+        name: 'file_ops',
+        arguments: '{"action": "read_file", "args": {"path": "auth.ts"},}',
+      });
+      expect(resolved.args).toEqual({ path: 'auth.ts' });
+      expect(resolved.repair).toMatchObject({ toolName: 'file_ops', outcome: 'repaired' });
+    });
+
+    it('should apply the malformedArguments policy', () => {
+      const strict = new Pruner({ malformedArguments: 'throw' });
+      strict.registerNamespaces(MOCK_NAMESPACES);
+      expect(() =>
+        strict.resolveNamespace({ name: 'file_ops', arguments: '{"action": "read_file",' }),
+      ).toThrow(MalformedToolArgumentsError);
+    });
+
     it('should throw for unknown action within a namespace', () => {
       expect(() =>
         pruner.resolveNamespace({
@@ -447,6 +573,120 @@ describe('Pruner — Combined Namespace + Lazy Loading', () => {
   });
 });
 
+// ─── Loaded Toolkits ───
+
+describe('Pruner — Loaded Toolkits', () => {
+  const THIRD: ToolGroup = {
+    name: 'Calendar',
+    description: 'Calendar events',
+    tools: [{ name: 'list_events', description: 'List events' }],
+  };
+  let pruner: Pruner;
+
+  beforeEach(() => {
+    pruner = new Pruner({ maxLoadedToolkits: 2 });
+    pruner.registerNamespaces(MOCK_NAMESPACES);
+    pruner.registerToolkits([...MOCK_TOOLKITS, THIRD]);
+  });
+
+  const compiledNames = () => pruner.compile().tools.map((t) => t.name);
+
+  it('appends loaded toolkit tools after the stable tools, in load order', () => {
+    const { tools, unloaded } = pruner.loadToolkit('database');
+    pruner.loadToolkit('Weather');
+
+    expect(tools.map((t) => t.name)).toEqual(['run_sql']);
+    expect(unloaded).toEqual([]);
+    expect(pruner.getLoadedToolkits()).toEqual(['Database', 'Weather']);
+    expect(compiledNames()).toEqual([
+      'file_ops',
+      'terminal',
+      'load_toolkit',
+      'run_sql',
+      'get_weather',
+      'get_forecast',
+    ]);
+  });
+
+  it('unloads the least recently used toolkit over maxLoadedToolkits', () => {
+    pruner.loadToolkit('Weather');
+    pruner.loadToolkit('Database');
+    pruner.markToolUsed('get_forecast');
+
+    const { unloaded } = pruner.loadToolkit('Calendar');
+
+    expect(unloaded).toEqual(['Database']);
+    expect(pruner.getLoadedToolkits()).toEqual(['Weather', 'Calendar']);
+    expect(compiledNames().slice(3)).toEqual(['get_weather', 'get_forecast', 'list_events']);
+  });
+
+  it('re-loading refreshes recency without reordering tools', () => {
+    pruner.loadToolkit('Weather');
+    pruner.loadToolkit('Database');
+    pruner.loadToolkit('Weather');
+
+    expect(pruner.loadToolkit('Calendar').unloaded).toEqual(['Database']);
+    expect(pruner.getLoadedToolkits()).toEqual(['Weather', 'Calendar']);
+  });
+
+  it('unloads explicitly and when a toolkit is no longer registered', () => {
+    pruner.loadToolkit('Weather');
+    pruner.loadToolkit('Database');
+
+    expect(pruner.unloadToolkit('weather')).toBe(true);
+    expect(pruner.unloadToolkit('Weather')).toBe(false);
+    expect(compiledNames()).not.toContain('get_weather');
+
+    pruner.registerToolkits([MOCK_TOOLKITS[0]]);
+    expect(pruner.getLoadedToolkits()).toEqual([]);
+    expect(() => pruner.loadToolkit('Database')).toThrow('Unknown toolkit');
+  });
+
+  it('round-trips loaded toolkits and their recency through snapshot / restore', () => {
+    pruner.loadToolkit('Weather');
+    pruner.loadToolkit('Database');
+    pruner.markToolUsed('get_weather');
+    const snap = pruner.snapshotState();
+
+    const restored = new Pruner({ maxLoadedToolkits: 2 });
+    restored.restoreState(snap);
+    expect(restored.getLoadedToolkits()).toEqual(['Weather', 'Database']);
+    expect(restored.loadToolkit('Calendar').unloaded).toEqual(['Database']);
+
+    restored.restoreState({ flatTools: [], namespaces: [], lazyToolkits: MOCK_TOOLKITS });
+    expect(restored.getLoadedToolkits()).toEqual([]);
+  });
+
+  it('validates direct calls to flat and loaded toolkit tools', () => {
+    pruner.registerTools(MOCK_TOOLS);
+    expect(pruner.validateToolCall({ name: 'get_weather', arguments: '{}' }).valid).toBe(false);
+
+    pruner.loadToolkit('Weather');
+    expect(pruner.validateToolCall({ name: 'get_weather', arguments: '{"city":"Oslo"}' })).toEqual({
+      valid: true,
+      args: { city: 'Oslo' },
+    });
+    expect(pruner.validateToolCall({ name: 'read_file', arguments: {} }).valid).toBe(true);
+  });
+
+  it('applies the malformedArguments policy to direct calls', () => {
+    const call = { name: 'read_file', arguments: '{"path": "a.ts",' };
+    pruner.registerTools(MOCK_TOOLS);
+    expect(pruner.validateToolCall(call)).toMatchObject({ valid: true, args: { path: 'a.ts' } });
+
+    const replacing = new Pruner({ malformedArguments: 'replace' }).registerTools(MOCK_TOOLS);
+    expect(replacing.validateToolCall(call)).toMatchObject({
+      valid: false,
+      repair: { outcome: 'replaced' },
+    });
+  });
+
+  it('rejects an invalid maxLoadedToolkits', () => {
+    expect(() => new Pruner({ maxLoadedToolkits: 0 })).toThrow(/positive integer/);
+    expect(() => new Pruner({ maxLoadedToolkits: 1.5 })).toThrow(/positive integer/);
+  });
+});
+
 // ─── Blocklist (Dispatch Gate) ───
 
 describe('Pruner — Blocklist (Dispatch Gate)', () => {
@@ -1,12 +1,46 @@
+import * as crypto from 'node:crypto';
 import type { ToolDefinition } from '../../types';
+import { isRecord, toObjectSchema } from '../../utils/jsonSchema';
+import {
+  type MalformedArgumentsPolicy,
+  parseToolArguments,
+  type ToolArgumentsRepair,
+} from '../../utils/toolArguments';
+import {
+  formatIssues,
+  type ToolArgIssue,
+  type ToolCallValidationResult,
+  validateToolArgs,
+  validateToolCall,
+} from './validation';
 
 export type { ToolDefinition };
 
 // ─── Internal helpers ───
 
-/** Type guard for plain records (not null, not arrays). */
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
+/** What `pruneBySimilarity` embeds for a tool. */
+function embeddingText(tool: ToolDefinition): string {
+  const tags = tool.tags?.length ? `\nTags: ${tool.tags.join(', ')}` : '';
+  return `${tool.name}: ${tool.description}${tags}`;
+}
+
+function embeddingKey(tool: ToolDefinition): string {
+  return crypto.createHash('sha256').update(embeddingText(tool)).digest('hex');
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Embedding dimensions differ: ${a.length} vs ${b.length}.`);
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
 }
 
 // ─── Core Types ───
@@ -17,9 +51,49 @@ export interface ToolGroup {
   tools: ToolDefinition[];
 }
 
+/**
+ * Maps texts to embedding vectors, one per input and in input order. Any
+ * model works — a hosted embeddings API, a local model, or a deterministic
+ * stand-in for tests — as long as every vector has the same dimension.
+ */
+export type EmbeddingFunction = (texts: string[]) => number[][] | Promise<number[][]>;
+
 export interface PrunerConfig {
   /** Strategy for combined allowlist+task filtering. Defaults to 'union'. */
   strategy?: 'union' | 'intersection';
+  /** Required by `pruneBySimilarity()`. */
+  embed?: EmbeddingFunction;
+  /**
+   * Most toolkits loaded at once via `loadToolkit()`. Loading one more
+   * unloads the least recently used. Default: no limit.
+   */
+  maxLoadedToolkits?: number;
+  /**
+   * What `resolveNamespace()` and `validateToolCall()` do with arguments
+   * that are not valid JSON. Default: `'repair'`.
+   */
+  malformedArguments?: MalformedArgumentsPolicy;
+}
+
+/** A toolkit whose tools `compile()` currently includes. */
+export interface LoadedToolkit {
+  name: string;
+  /** Logical clock value of the last load or `markToolUsed()`; the lowest is unloaded first. */
+  lastUsed: number;
+}
+
+export interface ToolkitLoadResult {
+  /** The toolkit's full tool definitions, as `extractToolkit()` returns them. */
+  tools: ToolDefinition[];
+  /** Toolkits unloaded to stay within `maxLoadedToolkits`. */
+  unloaded: string[];
+}
+
+export interface SimilarityPruneOptions {
+  /** Keep at most this many of the best-scoring tools. Default: all. */
+  topK?: number;
+  /** Drop tools scoring below this cosine similarity (-1 to 1). Default: no floor. */
+  minScore?: number;
 }
 
 export interface PrunerSnapshot {
@@ -31,6 +105,8 @@ export interface PrunerSnapshot {
    * Optional for backward compatibility — older snapshots restore to an empty list.
    */
   blockedTools?: string[];
+  /** Loaded toolkits in load order. Optional for backward compatibility — older snapshots restore with none loaded. */
+  loadedToolkits?: LoadedToolkit[];
 }
 
 export interface PrunerResult {
@@ -38,6 +114,11 @@ export interface PrunerResult {
   removed: string[];
   kept: number;
   total: number;
+  /**
+   * `pruneBySimilarity()` only: cosine similarity of every registered tool
+   * to the task, by tool name. `tools` is then sorted best first.
+   */
+  scores?: Record<string, number>;
 }
 
 /** The result of resolving a namespace tool call back to a concrete tool. */
@@ -45,11 +126,21 @@ export interface ResolvedToolCall {
   group: string;
   toolName: string;
   args: Record<string, unknown>;
+  /** Set when the call's JSON arguments were malformed and had to be repaired or replaced. */
+  repair?: ToolArgumentsRepair;
+  /**
+   * Set when `args` don't match the sub-tool's `parameters` schema. Send
+   * `message` back as the tool result instead of running the tool.
+   */
+  invalid?: { issues: ToolArgIssue[]; message: string };
 }
 
 /** The result of compile(): tools array for LLM + directory XML for system prompt. */
 export interface CompiledTools {
-  /** Tool definitions to pass to the LLM SDK's `tools` parameter. */
+  /**
+   * Tool definitions to pass to the LLM SDK's `tools` parameter: namespace
+   * tools, then `load_toolkit`, then the tools of every loaded toolkit.
+   */
   tools: ToolDefinition[];
   /** XML directory of lazy-loadable toolkits, to inject into system prompt. */
   directoryXml: string;
@@ -77,12 +168,33 @@ export class Pruner {
   private namespaces: ToolGroup[] = [];
   private lazyToolkits: ToolGroup[] = [];
   private blockedTools: string[] = [];
-  private config: Required<PrunerConfig>;
+  /** In load order — the order compile() appends their tools, so it stays prefix-stable. */
+  private loadedToolkits: LoadedToolkit[] = [];
+  private toolkitClock = 0;
+  private config: Required<Omit<PrunerConfig, 'embed'>>;
+  private embed?: EmbeddingFunction;
+  /**
+   * Tool embeddings keyed by a hash of the embedded text, so edited tools are
+   * re-embedded. Holds only the tools of the last pruneBySimilarity() call.
+   */
+  private toolEmbeddings = new Map<string, number[]>();
 
   constructor(config: PrunerConfig = {}) {
+    const { maxLoadedToolkits } = config;
+    if (
+      maxLoadedToolkits !== undefined &&
+      !(Number.isInteger(maxLoadedToolkits) && maxLoadedToolkits >= 1)
+    ) {
+      throw new Error(
+        `Pruner maxLoadedToolkits must be a positive integer, got ${maxLoadedToolkits}.`,
+      );
+    }
     this.config = {
       strategy: config.strategy ?? 'union',
+      maxLoadedToolkits: maxLoadedToolkits ?? Number.POSITIVE_INFINITY,
+      malformedArguments: config.malformedArguments ?? 'repair',
     };
+    this.embed = config.embed;
   }
 
   // ─── Flat Mode (Legacy) ───
@@ -131,6 +243,70 @@ export class Pruner {
     return this._buildResult(relevant);
   }
 
+  /**
+   * Ranks flat tools by the cosine similarity of their embedding to the
+   * task's, using `PrunerConfig.embed`. Unlike `pruneByTask`, this finds
+   * tools by meaning rather than by name or tag substrings, and untagged
+   * tools compete like any other. Tool embeddings are cached by content,
+   * so only new or edited tools are embedded on later calls — one batched
+   * `embed` call per invocation at most, plus the task.
+   *
+   * @example
+   * const pruner = new Pruner({ embed: (texts) => model.embed(texts) });
+   * const { tools, scores } = await pruner.pruneBySimilarity('find cheap flights', { topK: 5 });
+   */
+  public async pruneBySimilarity(
+    taskDescription: string,
+    options: SimilarityPruneOptions = {},
+  ): Promise<PrunerResult> {
+    const { topK, minScore } = options;
+    if (topK !== undefined && !(Number.isInteger(topK) && topK >= 0)) {
+      throw new Error(`pruneBySimilarity topK must be a non-negative integer, got ${topK}.`);
+    }
+    if (minScore !== undefined && Number.isNaN(minScore)) {
+      throw new Error('pruneBySimilarity minScore must be a number, got NaN.');
+    }
+    const embed = this.embed;
+    if (!embed) {
+      throw new Error(
+        'pruneBySimilarity() requires an embedding function: new Pruner({ embed }) or ' +
+          'new ContextChef({ pruner: { embed } }).',
+      );
+    }
+
+    const tools = this.flatTools;
+    const keys = tools.map((tool) => embeddingKey(tool));
+    const missing = [...new Set(keys.filter((key) => !this.toolEmbeddings.has(key)))];
+    const texts = missing.map((key) => embeddingText(tools[keys.indexOf(key)]));
+    const vectors = await embed([taskDescription, ...texts]);
+    if (!Array.isArray(vectors) || vectors.length !== texts.length + 1) {
+      throw new Error(
+        `Embedding function returned ${Array.isArray(vectors) ? vectors.length : 'no'} vectors for ${texts.length + 1} texts.`,
+      );
+    }
+    const [taskVector, ...toolVectors] = vectors;
+    for (const [i, key] of missing.entries()) this.toolEmbeddings.set(key, toolVectors[i]);
+    // Vectors of removed or edited tools would otherwise pile up for the life of the Pruner.
+    const current = new Set(keys);
+    for (const key of this.toolEmbeddings.keys()) {
+      if (!current.has(key)) this.toolEmbeddings.delete(key);
+    }
+
+    const scores: Record<string, number> = {};
+    const ranked = tools
+      .map((tool, i) => {
+        const score = cosineSimilarity(taskVector, this.toolEmbeddings.get(keys[i]) ?? []);
+        scores[tool.name] = score;
+        return { tool, score };
+      })
+      .filter(({ score }) => minScore === undefined || score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(({ tool }) => tool);
+
+    return { ...this._buildResult(ranked), scores };
+  }
+
   public getAllTools(): ToolDefinition[] {
     return [...this.flatTools];
   }
@@ -155,6 +331,69 @@ export class Pruner {
    */
   public registerToolkits(toolkits: ToolGroup[]): this {
     this.lazyToolkits = toolkits.map((g) => ({ ...g, tools: [...g.tools] }));
+    // Keep loaded toolkits that are still registered, under their new name casing.
+    this.loadedToolkits = this.loadedToolkits.flatMap((loaded) => {
+      const kit = this._findToolkit(loaded.name);
+      return kit ? [{ ...loaded, name: kit.name }] : [];
+    });
+    return this;
+  }
+
+  /**
+   * Marks a lazy toolkit as loaded, so `compile()` includes its tools from
+   * now on — call it when the model invokes `load_toolkit`. Loading an
+   * already-loaded toolkit only refreshes its recency. Over
+   * `maxLoadedToolkits`, the least recently used toolkit is unloaded.
+   *
+   * Loaded tools are appended after the stable tools in load order, so
+   * loading one extends the previous request's tool list instead of
+   * reshuffling it.
+   */
+  public loadToolkit(toolkitName: string): ToolkitLoadResult {
+    const tools = this.extractToolkit(toolkitName); // throws for unknown toolkits
+    const name = this._findToolkit(toolkitName)?.name ?? toolkitName;
+    const lastUsed = ++this.toolkitClock;
+
+    const loaded = this.loadedToolkits.find((k) => k.name === name);
+    if (loaded) {
+      loaded.lastUsed = lastUsed;
+      return { tools, unloaded: [] };
+    }
+    this.loadedToolkits.push({ name, lastUsed });
+
+    const unloaded: string[] = [];
+    while (this.loadedToolkits.length > this.config.maxLoadedToolkits) {
+      const lru = this.loadedToolkits.reduce((a, b) => (b.lastUsed < a.lastUsed ? b : a));
+      this.loadedToolkits = this.loadedToolkits.filter((k) => k !== lru);
+      unloaded.push(lru.name);
+    }
+    return { tools, unloaded };
+  }
+
+  /** Removes a toolkit's tools from `compile()`. Returns false if it was not loaded. */
+  public unloadToolkit(toolkitName: string): boolean {
+    const before = this.loadedToolkits.length;
+    this.loadedToolkits = this.loadedToolkits.filter(
+      (k) => k.name.toLowerCase() !== toolkitName.toLowerCase(),
+    );
+    return this.loadedToolkits.length < before;
+  }
+
+  /** Names of the loaded toolkits, in load order. */
+  public getLoadedToolkits(): string[] {
+    return this.loadedToolkits.map((k) => k.name);
+  }
+
+  /**
+   * Refreshes the recency of the loaded toolkit that provides `toolName`,
+   * so LRU unloading keeps toolkits the model is still using. Call it when
+   * dispatching a tool call; unknown names are ignored.
+   */
+  public markToolUsed(toolName: string): this {
+    const loaded = this.loadedToolkits.find((k) =>
+      this._findToolkit(k.name)?.tools.some((t) => t.name === toolName),
+    );
+    if (loaded) loaded.lastUsed = ++this.toolkitClock;
     return this;
   }
 
@@ -206,6 +445,11 @@ export class Pruner {
       tools.push(this._buildLoaderTool());
     }
 
+    // Loaded toolkits, appended after the stable tools
+    for (const loaded of this.loadedToolkits) {
+      tools.push(...(this._findToolkit(loaded.name)?.tools ?? []));
+    }
+
     const directoryXml = this._buildDirectoryXml();
 
     return { tools, directoryXml };
@@ -239,7 +483,7 @@ export class Pruner {
    * Returns the real ToolDefinition[] to inject into the next LLM request's tools array.
    */
   public extractToolkit(toolkitName: string): ToolDefinition[] {
-    const kit = this.lazyToolkits.find((k) => k.name.toLowerCase() === toolkitName.toLowerCase());
+    const kit = this._findToolkit(toolkitName);
     if (!kit) {
       const available = this.lazyToolkits.map((k) => k.name).join(', ') || '(none)';
       throw new Error(`Unknown toolkit: "${toolkitName}". Available: ${available}`);
@@ -249,6 +493,11 @@ export class Pruner {
 
   /**
    * Resolves a namespace tool call to the concrete sub-tool name and args.
+   * The args are validated against the sub-tool's `parameters` schema; a
+   * mismatch is reported in the result's `invalid`, whose `message` can be
+   * returned to the model as the tool result. String arguments that are
+   * not valid JSON go through the `malformedArguments` policy; the result's
+   * `repair` says when that happened.
    *
    * @example
    * const resolved = pruner.resolveNamespace({
@@ -267,8 +516,13 @@ export class Pruner {
       throw new Error(`"${toolCall.name}" is not a registered namespace. Available: ${available}`);
     }
 
-    const parsed: { action?: unknown; args?: unknown } =
-      typeof toolCall.arguments === 'string' ? JSON.parse(toolCall.arguments) : toolCall.arguments;
+    const {
+      args: parsed,
+      repair,
+    }: { args: Record<string, unknown>; repair?: ToolArgumentsRepair } =
+      typeof toolCall.arguments === 'string'
+        ? parseToolArguments(toolCall.arguments, toolCall, this.config.malformedArguments)
+        : { args: toolCall.arguments };
 
     const action = typeof parsed.action === 'string' ? parsed.action : '';
     const args: Record<string, unknown> = isRecord(parsed.args) ? { ...parsed.args } : {};
@@ -281,11 +535,44 @@ export class Pruner {
       );
     }
 
-    return { group: ns.name, toolName: matchedTool.name, args };
+    const issues = validateToolArgs(matchedTool.parameters, args);
+    return {
+      group: ns.name,
+      toolName: matchedTool.name,
+      args,
+      ...(repair && { repair }),
+      ...(issues.length > 0 && {
+        invalid: { issues, message: formatIssues(matchedTool.name, issues) },
+      }),
+    };
+  }
+
+  /**
+   * Validates a direct tool call — to a flat tool or a loaded toolkit's
+   * tool — against that tool's `parameters` schema. Reports problems in
+   * the result instead of throwing; see {@link validateToolCall}. String
+   * arguments that are not valid JSON go through the `malformedArguments`
+   * policy, as in `resolveNamespace()`.
+   */
+  public validateToolCall(toolCall: {
+    name: string;
+    id?: string;
+    arguments: string | Record<string, unknown>;
+  }): ToolCallValidationResult {
+    const loaded = this.loadedToolkits.flatMap((k) => this._findToolkit(k.name)?.tools ?? []);
+    return validateToolCall(
+      toolCall,
+      [...this.flatTools, ...loaded],
+      this.config.malformedArguments,
+    );
   }
 
   // ─── Internal Builders ───
 
+  private _findToolkit(toolkitName: string): ToolGroup | undefined {
+    return this.lazyToolkits.find((k) => k.name.toLowerCase() === toolkitName.toLowerCase());
+  }
+
   /**
    * Compiles a ToolGroup into a single namespace ToolDefinition.
    * Sub-tool schemas are serialized into the description for LLM reference.
@@ -296,7 +583,8 @@ export class Pruner {
       .map((t) => {
         let doc = `- ${t.name}: ${t.description}`;
         if (t.parameters) {
-          const params = Object.entries(t.parameters)
+          const { properties } = toObjectSchema(t.parameters);
+          const params = Object.entries(isRecord(properties) ? properties : {})
             .map(([k, v]) => {
               if (!isRecord(v)) return `    - ${k} (any)`;
               const type = typeof v.type === 'string' ? v.type : 'any';
@@ -378,6 +666,7 @@ export class Pruner {
       namespaces: this.namespaces,
       lazyToolkits: this.lazyToolkits,
       blockedTools: this.blockedTools,
+      loadedToolkits: this.loadedToolkits,
     });
   }
 
@@ -387,6 +676,8 @@ export class Pruner {
     this.namespaces = cloned.namespaces;
     this.lazyToolkits = cloned.lazyToolkits;
     this.blockedTools = cloned.blockedTools ?? [];
+    this.loadedToolkits = cloned.loadedToolkits ?? [];
+    this.toolkitClock = Math.max(0, ...this.loadedToolkits.map((k) => k.lastUsed));
   }
 
   private _buildResult(kept: ToolDefinition[]): PrunerResult {
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import type { ToolDefinition } from '../../types';
+import { toObjectSchema } from '../../utils/jsonSchema';
+import { MalformedToolArgumentsError } from '../../utils/toolArguments';
+import { validateToolArgs, validateToolCall } from './validation';
+
+const SEARCH: ToolDefinition = {
+  name: 'search_orders',
+  description: 'Search orders',
+  parameters: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: ['open', 'shipped'] },
+      limit: { type: 'integer' },
+      filters: {
+        type: 'object',
+        properties: {
+          tags: { type: 'array', items: { type: 'string' } },
+          customer: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+            required: ['id'],
+            additionalProperties: false,
+          },
+        },
+      },
+      note: { type: ['string', 'null'] },
+    },
+    required: ['status'],
+  },
+};
+
+// The shorthand property map used by namespace sub-tools.
+const READ: ToolDefinition = {
+  name: 'read_file',
+  description: 'Read a file',
+  parameters: { path: { type: 'string' }, lines: { type: 'number' } },
+};
+
+describe('validateToolArgs', () => {
+  it('accepts valid args, including nested objects, arrays and nullable types', () => {
+    expect(
+      validateToolArgs(SEARCH.parameters, {
+        status: 'open',
+        limit: 10,
+        filters: { tags: ['a', 'b'], customer: { id: 'c1' } },
+        note: null,
+        extra: true,
+      }),
+    ).toEqual([]);
+  });
+
+  it('reports every issue with its path', () => {
+    const issues = validateToolArgs(SEARCH.parameters, {
+      limit: 2.5,
+      filters: { tags: ['a', 3], customer: { name: 'x' } },
+      note: 1,
+    });
+
+    expect(issues).toEqual([
+      { path: 'status', message: 'required property is missing' },
+      { path: 'limit', message: 'expected integer, got number' },
+      { path: 'filters.tags[1]', message: 'expected string, got number' },
+      { path: 'filters.customer.id', message: 'required property is missing' },
+      { path: 'filters.customer.name', message: 'unknown property' },
+      { path: 'note', message: 'expected string or null, got number' },
+    ]);
+  });
+
+  it('checks enums and const', () => {
+    expect(validateToolArgs(SEARCH.parameters, { status: 'lost' })).toEqual([
+      { path: 'status', message: 'must be one of "open", "shipped"' },
+    ]);
+    const schema = { type: 'object', properties: { mode: { const: 'fast' } } };
+    expect(validateToolArgs(schema, { mode: 'slow' })[0].message).toBe('must be "fast"');
+  });
+
+  it('does not mistake inherited Object members for declared properties', () => {
+    const schema = {
+      type: 'object',
+      properties: { path: { type: 'string' } },
+      required: ['toString'],
+      additionalProperties: false,
+    };
+    expect(validateToolArgs(schema, JSON.parse('{"constructor": 1, "__proto__": {}}'))).toEqual([
+      { path: 'toString', message: 'required property is missing' },
+      { path: 'constructor', message: 'unknown property' },
+      { path: '__proto__', message: 'unknown property' },
+    ]);
+  });
+
+  it('treats a property map as an object schema with optional properties', () => {
+    expect(toObjectSchema(READ.parameters ?? {})).toEqual({
+      type: 'object',
+      properties: READ.parameters,
+    });
+    expect(validateToolArgs(READ.parameters, {})).toEqual([]);
+    expect(validateToolArgs(READ.parameters, { path: 42 })).toEqual([
+      { path: 'path', message: 'expected string, got number' },
+    ]);
+    expect(validateToolArgs(undefined, { anything: 1 })).toEqual([]);
+  });
+});
+
+describe('validateToolCall', () => {
+  it('parses string arguments and returns them when valid', () => {
+    expect(validateToolCall({ name: 'read_file', arguments: '{"path":"a.ts"}' }, [READ])).toEqual({
+      valid: true,
+      args: { path: 'a.ts' },
+    });
+    expect(validateToolCall({ name: 'read_file', arguments: '' }, [READ])).toEqual({
+      valid: true,
+      args: {},
+    });
+  });
+
+  it('returns a message the model can act on', () => {
+    const result = validateToolCall({ name: 'search_orders', arguments: { limit: 'ten' } }, [
+      SEARCH,
+    ]);
+
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.message).toBe(
+      'Invalid arguments for tool "search_orders":\n' +
+        '- status: required property is missing\n' +
+        '- limit: expected integer, got string\n' +
+        'Fix the arguments and call the tool again.',
+    );
+  });
+
+  it('reports unknown tools, malformed JSON and non-object arguments', () => {
+    const unknown = validateToolCall({ name: 'nope', arguments: {} }, [READ]);
+    const malformed = validateToolCall({ name: 'read_file', arguments: 'not json' }, [READ]);
+    const array = validateToolCall({ name: 'read_file', arguments: '[1]' }, [READ]);
+
+    expect(!unknown.valid && unknown.issues[0].message).toBe('unknown tool. Available: read_file');
+    expect(!malformed.valid && malformed.issues[0].message).toBe('arguments are not valid JSON');
+    expect(!array.valid && array.message).toContain('- arguments: expected object, got array');
+  });
+
+  it('repairs malformed arguments under the policy before validating them', () => {
+    const call = { name: 'read_file', id: 'call_1', arguments: '{"path": "a.ts",' };
+
+    expect(validateToolCall(call, [READ])).toEqual({
+      valid: true,
+      args: { path: 'a.ts' },
+      repair: {
+        toolName: 'read_file',
+        toolCallId: 'call_1',
+        original: '{"path": "a.ts",',
+        outcome: 'repaired',
+        arguments: '{"path":"a.ts"}',
+      },
+    });
+    expect(validateToolCall({ ...call, arguments: '{"path": 42,' }, [READ])).toMatchObject({
+      valid: false,
+      issues: [{ path: 'path', message: 'expected string, got number' }],
+      repair: { outcome: 'repaired' },
+    });
+  });
+
+  it("reports replaced arguments as invalid and throws under 'throw'", () => {
+    const call = { name: 'read_file', arguments: '{"path": "a.ts",' };
+
+    expect(validateToolCall(call, [READ], 'replace')).toMatchObject({
+      valid: false,
+      issues: [{ path: '', message: 'arguments are not valid JSON' }],
+      repair: { outcome: 'replaced', arguments: '{}' },
+    });
+    expect(() => validateToolCall(call, [READ], 'throw')).toThrow(MalformedToolArgumentsError);
+  });
+});
@@ -0,0 +1,188 @@
+import type { ToolDefinition } from '../../types';
+import { isRecord, toObjectSchema } from '../../utils/jsonSchema';
+import {
+  type MalformedArgumentsPolicy,
+  parseToolArguments,
+  type ToolArgumentsRepair,
+} from '../../utils/toolArguments';
+
+/** One problem found in a tool call's arguments. */
+export interface ToolArgIssue {
+  /** Where the problem is, e.g. `path`, `filters.tags[0]`; empty for the arguments as a whole. */
+  path: string;
+  message: string;
+}
+
+export type ToolCallValidationResult =
+  | { valid: true; args: Record<string, unknown>; repair?: ToolArgumentsRepair }
+  | {
+      valid: false;
+      issues: ToolArgIssue[];
+      /** Issues as text for the model — send it back as the tool result. */
+      message: string;
+      /** Set when string arguments were not valid JSON and `policy` repaired or replaced them. */
+      repair?: ToolArgumentsRepair;
+    };
+
+/**
+ * Checks `args` against a tool's `parameters` schema. Supports the subset
+ * tool schemas use in practice: `type` (including type arrays and
+ * `integer`), `enum`, `const`, `required`, `properties`,
+ * `additionalProperties` and `items`, nested to any depth. Other keywords
+ * are ignored, so an unsupported constraint never rejects a call.
+ */
+export function validateToolArgs(
+  parameters: Record<string, unknown> | undefined,
+  args: unknown,
+): ToolArgIssue[] {
+  const issues: ToolArgIssue[] = [];
+  if (parameters) check(toObjectSchema(parameters), args, '', issues);
+  return issues;
+}
+
+/**
+ * Validates a flat tool call against the matching definition in `tools`.
+ * `arguments` may be the raw JSON string from the provider; if it is not
+ * valid JSON it goes through `policy`, as in `compile()`. Repaired
+ * arguments are validated and `repair` says so; replaced ones are
+ * reported invalid. An unknown tool or unusable arguments are reported as
+ * issues, not thrown — except under the `'throw'` policy.
+ *
+ * @example
+ * const check = validateToolCall(call, chef.getPruner().getAllTools());
+ * if (!check.valid) history.push({ role: 'tool', tool_call_id: call.id, content: check.message });
+ */
+export function validateToolCall(
+  toolCall: { name: string; id?: string; arguments: string | Record<string, unknown> },
+  tools: ToolDefinition[],
+  policy: MalformedArgumentsPolicy = 'repair',
+): ToolCallValidationResult {
+  let repair: ToolArgumentsRepair | undefined;
+  const invalid = (issues: ToolArgIssue[]): ToolCallValidationResult => ({
+    valid: false,
+    issues,
+    message: formatIssues(toolCall.name, issues),
+    ...(repair && { repair }),
+  });
+
+  const tool = tools.find((t) => t.name === toolCall.name);
+  if (!tool) {
+    const available = tools.map((t) => t.name).join(', ') || '(none)';
+    return invalid([{ path: '', message: `unknown tool. Available: ${available}` }]);
+  }
+
+  let args: unknown = toolCall.arguments;
+  if (typeof args === 'string') {
+    const raw = args;
+    ({ args, repair } = parseToolArguments(raw, toolCall, policy));
+    if (repair?.outcome === 'replaced') {
+      return invalid([{ path: '', message: describeUnusable(raw) }]);
+    }
+  }
+  if (!isRecord(args)) {
+    return invalid([{ path: '', message: `expected object, got ${jsonType(args)}` }]);
+  }
+
+  const issues = validateToolArgs(tool.parameters, args);
+  if (issues.length > 0) return invalid(issues);
+  return { valid: true, args, ...(repair && { repair }) };
+}
+
+/** Why string arguments that had to be replaced were unusable. */
+function describeUnusable(raw: string): string {
+  try {
+    return `expected object, got ${jsonType(JSON.parse(raw))}`;
+  } catch {
+    return 'arguments are not valid JSON';
+  }
+}
+
+/** Issues as the model-facing text of a failed validation. */
+export function formatIssues(toolName: string, issues: ToolArgIssue[]): string {
+  const lines = issues.map((issue) => `- ${issue.path || 'arguments'}: ${issue.message}`);
+  return `Invalid arguments for tool "${toolName}":\n${lines.join('\n')}\nFix the arguments and call the tool again.`;
+}
+
+function check(schema: unknown, value: unknown, path: string, issues: ToolArgIssue[]): void {
+  if (!isRecord(schema)) return;
+  const issue = (message: string) => issues.push({ path, message });
+
+  if ('const' in schema && !jsonEqual(value, schema.const)) {
+    issue(`must be ${JSON.stringify(schema.const)}`);
+    return;
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => jsonEqual(value, option))) {
+    issue(`must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+    return;
+  }
+  const types =
+    typeof schema.type === 'string'
+      ? [schema.type]
+      : Array.isArray(schema.type)
+        ? schema.type.filter((t): t is string => typeof t === 'string')
+        : [];
+  if (types.length > 0 && !types.some((type) => hasType(value, type))) {
+    issue(`expected ${types.join(' or ')}, got ${jsonType(value)}`);
+    return;
+  }
+
+  if (isRecord(value)) {
+    const properties = isRecord(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (typeof key === 'string' && (!Object.hasOwn(value, key) || value[key] === undefined)) {
+          issues.push({ path: join(path, key), message: 'required property is missing' });
+        }
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (Object.hasOwn(properties, key)) {
+        check(properties[key], child, join(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: join(path, key), message: 'unknown property' });
+      } else if (isRecord(schema.additionalProperties)) {
+        check(schema.additionalProperties, child, join(path, key), issues);
+      }
+    }
+  }
+
+  if (Array.isArray(value) && isRecord(schema.items)) {
+    for (const [i, item] of value.entries()) check(schema.items, item, `${path}[${i}]`, issues);
+  }
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return isRecord(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+    case 'string':
+    case 'boolean':
+      return typeof value === type;
+    default:
+      return true;
+  }
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -83,6 +83,45 @@ You are acting as an automated system component. Your final output MUST be machi
     return parts.join('\n').trim();
   },
 
+  /**
+   * Summary variant of {@link Prompts.getVFSOffloadReminder}, used when an
+   * `OffloadOptions.summarizer` condensed the content instead of keeping
+   * head/tail slices. Same `<persisted-output>` wrapper and retrieval
+   * handles; the summary follows the marker.
+   */
+  getVFSSummaryReminder: (
+    uri: string,
+    totalLines: number,
+    totalChars: number,
+    summary: string,
+    physicalPath: string | null = null,
+  ) => {
+    const handleLines = physicalPath
+      ? `Full output saved to: ${physicalPath}\nURI (alternative): ${uri}`
+      : `Full output: ${uri}`;
+    return `<persisted-output>\noutput summarized (${totalLines} lines, ${totalChars} chars total; summary shown below)\n${handleLines}\n</persisted-output>\n${summary}`;
+  },
+
+  /**
+   * Excerpt variant of {@link Prompts.getVFSOffloadReminder}, used when an
+   * `OffloadOptions.strategy` picked the lines worth keeping (error lines,
+   * changed diff lines, a JSON skeleton, …). `strategy` names the picker so
+   * the model knows the excerpt is selective, not contiguous.
+   */
+  getVFSExcerptReminder: (
+    uri: string,
+    totalLines: number,
+    totalChars: number,
+    strategy: string,
+    excerpt: string,
+    physicalPath: string | null = null,
+  ) => {
+    const handleLines = physicalPath
+      ? `Full output saved to: ${physicalPath}\nURI (alternative): ${uri}`
+      : `Full output: ${uri}`;
+    return `<persisted-output>\noutput truncated (${totalLines} lines, ${totalChars} chars total; ${strategy} excerpt shown below)\n${handleLines}\n</persisted-output>\n${excerpt}`;
+  },
+
   /**
    * Used by Janitor as the default instruction for compressing rolling history.
    * Structured as a two-phase response: an <analysis> scratchpad (stripped from
@@ -149,6 +188,89 @@ Here's an example of the expected format:
 </example>
 
 Be concise but complete — err on the side of including information that would prevent duplicate work or repeated mistakes. Write in a way that enables immediate resumption of the task.
+`.trim(),
+
+  /**
+   * Used by Janitor in incremental mode (`incrementalSummary: true`) instead of
+   * CONTEXT_COMPACTION_INSTRUCTION. The conversation sent alongside it holds
+   * only the turns evicted since `previousSummary` was written, so the model
+   * merges the delta into the existing summary rather than re-deriving it from
+   * material it has already condensed. Keeps the same <analysis>/<summary>
+   * contract and section layout so formatCompactSummary() applies unchanged.
+   */
+  getIncrementalCompactionInstruction: (previousSummary: string) =>
+    `
+You have been working on the task described in the summary below but have not yet completed it. The summary was written earlier in this session; the conversation above contains ONLY the turns that happened after it was written.
+
+<previous_summary>
+${previousSummary}
+</previous_summary>
+
+Update the summary by merging the new turns into it, so that it will allow you (or another instance of yourself) to resume work efficiently in a future context window where the conversation history will be replaced with the updated summary.
+
+Before providing your updated summary, wrap your analysis in <analysis></analysis> tags. This analysis scratchpad will be stripped from the final output — use it freely to work out what changed.
+
+In your analysis:
+- Identify what the new turns add, change, or invalidate in the previous summary
+- Note new requests, decisions, discoveries, errors, and user feedback
+- Mark items from the previous summary that are now completed or obsolete
+
+Your updated summary (inside <summary></summary> tags) must be self-contained — it replaces the previous summary entirely. Keep the same structure:
+
+1. Task Overview
+2. Current State
+3. Important Discoveries
+4. Next Steps
+5. Context to Preserve
+
+Carry forward everything from the previous summary that is still relevant — identifiers (file paths, URLs, ticket IDs, etc.) verbatim. Drop only what the new turns have made obsolete. Be concise but complete.
+`.trim(),
+
+  /**
+   * Compaction prompt for structured summaries (Janitor `summarySchema`,
+   * `summarizeHistoryStructured`). Keeps the <analysis>/<summary> contract,
+   * but the summary body must be a single JSON object matching `jsonSchema`.
+   * With `previousSummary`, the conversation above is treated as the delta
+   * since that summary and the model merges it in.
+   */
+  getStructuredCompactionInstruction: (jsonSchema: string, previousSummary?: string) =>
+    `
+You have been working on the task described above but have not yet completed it. Write a structured summary that will allow you (or another instance of yourself) to resume work efficiently in a future context window where the conversation history will be replaced with this summary.
+${
+  previousSummary
+    ? `
+The summary below was written earlier in this session; the conversation above contains ONLY the turns that happened after it. Merge the new turns into it — your output replaces it entirely, so carry forward everything that is still relevant.
+
+<previous_summary>
+${previousSummary}
+</previous_summary>
+`
+    : ''
+}
+Before providing your summary, wrap your analysis in <analysis></analysis> tags. This analysis scratchpad will be stripped from the final output.
+
+Then output the summary inside <summary></summary> tags as a single JSON object that validates against this JSON Schema:
+
+<json_schema>
+${jsonSchema}
+</json_schema>
+
+Inside <summary>, output ONLY the JSON object — no prose, no code fences. Keep identifiers (file paths, URLs, ticket IDs, etc.) verbatim.
+`.trim(),
+
+  /**
+   * Follow-up sent once when a structured summary fails JSON parsing or
+   * schema validation. `error` is the parse/validation message.
+   */
+  getStructuredSummaryRetry: (error: string) =>
+    `
+Your summary did not validate against the JSON Schema:
+
+<validation_error>
+${error}
+</validation_error>
+
+Reply again with <summary></summary> tags containing ONLY a corrected JSON object that fixes these errors.
 `.trim(),
 
   /**
@@ -194,6 +316,29 @@ ${summary}
 
 Continue the conversation from where it left off without asking the user any further questions. Resume directly — do not acknowledge the summary, do not recap what was happening, do not preface with "I'll continue" or similar. Pick up the last task as if the break never happened.`.trim(),
 
+  /**
+   * Renders the tier layout of a hierarchical summary (Janitor
+   * `hierarchicalSummary` mode) as the body passed to getCompactSummaryWrapper.
+   * Tiers are listed oldest first; higher levels cover older, longer spans.
+   */
+  formatSummaryTiers: (tiers: ReadonlyArray<{ level: number; summary: string }>): string =>
+    tiers
+      .map((t) => `<summary_tier level="${t.level}">\n${t.summary}\n</summary_tier>`)
+      .join('\n\n'),
+
+  /**
+   * Appended to the compaction prompt when several same-level summaries are
+   * rolled up into one summary on the next level.
+   */
+  getSummaryRollupInstruction: (level: number) =>
+    `The messages above are consecutive summaries of earlier segments of this conversation, oldest first. Merge them into a single level-${level} summary covering the whole span. Compress harder than the inputs: keep decisions, outcomes, open threads and identifiers (file paths, URLs, ticket IDs, etc.) verbatim; drop step-by-step detail that no longer matters.`,
+
+  /**
+   * Appended to the compaction prompt when a summary tier has a token cap.
+   */
+  getSummaryBudgetInstruction: (maxTokens: number) =>
+    `Keep the content of your <summary> under ${maxTokens} tokens. Prioritize what is needed to continue the work.`,
+
   /**
    * Used by Janitor when compression fails or no model is provided.
    */
@@ -221,15 +366,26 @@ Do not output any introductory text or acknowledgement. Start directly with the
 `.trim(),
 
   // ─── Placeholder vocabulary ───
-  // Three placeholder families coexist, each serving a distinct purpose:
+  // Seven placeholder families coexist, each serving a distinct purpose:
   //   1. getAttachmentPlaceholder — stands in for binary attachments shown to
   //      the COMPRESSION model (janitor strips media before summarizing).
   //   2. getToolResultFilePlaceholder / getToolResultPartPlaceholder — stand
   //      in for non-text tool-result content parts flattened to text by the
   //      middleware adapters (dropping them silently would hide the part
   //      from compression and truncation entirely).
-  //   3. getVFSOffloadReminder (above) — a dereferenceable `context://`
-  //      pointer, not a placeholder: the full content is retrievable.
+  //   3. getVFSOffloadReminder and its summary / excerpt variants (above) —
+  //      a dereferenceable `context://` pointer, not a placeholder: the full
+  //      content is retrievable.
+  //   4. getStubbedToolResultPlaceholder — replaces an old, large tool result
+  //      in the LIVE history when Janitor's degradation ladder stubs it.
+  //   5. getDuplicateToolResultReference — a back-reference replacing an
+  //      older copy of a tool result whose content reappears later.
+  //   6. getOffloadedAttachmentPlaceholder — replaces an old or oversized
+  //      attachment in the outgoing request once its data moved to VFS;
+  //      carries the URI so the attachment can be re-hydrated.
+  //   7. getReplacedToolArgumentsNote — appended to an assistant message
+  //      whose tool call had unrecoverable JSON arguments that were sent as
+  //      `{}` instead.
   // Formats are frozen conventions — changing one reshapes what compression
   // models see mid-conversation.
 
@@ -253,6 +409,26 @@ Do not output any introductory text or acknowledgement. Start directly with the
     return filename ? `[${kind}: ${filename}]` : `[${kind}]`;
   },
 
+  /**
+   * Single-line stand-in for an attachment whose data was moved to VFS
+   * (`offloadAttachments`). Extends the attachment placeholder with the URI
+   * and an optional caption, flattened to one line so
+   * `rehydrateAttachments` can find the marker by URI and remove it.
+   *
+   *   ('image/png', 'context://vfs/vfs_ab.txt', 'shot.png', 'A login form')
+   *     → '[image: shot.png — stored at context://vfs/vfs_ab.txt; caption: A login form]'
+   */
+  getOffloadedAttachmentPlaceholder: (
+    mediaType: string,
+    uri: string,
+    filename?: string,
+    caption?: string,
+  ): string => {
+    const label: string = Prompts.getAttachmentPlaceholder(mediaType, filename).slice(1, -1);
+    const note = caption ? `; caption: ${caption.replace(/\s+/g, ' ').trim()}` : '';
+    return `[${label} — stored at ${uri}${note}]`;
+  },
+
   /**
    * Placeholder for a file/media part inside a tool result that is being
    * flattened to text — the part must leave a trace, not vanish silently.
@@ -263,6 +439,31 @@ Do not output any introductory text or acknowledgement. Start directly with the
   /** Placeholder for any other non-text tool-result content part. */
   getToolResultPartPlaceholder: (partType: string): string => `[tool result part: ${partType}]`,
 
+  /**
+   * One-line stand-in for a large tool result dropped from live history by
+   * the `stub-tool-results` rung of Janitor's degradation policy.
+   */
+  getStubbedToolResultPlaceholder: (toolName: string, chars: number): string =>
+    `[Tool ${toolName} returned ${chars} chars; dropped from context to save space]`,
+
+  /**
+   * Back-reference left in place of an older, duplicate tool result by
+   * `compact({ clear: ['duplicate-tool-result'] })`. `turn` is 1-based in
+   * {@link groupIntoTurns} order; `similarity` below 1 marks a near-duplicate.
+   */
+  getDuplicateToolResultReference: (toolCallId: string, turn: number, similarity = 1): string =>
+    similarity >= 1
+      ? `[Identical to the result of call ${toolCallId} at turn ${turn}]`
+      : `[Nearly identical (${Math.floor(similarity * 100)}% similar) to the result of call ${toolCallId} at turn ${turn}]`,
+
+  /**
+   * Note appended to an assistant message when one of its tool calls had
+   * arguments that were not valid JSON and could not be repaired, so the
+   * call was replaced with `{}` (`malformedToolArguments: 'replace'`).
+   */
+  getReplacedToolArgumentsNote: (toolName: string): string =>
+    `[Arguments of the ${toolName} call were not valid JSON and were replaced with {}]`,
+
   /**
    * Static instruction injected into the system prompt when memory is enabled.
    * Guides the LLM to use memory tools for persistence.
@@ -6,9 +6,17 @@
 import type {
   MessageParam as AnthropicMessageParam,
   TextBlockParam as AnthropicTextBlockParam,
+  Tool as AnthropicTool,
 } from '@anthropic-ai/sdk/resources/messages/messages';
-import type { Content as GeminiContent, TextPart as GeminiTextPart } from '@google/generative-ai';
-import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions/completions';
+import type {
+  Content as GeminiContent,
+  FunctionDeclarationsTool as GeminiFunctionDeclarationsTool,
+  TextPart as GeminiTextPart,
+} from '@google/generative-ai';
+import type {
+  ChatCompletionFunctionTool,
+  ChatCompletionMessageParam,
+} from 'openai/resources/chat/completions/completions';
 
 /**
  * Minimal logging hook for degradation warnings (storage write failures,
@@ -81,6 +89,13 @@ export interface Message {
   tool_call_id?: string;
   // Used internally to mark cache breakpoints before targeting
   _cache_breakpoint?: boolean;
+  /**
+   * Keeps this message verbatim through compression. Janitor.compress,
+   * compactMessages and planCompaction lift the whole turn containing a
+   * pinned message out of the summarized/cleared slice, in order. Stripped
+   * by the target adapters.
+   */
+  _pinned?: boolean;
   /**
    * Thinking/reasoning content produced by the model.
    * - Anthropic: maps to ThinkingBlockParam (requires signature for multi-turn)
@@ -114,8 +129,32 @@ export interface ToolResultClearTarget {
   keepRecent?: number;
 }
 
-/** Clearing targets for `Janitor.compact()`. */
-export type ClearTarget = 'thinking' | 'tool-result' | ToolResultClearTarget;
+/** Object form for duplicate tool-result deduplication with tuning. */
+export interface DuplicateToolResultTarget {
+  target: 'duplicate-tool-result';
+  /**
+   * Line-level similarity (0–1) at which two results of the same tool count
+   * as duplicates. `1` matches identical content only. Default: 1.
+   */
+  similarity?: number;
+  /**
+   * Results shorter than this many characters are never replaced — the
+   * back-reference would save little. Default: 200.
+   */
+  minChars?: number;
+}
+
+/**
+ * Clearing targets for `Janitor.compact()`. `'duplicate-tool-result'`
+ * replaces older copies of a repeated tool result with a back-reference to
+ * the newest copy.
+ */
+export type ClearTarget =
+  | 'thinking'
+  | 'tool-result'
+  | 'duplicate-tool-result'
+  | ToolResultClearTarget
+  | DuplicateToolResultTarget;
 
 /**
  * Options for `Janitor.compact()` — mechanical, zero-LLM-cost history compaction.
@@ -149,6 +188,11 @@ export type TargetProvider = BuiltinTargetProvider | (string & {});
  */
 export interface ITargetAdapter {
   compile(messages: Message[]): TargetPayload;
+  /**
+   * Converts the tools compile() includes into the provider's tool format.
+   * Optional: without it, `payload.tools` carries the `ToolDefinition`s as-is.
+   */
+  compileTools?(tools: ToolDefinition[]): unknown[];
 }
 
 // ─── Input adapter types ───
@@ -223,21 +267,21 @@ export interface CompileMeta {
 
 export interface OpenAIPayload {
   messages: ChatCompletionMessageParam[];
-  tools?: ToolDefinition[];
+  tools?: ChatCompletionFunctionTool[];
   meta?: CompileMeta;
 }
 
 export interface AnthropicPayload {
   system?: AnthropicTextBlockParam[];
   messages: AnthropicMessageParam[];
-  tools?: ToolDefinition[];
+  tools?: AnthropicTool[];
   meta?: CompileMeta;
 }
 
 export interface GeminiPayload {
   messages: GeminiContent[];
   systemInstruction?: { parts: GeminiTextPart[] };
-  tools?: ToolDefinition[];
+  tools?: GeminiFunctionDeclarationsTool[];
   meta?: CompileMeta;
 }
 
@@ -249,6 +293,7 @@ export interface TargetPayload {
   messages: Array<{ role?: string; content?: unknown; name?: string }>;
   system?: unknown;
   systemInstruction?: unknown;
-  tools?: ToolDefinition[];
+  /** Provider-shaped tools; `ToolDefinition`s for adapters without `compileTools()`. */
+  tools?: unknown[];
   meta?: CompileMeta;
 }
@@ -0,0 +1,17 @@
+/** Type guard for plain records (not null, not arrays). */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * `ToolDefinition.parameters` as an object schema. Accepts a full JSON
+ * Schema (`{ type: 'object', properties, required }`) or the shorthand map
+ * of property name → property schema used throughout this package, in
+ * which every property is optional.
+ */
+export function toObjectSchema(parameters: Record<string, unknown>): Record<string, unknown> {
+  const isFullSchema =
+    typeof parameters.type === 'string' ||
+    (isRecord(parameters.properties) && typeof parameters.properties.type !== 'string');
+  return isFullSchema ? parameters : { type: 'object', properties: parameters };
+}
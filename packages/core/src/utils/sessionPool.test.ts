@@ -37,6 +37,18 @@ describe('SessionPool', () => {
     expect(pool.get('b').id).toBe(3); // was evicted, recreated
   });
 
+  it('reports each evicted entry to onEvict', () => {
+    const onEvict = vi.fn();
+    const pool = new SessionPool((key) => ({ key }), { maxSize: 1, onEvict });
+
+    const a = pool.get('a');
+    pool.get('a');
+    expect(onEvict).not.toHaveBeenCalled();
+    pool.get('b');
+    expect(onEvict).toHaveBeenCalledTimes(1);
+    expect(onEvict).toHaveBeenCalledWith('a', a);
+  });
+
   it('exposes the current entry count', () => {
     const pool = new SessionPool(() => ({}), { maxSize: 10 });
     pool.get('a');
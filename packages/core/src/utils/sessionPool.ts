@@ -61,14 +61,19 @@ export function dedupeConstructionWarnings<T>(
  * `get()` refreshes the entry's LRU position. When the pool exceeds
  * `maxSize`, the least-recently-used entries are dropped; a dropped session
  * is transparently recreated on next access (losing only its fed token
- * usage — the next over-budget call re-triggers compression).
+ * usage — the next over-budget call re-triggers compression). `onEvict`
+ * runs for each dropped entry, e.g. to release per-session storage.
  */
 export class SessionPool<T> {
   private readonly entries = new Map<string, T>();
   private readonly create: (key: string) => T;
   private readonly maxSize: number;
+  private readonly onEvict?: (key: string, value: T) => void;
 
-  constructor(create: (key: string) => T, options?: { maxSize?: number }) {
+  constructor(
+    create: (key: string) => T,
+    options?: { maxSize?: number; onEvict?: (key: string, value: T) => void },
+  ) {
     const maxSize = options?.maxSize ?? 256;
     // A non-positive cap would evict every entry the moment it is inserted,
     // silently disabling pooling (and with it, fed-usage compression).
@@ -79,6 +84,7 @@ export class SessionPool<T> {
     }
     this.create = create;
     this.maxSize = maxSize;
+    this.onEvict = options?.onEvict;
   }
 
   /** Returns the instance for `key`, creating it on first access. */
@@ -93,9 +99,10 @@ export class SessionPool<T> {
     const created = this.create(key);
     this.entries.set(key, created);
     while (this.entries.size > this.maxSize) {
-      const oldest = this.entries.keys().next().value;
+      const oldest = this.entries.entries().next().value;
       if (oldest === undefined) break;
-      this.entries.delete(oldest);
+      this.entries.delete(oldest[0]);
+      this.onEvict?.(oldest[0], oldest[1]);
     }
     return created;
   }
@@ -0,0 +1,46 @@
+import type { DatabaseSync } from 'node:sqlite';
+
+type SqliteModule = typeof import('node:sqlite');
+
+/**
+ * Loads `node:sqlite` on first use rather than at import time, so importing
+ * the package keeps working on Node versions that don't ship it.
+ */
+export function loadSqlite(consumer: string): SqliteModule {
+  const mod = process.getBuiltinModule?.('node:sqlite') as SqliteModule | undefined;
+  if (!mod) {
+    throw new Error(
+      `${consumer} requires the built-in node:sqlite module (Node.js 22.5 or newer).`,
+    );
+  }
+  return mod;
+}
+
+/** Opens `database` when given a path; an existing handle is used as-is (and not owned). */
+export function openDatabase(
+  consumer: string,
+  database: string | DatabaseSync,
+): { db: DatabaseSync; owned: boolean } {
+  if (typeof database !== 'string') return { db: database, owned: false };
+  const { DatabaseSync } = loadSqlite(consumer);
+  return { db: new DatabaseSync(database), owned: true };
+}
+
+export function assertTableName(consumer: string, table: string): void {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`${consumer}: invalid table name '${table}'.`);
+  }
+}
+
+/** Runs `fn` inside a transaction, rolling back if it throws. */
+export function transaction<T>(db: DatabaseSync, fn: () => T): T {
+  db.exec('BEGIN IMMEDIATE');
+  try {
+    const result = fn();
+    db.exec('COMMIT');
+    return result;
+  } catch (error) {
+    db.exec('ROLLBACK');
+    throw error;
+  }
+}
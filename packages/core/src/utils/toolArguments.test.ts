@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from '../types';
+import {
+  MalformedToolArgumentsError,
+  parseToolArguments,
+  repairJson,
+  repairToolCalls,
+} from './toolArguments';
+
+const parsed = (text: string) => {
+  const repaired = repairJson(text);
+  return repaired === null ? null : JSON.parse(repaired);
+};
+
+describe('repairJson', () => {
+  it('removes trailing commas', () => {
+    expect(parsed('{"a": [1, 2,], "b": 3,}')).toEqual({ a: [1, 2], b: 3 });
+  });
+
+  it('escapes raw control characters inside strings', () => {
+    expect(parsed('{"content": "line 1\nline 2\tend"}')).toEqual({
+      content: 'line 1\nline 2\tend',
+    });
+  });
+
+  it('strips Markdown code fences', () => {
+    expect(parsed('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+  });
+
+  it('closes truncated strings, objects and arrays', () => {
+    expect(parsed('{"query": "weather in Par')).toEqual({ query: 'weather in Par' });
+    expect(parsed('{"items": [{"id": 1}, {"id": 2')).toEqual({ items: [{ id: 1 }, { id: 2 }] });
+    expect(parsed('{"path": "C:\\')).toEqual({ path: 'C:' });
+  });
+
+  it('drops a dangling key or comma and completes cut-off literals', () => {
+    expect(parsed('{"a": 1, "b":')).toEqual({ a: 1 });
+    expect(parsed('{"a": 1, "b"')).toEqual({ a: 1 });
+    expect(parsed('{"a": 1,')).toEqual({ a: 1 });
+    expect(parsed('{"done": tr')).toEqual({ done: true });
+    expect(parsed('{"n": 1.')).toEqual({ n: 1 });
+    expect(parsed('{"n": 2e-')).toEqual({ n: 2 });
+    expect(parsed('{"a": [1, -')).toEqual({ a: [1] });
+  });
+
+  it('returns null for text it cannot repair', () => {
+    expect(repairJson('not json')).toBeNull();
+    expect(repairJson('{a: 1}')).toBeNull();
+  });
+});
+
+describe('parseToolArguments', () => {
+  const call = { name: 'search', id: 'call_1' };
+
+  it('parses valid arguments without a repair', () => {
+    expect(parseToolArguments('{"q": "x"}', call)).toEqual({ args: { q: 'x' } });
+    expect(parseToolArguments('  ', call)).toEqual({ args: {} });
+  });
+
+  it('repairs by default and reports the outcome', () => {
+    expect(parseToolArguments('{"q": "x",}', call)).toEqual({
+      args: { q: 'x' },
+      repair: {
+        toolName: 'search',
+        toolCallId: 'call_1',
+        original: '{"q": "x",}',
+        outcome: 'repaired',
+        arguments: '{"q":"x"}',
+      },
+    });
+  });
+
+  it('replaces unrepairable and non-object arguments with {}', () => {
+    expect(parseToolArguments('not json', call).repair?.outcome).toBe('replaced');
+    expect(parseToolArguments('[1, 2]', call)).toMatchObject({
+      args: {},
+      repair: { outcome: 'replaced', arguments: '{}' },
+    });
+    expect(parseToolArguments('{"q": "x",}', call, 'replace')).toMatchObject({
+      args: {},
+      repair: { outcome: 'replaced' },
+    });
+  });
+
+  it("throws under 'throw'", () => {
+    expect(() => parseToolArguments('{"q": "x",}', call, 'throw')).toThrow(
+      MalformedToolArgumentsError,
+    );
+    expect(() => parseToolArguments('{"q": "x",}', call, 'throw')).toThrow(
+      'Arguments of tool call "search" (call_1) are not valid JSON',
+    );
+  });
+});
+
+describe('repairToolCalls', () => {
+  const history: Message[] = [
+    { role: 'user', content: 'go' },
+    {
+      role: 'assistant',
+      content: 'Running both.',
+      tool_calls: [
+        { id: 'c1', type: 'function', function: { name: 'ok', arguments: '{}' } },
+        { id: 'c2', type: 'function', function: { name: 'edit', arguments: '{"path": "a.ts",' } },
+        { id: 'c3', type: 'function', function: { name: 'run', arguments: '<<garbage>>' } },
+      ],
+    },
+  ];
+
+  it('rewrites malformed calls and notes replaced ones on the message', () => {
+    const { messages, repairs } = repairToolCalls(history);
+    const calls = messages[1].tool_calls ?? [];
+
+    expect(repairs.map((r) => [r.toolCallId, r.outcome])).toEqual([
+      ['c2', 'repaired'],
+      ['c3', 'replaced'],
+    ]);
+    expect(calls[0]).toBe(history[1].tool_calls?.[0]);
+    expect(calls[1].function.arguments).toBe('{"path":"a.ts"}');
+    expect(calls[2].function.arguments).toBe('{}');
+    expect(messages[1].content).toBe(
+      'Running both.\n[Arguments of the run call were not valid JSON and were replaced with {}]',
+    );
+    expect(messages[0]).toBe(history[0]);
+    expect(history[1].tool_calls?.[1].function.arguments).toBe('{"path": "a.ts",');
+  });
+
+  it('returns the input array when nothing needed repair', () => {
+    const clean = history.slice(0, 1);
+    expect(repairToolCalls(clean)).toEqual({ messages: clean, repairs: [] });
+    expect(repairToolCalls(clean).messages).toBe(clean);
+  });
+});
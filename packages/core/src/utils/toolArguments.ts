@@ -0,0 +1,205 @@
+import { Prompts } from '../prompts';
+import type { Message } from '../types';
+import { isRecord } from './jsonSchema';
+
+/**
+ * What to do with tool-call arguments that are not valid JSON:
+ * - `'repair'` — fix common model mistakes (see {@link repairJson}); fall
+ *   back to `'replace'` when the text cannot be repaired.
+ * - `'replace'` — use `{}` and leave a note in the assistant message.
+ * - `'throw'` — throw {@link MalformedToolArgumentsError}.
+ */
+export type MalformedArgumentsPolicy = 'repair' | 'replace' | 'throw';
+
+/** One tool call whose arguments were repaired or replaced. */
+export interface ToolArgumentsRepair {
+  toolName: string;
+  toolCallId?: string;
+  /** The arguments as the model produced them. */
+  original: string;
+  outcome: 'repaired' | 'replaced';
+  /** The arguments now in effect, as JSON. */
+  arguments: string;
+}
+
+export class MalformedToolArgumentsError extends Error {
+  readonly toolName: string;
+  readonly toolCallId?: string;
+  readonly original: string;
+
+  constructor(toolName: string, original: string, toolCallId?: string) {
+    super(
+      `Arguments of tool call "${toolName}"${toolCallId ? ` (${toolCallId})` : ''} are not valid JSON: ${original.slice(0, 200)}`,
+    );
+    this.name = 'MalformedToolArgumentsError';
+    this.toolName = toolName;
+    this.toolCallId = toolCallId;
+    this.original = original;
+  }
+}
+
+const LITERALS = ['true', 'false', 'null'];
+
+/**
+ * Best-effort repair of almost-JSON, as models emit it in tool-call
+ * arguments: strips Markdown code fences, drops trailing commas, escapes
+ * raw control characters (newlines, tabs) inside strings, and closes
+ * truncated output — an open string, a half-written literal, a dangling
+ * key or comma, and unclosed objects and arrays. Returns the repaired JSON
+ * text, or null when the result still does not parse.
+ *
+ * @example
+ * repairJson('{"path": "a.ts", "content": "line 1\nline 2",}'); // '{"path": "a.ts", "content": "line 1\\nline 2"}'
+ * repairJson('{"query": "weather in Par'); // '{"query": "weather in Par"}'
+ */
+export function repairJson(text: string): string | null {
+  const source = text
+    .trim()
+    .replace(/^```[a-z]*\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  let out = '';
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const ch of source) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+        out += ch;
+      } else if (ch === '\\') {
+        escaped = true;
+        out += ch;
+      } else if (ch === '"') {
+        inString = false;
+        out += ch;
+      } else if (ch < ' ') {
+        out += JSON.stringify(ch).slice(1, -1);
+      } else {
+        out += ch;
+      }
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === '{' || ch === '[') {
+      closers.push(ch === '{' ? '}' : ']');
+      out += ch;
+    } else if (ch === '}' || ch === ']') {
+      // Close whatever is open; a stray closer is dropped.
+      if (closers.length === 0) continue;
+      out = out.replace(/,\s*$/, '') + closers.pop();
+    } else {
+      out += ch;
+    }
+  }
+
+  // Truncated output: finish the open string, then whatever token was cut.
+  if (inString) {
+    if (escaped) out = out.slice(0, -1);
+    out += '"';
+  }
+  out = out.trimEnd();
+  out = out.replace(/(\d)[-+.eE]+$/, '$1').replace(/([:,[]\s*)-$/, '$1');
+  const literal = out.match(/[a-z]+$/)?.[0];
+  if (literal) {
+    const completed = LITERALS.find((l) => l.startsWith(literal));
+    if (completed) out += completed.slice(literal.length);
+  }
+  if (closers[closers.length - 1] === '}') {
+    // A key with no value yet: `{"a": 1, "b":` or `{"a": 1, "b"`.
+    out = out.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, '$1');
+  }
+  out = out.replace(/,\s*$/, '');
+  out += closers.reverse().join('');
+
+  try {
+    JSON.parse(out);
+    return out;
+  } catch {
+    return null;
+  }
+}
+
+function tryParseObject(text: string): Record<string, unknown> | undefined {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return isRecord(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses a tool call's JSON arguments, applying `policy` when they are
+ * malformed. Blank arguments count as `{}`. `repair` is set whenever the
+ * returned args differ from what the model sent.
+ */
+export function parseToolArguments(
+  raw: string,
+  call: { name: string; id?: string },
+  policy: MalformedArgumentsPolicy = 'repair',
+): { args: Record<string, unknown>; repair?: ToolArgumentsRepair } {
+  if (raw.trim() === '') return { args: {} };
+  const parsed = tryParseObject(raw);
+  if (parsed) return { args: parsed };
+
+  if (policy === 'throw') throw new MalformedToolArgumentsError(call.name, raw, call.id);
+
+  const report = (outcome: ToolArgumentsRepair['outcome'], args: Record<string, unknown>) => ({
+    args,
+    repair: {
+      toolName: call.name,
+      ...(call.id && { toolCallId: call.id }),
+      original: raw,
+      outcome,
+      arguments: JSON.stringify(args),
+    },
+  });
+
+  if (policy === 'repair') {
+    const repaired = repairJson(raw);
+    const args = repaired == null ? undefined : tryParseObject(repaired);
+    if (args) return report('repaired', args);
+  }
+  return report('replaced', {});
+}
+
+/**
+ * Applies {@link parseToolArguments} to every tool call in `messages`.
+ * Malformed arguments are rewritten as JSON; a replaced call also gets a
+ * {@link Prompts.getReplacedToolArgumentsNote} line on its message, so the
+ * model knows its call went out empty. Returns a new array — messages
+ * without repairs pass through by reference — plus every repair made.
+ */
+export function repairToolCalls(
+  messages: Message[],
+  policy: MalformedArgumentsPolicy = 'repair',
+): { messages: Message[]; repairs: ToolArgumentsRepair[] } {
+  const repairs: ToolArgumentsRepair[] = [];
+  const result = messages.map((msg) => {
+    if (!msg.tool_calls?.length) return msg;
+    const notes: string[] = [];
+    let changed = false;
+    const toolCalls = msg.tool_calls.map((tc) => {
+      const { repair } = parseToolArguments(
+        tc.function.arguments,
+        { name: tc.function.name, id: tc.id },
+        policy,
+      );
+      if (!repair) return tc;
+      changed = true;
+      repairs.push(repair);
+      if (repair.outcome === 'replaced') {
+        notes.push(Prompts.getReplacedToolArgumentsNote(tc.function.name));
+      }
+      return { ...tc, function: { ...tc.function, arguments: repair.arguments } };
+    });
+    if (!changed) return msg;
+    const content = [msg.content, ...notes].filter(Boolean).join('\n');
+    return { ...msg, content, tool_calls: toolCalls };
+  });
+  return { messages: repairs.length > 0 ? result : messages, repairs };
+}
@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { z } from 'zod';
 import { ContextChef } from '../src/index';
 import type { Message } from '../src/types';
@@ -241,3 +241,209 @@ describe('ContextChef.checkToolCall', () => {
     }
   });
 });
+
+describe('ContextChef.checkToolCall with toolPolicy', () => {
+  const makeChef = () =>
+    new ContextChef({
+      toolPolicy: {
+        rules: [
+          { id: 'deploys', tools: 'deploy_*', effect: 'confirm' },
+          { id: 'quota', tools: 'search', effect: 'deny', rateLimit: { max: 1, windowMs: 60_000 } },
+        ],
+      },
+    });
+
+  it('checks the blocklist first, then the policy rules', () => {
+    const chef = makeChef();
+    chef.getPruner().setBlockedTools(['deploy_prod']);
+
+    expect(chef.checkToolCall({ name: 'deploy_prod' })).toMatchObject({
+      outcome: 'deny',
+      violations: [{ rule: 'blocklist' }],
+    });
+    expect(chef.checkToolCall({ name: 'deploy_staging' })).toMatchObject({
+      outcome: 'confirm',
+      violations: [{ rule: 'deploys' }],
+    });
+    expect(chef.checkToolCall({ name: 'deploy_staging' }, { confirmed: true })).toEqual({
+      allowed: true,
+    });
+  });
+
+  it('persists rules and rate-limit state in the snapshot', () => {
+    const chef = makeChef();
+    expect(chef.checkToolCall({ name: 'search' }).allowed).toBe(true);
+    const snap = chef.snapshot();
+    expect(chef.checkToolCall({ name: 'search' }).allowed).toBe(false);
+
+    const fresh = new ContextChef();
+    fresh.restore(snap);
+    expect(
+      fresh
+        .getToolPolicy()
+        .getRules()
+        .map((r) => r.id),
+    ).toEqual(['deploys', 'quota']);
+    expect(fresh.checkToolCall({ name: 'search' }).allowed).toBe(false);
+
+    const { toolPolicy: _toolPolicy, ...legacyModules } = snap.modules;
+    chef.restore({ ...snap, modules: legacyModules });
+    expect(chef.getToolPolicy().getRules()).toHaveLength(2);
+  });
+});
+
+describe('ContextChef attachments', () => {
+  const screenshot = { mediaType: 'image/png', data: 'iVBORw0KGgo'.repeat(40) };
+  const adapter = () => {
+    const db = new Map<string, string>();
+    return {
+      write: (f: string, c: string) => void db.set(f, c),
+      read: (f: string) => db.get(f) ?? null,
+    };
+  };
+
+  it('offloads aged attachments in the compiled payload without touching history', async () => {
+    const chef = new ContextChef({
+      vfs: { adapter: adapter() },
+      attachments: { afterTurns: 1 },
+    });
+    const history: Message[] = [
+      { role: 'user', content: 'what is this?', attachments: [screenshot] },
+      { role: 'assistant', content: 'a login form' },
+      { role: 'user', content: 'thanks' },
+    ];
+    chef.setHistory(history);
+
+    const payload = await chef.compile();
+    const first = payload.messages[0] as Message;
+
+    expect(first.attachments).toBeUndefined();
+    expect(first.content).toMatch(/^\[image — stored at (context:\/\/vfs\/\S+)\]\nwhat is this\?$/);
+    expect(history[0].attachments).toEqual([screenshot]);
+  });
+
+  it('rehydrates requested attachments for the next compile only', async () => {
+    const chef = new ContextChef({
+      vfs: { adapter: adapter() },
+      attachments: { afterTurns: 1 },
+    });
+    chef.setHistory([
+      { role: 'user', content: 'what is this?', attachments: [screenshot] },
+      { role: 'assistant', content: 'a login form' },
+      { role: 'user', content: 'look again' },
+    ]);
+    const compiled = await chef.compile();
+    const uri = (compiled.messages[0] as Message).content.match(/stored at (\S+?)\]/)?.[1] ?? '';
+
+    expect(await chef.resolveAttachment(uri)).toEqual(screenshot);
+
+    // Target adapters turn restored attachments into media parts again.
+    const again = JSON.stringify((await chef.rehydrateAttachments([uri]).compile()).messages[0]);
+    expect(again).toContain(screenshot.data);
+    expect(again).not.toContain(uri);
+
+    const after = JSON.stringify((await chef.compile()).messages[0]);
+    expect(after).not.toContain(screenshot.data);
+    expect(after).toContain(uri);
+  });
+});
+
+describe('ContextChef malformed tool-call arguments', () => {
+  const history: Message[] = [
+    { role: 'user', content: 'edit it' },
+    {
+      role: 'assistant',
+      content: '',
+      tool_calls: [
+        {
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'edit', arguments: '{"path": "a.ts", "text": "x\ny",}' },
+        },
+      ],
+    },
+    { role: 'tool', tool_call_id: 'call_1', content: 'done' },
+  ];
+
+  it('repairs arguments for the anthropic target and reports each repair once', async () => {
+    const chef = new ContextChef().setHistory(history);
+    const repairs: unknown[] = [];
+    chef.on('tool_call:repaired', (repair) => {
+      repairs.push(repair);
+    });
+
+    const payload = await chef.compile({ target: 'anthropic' });
+    await chef.compile({ target: 'anthropic' });
+
+    expect(JSON.stringify(payload.messages[1])).toContain('"input":{"path":"a.ts","text":"x\\ny"}');
+    expect(repairs).toEqual([
+      {
+        toolName: 'edit',
+        toolCallId: 'call_1',
+        original: '{"path": "a.ts", "text": "x\ny",}',
+        outcome: 'repaired',
+        arguments: '{"path":"a.ts","text":"x\\ny"}',
+      },
+    ]);
+    expect(history[1].tool_calls?.[0].function.arguments).toBe('{"path": "a.ts", "text": "x\ny",}');
+  });
+
+  it('forgets reported repairs once their calls leave the history', async () => {
+    const chef = new ContextChef().setHistory(history);
+    const handler = vi.fn();
+    chef.on('tool_call:repaired', handler);
+
+    await chef.compile();
+    chef.setHistory(history.slice(0, 1));
+    await chef.compile();
+    chef.setHistory(history);
+    await chef.compile();
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    chef.clearHistory().setHistory(history);
+    await chef.compile();
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it("throws under malformedToolArguments: 'throw'", async () => {
+    const chef = new ContextChef({ malformedToolArguments: 'throw' }).setHistory(history);
+    await expect(chef.compile()).rejects.toThrow('Arguments of tool call "edit" (call_1)');
+  });
+});
+
+describe('ContextChef tool formatting', () => {
+  const tools = [
+    {
+      name: 'read_file',
+      description: 'Read a file',
+      parameters: { path: { type: 'string' } },
+      tags: ['file'],
+    },
+  ];
+  const history: Message[] = [{ role: 'user', content: 'hi' }];
+
+  it('emits tools in the target format', async () => {
+    const chef = new ContextChef().registerTools(tools).setHistory(history);
+
+    const openai = await chef.compile({ target: 'openai' });
+    const anthropic = await chef.compile({ target: 'anthropic' });
+    const gemini = await chef.compile({ target: 'gemini' });
+
+    expect(openai.tools?.[0].function).toEqual({
+      name: 'read_file',
+      description: 'Read a file',
+      parameters: { type: 'object', properties: { path: { type: 'string' } } },
+    });
+    expect(anthropic.tools?.[0].input_schema).toEqual({
+      type: 'object',
+      properties: { path: { type: 'string' } },
+    });
+    expect(gemini.tools?.[0].functionDeclarations?.map((d) => d.name)).toEqual(['read_file']);
+  });
+
+  it('passes ToolDefinitions through for adapters without compileTools', async () => {
+    const chef = new ContextChef().registerTools(tools).setHistory(history);
+    const payload = await chef.compile({ target: { compile: (messages) => ({ messages }) } });
+    expect(payload.tools).toEqual(tools);
+  });
+});
@@ -369,6 +369,43 @@ describe('E3: Snapshot & Restore', () => {
   });
 });
 
+describe('Snapshots as VFS roots', () => {
+  const makeAdapter = () => {
+    const db = new Map<string, string>();
+    return {
+      write: (filename: string, content: string) => {
+        db.set(filename, content);
+      },
+      read: (filename: string) => db.get(filename) ?? null,
+      list: () => [...db.keys()],
+      delete: (filename: string) => {
+        db.delete(filename);
+      },
+    };
+  };
+
+  it('protects URIs in the live history and in retained snapshots', () => {
+    const chef = new ContextChef({
+      vfs: { adapter: makeAdapter(), threshold: 10, maxFiles: 0, protectReferenced: true },
+    });
+    const live = chef.offload('live output '.repeat(5), { tailChars: 0 });
+    const saved = chef.offload('saved output '.repeat(5), { tailChars: 0 });
+    chef.setHistory([userMsg('run it'), { role: 'tool', content: saved, tool_call_id: 'c1' }]);
+    const snap = chef.snapshot();
+    chef.setHistory([userMsg('run it'), { role: 'tool', content: live, tool_call_id: 'c1' }]);
+
+    expect(chef.getOffloader().cleanup().protected).toHaveLength(1);
+    chef.offload('saved output '.repeat(5), { tailChars: 0 });
+    chef.retainSnapshot(snap);
+    expect(chef.getOffloader().cleanup().protected).toHaveLength(2);
+
+    chef.releaseSnapshot(snap);
+    const result = chef.getOffloader().cleanup();
+    expect(result.evicted).toHaveLength(1);
+    expect(result.protected).toHaveLength(1);
+  });
+});
+
 describe('VFSMemoryStore snapshot & restore', () => {
   const testDir = path.join(process.cwd(), '.test_vfs_snapshot');
 
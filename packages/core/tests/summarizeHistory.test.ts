@@ -1,7 +1,13 @@
 import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
 
 import type { Message } from '../src';
-import { summarizeHistory } from '../src';
+import {
+  Prompts,
+  StructuredSummaryError,
+  summarizeHistory,
+  summarizeHistoryStructured,
+} from '../src';
 
 const slice: Message[] = [
   { role: 'user', content: 'plan a trip to Kyoto' },
@@ -123,4 +129,104 @@ describe('summarizeHistory', () => {
     expect(toolEntry?.content).toBe(longContent);
     expect(toolEntry?.content).not.toContain('omitted before summarization');
   });
+
+  it('uses the incremental merge instruction when previousSummary is set', async () => {
+    let instruction = '';
+    const compress = vi.fn(async (messages: Message[]) => {
+      instruction = messages[messages.length - 1].content;
+      return '<summary>merged</summary>';
+    });
+    const out = await summarizeHistory(slice, compress, { previousSummary: 'Earlier: Osaka' });
+    expect(out).toBe('merged');
+    expect(instruction).toBe(Prompts.getIncrementalCompactionInstruction('Earlier: Osaka'));
+    expect(instruction).not.toBe(Prompts.CONTEXT_COMPACTION_INSTRUCTION);
+  });
+
+  it('returns empty string for an empty delta even with previousSummary', async () => {
+    const compress = vi.fn(async () => '<summary>should not run</summary>');
+    const out = await summarizeHistory([], compress, { previousSummary: 'prev' });
+    expect(out).toBe('');
+    expect(compress).not.toHaveBeenCalled();
+  });
+});
+
+describe('summarizeHistoryStructured', () => {
+  const schema = z.object({
+    destination: z.string(),
+    openTodos: z.array(z.string()),
+  });
+
+  it('prompts with the JSON Schema, validates, and renders the object as XML', async () => {
+    const compress = vi.fn(async (messages: Message[]) => {
+      const instruction = messages[messages.length - 1].content;
+      expect(instruction).toContain('<json_schema>');
+      expect(instruction).toContain('"openTodos"');
+      return '<analysis>x</analysis><summary>{"destination":"Kyoto","openTodos":["book hotel"]}</summary>';
+    });
+
+    const out = await summarizeHistoryStructured(slice, compress, { schema });
+
+    expect(compress).toHaveBeenCalledOnce();
+    expect(out?.data).toEqual({ destination: 'Kyoto', openTodos: ['book hotel'] });
+    expect(out?.summary).toContain('<destination>Kyoto</destination>');
+  });
+
+  it('tolerates a code fence around the JSON', async () => {
+    const out = await summarizeHistoryStructured(
+      slice,
+      async () => '<summary>```json\n{"destination":"Kyoto","openTodos":[]}\n```</summary>',
+      { schema },
+    );
+    expect(out?.data.destination).toBe('Kyoto');
+  });
+
+  it('retries once with the validation error, then succeeds', async () => {
+    const calls: Message[][] = [];
+    const compress = vi.fn(async (messages: Message[]) => {
+      calls.push(messages);
+      return calls.length === 1
+        ? '<summary>{"destination":"Kyoto"}</summary>'
+        : '<summary>{"destination":"Kyoto","openTodos":[]}</summary>';
+    });
+
+    const out = await summarizeHistoryStructured(slice, compress, { schema });
+
+    expect(compress).toHaveBeenCalledTimes(2);
+    const retry = calls[1];
+    expect(retry[retry.length - 2]).toEqual({
+      role: 'assistant',
+      content: '<summary>{"destination":"Kyoto"}</summary>',
+    });
+    expect(retry[retry.length - 1].content).toContain('openTodos');
+    expect(out?.data).toEqual({ destination: 'Kyoto', openTodos: [] });
+  });
+
+  it('throws StructuredSummaryError when the retry also fails', async () => {
+    const compress = vi.fn(async () => '<summary>not json</summary>');
+
+    const err = await summarizeHistoryStructured(slice, compress, { schema }).catch((e) => e);
+
+    expect(compress).toHaveBeenCalledTimes(2);
+    expect(err).toBeInstanceOf(StructuredSummaryError);
+    expect(err.raw).toBe('<summary>not json</summary>');
+    expect(err.message).toContain('Not valid JSON');
+  });
+
+  it('merges into previousSummary when set', async () => {
+    let instruction = '';
+    const compress = vi.fn(async (messages: Message[]) => {
+      instruction = messages[messages.length - 1].content;
+      return '<summary>{"destination":"Kyoto","openTodos":[]}</summary>';
+    });
+
+    await summarizeHistoryStructured(slice, compress, { schema, previousSummary: 'PREV' });
+
+    expect(instruction).toContain('<previous_summary>\nPREV\n</previous_summary>');
+  });
+
+  it('returns null for an empty slice without calling compress', async () => {
+    const compress = vi.fn(async () => 'unused');
+    expect(await summarizeHistoryStructured([], compress, { schema })).toBeNull();
+    expect(compress).not.toHaveBeenCalled();
+  });
 });
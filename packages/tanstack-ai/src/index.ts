@@ -1,6 +1,7 @@
 export type { ClearTarget } from '@context-chef/core';
 export { fromTanStackAI, type TanStackAIMessage, toTanStackAI } from './adapter';
 export { contextChefMiddleware } from './middleware';
+export { createReadContextTool } from './readContext';
 export type {
   CompactConfig,
   CompressOptions,
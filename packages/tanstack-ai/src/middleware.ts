@@ -4,10 +4,12 @@ import {
   compactMessages as clearMessages,
   dedupeConstructionWarnings,
   flattenForCompression,
+  InMemorySummaryCache,
   Janitor,
   type Message,
   normalizeSessionKey,
   Prompts,
+  READ_CONTEXT_TOOL_NAME,
   SessionPool,
   XmlGenerator,
 } from '@context-chef/core';
@@ -15,7 +17,8 @@ import type { AnyTextAdapter, ChatMiddleware, ModelMessage } from '@tanstack/ai'
 
 import { fromTanStackAI, toTanStackAI } from './adapter';
 import { compactMessages } from './compact';
-import { truncateToolResults } from './truncator';
+import { createReadContextTool } from './readContext';
+import { dropSessionStorage, truncateToolResults } from './truncator';
 import type { ContextChefOptions, DynamicStateConfig } from './types';
 
 /**
@@ -44,7 +47,9 @@ import type { ContextChefOptions, DynamicStateConfig } from './types';
  * });
  * ```
  */
-export function contextChefMiddleware(options: ContextChefOptions): ChatMiddleware {
+export function contextChefMiddleware<TSummary = unknown>(
+  options: ContextChefOptions<TSummary>,
+): ChatMiddleware {
   const logger: ChefLogger = options.logger ?? console;
   const clearsToolResults = !!options.clear?.some(
     (t) => t === 'tool-result' || (typeof t === 'object' && t.target === 'tool-result'),
@@ -63,6 +68,18 @@ export function contextChefMiddleware(options: ContextChefOptions): ChatMiddlewa
 
   let usageWarned = false;
 
+  // Offloaded results point at context:// URIs; give the model a way to read them.
+  const readContextTool =
+    options.truncate?.storage && options.truncate.readContextTool !== false
+      ? createReadContextTool(options.truncate.storage)
+      : undefined;
+
+  // Content-addressed, so one cache safely serves every conversation below.
+  const summaryCache =
+    options.compress?.summaryCache === false
+      ? undefined
+      : (options.compress?.summaryCache ?? new InMemorySummaryCache());
+
   // The Janitor config is a discriminated union on `tokenizer`. Build the two
   // branches separately so the literal type matches one of the union members
   // exactly — a single literal carrying `tokenizer: Fn | undefined` would not
@@ -70,15 +87,34 @@ export function contextChefMiddleware(options: ContextChefOptions): ChatMiddlewa
   const sharedJanitorConfig = {
     contextWindow: options.contextWindow,
     toolResultStubThreshold: options.compress?.toolResultStubThreshold,
+    incrementalSummary: options.compress?.incrementalSummary,
+    hierarchicalSummary: options.compress?.hierarchicalSummary,
+    summarySchema: options.compress?.summarySchema,
+    compressionFallbacks: [
+      ...(options.compress?.fallbackAdapters?.map((m) => createCompressionAdapter(m)) ?? []),
+      ...(options.compress?.fallbackCompressors ?? []),
+    ],
+    summaryChecks: options.compress?.summaryChecks,
+    degradation: options.compress?.degradation,
+    speculativeCompression: options.compress?.speculativeCompression,
+    summaryCache,
     compressionModel: options.compress?.adapter
       ? createCompressionAdapter(options.compress.adapter)
       : undefined,
     onCompress: options.onCompress
-      ? (summary: Message, count: number, details: CompressionDetails) =>
+      ? (summary: Message, count: number, details: CompressionDetails<TSummary>) =>
           options.onCompress?.(summary.content, count, {
             compressedMessages: toTanStackAI(details.compressedMessages),
+            ...(details.tiers && { tiers: details.tiers }),
+            ...(details.compressionModelIndex !== undefined && {
+              compressionModelIndex: details.compressionModelIndex,
+            }),
+            ...(details.structuredSummary !== undefined && {
+              structuredSummary: details.structuredSummary,
+            }),
           })
       : undefined,
+    onDegrade: options.onDegrade,
     onBeforeCompress: options.onBeforeCompress,
     logger,
   };
@@ -130,8 +166,34 @@ export function contextChefMiddleware(options: ContextChefOptions): ChatMiddlewa
     );
   };
 
+  const sessionKeyFor = (ctx: { conversationId?: string }): string =>
+    normalizeSessionKey(ctx.conversationId, flagInvalidConversationId);
+
   const janitorFor = (ctx: { conversationId?: string }): Janitor =>
-    janitors.get(normalizeSessionKey(ctx.conversationId, flagInvalidConversationId));
+    janitors.get(sessionKeyFor(ctx));
+
+  // With `truncate.sessionQuota`, each conversation's offloaded tool results
+  // live in their own namespace of the shared storage. This pool mirrors the
+  // Janitor pool's cap and deletes a conversation's namespace once it drops
+  // out, so abandoned conversations don't hold storage.
+  const truncate = options.truncate;
+  let storageSessions: SessionPool<string> | null = null;
+  if (truncate?.summarizer && !truncate.storage) {
+    logger.warn('[context-chef] `truncate.summarizer` requires `truncate.storage` — ignoring it.');
+  }
+  if (truncate?.sessionQuota) {
+    if (truncate.storage?.list && truncate.storage.delete) {
+      storageSessions = new SessionPool((key) => key, {
+        maxSize: options.maxSessions,
+        onEvict: (key) => void dropSessionStorage(truncate, key, logger),
+      });
+    } else {
+      logger.warn(
+        '[context-chef] `truncate.sessionQuota` requires a `truncate.storage` adapter with ' +
+          'list() and delete() — ignoring it.',
+      );
+    }
+  }
 
   return {
     name: 'context-chef',
@@ -143,7 +205,8 @@ export function contextChefMiddleware(options: ContextChefOptions): ChatMiddlewa
 
       // 1. Truncate large tool results
       if (options.truncate) {
-        messages = await truncateToolResults(messages, options.truncate, logger);
+        const session = storageSessions?.get(sessionKeyFor(ctx));
+        messages = await truncateToolResults(messages, options.truncate, logger, session);
       }
 
       // 2. Convert to IR
@@ -155,7 +218,7 @@ export function contextChefMiddleware(options: ContextChefOptions): ChatMiddlewa
       }
 
       // 4. Compress conversation history if over token budget
-      irMessages = await janitor.compress(irMessages);
+      irMessages = await janitor.compress(irMessages, { signal: ctx.signal });
 
       // 4.5 Placeholder-style clearing (core semantics) — after compress so
       // the summarizer saw full content; placeholders only hit the kept tail.
@@ -193,6 +256,9 @@ export function contextChefMiddleware(options: ContextChefOptions): ChatMiddlewa
         systemPrompts = transformed.systemPrompts;
       }
 
+      if (readContextTool && !config.tools?.some((t) => t.name === READ_CONTEXT_TOOL_NAME)) {
+        return { messages, systemPrompts, tools: [...(config.tools ?? []), readContextTool] };
+      }
       return { messages, systemPrompts };
     },
 
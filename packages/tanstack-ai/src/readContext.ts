@@ -0,0 +1,30 @@
+import {
+  getReadContextToolDefinition,
+  Offloader,
+  type ReadContextArgs,
+  type ReadContextLimits,
+  type VFSStorageAdapter,
+} from '@context-chef/core';
+import type { Tool } from '@tanstack/ai';
+
+/**
+ * Server tool that reads back content offloaded by `truncate.storage` — by
+ * line range, character window, or regex search. The middleware registers
+ * it automatically when `truncate.storage` is set; use this directly to
+ * register it elsewhere.
+ */
+export function createReadContextTool(
+  storage: VFSStorageAdapter,
+  limits?: ReadContextLimits,
+): Tool {
+  const definition = getReadContextToolDefinition();
+  const offloader = new Offloader({ adapter: storage });
+  return {
+    name: definition.name,
+    description: definition.description,
+    inputSchema: definition.parameters,
+    // Validated by readContextAsync() itself, which answers bad arguments
+    // with an error line the model can act on.
+    execute: (args: ReadContextArgs) => offloader.readContextAsync(args, limits),
+  };
+}
@@ -1,25 +1,42 @@
-import { type ChefLogger, Offloader } from '@context-chef/core';
+import {
+  type ChefLogger,
+  type ExtractionStrategy,
+  type ExtractionStrategyName,
+  Offloader,
+  truncateInline,
+  type VFSStorageAdapter,
+} from '@context-chef/core';
 import type { ModelMessage } from '@tanstack/ai';
 import type { TruncateOptions } from './types';
 
+// One Offloader per options object when it holds state worth keeping across
+// calls — the summary memo, or the per-session index `sessionQuota` caps —
+// since the whole history is re-truncated on every request.
+const cachedOffloaders = new WeakMap<TruncateOptions, Offloader>();
+
 /**
  * Truncates tool-result content within TanStack AI messages when it exceeds the configured threshold.
  * When a storage adapter is provided, original content is persisted and a URI is included in the output.
+ * With `sessionQuota`, pass the caller's session key as `session` to store results in its namespace.
  */
 export async function truncateToolResults(
   messages: ModelMessage[],
   options: TruncateOptions,
   logger: ChefLogger = console,
+  session?: string,
 ): Promise<ModelMessage[]> {
-  const { threshold, headChars = 0, tailChars = 1000, storage } = options;
+  const { threshold, headChars = 0, tailChars = 1000, storage, summarizer, strategy } = options;
 
-  const offloader = storage ? new Offloader({ threshold, adapter: storage, logger }) : null;
+  const offloader = storage ? offloaderFor(options, storage, logger) : null;
+  const namespace = options.sessionQuota ? session : undefined;
+  let stored = false;
   const policy = buildPolicyMap(options.perTool);
   // TanStack's UIMessage → ModelMessage path constructs tool messages with only
   // `role / content / toolCallId` (no `name`). Resolve the tool name by
   // tracking each preceding assistant turn's toolCalls so `perTool` works for
   // standard chat() consumers, not just for callers who set `msg.name` by hand.
   const toolCallIdToName = new Map<string, string>();
+  const toolCallIdToArgs = new Map<string, string>();
 
   const result: ModelMessage[] = [];
 
@@ -27,6 +44,7 @@ export async function truncateToolResults(
     if (msg.role === 'assistant' && msg.toolCalls) {
       for (const tc of msg.toolCalls) {
         toolCallIdToName.set(tc.id, tc.function.name);
+        toolCallIdToArgs.set(tc.id, tc.function.arguments);
       }
     }
 
@@ -47,9 +65,11 @@ export async function truncateToolResults(
     const effThreshold = toolPolicy?.threshold ?? threshold;
     const effHeadChars = toolPolicy?.headChars ?? headChars;
     const effTailChars = toolPolicy?.tailChars ?? tailChars;
+    const effStrategy = toolPolicy?.strategy ?? strategy;
 
     const text = extractToolText(msg.content);
-    if (text.length <= effThreshold || effHeadChars + effTailChars >= text.length) {
+    const summarize = !!(offloader && summarizer);
+    if (text.length <= effThreshold || (!summarize && effHeadChars + effTailChars >= text.length)) {
       result.push(msg);
       continue;
     }
@@ -61,7 +81,15 @@ export async function truncateToolResults(
           threshold: effThreshold,
           headChars: effHeadChars,
           tailChars: effTailChars,
+          summarizer,
+          strategy: effStrategy,
+          namespace,
+          toolName,
+          toolArgs: parseToolArgs(
+            msg.toolCallId ? toolCallIdToArgs.get(msg.toolCallId) : undefined,
+          ),
         });
+        stored ||= vfsResult.isOffloaded;
         result.push({ ...msg, content: vfsResult.content });
         continue;
       } catch (error) {
@@ -74,25 +102,85 @@ export async function truncateToolResults(
     }
 
     // Without storage: simple truncation, original is discarded
-    const head = text.slice(0, effHeadChars);
-    const tail = text.slice(text.length - effTailChars);
-    const totalLines = text.split('\n').length;
-
-    const truncated = [
-      head,
-      `\n--- truncated (${totalLines} lines, ${text.length} chars total) ---\n`,
-      tail,
-    ]
-      .filter(Boolean)
-      .join('')
-      .trim();
+    const truncated = truncateInline(text, effHeadChars, effTailChars, effStrategy, logger);
 
     result.push({ ...msg, content: truncated });
   }
 
+  if (offloader && namespace && stored) {
+    await enforceSessionQuota(offloader, namespace, result, logger);
+  }
   return result;
 }
 
+/**
+ * Applies `sessionQuota` to the session's namespace. Results the outgoing
+ * history still references are kept, so the model is never handed a URI
+ * whose content was just deleted.
+ */
+async function enforceSessionQuota(
+  offloader: Offloader,
+  namespace: string,
+  outgoing: ModelMessage[],
+  logger: ChefLogger,
+): Promise<void> {
+  try {
+    await offloader.cleanupAsync({ namespace, protectReferenced: true, roots: [outgoing] });
+  } catch (error) {
+    logger.warn(
+      `[context-chef] Session storage quota cleanup failed. ` +
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+function offloaderFor(
+  options: TruncateOptions,
+  storage: VFSStorageAdapter,
+  logger: ChefLogger,
+): Offloader {
+  const cached = cachedOffloaders.get(options);
+  if (cached) return cached;
+  const offloader = new Offloader({
+    threshold: options.threshold,
+    adapter: storage,
+    namespaceLimits: options.sessionQuota,
+    logger,
+  });
+  if (options.summarizer || options.sessionQuota) cachedOffloaders.set(options, offloader);
+  return offloader;
+}
+
+/**
+ * Deletes everything stored for `session` under `sessionQuota` — called when
+ * the session leaves the middleware's session pool. Failures are logged.
+ */
+export async function dropSessionStorage(
+  options: TruncateOptions,
+  session: string,
+  logger: ChefLogger = console,
+): Promise<void> {
+  if (!options.storage) return;
+  try {
+    await offloaderFor(options, options.storage, logger).dropNamespaceAsync(session);
+  } catch (error) {
+    logger.warn(
+      `[context-chef] Failed to drop stored tool results for session "${session}". ` +
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/** Tool call arguments arrive as a JSON string; pass them on parsed when possible. */
+function parseToolArgs(args: string | undefined): unknown {
+  if (!args) return undefined;
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
+  }
+}
+
 type ToolPolicy =
   | { preserve: true }
   | {
@@ -100,6 +188,7 @@ type ToolPolicy =
       threshold?: number;
       headChars?: number;
       tailChars?: number;
+      strategy?: ExtractionStrategyName | ExtractionStrategy;
     };
 
 /**
@@ -118,6 +207,7 @@ function buildPolicyMap(perTool: TruncateOptions['perTool']): Map<string, ToolPo
         threshold: entry.threshold,
         headChars: entry.headChars,
         tailChars: entry.tailChars,
+        strategy: entry.strategy,
       });
     }
   }
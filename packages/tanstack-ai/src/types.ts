@@ -1,8 +1,21 @@
 import type {
   ChefLogger,
   ClearTarget,
+  CompressionModel,
+  DegradationEvent,
+  DegradationPolicy,
+  ExtractionStrategy,
+  ExtractionStrategyName,
+  HierarchicalSummaryConfig,
+  JanitorConfig,
   Message,
   Skill,
+  SpeculativeCompressionConfig,
+  SummaryCacheStore,
+  SummaryQualityCheck,
+  SummaryTier,
+  ToolResultSummarizer,
+  VFSNamespaceLimits,
   VFSStorageAdapter,
 } from '@context-chef/core';
 import type { AnyTextAdapter, ModelMessage } from '@tanstack/ai';
@@ -19,13 +32,50 @@ export interface TruncateOptions {
    * When provided, truncated output includes a `context://vfs/` URI for retrieval.
    */
   storage?: VFSStorageAdapter;
+  /**
+   * Summarizes an oversized tool result instead of keeping only head/tail
+   * characters. Receives the tool name and the originating tool call's
+   * arguments (parsed from JSON when possible). The summary and the
+   * `context://vfs/` URI replace the result; a throw falls back to
+   * head/tail. Requires `storage` (ignored with a warning otherwise), which
+   * keeps the original retrievable and lets summaries be reused across calls.
+   */
+  summarizer?: ToolResultSummarizer;
+  /**
+   * Chooses what the truncated preview keeps instead of plain head/tail:
+   * `'log'` (error/warning lines with context), `'diff'` (hunk headers and
+   * changed lines), `'json'` (structural skeleton), `'stack-trace'`
+   * (exception headers and top/application frames), or a custom function.
+   * The excerpt is bounded by `headChars + tailChars`; content the strategy
+   * doesn't recognise keeps the head/tail preview. Usually set per tool via
+   * `perTool`.
+   */
+  strategy?: ExtractionStrategyName | ExtractionStrategy;
+  /**
+   * Gives each conversation its own slice of `storage`. Results are stored
+   * under `ctx.conversationId` (calls without one share the default
+   * conversation) and capped per conversation, so a runaway conversation
+   * evicts its own least-recently-used results rather than everyone else's.
+   * Results the current request still references are never evicted. A
+   * conversation's stored results are deleted once it drops out of the
+   * `maxSessions` pool. Requires a `storage` adapter with `list()` and
+   * `delete()` (ignored with a warning otherwise).
+   */
+  sessionQuota?: VFSNamespaceLimits;
+  /**
+   * Registers the `read_context` tool (see `createReadContextTool`) so the
+   * model can page through and search offloaded results. Only applies with
+   * `storage`. A tool already named `read_context` is left in place.
+   * Default: true.
+   */
+  readContextTool?: boolean;
   /**
    * Per-tool overrides applied on top of the defaults above.
    *
    * - String entry → preserve: never truncate this tool's result. Storage
    *   is bypassed entirely (nothing written to VFS).
-   * - Object entry → override `threshold` / `headChars` / `tailChars` for
-   *   that tool only. Storage behavior unchanged.
+   * - Object entry → override `threshold` / `headChars` / `tailChars` /
+   *   `strategy` for that tool only. Storage behavior unchanged.
    *
    * Tools not listed fall back to the top-level defaults. If the same
    * `name` appears more than once, the last entry wins (a bare string
@@ -53,11 +103,12 @@ export interface TruncateOptions {
         threshold?: number;
         headChars?: number;
         tailChars?: number;
+        strategy?: ExtractionStrategyName | ExtractionStrategy;
       }
   >;
 }
 
-export interface CompressOptions {
+export interface CompressOptions<TSummary = unknown> {
   /** A cheap TanStack AI adapter used for summarization (e.g. openaiText('gpt-4o-mini')). */
   adapter: AnyTextAdapter;
   /** Ratio of context window to preserve for recent messages. Default: 0.8 */
@@ -87,6 +138,64 @@ export interface CompressOptions {
    *   at construction time with a warning via the configured logger.
    */
   usagePreference?: 'max' | 'feedFirst' | 'tokenizerFirst';
+  /**
+   * Incremental summarization: merge newly evicted turns into the previous
+   * summary instead of re-summarizing the whole slice each time. Only takes
+   * effect when the previous summary message comes back in the history —
+   * i.e. when you persist it via `onCompress`. Default: false.
+   */
+  incrementalSummary?: boolean;
+  /**
+   * Summarize evicted turns into level-0 chunks that are rolled up into
+   * higher-level epoch summaries over time, with optional per-tier token caps.
+   * Pass `true` for defaults. Takes precedence over `incrementalSummary`.
+   */
+  hierarchicalSummary?: boolean | HierarchicalSummaryConfig;
+  /**
+   * zod schema for structured summaries: the compression model returns JSON
+   * matching it (one retry on validation failure), the validated object is
+   * rendered into the summary and passed to `onCompress` as
+   * `details.structuredSummary`.
+   */
+  summarySchema?: JanitorConfig<TSummary>['summarySchema'];
+  /**
+   * Tried in order when `adapter` fails or its summary is rejected by
+   * `summaryChecks`. For a deterministic last resort, use `fallbackCompressors`
+   * with core's `createExtractiveCompressionModel()`.
+   */
+  fallbackAdapters?: AnyTextAdapter[];
+  /** Raw compression-model callbacks appended after `fallbackAdapters`. */
+  fallbackCompressors?: CompressionModel[];
+  /**
+   * Quality gates for every candidate summary; a rejection moves on to the
+   * next model. See core's `minSummaryLength` / `requireMentions` /
+   * `maxSummaryTokens`.
+   */
+  summaryChecks?: SummaryQualityCheck[];
+  /**
+   * Tiered degradation: clear thinking, stub, then offload large tool
+   * results as usage approaches the context window, before summarizing.
+   * Thresholds are fractions of the window. Supply `offload` to enable the
+   * offload rung — the middleware has no default VFS for it.
+   */
+  degradation?: DegradationPolicy;
+  /**
+   * Start summarizing in the background once usage crosses a soft threshold
+   * (default 0.8 of the window), so the call that exceeds the budget can
+   * swap the cached summary in without waiting on the model. Only pays off
+   * when the evicted prefix comes back unchanged on later calls.
+   */
+  speculativeCompression?: boolean | SpeculativeCompressionConfig;
+  /**
+   * Content-addressed summary cache, keyed by a hash of the compressed
+   * prefix. Requests that re-send the same prefix reuse the earlier summary
+   * without a model call — including the call right after a compression,
+   * which would otherwise go out uncompressed. Defaults to an
+   * `InMemorySummaryCache` shared by all sessions of this middleware; pass
+   * your own `SummaryCacheStore` to share across processes, or `false` to
+   * disable.
+   */
+  summaryCache?: SummaryCacheStore | false;
 }
 
 /**
@@ -128,11 +237,12 @@ export interface DynamicStateConfig {
   placement?: 'system' | 'last_user';
 }
 
-export interface ContextChefOptions {
+/** `TSummary` is the output type of `compress.summarySchema`, inferred from it. */
+export interface ContextChefOptions<TSummary = unknown> {
   /** The model's context window size in tokens. */
   contextWindow: number;
   /** Enable history compression. Omit for no compression. */
-  compress?: CompressOptions;
+  compress?: CompressOptions<TSummary>;
   /** Enable tool result truncation. Omit for no truncation. */
   truncate?: TruncateOptions;
   /**
@@ -150,7 +260,10 @@ export interface ContextChefOptions {
    * boundary advances each turn, which invalidates the provider prefix
    * cache at the first newly-cleared message — inherent to the semantics.
    *
-   * Scope: only `'tool-result'` targets take effect here. A `'thinking'`
+   * `'duplicate-tool-result'` instead replaces older copies of a repeated
+   * result with a back-reference to the newest copy (no explainer needed).
+   *
+   * Scope: only tool-result targets take effect here. A `'thinking'`
    * target is a no-op (reasoning parts pass through the adapter unchanged)
    * and logs a warning — use `compact` to drop reasoning.
    */
@@ -214,12 +327,29 @@ export interface ContextChefOptions {
    * as a marker in your own store. These are the post-transform messages
    * (after truncate/compact): match tool messages back to your records by
    * `toolCallId`; user/assistant text is not modified by those steps.
+   *
+   * `details.tiers` carries the summary tier layout when
+   * `compress.hierarchicalSummary` is enabled; `details.structuredSummary`
+   * the validated object when `compress.summarySchema` is set;
+   * `details.compressionModelIndex` which model in the compression chain
+   * produced the summary (0 = the primary).
    */
   onCompress?: (
     summary: string,
     truncatedCount: number,
-    details: { compressedMessages: ModelMessage[] },
+    details: {
+      compressedMessages: ModelMessage[];
+      tiers?: SummaryTier[];
+      structuredSummary?: TSummary;
+      compressionModelIndex?: number;
+    },
   ) => void;
+  /**
+   * Called for each rung of the degradation ladder that changed the history
+   * (see `compress.degradation`), and with stage `'summarize'` whenever
+   * compression evicts messages.
+   */
+  onDegrade?: (event: DegradationEvent) => void;
   /**
    * Called when token budget is exceeded, before LLM compression.
    * Return modified messages to replace history, or null/undefined to
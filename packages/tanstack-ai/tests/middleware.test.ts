@@ -1,4 +1,4 @@
-import type { Skill } from '@context-chef/core';
+import { Janitor, type Skill } from '@context-chef/core';
 import type { ChatMiddlewareConfig, ChatMiddlewareContext, ModelMessage } from '@tanstack/ai';
 import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
 import { contextChefMiddleware } from '../src/middleware';
@@ -100,6 +100,57 @@ describe('contextChefMiddleware', () => {
     expect(toolMsg?.content).toContain('--- truncated');
   });
 
+  it('registers read_context when truncate.storage is set, and it reads the stored original', async () => {
+    const stored = new Map<string, string>();
+    const storage = {
+      write: (filename: string, content: string) => {
+        stored.set(filename, content);
+      },
+      read: (filename: string) => stored.get(filename) ?? null,
+    };
+    const mw = contextChefMiddleware({
+      contextWindow: 100_000,
+      truncate: { threshold: 50, tailChars: 5, storage },
+    });
+    const original = Array.from({ length: 40 }, (_, i) => `row ${i + 1}`).join('\n');
+    const messages: ModelMessage[] = [
+      { role: 'user', content: 'Run the tool' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'tc_1', type: 'function', function: { name: 'big_tool', arguments: '{}' } },
+        ],
+      },
+      { role: 'tool', content: original, toolCallId: 'tc_1' },
+    ];
+
+    const result = (await mw.onConfig?.(
+      createMockCtx(),
+      createMockConfig(messages),
+    )) as Partial<ChatMiddlewareConfig>;
+    const readContext = result.tools?.find((t) => t.name === 'read_context');
+    const uri = (result.messages?.[2].content as string).match(/context:\/\/vfs\/\S+/)?.[0];
+
+    expect(readContext).toBeDefined();
+    expect(await readContext?.execute?.({ uri, startLine: 20, endLine: 20 })).toContain(
+      '20\trow 20',
+    );
+  });
+
+  it('does not register read_context when opted out', async () => {
+    const mw = contextChefMiddleware({
+      contextWindow: 100_000,
+      truncate: {
+        threshold: 50,
+        storage: { write: () => {}, read: () => null },
+        readContextTool: false,
+      },
+    });
+    const result = await mw.onConfig?.(createMockCtx(), createMockConfig([]));
+    expect(result).not.toHaveProperty('tools');
+  });
+
   it('compacts tool calls with before-last-message mode', async () => {
     const mw = contextChefMiddleware({
       contextWindow: 100_000,
@@ -781,4 +832,18 @@ describe('createCompressionAdapter', () => {
     expect(first).toHaveProperty('role');
     expect(first).toHaveProperty('content');
   });
+
+  it("passes the request's abort signal to compression", async () => {
+    const compress = vi.spyOn(Janitor.prototype, 'compress');
+    const mw = contextChefMiddleware({
+      contextWindow: 100_000,
+    });
+    const controller = new AbortController();
+    const ctx = createMockCtx({ signal: controller.signal });
+
+    await mw.onConfig?.(ctx, createMockConfig([{ role: 'user', content: 'hi' }]));
+
+    expect(compress).toHaveBeenCalledWith(expect.any(Array), { signal: controller.signal });
+    compress.mockRestore();
+  });
 });
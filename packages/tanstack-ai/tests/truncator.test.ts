@@ -214,4 +214,98 @@ describe('truncateToolResults', () => {
     expect(out).toContain('--- truncated');
     expect(out.length).toBeLessThan(longContent.length);
   });
+
+  it('summarizes via the storage-backed summarizer, passing parsed tool call arguments', async () => {
+    const stored = new Map<string, string>();
+    const storage = {
+      write: (filename: string, content: string) => {
+        stored.set(filename, content);
+      },
+      read: (filename: string) => stored.get(filename) ?? null,
+    };
+    const longContent = 'hit\n'.repeat(200);
+    const messages: ModelMessage[] = [
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          {
+            id: 'tc_1',
+            type: 'function',
+            function: { name: 'search', arguments: '{"q":"needle"}' },
+          },
+        ],
+      },
+      { role: 'tool', content: longContent, toolCallId: 'tc_1' },
+    ];
+    const summarizer = vi.fn(async () => 'hit #120 mentions the needle');
+
+    const result = await truncateToolResults(messages, { threshold: 50, storage, summarizer });
+
+    expect(summarizer).toHaveBeenCalledWith(longContent, {
+      toolName: 'search',
+      toolArgs: { q: 'needle' },
+    });
+    expect([...stored.values()]).toEqual([longContent]);
+    const out = result[1].content as string;
+    expect(out).toContain('context://vfs/');
+    expect(out).toContain('hit #120 mentions the needle');
+  });
+
+  it('applies a per-tool extraction strategy resolved via toolCallId', async () => {
+    const log = [
+      ...Array.from({ length: 100 }, (_, i) => `step ${i}`),
+      'FATAL: out of memory',
+      ...Array.from({ length: 100 }, (_, i) => `step ${100 + i}`),
+    ].join('\n');
+    const messages: ModelMessage[] = [
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'tc_1', type: 'function', function: { name: 'run', arguments: '{}' } }],
+      },
+      { role: 'tool', content: log, toolCallId: 'tc_1' },
+    ];
+
+    const result = await truncateToolResults(messages, {
+      threshold: 100,
+      tailChars: 200,
+      perTool: [{ name: 'run', strategy: 'log' }],
+    });
+
+    const out = result[1].content as string;
+    expect(out).toContain('log excerpt) ---');
+    expect(out).toContain('101\tFATAL: out of memory');
+  });
+
+  it('keeps each conversation within its sessionQuota', async () => {
+    const stored = new Map<string, string>();
+    const options = {
+      threshold: 100,
+      tailChars: 20,
+      sessionQuota: { maxFiles: 1 },
+      storage: {
+        write: (filename: string, content: string) => {
+          stored.set(filename, content);
+        },
+        read: (filename: string) => stored.get(filename) ?? null,
+        list: () => [...stored.keys()],
+        delete: (filename: string) => {
+          stored.delete(filename);
+        },
+      },
+    };
+    const toolMessage = (content: string): ModelMessage[] => [
+      { role: 'tool', content, toolCallId: 'tc_1' },
+    ];
+
+    await truncateToolResults(toolMessage('first '.repeat(50)), options, console, 'conv-a');
+    await truncateToolResults(toolMessage('other '.repeat(50)), options, console, 'conv-b');
+    await truncateToolResults(toolMessage('second '.repeat(50)), options, console, 'conv-a');
+
+    const keys = [...stored.keys()];
+    expect(keys.filter((f) => f.startsWith('conv-a/'))).toHaveLength(1);
+    expect(stored.get(keys.find((f) => f.startsWith('conv-a/')) ?? '')).toContain('second');
+    expect(keys.filter((f) => f.startsWith('conv-b/'))).toHaveLength(1);
+  });
 });